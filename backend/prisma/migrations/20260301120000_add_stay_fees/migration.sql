@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "extraBedFeeCents" INTEGER,
+ADD COLUMN     "linenFeeCents" INTEGER,
+ADD COLUMN     "petFeeCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "BookingPeriod" ADD COLUMN     "cleaningFeeCents" INTEGER,
+ADD COLUMN     "extraBedFeeCents" INTEGER,
+ADD COLUMN     "linenFeeCents" INTEGER,
+ADD COLUMN     "petFeeCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "pets" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "taxCategory" TEXT;
+
+-- CreateTable
+CREATE TABLE "TaxRule" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amountCents" INTEGER,
+    "rateBps" INTEGER,
+    "propertyId" INTEGER,
+    "propertyCategory" TEXT,
+    "seasonStartMonth" INTEGER,
+    "seasonEndMonth" INTEGER,
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TaxRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TaxRule_isActive_idx" ON "TaxRule"("isActive");
+
+-- CreateIndex
+CREATE INDEX "TaxRule_propertyId_idx" ON "TaxRule"("propertyId");
+
+-- AddForeignKey
+ALTER TABLE "TaxRule" ADD CONSTRAINT "TaxRule_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "BookingPeriod" ADD COLUMN     "allowedArrivalWeekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "allowedDepartureWeekdays" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
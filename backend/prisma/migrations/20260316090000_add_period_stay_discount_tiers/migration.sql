@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "BookingPeriod" ADD COLUMN     "stayDiscountTiers" JSONB;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "BookingWindowDiscount" (
+    "id" SERIAL NOT NULL,
+    "propertyId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "daysBefore" INTEGER NOT NULL,
+    "discountBps" INTEGER NOT NULL,
+    "stackingPolicy" TEXT NOT NULL DEFAULT 'best_of',
+    "validFrom" TIMESTAMP(3),
+    "validTo" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BookingWindowDiscount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BookingWindowDiscount_propertyId_isActive_idx" ON "BookingWindowDiscount"("propertyId", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "BookingWindowDiscount" ADD CONSTRAINT "BookingWindowDiscount_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "baseOccupancy" INTEGER,
+ADD COLUMN     "extraAdultNightlyCents" INTEGER,
+ADD COLUMN     "extraChildNightlyCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "BookingPeriod" ADD COLUMN     "baseOccupancy" INTEGER,
+ADD COLUMN     "extraAdultNightlyCents" INTEGER,
+ADD COLUMN     "extraChildNightlyCents" INTEGER;
@@ -0,0 +1,88 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "depositBps" INTEGER,
+ADD COLUMN     "balanceDueDaysBefore" INTEGER,
+ADD COLUMN     "balanceAutoCancelDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "schedule" TEXT NOT NULL DEFAULT 'full',
+ADD COLUMN     "paidCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "stripeCustomerId" TEXT,
+ADD COLUMN     "stripePaymentMethodId" TEXT;
+
+-- Backfill: existing Stripe payments were charged in full by Checkout
+UPDATE "Payment" SET "paidCents" = "amountCents"
+WHERE "provider" = 'stripe' AND "status" IN ('paid', 'refunded', 'partially_refunded');
+
+-- DropIndex (a refund spanning deposit + balance is one row per installment)
+DROP INDEX "Refund_cancellationId_key";
+
+-- DropIndex
+DROP INDEX "Refund_refundRequestId_key";
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "installmentId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PaymentInstallment" (
+    "id" SERIAL NOT NULL,
+    "paymentId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "sequence" INTEGER NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "dueAt" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'scheduled',
+    "stripeSessionId" TEXT,
+    "stripePaymentIntentId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "reminderSentAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "failureReason" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "refundedCents" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentInstallment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentInstallment_stripeSessionId_key" ON "PaymentInstallment"("stripeSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentInstallment_stripePaymentIntentId_key" ON "PaymentInstallment"("stripePaymentIntentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentInstallment_paymentId_sequence_key" ON "PaymentInstallment"("paymentId", "sequence");
+
+-- CreateIndex
+CREATE INDEX "PaymentInstallment_status_dueAt_idx" ON "PaymentInstallment"("status", "dueAt");
+
+-- CreateIndex
+CREATE INDEX "Refund_cancellationId_idx" ON "Refund"("cancellationId");
+
+-- CreateIndex
+CREATE INDEX "Refund_refundRequestId_idx" ON "Refund"("refundRequestId");
+
+-- AddForeignKey
+ALTER TABLE "PaymentInstallment" ADD CONSTRAINT "PaymentInstallment_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "Payment"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_installmentId_fkey" FOREIGN KEY ("installmentId") REFERENCES "PaymentInstallment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Default email templates (editable in the admin email templates screen)
+INSERT INTO "EmailTemplate" ("key", "subject", "body", "updatedAt") VALUES
+('customer_balance_reminder', 'Balance due for booking #{{bookingId}}',
+'Hi {{customerName}},
+
+The balance of {{amount}} {{currency}} for your stay at {{propertyTitle}} (booking #{{bookingId}}) is due on {{dueDate}}.
+It will be charged to the card used for your deposit. You can also pay it now: {{payUrl}}', CURRENT_TIMESTAMP),
+('customer_balance_payment_failed', 'Balance payment failed for booking #{{bookingId}}',
+'Hi {{customerName}},
+
+We could not charge the balance of {{amount}} {{currency}} for your stay at {{propertyTitle}} (booking #{{bookingId}}).
+Please pay it here to keep your booking: {{payUrl}}', CURRENT_TIMESTAMP),
+('customer_booking_cancelled_balance_unpaid', 'Booking #{{bookingId}} cancelled',
+'Hi {{customerName}},
+
+Your booking #{{bookingId}} at {{propertyTitle}} was cancelled because the balance of {{amount}} {{currency}} was not paid. The deposit is not refundable.', CURRENT_TIMESTAMP)
+ON CONFLICT ("key") DO NOTHING;
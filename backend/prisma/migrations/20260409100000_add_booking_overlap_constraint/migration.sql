@@ -0,0 +1,11 @@
+-- Double-booking protection (not expressible in schema.prisma).
+-- Two active (pending/confirmed) bookings of the same property may not overlap.
+-- Ranges are half-open [startDate, endDate), so back-to-back stays are allowed.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- AddConstraint
+ALTER TABLE "Booking" ADD CONSTRAINT "Booking_no_overlapping_stays"
+EXCLUDE USING gist (
+  "propertyId" WITH =,
+  tsrange("startDate", "endDate", '[)') WITH &&
+) WHERE ("status" IN ('pending', 'confirmed'));
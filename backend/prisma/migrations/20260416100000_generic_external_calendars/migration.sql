@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "ExternalProvider" ADD VALUE 'AIRBNB';
+ALTER TYPE "ExternalProvider" ADD VALUE 'VRBO';
+ALTER TYPE "ExternalProvider" ADD VALUE 'OTHER';
+
+-- DropIndex (any number of feeds per property and provider)
+DROP INDEX "ExternalCalendar_propertyId_provider_key";
+
+-- AlterTable (existing feeds are all Booking.com)
+ALTER TABLE "ExternalCalendar" ADD COLUMN "name" TEXT NOT NULL DEFAULT 'Booking.com';
+ALTER TABLE "ExternalCalendar" ALTER COLUMN "name" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "ExternalCalendar_propertyId_idx" ON "ExternalCalendar"("propertyId");
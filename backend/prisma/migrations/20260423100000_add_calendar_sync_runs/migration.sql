@@ -0,0 +1,44 @@
+-- AlterTable
+ALTER TABLE "ExternalCalendar" ADD COLUMN     "lastRunAt" TIMESTAMP(3),
+ADD COLUMN     "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "staleAlertHours" INTEGER NOT NULL DEFAULT 12,
+ADD COLUMN     "staleAlertSentAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ExternalCalendarSyncRun" (
+    "id" SERIAL NOT NULL,
+    "calendarId" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "httpStatus" INTEGER,
+    "eventsParsed" INTEGER NOT NULL DEFAULT 0,
+    "blocksAdded" INTEGER NOT NULL DEFAULT 0,
+    "blocksRemoved" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "durationMs" INTEGER NOT NULL,
+
+    CONSTRAINT "ExternalCalendarSyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExternalCalendarSyncRun_calendarId_startedAt_idx" ON "ExternalCalendarSyncRun"("calendarId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "ExternalCalendarSyncRun_startedAt_idx" ON "ExternalCalendarSyncRun"("startedAt");
+
+-- AddForeignKey
+ALTER TABLE "ExternalCalendarSyncRun" ADD CONSTRAINT "ExternalCalendarSyncRun_calendarId_fkey" FOREIGN KEY ("calendarId") REFERENCES "ExternalCalendar"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default email template (editable in the admin email templates screen)
+INSERT INTO "EmailTemplate" ("key", "subject", "body", "updatedAt") VALUES
+('admin_calendar_sync_stale', 'Calendar feed not syncing: {{calendarName}} ({{propertyTitle}})',
+'Hi {{adminName}},
+
+The {{provider}} calendar "{{calendarName}}" of {{propertyTitle}} has not synced successfully for more than {{staleAlertHours}} hours.
+Last successful sync: {{lastSuccessAt}}
+Consecutive failures: {{consecutiveFailures}}
+Last error: {{lastError}}
+
+Availability on the site may be out of date until this is fixed: {{adminUrl}}', CURRENT_TIMESTAMP)
+ON CONFLICT ("key") DO NOTHING;
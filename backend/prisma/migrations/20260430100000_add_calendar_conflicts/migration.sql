@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "CalendarConflict" (
+    "id" SERIAL NOT NULL,
+    "propertyId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "externalBlockId" INTEGER,
+    "bookingId" INTEGER,
+    "manualBlockId" INTEGER,
+    "provider" "ExternalProvider" NOT NULL,
+    "blockSummary" TEXT,
+    "overlapStart" TIMESTAMP(3) NOT NULL,
+    "overlapEnd" TIMESTAMP(3) NOT NULL,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notifiedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CalendarConflict_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CalendarConflict_propertyId_resolvedAt_idx" ON "CalendarConflict"("propertyId", "resolvedAt");
+
+-- CreateIndex
+CREATE INDEX "CalendarConflict_externalBlockId_idx" ON "CalendarConflict"("externalBlockId");
+
+-- CreateIndex
+CREATE INDEX "CalendarConflict_bookingId_idx" ON "CalendarConflict"("bookingId");
+
+-- CreateIndex
+CREATE INDEX "CalendarConflict_manualBlockId_idx" ON "CalendarConflict"("manualBlockId");
+
+-- AddForeignKey
+ALTER TABLE "CalendarConflict" ADD CONSTRAINT "CalendarConflict_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarConflict" ADD CONSTRAINT "CalendarConflict_externalBlockId_fkey" FOREIGN KEY ("externalBlockId") REFERENCES "ExternalBlock"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarConflict" ADD CONSTRAINT "CalendarConflict_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CalendarConflict" ADD CONSTRAINT "CalendarConflict_manualBlockId_fkey" FOREIGN KEY ("manualBlockId") REFERENCES "ManualBlock"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Default email template (editable in the admin email templates screen)
+INSERT INTO "EmailTemplate" ("key", "subject", "body", "updatedAt") VALUES
+('admin_calendar_conflict_detected', 'Double booking risk at {{propertyTitle}}',
+'Hi {{adminName}},
+
+Channel calendar imports overlap existing bookings or blocks at {{propertyTitle}}:
+
+{{conflicts}}
+
+Please resolve them with the guest(s) and the channel: {{adminUrl}}', CURRENT_TIMESTAMP)
+ON CONFLICT ("key") DO NOTHING;
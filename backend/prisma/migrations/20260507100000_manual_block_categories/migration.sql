@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ManualBlockCategory" AS ENUM ('OWNER_STAY', 'MAINTENANCE', 'CLOSURE', 'OTHER');
+
+-- AlterTable
+ALTER TABLE "ManualBlock" ADD COLUMN     "category" "ManualBlockCategory" NOT NULL DEFAULT 'OTHER',
+ADD COLUMN     "seriesId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ManualBlock_seriesId_idx" ON "ManualBlock"("seriesId");
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "IcalExportToken" (
+    "id" SERIAL NOT NULL,
+    "propertyId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "includeDirect" BOOLEAN NOT NULL DEFAULT true,
+    "includeManual" BOOLEAN NOT NULL DEFAULT true,
+    "includeExternal" BOOLEAN NOT NULL DEFAULT false,
+    "consumerProvider" "ExternalProvider",
+    "revokedAt" TIMESTAMP(3),
+    "rotatedAt" TIMESTAMP(3),
+    "lastAccessAt" TIMESTAMP(3),
+    "accessCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IcalExportToken_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "IcalExportAccess" (
+    "id" SERIAL NOT NULL,
+    "tokenId" INTEGER NOT NULL,
+    "accessedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "statusCode" INTEGER NOT NULL,
+    "ip" TEXT,
+    "userAgent" TEXT,
+
+    CONSTRAINT "IcalExportAccess_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IcalExportToken_token_key" ON "IcalExportToken"("token");
+
+-- CreateIndex
+CREATE INDEX "IcalExportToken_propertyId_idx" ON "IcalExportToken"("propertyId");
+
+-- CreateIndex
+CREATE INDEX "IcalExportAccess_tokenId_accessedAt_idx" ON "IcalExportAccess"("tokenId", "accessedAt");
+
+-- CreateIndex
+CREATE INDEX "IcalExportAccess_accessedAt_idx" ON "IcalExportAccess"("accessedAt");
+
+-- AddForeignKey
+ALTER TABLE "IcalExportToken" ADD CONSTRAINT "IcalExportToken_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "IcalExportAccess" ADD CONSTRAINT "IcalExportAccess_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "IcalExportToken"("id") ON DELETE CASCADE ON UPDATE CASCADE;
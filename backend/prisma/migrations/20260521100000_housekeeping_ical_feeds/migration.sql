@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "IcalExportKind" AS ENUM ('AVAILABILITY', 'HOUSEKEEPING');
+
+-- AlterTable
+ALTER TABLE "IcalExportToken" ADD COLUMN     "kind" "IcalExportKind" NOT NULL DEFAULT 'AVAILABILITY',
+ALTER COLUMN "propertyId" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "arrivalTime" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "gapDiscountBps" INTEGER,
+ADD COLUMN     "gapFillEnabled" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "CancellationPolicy" (
+    "id" SERIAL NOT NULL,
+    "key" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "tiers" JSONB NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CancellationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CancellationPolicy_key_key" ON "CancellationPolicy"("key");
+
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "cancellationPolicyId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "BookingPeriod" ADD COLUMN "cancellationPolicyId" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN "cancellationPolicySnapshot" JSONB;
+
+-- AddForeignKey
+ALTER TABLE "Property" ADD CONSTRAINT "Property_cancellationPolicyId_fkey" FOREIGN KEY ("cancellationPolicyId") REFERENCES "CancellationPolicy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BookingPeriod" ADD CONSTRAINT "BookingPeriod_cancellationPolicyId_fkey" FOREIGN KEY ("cancellationPolicyId") REFERENCES "CancellationPolicy"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed the standard policies; "moderate" is the former hardcoded table and stays the default
+INSERT INTO "CancellationPolicy" ("key", "name", "description", "tiers", "isDefault", "updatedAt") VALUES
+('flexible', 'Flexible', 'Full refund up to 14 days before check-in.',
+ '[{"minDaysBefore":14,"refundBps":10000,"voucherBps":0},{"minDaysBefore":7,"refundBps":5000,"voucherBps":0},{"minDaysBefore":0,"refundBps":0,"voucherBps":5000}]',
+ false, CURRENT_TIMESTAMP),
+('moderate', 'Moderate', 'Full refund up to 60 days before check-in.',
+ '[{"minDaysBefore":60,"refundBps":10000,"voucherBps":0},{"minDaysBefore":30,"refundBps":5000,"voucherBps":0},{"minDaysBefore":15,"refundBps":2500,"voucherBps":0},{"minDaysBefore":0,"refundBps":0,"voucherBps":8000}]',
+ true, CURRENT_TIMESTAMP),
+('strict', 'Strict', 'Full refund up to 90 days before check-in.',
+ '[{"minDaysBefore":90,"refundBps":10000,"voucherBps":0},{"minDaysBefore":60,"refundBps":5000,"voucherBps":0},{"minDaysBefore":0,"refundBps":0,"voucherBps":5000}]',
+ false, CURRENT_TIMESTAMP),
+('non_refundable', 'Non-refundable', 'No refund or voucher after booking.',
+ '[{"minDaysBefore":0,"refundBps":0,"voucherBps":0}]',
+ false, CURRENT_TIMESTAMP);
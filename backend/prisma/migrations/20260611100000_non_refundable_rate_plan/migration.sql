@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "RatePlan" AS ENUM ('standard', 'non_refundable');
+
+-- AlterTable
+ALTER TABLE "Booking" ADD COLUMN     "ratePlan" "RatePlan" NOT NULL DEFAULT 'standard';
+
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN     "nonRefundableDiscountBps" INTEGER;
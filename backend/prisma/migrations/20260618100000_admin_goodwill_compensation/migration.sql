@@ -0,0 +1,50 @@
+-- AlterEnum
+ALTER TYPE "RefundSource" ADD VALUE 'admin_goodwill';
+
+-- AlterTable
+ALTER TABLE "Refund" ADD COLUMN     "goodwillCompensationId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "GoodwillCompensation" (
+    "id" SERIAL NOT NULL,
+    "bookingId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'eur',
+    "reason" TEXT NOT NULL,
+    "createdByUserId" INTEGER,
+    "creditVoucherId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GoodwillCompensation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GoodwillCompensation_creditVoucherId_key" ON "GoodwillCompensation"("creditVoucherId");
+
+-- CreateIndex
+CREATE INDEX "GoodwillCompensation_bookingId_createdAt_idx" ON "GoodwillCompensation"("bookingId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Refund_goodwillCompensationId_idx" ON "Refund"("goodwillCompensationId");
+
+-- AddForeignKey
+ALTER TABLE "GoodwillCompensation" ADD CONSTRAINT "GoodwillCompensation_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GoodwillCompensation" ADD CONSTRAINT "GoodwillCompensation_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GoodwillCompensation" ADD CONSTRAINT "GoodwillCompensation_creditVoucherId_fkey" FOREIGN KEY ("creditVoucherId") REFERENCES "CreditVoucher"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed: customer email for goodwill vouchers
+INSERT INTO "EmailTemplate" ("key", "subject", "body", "updatedAt") VALUES
+('customer_goodwill_voucher_issued', 'A {{amount}} {{currency}} credit for your stay at {{propertyTitle}}',
+'Hi {{customerName}},
+
+We have added a {{amount}} {{currency}} credit voucher to your account for booking #{{bookingId}} at {{propertyTitle}}.
+
+{{reason}}
+
+The credit is applied automatically at checkout when you choose to use your credits on your next booking.', CURRENT_TIMESTAMP)
+ON CONFLICT ("key") DO NOTHING;
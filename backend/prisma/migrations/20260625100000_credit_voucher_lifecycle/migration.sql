@@ -0,0 +1,63 @@
+-- AlterTable
+ALTER TABLE "CreditVoucher" ADD COLUMN     "expiryReminderSentAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "CreditVoucherTransaction" (
+    "id" SERIAL NOT NULL,
+    "voucherId" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "balanceAfterCents" INTEGER NOT NULL,
+    "bookingId" INTEGER,
+    "note" TEXT,
+    "createdByUserId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CreditVoucherTransaction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CreditVoucher_status_expiresAt_idx" ON "CreditVoucher"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "CreditVoucherTransaction_voucherId_createdAt_idx" ON "CreditVoucherTransaction"("voucherId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CreditVoucherTransaction_bookingId_idx" ON "CreditVoucherTransaction"("bookingId");
+
+-- AddForeignKey
+ALTER TABLE "CreditVoucherTransaction" ADD CONSTRAINT "CreditVoucherTransaction_voucherId_fkey" FOREIGN KEY ("voucherId") REFERENCES "CreditVoucher"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditVoucherTransaction" ADD CONSTRAINT "CreditVoucherTransaction_bookingId_fkey" FOREIGN KEY ("bookingId") REFERENCES "Booking"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CreditVoucherTransaction" ADD CONSTRAINT "CreditVoucherTransaction_createdByUserId_fkey" FOREIGN KEY ("createdByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: vouchers issued without an expiry get a 365-day validity, but never less than
+-- 60 days from now so every holder still gets the 30-day reminder.
+-- The 365 days are fixed here: VOUCHER_VALIDITY_DAYS only applies to vouchers issued by the
+-- app after this migration. Adjust expiresAt from the admin voucher screen if it differs.
+UPDATE "CreditVoucher"
+SET "expiresAt" = GREATEST("createdAt" + INTERVAL '365 days', CURRENT_TIMESTAMP + INTERVAL '60 days')
+WHERE "expiresAt" IS NULL AND "status" = 'active';
+
+-- Backfill: open each existing voucher's ledger
+INSERT INTO "CreditVoucherTransaction" ("voucherId", "kind", "amountCents", "balanceAfterCents", "bookingId", "note", "createdAt")
+SELECT v."id", 'issue', v."issuedCents", v."issuedCents", NULL, 'Issued before the voucher ledger existed', v."createdAt"
+FROM "CreditVoucher" v;
+
+INSERT INTO "CreditVoucherTransaction" ("voucherId", "kind", "amountCents", "balanceAfterCents", "bookingId", "note", "createdAt")
+SELECT v."id", 'consume', v."remainingCents" - v."issuedCents", v."remainingCents", NULL, 'Used before the voucher ledger existed', CURRENT_TIMESTAMP
+FROM "CreditVoucher" v
+WHERE v."remainingCents" < v."issuedCents";
+
+-- Seed: expiry reminder email
+INSERT INTO "EmailTemplate" ("key", "subject", "body", "updatedAt") VALUES
+('customer_voucher_expiry_reminder', 'Your {{amount}} {{currency}} credit expires on {{expiresOn}}',
+'Hi {{customerName}},
+
+You still have {{amount}} {{currency}} of credit (voucher #{{voucherId}}) on your account.
+
+It expires on {{expiresOn}}. Book a stay before then and choose to use your credits at checkout.', CURRENT_TIMESTAMP)
+ON CONFLICT ("key") DO NOTHING;
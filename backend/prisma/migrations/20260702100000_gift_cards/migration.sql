@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "GiftCard" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'eur',
+    "status" TEXT NOT NULL DEFAULT 'pending_payment',
+    "purchaserName" TEXT NOT NULL,
+    "purchaserEmail" TEXT NOT NULL,
+    "recipientName" TEXT NOT NULL,
+    "recipientEmail" TEXT NOT NULL,
+    "message" TEXT,
+    "deliverAt" TIMESTAMP(3) NOT NULL,
+    "stripeSessionId" TEXT,
+    "stripePaymentIntentId" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "redeemedAt" TIMESTAMP(3),
+    "redeemedByUserId" INTEGER,
+    "creditVoucherId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GiftCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftCard_code_key" ON "GiftCard"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftCard_stripeSessionId_key" ON "GiftCard"("stripeSessionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GiftCard_creditVoucherId_key" ON "GiftCard"("creditVoucherId");
+
+-- CreateIndex
+CREATE INDEX "GiftCard_status_deliverAt_idx" ON "GiftCard"("status", "deliverAt");
+
+-- AddForeignKey
+ALTER TABLE "GiftCard" ADD CONSTRAINT "GiftCard_redeemedByUserId_fkey" FOREIGN KEY ("redeemedByUserId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GiftCard" ADD CONSTRAINT "GiftCard_creditVoucherId_fkey" FOREIGN KEY ("creditVoucherId") REFERENCES "CreditVoucher"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Seed: gift card emails (purchaser receipt + recipient delivery)
+INSERT INTO "EmailTemplate" ("key", "subject", "body", "updatedAt") VALUES
+('gift_card_purchase_confirmation', 'Your {{amount}} {{currency}} gift card for {{recipientName}}',
+'Hi {{purchaserName}},
+
+Thank you for your purchase. Your {{amount}} {{currency}} gift card will be emailed to {{recipientName}} ({{recipientEmail}}) on {{deliverOn}}.', CURRENT_TIMESTAMP),
+('gift_card_delivery', '{{purchaserName}} sent you a {{amount}} {{currency}} gift card',
+'Hi {{recipientName}},
+
+{{purchaserName}} has sent you a {{amount}} {{currency}} gift card for a stay at our villas.
+
+{{message}}
+
+Your gift card code: {{code}}
+
+Sign in (or create an account) and redeem the code from your dashboard: {{redeemUrl}}
+The credit is applied at checkout when you choose to use your credits.', CURRENT_TIMESTAMP)
+ON CONFLICT ("key") DO NOTHING;
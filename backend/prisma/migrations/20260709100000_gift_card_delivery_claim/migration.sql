@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "GiftCard" ADD COLUMN     "deliveryClaimedAt" TIMESTAMP(3);
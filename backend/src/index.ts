@@ -6,7 +6,8 @@
  * - Applies global middleware (security, parsing, logging)
  * - Mounts all API routes
  * - Mounts Stripe webhook with raw body support
- * - Starts background jobs (cron-like tasks)
+ * - Starts background jobs (cron-like tasks: pending booking expiry, balance collection,
+ *   voucher expiry, gift card delivery)
  * - Starts Booking.com iCal sync loop
  */
 
@@ -29,16 +30,27 @@ import authRoutes from "./routes/auth.routes.js";
 import adminRoutes from "./routes/admin.routes.js";
 import adminEmailTemplatesRouter from "./routes/admin.email.routes.js";
 import { adminPeriodsRouter } from "./routes/adminPeriods.routes.js";
+import { adminTaxRouter } from "./routes/admin.tax.routes.js";
+import { adminBookingWindowRouter } from "./routes/admin.bookingwindow.routes.js";
+import { adminPromoRouter } from "./routes/admin.promo.routes.js";
+import { adminCancellationPoliciesRouter } from "./routes/admin.cancellationpolicy.routes.js";
 import { adminExternalCalendarsRouter } from "./routes/admin.externalcalendar.route.js";
+import { adminManualBlocksRouter } from "./routes/admin.manualblock.routes.js";
+import { adminIcalExportsRouter } from "./routes/admin.icalexport.routes.js";
 import { paymentsRouter } from "./routes/payment.routes.js";
 
 // Jobs
-import { syncBookingComForProperty } from "./services/bookingComIcalSync.js";
+import { syncExternalCalendar } from "./services/externalIcalSync.js";
 import { startExpirePendingBookingsJob } from "./jobs/expirePendingBookings.js";
+import { startPaymentScheduleJob } from "./jobs/paymentSchedule.js";
+import { startCalendarSyncHealthJob } from "./jobs/calendarSyncHealth.js";
+import { startVoucherExpiryJob } from "./jobs/voucherExpiry.js";
+import { startGiftCardDeliveryJob } from "./jobs/giftCardDelivery.js";
 import { adminReviewsRouter, propertyReviewsRouter, reviewsRouter } from "./routes/review.routes.js";
 import { publicStayGuideRouter } from "./routes/public.stay-guide.routes.js";
 import { adminStayGuideRouter } from "./routes/admin.stayguide.routes.js";
 import { refundsRouter } from "./routes/payments.refunds.routes.js";
+import { adminGiftCardsRouter, giftCardsRouter } from "./routes/giftCard.routes.js";
 import { publicIcalExportRouter } from "./routes/public.calendar.export.route.js";
 
 dotenv.config();
@@ -181,6 +193,7 @@ app.use("/api/bookings", bookingRouter);
  */
 app.use("/api/payments", paymentsRouter);
 app.use("/api/payments", refundsRouter);
+app.use("/api/gift-cards", giftCardsRouter);
 
 app.use("/api/auth", authRoutes);
 app.use("/api/customer", customerRouter);
@@ -190,7 +203,14 @@ app.use("/api", publicIcalExportRouter);
 app.use("/api/admin", adminRoutes);
 app.use("/api/admin", adminEmailTemplatesRouter);
 app.use("/api/admin", adminExternalCalendarsRouter);
+app.use("/api/admin", adminManualBlocksRouter);
+app.use("/api/admin", adminIcalExportsRouter);
 app.use("/api/admin", adminPeriodsRouter);
+app.use("/api/admin", adminTaxRouter);
+app.use("/api/admin", adminBookingWindowRouter);
+app.use("/api/admin", adminPromoRouter);
+app.use("/api/admin", adminCancellationPoliciesRouter);
+app.use("/api/admin", adminGiftCardsRouter);
 app.use("/api/reviews", reviewsRouter);
 app.use("/api/admin/reviews", adminReviewsRouter);
 app.use("/api", propertyReviewsRouter);
@@ -211,10 +231,14 @@ app.use(errorHandler);
 app.listen(PORT, "0.0.0.0", () => {
   console.log(`Backend running on port ${PORT}`);
   startExpirePendingBookingsJob();
+  startPaymentScheduleJob();
+  startCalendarSyncHealthJob();
+  startVoucherExpiryJob();
+  startGiftCardDeliveryJob();
 });
 
 /* -------------------------------------------------------------------------- */
-/*                     BOOKING.COM ICAL SYNC (EVERY 15 MIN)                    */
+/*                    CHANNEL ICAL SYNC (EVERY 15 MIN)                        */
 /* -------------------------------------------------------------------------- */
 
 let syncRunning = false;
@@ -225,15 +249,15 @@ setInterval(async () => {
 
   try {
     const calendars = await prisma.externalCalendar.findMany({
-      where: { provider: "BOOKING_COM", isEnabled: true },
-      select: { propertyId: true },
+      where: { isEnabled: true },
+      select: { id: true, propertyId: true },
     });
 
     for (const c of calendars) {
       try {
-        await syncBookingComForProperty(c.propertyId);
+        await syncExternalCalendar(c.id);
       } catch (e) {
-        console.error("iCal sync error", c.propertyId, e);
+        console.error("iCal sync error", c.propertyId, c.id, e);
       }
     }
   } finally {
@@ -0,0 +1,60 @@
+import cron from "node-cron";
+import { subDays } from "date-fns";
+import { prisma } from "../prismaClient.js";
+import {
+  SYNC_RUN_RETENTION_DAYS,
+  isCalendarStale,
+  sendStaleCalendarAlert,
+} from "../services/externalIcalSync.js";
+import { ICAL_ACCESS_RETENTION_DAYS } from "../services/icalExport.service.js";
+
+/**
+ * Watch the health of imported channel calendars (services/externalIcalSync.ts).
+ *
+ * Strategy:
+ * - Run every hour (feeds themselves are synced every 15 min from index.ts)
+ * - Alert admins once per outage when a feed has not synced successfully
+ *   for its ExternalCalendar.staleAlertHours
+ * - Prune sync run history older than SYNC_RUN_RETENTION_DAYS and export feed access
+ *   logs older than ICAL_ACCESS_RETENTION_DAYS
+ */
+
+async function runCalendarSyncHealth(now: Date) {
+  // 1) Stale feed alerts
+  const candidates = await prisma.externalCalendar.findMany({
+    where: { isEnabled: true, staleAlertSentAt: null },
+    select: { id: true, isEnabled: true, lastSyncAt: true, createdAt: true, staleAlertHours: true },
+  });
+
+  for (const c of candidates) {
+    if (!isCalendarStale(c, now)) continue;
+    await sendStaleCalendarAlert(c.id, now);
+  }
+
+  // 2) Retention
+  await prisma.externalCalendarSyncRun.deleteMany({
+    where: { startedAt: { lt: subDays(now, SYNC_RUN_RETENTION_DAYS) } },
+  });
+
+  await prisma.icalExportAccess.deleteMany({
+    where: { accessedAt: { lt: subDays(now, ICAL_ACCESS_RETENTION_DAYS) } },
+  });
+}
+
+export function startCalendarSyncHealthJob() {
+  let running = false;
+
+  // Every hour
+  cron.schedule("30 * * * *", async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await runCalendarSyncHealth(new Date());
+    } catch (e) {
+      console.error("calendar sync health job failed", e);
+    } finally {
+      running = false;
+    }
+  });
+}
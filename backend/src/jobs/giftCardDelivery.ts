@@ -0,0 +1,46 @@
+import cron from "node-cron";
+import { prisma } from "../prismaClient.js";
+import { deliverGiftCard } from "../services/giftCard.service.js";
+
+/**
+ * Gift card delivery (services/giftCard.service.ts).
+ *
+ * Strategy:
+ * - Run every hour
+ * - Paid cards whose deliverAt has come get their code emailed to the recipient
+ * - deliverGiftCard claims each card before emailing, so overlapping runs (and the
+ *   Stripe webhook) are harmless
+ */
+
+const BATCH_SIZE = 100;
+
+async function runGiftCardDelivery(now: Date) {
+  const due = await prisma.giftCard.findMany({
+    where: { status: "paid", deliverAt: { lte: now } },
+    select: { id: true },
+    orderBy: { deliverAt: "asc" },
+    take: BATCH_SIZE,
+  });
+
+  for (const card of due) {
+    await deliverGiftCard(card.id);
+  }
+}
+
+export function startGiftCardDeliveryJob() {
+  let running = false;
+
+  // Every hour, at quarter past
+  cron.schedule("15 * * * *", async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await runGiftCardDelivery(new Date());
+    } catch (e) {
+      console.error("gift card delivery job failed", e);
+    } finally {
+      running = false;
+    }
+  });
+}
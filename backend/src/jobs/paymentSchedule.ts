@@ -0,0 +1,106 @@
+import cron from "node-cron";
+import { addDays, subDays } from "date-fns";
+import { prisma } from "../prismaClient.js";
+import {
+  BALANCE_REMINDER_DAYS_BEFORE_DUE,
+  autoCancelForUnpaidBalance,
+  chargeInstallmentOffSession,
+  sendBalanceReminder,
+} from "../services/paymentSchedule.service.js";
+
+/**
+ * Collect scheduled balances of deposit bookings (services/paymentSchedule.service.ts).
+ *
+ * Strategy:
+ * - Run every hour
+ * - Only installments of confirmed bookings are touched
+ * - Each step re-checks the installment state, so overlapping runs are harmless
+ *
+ * Steps:
+ * 1) reminder email BALANCE_REMINDER_DAYS_BEFORE_DUE days before the due date (once)
+ * 2) charge due balances off-session with the card saved at deposit time
+ * 3) auto-cancel bookings whose balance is still unpaid Property.balanceAutoCancelDays
+ *    after the due date (deposit kept)
+ */
+
+const BATCH_SIZE = 100;
+
+async function runPaymentSchedule(now: Date) {
+  const confirmedBooking = { payment: { booking: { status: "confirmed" } } };
+
+  // 1) Reminders
+  const toRemind = await prisma.paymentInstallment.findMany({
+    where: {
+      kind: "balance",
+      status: "scheduled",
+      reminderSentAt: null,
+      dueAt: { gt: now, lte: addDays(now, BALANCE_REMINDER_DAYS_BEFORE_DUE) },
+      ...confirmedBooking,
+    },
+    select: { id: true },
+    take: BATCH_SIZE,
+  });
+
+  for (const i of toRemind) {
+    await sendBalanceReminder(i.id);
+  }
+
+  // 2) Due charges
+  const due = await prisma.paymentInstallment.findMany({
+    where: { kind: "balance", status: "scheduled", dueAt: { lte: now }, ...confirmedBooking },
+    select: { id: true },
+    orderBy: { dueAt: "asc" },
+    take: BATCH_SIZE,
+  });
+
+  for (const i of due) {
+    await chargeInstallmentOffSession(i.id);
+  }
+
+  // 3) Auto-cancel (per property grace period)
+  const unpaid = await prisma.paymentInstallment.findMany({
+    where: {
+      kind: "balance",
+      status: { in: ["scheduled", "failed"] },
+      dueAt: { lte: now },
+      payment: {
+        booking: { status: "confirmed", property: { balanceAutoCancelDays: { not: null } } },
+      },
+    },
+    select: {
+      id: true,
+      dueAt: true,
+      payment: {
+        select: {
+          booking: { select: { property: { select: { balanceAutoCancelDays: true } } } },
+        },
+      },
+    },
+    take: BATCH_SIZE,
+  });
+
+  for (const i of unpaid) {
+    const graceDays = i.payment.booking.property.balanceAutoCancelDays ?? 0;
+    if (i.dueAt > subDays(now, graceDays)) continue;
+
+    await autoCancelForUnpaidBalance(i.id);
+  }
+}
+
+export function startPaymentScheduleJob() {
+  let running = false;
+
+  // Every hour
+  cron.schedule("0 * * * *", async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await runPaymentSchedule(new Date());
+    } catch (e) {
+      console.error("payment schedule job failed", e);
+    } finally {
+      running = false;
+    }
+  });
+}
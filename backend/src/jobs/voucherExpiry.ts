@@ -0,0 +1,70 @@
+import cron from "node-cron";
+import { addDays } from "date-fns";
+import { prisma } from "../prismaClient.js";
+import {
+  VOUCHER_EXPIRY_REMINDER_DAYS_BEFORE,
+  expireCreditVoucher,
+  sendVoucherExpiryReminder,
+} from "../services/credits.service.js";
+
+/**
+ * Credit voucher expiry (services/credits.service.ts).
+ *
+ * Strategy:
+ * - Run every hour
+ * - Each step re-checks the voucher state, so overlapping runs are harmless
+ *
+ * Steps:
+ * 1) reminder email VOUCHER_EXPIRY_REMINDER_DAYS_BEFORE days before expiresAt (once)
+ * 2) active vouchers past expiresAt -> "expired" (remaining balance forfeited, ledger entry)
+ */
+
+const BATCH_SIZE = 100;
+
+async function runVoucherExpiry(now: Date) {
+  // 1) Reminders
+  const toRemind = await prisma.creditVoucher.findMany({
+    where: {
+      status: "active",
+      remainingCents: { gt: 0 },
+      expiryReminderSentAt: null,
+      expiresAt: { gt: now, lte: addDays(now, VOUCHER_EXPIRY_REMINDER_DAYS_BEFORE) },
+    },
+    select: { id: true },
+    take: BATCH_SIZE,
+  });
+
+  for (const v of toRemind) {
+    await sendVoucherExpiryReminder(v.id);
+  }
+
+  // 2) Expiry
+  const expired = await prisma.creditVoucher.findMany({
+    where: { status: "active", expiresAt: { lte: now } },
+    select: { id: true },
+    orderBy: { expiresAt: "asc" },
+    take: BATCH_SIZE,
+  });
+
+  for (const v of expired) {
+    await expireCreditVoucher(v.id, now);
+  }
+}
+
+export function startVoucherExpiryJob() {
+  let running = false;
+
+  // Every hour, at half past (balance collection runs on the hour)
+  cron.schedule("30 * * * *", async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await runVoucherExpiry(new Date());
+    } catch (e) {
+      console.error("voucher expiry job failed", e);
+    } finally {
+      running = false;
+    }
+  });
+}
@@ -1,4 +1,14 @@
 import type { Request, Response, NextFunction } from "express";
+import { BOOKING_OVERLAP_CONSTRAINT } from "../services/availability.service.js";
+
+/**
+ * Postgres exclusion_violation (SQLSTATE 23P01) raised by the Booking overlap constraint.
+ * Prisma has no dedicated error code for it, so the raw database error text is matched.
+ */
+function isBookingOverlapViolation(err: any) {
+  const text = `${err?.message ?? ""} ${err?.meta?.message ?? ""}`;
+  return text.includes(BOOKING_OVERLAP_CONSTRAINT) || text.includes("23P01");
+}
 
 export function errorHandler(
   err: any,
@@ -6,8 +16,14 @@ export function errorHandler(
   res: Response,
   next: NextFunction
 ) {
+  if (isBookingOverlapViolation(err)) {
+    return res.status(409).json({
+      message: "These dates are not available for this property",
+    });
+  }
+
   console.error(err);
   res.status(err.status || 500).json({
     message: err.message || "Internal server error",
   });
-}
\ No newline at end of file
+}
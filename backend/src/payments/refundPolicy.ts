@@ -1,21 +1,28 @@
 /**
  * refundPolicy.ts
  *
- * Centralized cancellation refund policy.
+ * Centralized cancellation refund maths.
  *
  * Design goals:
  * - Backend is the source of truth for policy selection and calculation.
  * - Refund policy is deterministic and can be safely previewed.
  * - Use "basis points" (bps) to avoid floating point drift (1% = 100 bps).
  *
- * Policy rules:
+ * Policies are stored per property / period (CancellationPolicy) and snapshotted on
+ * each booking (services/cancellationPolicy.service.ts). This file only holds the pure
+ * tier maths plus the legacy table, which still applies to bookings made before
+ * policies were stored (no Booking.cancellationPolicySnapshot):
  * - 60+ days: 100% refund
  * - 30–59 days: 50% refund
  * - 15–29 days: 25% refund
  * - <15 days: 0% refund + 80% voucher credit
+ *
+ * Bookings on the non-refundable rate plan (Booking.ratePlan) get no refund or voucher,
+ * whatever policy their villa has.
  */
 
-export type RefundTierKey = "60_plus" | "30_to_59" | "15_to_29" | "lt_15";
+// e.g. "60_plus", "30_to_59", "lt_15" (derived from the tier bounds)
+export type RefundTierKey = string;
 
 /**
  * Refund tier definition.
@@ -33,7 +40,29 @@ export type RefundTier = {
 };
 
 /**
- * Canonical refund policy snapshot.
+ * Tier as configured on CancellationPolicy.tiers (bounds, labels and keys are derived).
+ */
+export type RefundTierInput = {
+  minDaysBefore: number;
+  refundBps: number;
+  voucherBps: number;
+  description?: string | null;
+};
+
+/**
+ * Cancellation terms of one booking (Booking.cancellationPolicySnapshot).
+ * This is safe to return to the frontend for display.
+ */
+export type CancellationPolicySnapshot = {
+  policyId: number | null;
+  key: string;
+  name: string;
+  description: string | null;
+  tiers: RefundTier[];
+};
+
+/**
+ * Legacy refund tier table (same terms as the seeded "moderate" policy).
  * This is safe to return to the frontend for display.
  */
 export const REFUND_POLICY: RefundTier[] = [
@@ -75,22 +104,122 @@ export const REFUND_POLICY: RefundTier[] = [
   },
 ];
 
+/**
+ * Terms of bookings made before policies were stored.
+ */
+export const LEGACY_CANCELLATION_POLICY: CancellationPolicySnapshot = {
+  policyId: null,
+  key: "legacy",
+  name: "Standard",
+  description: null,
+  tiers: REFUND_POLICY,
+};
+
+/**
+ * Terms of the non-refundable rate plan (snapshotted instead of the villa policy).
+ */
+export const NON_REFUNDABLE_RATE_POLICY: CancellationPolicySnapshot = {
+  policyId: null,
+  key: "non_refundable_rate",
+  name: "Non-refundable rate",
+  description: "Discounted rate: no refund or voucher if you cancel.",
+  tiers: [
+    {
+      key: "0_plus",
+      minDaysBefore: 0,
+      maxDaysBefore: null,
+      label: "Any time before check-in",
+      description: "No refund.",
+      refundBps: 0,
+      voucherBps: 0,
+    },
+  ],
+};
+
+function pct(bps: number) {
+  return String(Number((bps / 100).toFixed(2))); // 5000 -> "50", 1250 -> "12.5"
+}
+
+function defaultTierDescription(refundBps: number, voucherBps: number) {
+  if (refundBps >= 10_000) return "Full refund to your original payment method.";
+
+  if (refundBps > 0) {
+    return voucherBps > 0
+      ? `${pct(refundBps)}% refund to your original payment method plus ${pct(voucherBps)}% voucher credit.`
+      : `${pct(refundBps)}% refund to your original payment method.`;
+  }
+
+  return voucherBps > 0
+    ? `No cash refund. ${pct(voucherBps)}% voucher credit for future bookings.`
+    : "No refund.";
+}
+
+/**
+ * Expands configured tiers into full RefundTier rows, highest first:
+ * maxDaysBefore = next higher tier's minDaysBefore - 1, key/label derived from the bounds,
+ * description defaulted from the percentages.
+ */
+export function buildRefundTiers(input: RefundTierInput[]): RefundTier[] {
+  const sorted = [...input].sort((a, b) => b.minDaysBefore - a.minDaysBefore);
+
+  return sorted.map((t, i) => {
+    const min = Math.max(0, Math.floor(t.minDaysBefore));
+    const max = i === 0 ? null : sorted[i - 1].minDaysBefore - 1;
+
+    const key = max === null ? `${min}_plus` : min === 0 ? `lt_${max + 1}` : `${min}_to_${max}`;
+    const label =
+      max === null
+        ? min === 0
+          ? "Any time before check-in"
+          : `${min}+ days before check-in`
+        : min === 0
+          ? `Less than ${max + 1} days before check-in`
+          : `${min}–${max} days before check-in`;
+
+    return {
+      key,
+      minDaysBefore: min,
+      maxDaysBefore: max,
+      label,
+      description: t.description?.trim() || defaultTierDescription(t.refundBps, t.voucherBps),
+      refundBps: t.refundBps,
+      voucherBps: t.voucherBps,
+    };
+  });
+}
+
+/**
+ * Cancellation terms of a booking: the non-refundable rate plan always wins, otherwise
+ * Booking.cancellationPolicySnapshot (Json); bookings without one get the legacy terms.
+ */
+export function bookingCancellationPolicy(booking: {
+  cancellationPolicySnapshot: unknown;
+  ratePlan?: string | null;
+}): CancellationPolicySnapshot {
+  if (booking.ratePlan === "non_refundable") return NON_REFUNDABLE_RATE_POLICY;
+
+  const s = booking.cancellationPolicySnapshot as CancellationPolicySnapshot | null;
+  if (!s || !Array.isArray(s.tiers) || s.tiers.length === 0) return LEGACY_CANCELLATION_POLICY;
+  return s;
+}
+
 /**
  * Returns the policy tier for a given daysBefore value.
  * - daysBefore is clamped at 0 (negative means booking already started/expired).
+ * - tiers defaults to the legacy table
  */
-export function getRefundTier(daysBefore: number): RefundTier {
+export function getRefundTier(daysBefore: number, tiers: RefundTier[] = REFUND_POLICY): RefundTier {
   const d = Math.max(0, Math.floor(daysBefore));
 
   // Highest tier first ensures correct matching when maxDaysBefore is null.
-  for (const tier of REFUND_POLICY) {
+  for (const tier of tiers) {
     const minOk = d >= tier.minDaysBefore;
     const maxOk = tier.maxDaysBefore === null ? true : d <= tier.maxDaysBefore;
     if (minOk && maxOk) return tier;
   }
 
-  // Defensive fallback (should never happen due to lt_15 tier).
-  return REFUND_POLICY[REFUND_POLICY.length - 1];
+  // Defensive fallback (policies always have a 0-day tier).
+  return tiers[tiers.length - 1];
 }
 
 /**
@@ -98,11 +227,15 @@ export function getRefundTier(daysBefore: number): RefundTier {
  * - bookingTotalCents must be an integer
  * - Uses tier bps for stable math
  */
-export function computeRefundOutcome(daysBefore: number, bookingTotalCents: number): {
+export function computeRefundOutcome(
+  daysBefore: number,
+  bookingTotalCents: number,
+  tiers: RefundTier[] = REFUND_POLICY
+): {
   refundCents: number;
   voucherCents: number;
 } {
-  const tier = getRefundTier(daysBefore);
+  const tier = getRefundTier(daysBefore, tiers);
 
   const total = Math.max(0, Math.floor(bookingTotalCents));
 
@@ -0,0 +1,163 @@
+import { Router } from "express";
+import { prisma } from "../prismaClient.js";
+import { validateBody } from "../midleware/validateBody.js";
+import { authMiddleware } from "../midleware/authMiddleware.js";
+import { requireRole } from "../midleware/requireRole.js";
+import {
+  createBookingWindowDiscountSchema,
+  updateBookingWindowDiscountSchema,
+} from "@eagle-villas/shared/schemas/bookingWindow.schema";
+import { parseDateOnlyToUtcMidnight } from "../utils/dateOnly.js";
+
+export const adminBookingWindowRouter = Router();
+
+/**
+ * ADMIN BOOKING WINDOW ROUTER
+ * ---------------------------
+ * Early-bird and last-minute discount rules per property.
+ *
+ * Rules are evaluated by the pricing engine at quote/booking time
+ * (services/bookingWindow.service.ts). The applied rule is snapshotted on
+ * Booking.priceBreakdown, so editing a rule never changes existing bookings.
+ */
+
+/**
+ * YYYY-MM-DD validity bounds -> UTC midnight Dates.
+ * undefined -> untouched (PATCH semantics), null -> cleared.
+ */
+function toValidityDates(body: { validFrom?: string | null; validTo?: string | null }) {
+  const toDate = (v: string | null | undefined) =>
+    v === undefined ? undefined : v === null ? null : parseDateOnlyToUtcMidnight(v);
+
+  return { validFrom: toDate(body.validFrom), validTo: toDate(body.validTo) };
+}
+
+/**
+ * GET /api/admin/booking-window-discounts?propertyId=
+ */
+adminBookingWindowRouter.get(
+  "/booking-window-discounts",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const propertyId = req.query.propertyId ? Number(req.query.propertyId) : undefined;
+      if (propertyId !== undefined && !Number.isFinite(propertyId)) {
+        return res.status(400).json({ message: "Invalid propertyId" });
+      }
+
+      const rules = await prisma.bookingWindowDiscount.findMany({
+        where: propertyId ? { propertyId } : undefined,
+        orderBy: [{ propertyId: "asc" }, { isActive: "desc" }, { id: "asc" }],
+        include: { property: { select: { id: true, title: true } } },
+      });
+
+      res.json({ rules });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/booking-window-discounts
+ */
+adminBookingWindowRouter.post(
+  "/booking-window-discounts",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(createBookingWindowDiscountSchema),
+  async (req, res, next) => {
+    try {
+      const body = req.body as any;
+
+      const property = await prisma.property.findUnique({ where: { id: body.propertyId } });
+      if (!property) return res.status(404).json({ message: "Property not found" });
+
+      const validity = toValidityDates(body);
+
+      const rule = await prisma.bookingWindowDiscount.create({
+        data: {
+          propertyId: body.propertyId,
+          name: body.name,
+          kind: body.kind,
+          daysBefore: body.daysBefore,
+          discountBps: body.discountBps,
+          stackingPolicy: body.stackingPolicy ?? "best_of",
+          validFrom: validity.validFrom ?? null,
+          validTo: validity.validTo ?? null,
+          isActive: body.isActive ?? true,
+        },
+      });
+
+      res.status(201).json({ rule });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/booking-window-discounts/:id
+ *
+ * Partial update (undefined -> unchanged, null -> cleared).
+ */
+adminBookingWindowRouter.patch(
+  "/booking-window-discounts/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(updateBookingWindowDiscountSchema),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid rule id" });
+
+      const existing = await prisma.bookingWindowDiscount.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Discount rule not found" });
+
+      const patch = req.body as any;
+
+      const rule = await prisma.bookingWindowDiscount.update({
+        where: { id },
+        data: {
+          name: patch.name ?? undefined,
+          kind: patch.kind ?? undefined,
+          daysBefore: patch.daysBefore ?? undefined,
+          discountBps: patch.discountBps ?? undefined,
+          stackingPolicy: patch.stackingPolicy ?? undefined,
+          ...toValidityDates(patch),
+          isActive: patch.isActive ?? undefined,
+        },
+      });
+
+      res.json({ rule });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/booking-window-discounts/:id
+ *
+ * Safe to delete: bookings keep their own discount snapshot.
+ */
+adminBookingWindowRouter.delete(
+  "/booking-window-discounts/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid rule id" });
+
+      const existing = await prisma.bookingWindowDiscount.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Discount rule not found" });
+
+      await prisma.bookingWindowDiscount.delete({ where: { id } });
+      res.json({ ok: true });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
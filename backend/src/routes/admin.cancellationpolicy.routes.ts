@@ -0,0 +1,176 @@
+import { Router } from "express";
+import { prisma } from "../prismaClient.js";
+import { validateBody } from "../midleware/validateBody.js";
+import { authMiddleware } from "../midleware/authMiddleware.js";
+import { requireRole } from "../midleware/requireRole.js";
+import {
+  createCancellationPolicySchema,
+  updateCancellationPolicySchema,
+} from "@eagle-villas/shared/schemas/cancellationPolicy.schema";
+
+export const adminCancellationPoliciesRouter = Router();
+
+/**
+ * ADMIN CANCELLATION POLICIES ROUTER
+ * ----------------------------------
+ * Named refund tier tables (flexible, moderate, strict, non-refundable, ...), assigned to
+ * properties (Property.cancellationPolicyId) and periods (BookingPeriod.cancellationPolicyId).
+ *
+ * Editing or deleting a policy never changes existing bookings: their terms are
+ * snapshotted on Booking.cancellationPolicySnapshot (services/cancellationPolicy.service.ts).
+ * At most one policy is the default (used when neither the period nor the property sets one).
+ */
+
+const policyInclude = {
+  _count: { select: { properties: true, bookingPeriods: true } },
+} as const;
+
+/**
+ * GET /api/admin/cancellation-policies
+ *
+ * Default first, then by name; _count = properties / periods using each policy.
+ */
+adminCancellationPoliciesRouter.get(
+  "/cancellation-policies",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (_req, res, next) => {
+    try {
+      const policies = await prisma.cancellationPolicy.findMany({
+        orderBy: [{ isDefault: "desc" }, { name: "asc" }],
+        include: policyInclude,
+      });
+
+      res.json({ policies });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/cancellation-policies
+ */
+adminCancellationPoliciesRouter.post(
+  "/cancellation-policies",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(createCancellationPolicySchema),
+  async (req, res, next) => {
+    try {
+      const body = req.body as any;
+
+      const existing = await prisma.cancellationPolicy.findUnique({ where: { key: body.key } });
+      if (existing) return res.status(409).json({ message: "Policy key already exists" });
+
+      const policy = await prisma.$transaction(async (tx) => {
+        if (body.isDefault) {
+          await tx.cancellationPolicy.updateMany({
+            where: { isDefault: true },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.cancellationPolicy.create({
+          data: {
+            key: body.key,
+            name: body.name,
+            description: body.description ?? null,
+            tiers: body.tiers,
+            isDefault: body.isDefault ?? false,
+          },
+          include: policyInclude,
+        });
+      });
+
+      res.status(201).json({ policy });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/cancellation-policies/:id
+ *
+ * Partial update (undefined -> unchanged). Only future bookings get the new terms.
+ */
+adminCancellationPoliciesRouter.patch(
+  "/cancellation-policies/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(updateCancellationPolicySchema),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid policy id" });
+
+      const existing = await prisma.cancellationPolicy.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Cancellation policy not found" });
+
+      const patch = req.body as any;
+
+      if (patch.key !== undefined && patch.key !== existing.key) {
+        const taken = await prisma.cancellationPolicy.findUnique({ where: { key: patch.key } });
+        if (taken) return res.status(409).json({ message: "Policy key already exists" });
+      }
+
+      const policy = await prisma.$transaction(async (tx) => {
+        if (patch.isDefault === true) {
+          await tx.cancellationPolicy.updateMany({
+            where: { isDefault: true, id: { not: id } },
+            data: { isDefault: false },
+          });
+        }
+
+        return tx.cancellationPolicy.update({
+          where: { id },
+          data: {
+            key: patch.key ?? undefined,
+            name: patch.name ?? undefined,
+            description: patch.description,
+            tiers: patch.tiers ?? undefined,
+            isDefault: patch.isDefault ?? undefined,
+          },
+          include: policyInclude,
+        });
+      });
+
+      res.json({ policy });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/cancellation-policies/:id
+ *
+ * Properties / periods using it fall back to the default policy; bookings keep their snapshot.
+ * The default policy itself cannot be deleted (make another one the default first).
+ */
+adminCancellationPoliciesRouter.delete(
+  "/cancellation-policies/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid policy id" });
+
+      const existing = await prisma.cancellationPolicy.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Cancellation policy not found" });
+
+      if (existing.isDefault) {
+        return res
+          .status(409)
+          .json({ message: "Make another policy the default before deleting this one" });
+      }
+
+      await prisma.cancellationPolicy.delete({ where: { id } });
+      res.json({ ok: true });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
@@ -1,59 +1,290 @@
 import { Router } from "express";
 import { prisma } from "../prismaClient.js";
 import { validateBody } from "../midleware/validateBody.js";
-import { upsertBookingComIcalSchema } from "@eagle-villas/shared/schemas/externalcalendar.schema";
-import { syncBookingComForProperty } from "../services/bookingComIcalSync.js";
+import {
+  createExternalCalendarSchema,
+  updateExternalCalendarSchema,
+} from "@eagle-villas/shared/schemas/externalcalendar.schema";
+import { isCalendarStale, syncExternalCalendar } from "../services/externalIcalSync.js";
 import { authMiddleware } from "../midleware/authMiddleware.js";
 import { requireRole } from "../midleware/requireRole.js";
 
 export const adminExternalCalendarsRouter = Router();
 
 /**
- * PUT /api/admin/properties/:propertyId/bookingcom-ical
- * Save iCal URL + optionally sync immediately
+ * ADMIN EXTERNAL CALENDARS ROUTER
+ * -------------------------------
+ * Channel iCal feeds (Booking.com, Airbnb, VRBO, other) imported as ExternalBlock rows.
+ * A villa can have any number of named feeds, e.g. one per listing.
+ * Sync logic lives in services/externalIcalSync.ts (also run every 15 min from index.ts).
+ * Every sync attempt is recorded as an ExternalCalendarSyncRun (health page + stale alerts).
  */
-adminExternalCalendarsRouter.put(
-  "/properties/:propertyId/bookingcom-ical",
+
+const calendarInclude = {
+  property: { select: { id: true, title: true } },
+  _count: { select: { blocks: true } },
+} as const;
+
+/**
+ * Sync right after a change so admin sees blocks right away.
+ * A failing feed must not fail the save itself.
+ */
+async function syncQuietly(calendarId: number) {
+  try {
+    return await syncExternalCalendar(calendarId);
+  } catch (e) {
+    console.error("Immediate iCal sync failed:", e);
+    return { synced: false, reason: "error" as const };
+  }
+}
+
+/**
+ * GET /api/admin/external-calendars?propertyId=
+ */
+adminExternalCalendarsRouter.get(
+  "/external-calendars",
   authMiddleware,
   requireRole("ADMIN"),
-  validateBody(upsertBookingComIcalSchema),
   async (req, res, next) => {
     try {
-      const propertyId = Number(req.params.propertyId);
-      if (Number.isNaN(propertyId)) {
-        return res.status(400).json({ message: "Invalid property id" });
+      const propertyId = req.query.propertyId ? Number(req.query.propertyId) : undefined;
+      if (propertyId !== undefined && !Number.isFinite(propertyId)) {
+        return res.status(400).json({ message: "Invalid propertyId" });
       }
 
+      const calendars = await prisma.externalCalendar.findMany({
+        where: propertyId ? { propertyId } : undefined,
+        orderBy: [{ propertyId: "asc" }, { id: "asc" }],
+        include: calendarInclude,
+      });
+
+      res.json({ calendars });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/external-calendars/health
+ *
+ * One row per feed: last success, consecutive failures, last error, latest run and
+ * whether it is stale (no successful sync for its staleAlertHours).
+ */
+adminExternalCalendarsRouter.get(
+  "/external-calendars/health",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (_req, res, next) => {
+    try {
+      const calendars = await prisma.externalCalendar.findMany({
+        orderBy: [{ propertyId: "asc" }, { id: "asc" }],
+        include: {
+          ...calendarInclude,
+          syncRuns: { orderBy: { startedAt: "desc" }, take: 1 },
+        },
+      });
+
+      const now = new Date();
+
+      res.json({
+        feeds: calendars.map(({ syncRuns, ...c }) => ({
+          ...c,
+          lastRun: syncRuns[0] ?? null,
+          isStale: isCalendarStale(c, now),
+        })),
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/external-calendars/:id/runs?limit=50
+ * Most recent sync runs of one feed (newest first)
+ */
+adminExternalCalendarsRouter.get(
+  "/external-calendars/:id/runs",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid calendar id" });
+
+      const limitRaw = req.query.limit ? Number(req.query.limit) : 50;
+      const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(limitRaw, 1), 200) : 50;
+
+      const existing = await prisma.externalCalendar.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Calendar not found" });
+
+      const runs = await prisma.externalCalendarSyncRun.findMany({
+        where: { calendarId: id },
+        orderBy: { startedAt: "desc" },
+        take: limit,
+      });
+
+      res.json({ runs });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/external-calendars
+ * Add a feed to a property + sync immediately
+ */
+adminExternalCalendarsRouter.post(
+  "/external-calendars",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(createExternalCalendarSchema),
+  async (req, res, next) => {
+    try {
+      const body = req.body as any;
+
       const property = await prisma.property.findUnique({
-        where: { id: propertyId },
+        where: { id: body.propertyId },
         select: { id: true },
       });
       if (!property) return res.status(404).json({ message: "Property not found" });
 
-      const { icalUrl, isEnabled } = req.body as { icalUrl: string; isEnabled?: boolean };
-
-      const row = await prisma.externalCalendar.upsert({
-        where: { propertyId_provider: { propertyId, provider: "BOOKING_COM" } },
-        create: {
-          propertyId,
-          provider: "BOOKING_COM",
-          icalUrl,
-          isEnabled: isEnabled ?? true,
+      const created = await prisma.externalCalendar.create({
+        data: {
+          propertyId: body.propertyId,
+          provider: body.provider,
+          name: body.name,
+          icalUrl: body.icalUrl,
+          isEnabled: body.isEnabled ?? true,
+          ...(body.staleAlertHours ? { staleAlertHours: body.staleAlertHours } : {}),
         },
-        update: {
-          icalUrl,
-          ...(typeof isEnabled === "boolean" ? { isEnabled } : {}),
+      });
+
+      const sync = await syncQuietly(created.id);
+
+      const calendar = await prisma.externalCalendar.findUnique({
+        where: { id: created.id },
+        include: calendarInclude,
+      });
+
+      res.status(201).json({ calendar, sync });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/external-calendars/:id
+ *
+ * A new URL resets the conditional GET validators (ETag / Last-Modified)
+ * so the next sync fetches the new feed in full.
+ */
+adminExternalCalendarsRouter.patch(
+  "/external-calendars/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(updateExternalCalendarSchema),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid calendar id" });
+
+      const existing = await prisma.externalCalendar.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Calendar not found" });
+
+      const patch = req.body as any;
+      const urlChanged = patch.icalUrl !== undefined && patch.icalUrl !== existing.icalUrl;
+
+      await prisma.externalCalendar.update({
+        where: { id },
+        data: {
+          provider: patch.provider ?? undefined,
+          name: patch.name ?? undefined,
+          icalUrl: patch.icalUrl ?? undefined,
+          isEnabled: patch.isEnabled ?? undefined,
+          staleAlertHours: patch.staleAlertHours ?? undefined,
+          ...(urlChanged ? { etag: null, lastModified: null } : {}),
         },
       });
 
-      // Sync immediately so admin sees blocks right away
-      try {
-        await syncBookingComForProperty(propertyId);
-      } catch (e) {
-        console.error("Immediate iCal sync failed:", e);
+      // Keep blocks consistent with the feed's provider
+      if (patch.provider && patch.provider !== existing.provider) {
+        await prisma.externalBlock.updateMany({
+          where: { calendarId: id },
+          data: { provider: patch.provider },
+        });
       }
 
-      return res.json(row);
+      const sync = urlChanged ? await syncQuietly(id) : null;
+
+      const calendar = await prisma.externalCalendar.findUnique({
+        where: { id },
+        include: calendarInclude,
+      });
+
+      res.json({ calendar, sync });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/external-calendars/:id
+ *
+ * Removes the feed, its imported blocks (the dates become available again) and its sync runs.
+ */
+adminExternalCalendarsRouter.delete(
+  "/external-calendars/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid calendar id" });
+
+      const existing = await prisma.externalCalendar.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Calendar not found" });
+
+      await prisma.$transaction([
+        prisma.externalBlock.deleteMany({ where: { calendarId: id } }),
+        prisma.externalCalendar.delete({ where: { id } }),
+      ]);
+
+      res.json({ ok: true });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/external-calendars/:id/sync
+ * Manual "sync now"
+ */
+adminExternalCalendarsRouter.post(
+  "/external-calendars/:id/sync",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid calendar id" });
+
+      const existing = await prisma.externalCalendar.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Calendar not found" });
+
+      const sync = await syncExternalCalendar(id);
+
+      const calendar = await prisma.externalCalendar.findUnique({
+        where: { id },
+        include: calendarInclude,
+      });
+
+      res.json({ calendar, sync });
     } catch (err) {
       next(err);
     }
@@ -64,7 +295,7 @@ adminExternalCalendarsRouter.put(
  * GET /api/admin/calendar/property/:propertyId
  * Admin merged calendar for ONE property:
  * - DIRECT bookings (with guest info)
- * - BOOKING_COM blocks
+ * - EXTERNAL blocks (all channel feeds)
  * - MANUAL blocks
  */
 adminExternalCalendarsRouter.get(
@@ -90,14 +321,15 @@ adminExternalCalendarsRouter.get(
             }
           : {};
 
-      const [direct, bookingCom, manual] = await Promise.all([
+      const [direct, external, manual] = await Promise.all([
         prisma.booking.findMany({
           where: { propertyId, status: { in: ["pending", "confirmed"] }, ...(rangeWhere as any) },
           orderBy: { startDate: "asc" },
         }),
         prisma.externalBlock.findMany({
-          where: { propertyId, provider: "BOOKING_COM", ...(rangeWhere as any) },
+          where: { propertyId, ...(rangeWhere as any) },
           orderBy: { startDate: "asc" },
+          include: { calendar: { select: { name: true } } },
         }),
         prisma.manualBlock.findMany({
           where: { propertyId, ...(rangeWhere as any) },
@@ -119,8 +351,10 @@ adminExternalCalendarsRouter.get(
           totalPrice: b.totalPrice,
           createdAt: b.createdAt,
         })),
-        ...bookingCom.map((x) => ({
-          source: "BOOKING_COM" as const,
+        ...external.map((x) => ({
+          source: "EXTERNAL" as const,
+          provider: x.provider,
+          calendarName: x.calendar.name,
           id: x.id,
           startDate: x.startDate,
           endDate: x.endDate,
@@ -0,0 +1,246 @@
+import { Router } from "express";
+import { prisma } from "../prismaClient.js";
+import { validateBody } from "../midleware/validateBody.js";
+import { authMiddleware } from "../midleware/authMiddleware.js";
+import { requireRole } from "../midleware/requireRole.js";
+import {
+  createIcalExportTokenSchema,
+  updateIcalExportTokenSchema,
+} from "@eagle-villas/shared/schemas/icalexport.schema";
+import { generateIcalExportToken } from "../services/icalExport.service.js";
+
+export const adminIcalExportsRouter = Router();
+
+/**
+ * ADMIN ICAL EXPORTS ROUTER
+ * -------------------------
+ * Private export feeds (IcalExportToken), one per consumer of a villa calendar.
+ * The public side is GET /api/ical/feeds/:token.ics (routes/public.calendar.export.route.ts).
+ *
+ * - AVAILABILITY: one villa, dates only (channels)
+ * - HOUSEKEEPING: one villa or all (propertyId null), guest details for owners/staff
+ *
+ * - rotate: new token, the old URL stops working immediately
+ * - revoke: the URL answers 410 until the feed is deleted
+ */
+
+const tokenInclude = {
+  property: { select: { id: true, title: true } },
+} as const;
+
+/**
+ * GET /api/admin/ical-exports?propertyId=
+ */
+adminIcalExportsRouter.get(
+  "/ical-exports",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const propertyId = req.query.propertyId ? Number(req.query.propertyId) : undefined;
+      if (propertyId !== undefined && !Number.isFinite(propertyId)) {
+        return res.status(400).json({ message: "Invalid propertyId" });
+      }
+
+      const feeds = await prisma.icalExportToken.findMany({
+        where: propertyId ? { propertyId } : undefined,
+        orderBy: [{ kind: "asc" }, { propertyId: { sort: "asc", nulls: "first" } }, { id: "asc" }],
+        include: tokenInclude,
+      });
+
+      res.json({ feeds });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/ical-exports/:id/access?limit=50
+ * Most recent fetches of one feed (newest first)
+ */
+adminIcalExportsRouter.get(
+  "/ical-exports/:id/access",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid feed id" });
+
+      const limitRaw = req.query.limit ? Number(req.query.limit) : 50;
+      const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(limitRaw, 1), 200) : 50;
+
+      const existing = await prisma.icalExportToken.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Feed not found" });
+
+      const accesses = await prisma.icalExportAccess.findMany({
+        where: { tokenId: id },
+        orderBy: { accessedAt: "desc" },
+        take: limit,
+      });
+
+      res.json({ accesses });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/ical-exports
+ */
+adminIcalExportsRouter.post(
+  "/ical-exports",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(createIcalExportTokenSchema),
+  async (req, res, next) => {
+    try {
+      const body = req.body as any;
+
+      if (body.propertyId !== null) {
+        const property = await prisma.property.findUnique({ where: { id: body.propertyId } });
+        if (!property) return res.status(404).json({ message: "Property not found" });
+      }
+
+      const feed = await prisma.icalExportToken.create({
+        data: {
+          kind: body.kind,
+          propertyId: body.propertyId,
+          name: body.name,
+          token: generateIcalExportToken(),
+          includeDirect: body.includeDirect ?? true,
+          includeManual: body.includeManual ?? true,
+          includeExternal: body.includeExternal ?? false,
+          consumerProvider: body.consumerProvider ?? null,
+        },
+        include: tokenInclude,
+      });
+
+      res.status(201).json({ feed });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/ical-exports/:id
+ * Name + content options (the URL stays the same)
+ */
+adminIcalExportsRouter.patch(
+  "/ical-exports/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(updateIcalExportTokenSchema),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid feed id" });
+
+      const existing = await prisma.icalExportToken.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Feed not found" });
+
+      const body = req.body as any;
+
+      const feed = await prisma.icalExportToken.update({
+        where: { id },
+        data: {
+          ...(body.name !== undefined ? { name: body.name } : {}),
+          ...(body.includeDirect !== undefined ? { includeDirect: body.includeDirect } : {}),
+          ...(body.includeManual !== undefined ? { includeManual: body.includeManual } : {}),
+          ...(body.includeExternal !== undefined ? { includeExternal: body.includeExternal } : {}),
+          ...(body.consumerProvider !== undefined
+            ? { consumerProvider: body.consumerProvider }
+            : {}),
+        },
+        include: tokenInclude,
+      });
+
+      res.json({ feed });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/ical-exports/:id/rotate
+ * New token (also re-enables a revoked feed); the consumer must be given the new URL.
+ */
+adminIcalExportsRouter.post(
+  "/ical-exports/:id/rotate",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid feed id" });
+
+      const existing = await prisma.icalExportToken.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Feed not found" });
+
+      const feed = await prisma.icalExportToken.update({
+        where: { id },
+        data: { token: generateIcalExportToken(), rotatedAt: new Date(), revokedAt: null },
+        include: tokenInclude,
+      });
+
+      res.json({ feed });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/ical-exports/:id/revoke
+ */
+adminIcalExportsRouter.post(
+  "/ical-exports/:id/revoke",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid feed id" });
+
+      const existing = await prisma.icalExportToken.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Feed not found" });
+
+      const feed = await prisma.icalExportToken.update({
+        where: { id },
+        data: { revokedAt: existing.revokedAt ?? new Date() },
+        include: tokenInclude,
+      });
+
+      res.json({ feed });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/ical-exports/:id (access log goes with it)
+ */
+adminIcalExportsRouter.delete(
+  "/ical-exports/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid feed id" });
+
+      const existing = await prisma.icalExportToken.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Feed not found" });
+
+      await prisma.icalExportToken.delete({ where: { id } });
+      res.json({ ok: true });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
@@ -0,0 +1,232 @@
+import { randomUUID } from "node:crypto";
+import { Router } from "express";
+import { prisma } from "../prismaClient.js";
+import { validateBody } from "../midleware/validateBody.js";
+import { authMiddleware } from "../midleware/authMiddleware.js";
+import { requireRole } from "../midleware/requireRole.js";
+import {
+  createManualBlockSchema,
+  updateManualBlockSchema,
+} from "@eagle-villas/shared/schemas/manualblock.schema";
+import { parseDateOnlyToUtcMidnight } from "../utils/dateOnly.js";
+import {
+  ensureManualBlockRangesFree,
+  expandManualBlockRanges,
+} from "../services/manualBlock.service.js";
+import { refreshPropertyConflicts } from "../services/calendarConflict.service.js";
+
+export const adminManualBlocksRouter = Router();
+
+/**
+ * ADMIN MANUAL BLOCKS ROUTER
+ * --------------------------
+ * Dates closed by the admin: owner stays, maintenance, recurring closures.
+ * Manual blocks make dates unavailable on the site and are exported in the iCal feed.
+ *
+ * Recurring rules are expanded into ordinary blocks sharing a seriesId
+ * (services/manualBlock.service.ts), so every other reader keeps seeing plain ranges.
+ */
+
+/**
+ * Channel blocks on these dates become (or stop being) calendar conflicts.
+ * A failing check must not fail the save itself.
+ */
+async function refreshConflictsQuietly(propertyId: number) {
+  try {
+    await refreshPropertyConflicts(propertyId);
+  } catch (e) {
+    console.error("calendar conflict detection failed", propertyId, e);
+  }
+}
+
+/**
+ * GET /api/admin/manual-blocks?propertyId=&from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+adminManualBlocksRouter.get(
+  "/manual-blocks",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const propertyId = req.query.propertyId ? Number(req.query.propertyId) : undefined;
+      if (propertyId !== undefined && !Number.isFinite(propertyId)) {
+        return res.status(400).json({ message: "Invalid propertyId" });
+      }
+
+      const fromDate =
+        typeof req.query.from === "string" ? parseDateOnlyToUtcMidnight(req.query.from) : null;
+      const toDate =
+        typeof req.query.to === "string" ? parseDateOnlyToUtcMidnight(req.query.to) : null;
+
+      if (
+        (fromDate && Number.isNaN(fromDate.getTime())) ||
+        (toDate && Number.isNaN(toDate.getTime()))
+      ) {
+        return res.status(400).json({ message: "Invalid from/to date (YYYY-MM-DD)" });
+      }
+
+      const blocks = await prisma.manualBlock.findMany({
+        where: {
+          ...(propertyId ? { propertyId } : {}),
+          ...(toDate ? { startDate: { lt: toDate } } : {}),
+          ...(fromDate ? { endDate: { gt: fromDate } } : {}),
+        },
+        orderBy: [{ startDate: "asc" }, { id: "asc" }],
+        include: { property: { select: { id: true, title: true } } },
+        take: 1000,
+      });
+
+      res.json({ blocks });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/manual-blocks
+ *
+ * Creates one block, or a series when `recurrence.weekdays` is set
+ * (e.g. 2026-11-01 → 2026-12-01 with weekdays [1] = every Monday night in November).
+ * 409 when any resulting range overlaps a booking or another manual block.
+ */
+adminManualBlocksRouter.post(
+  "/manual-blocks",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(createManualBlockSchema),
+  async (req, res, next) => {
+    try {
+      const body = req.body as any;
+
+      const property = await prisma.property.findUnique({ where: { id: body.propertyId } });
+      if (!property) return res.status(404).json({ message: "Property not found" });
+
+      const startDate = parseDateOnlyToUtcMidnight(body.startDate);
+      const endDate = parseDateOnlyToUtcMidnight(body.endDate);
+
+      if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+        return res.status(400).json({ message: "Invalid dates" });
+      }
+      if (endDate <= startDate) {
+        return res.status(400).json({ message: "End date must be after start date" });
+      }
+
+      const ranges = expandManualBlockRanges(startDate, endDate, body.recurrence?.weekdays);
+      if (ranges.length === 0) {
+        return res.status(400).json({ message: "No night in this range falls on those weekdays" });
+      }
+
+      const seriesId = body.recurrence ? randomUUID() : null;
+
+      const blocks = await prisma.$transaction(async (tx) => {
+        await ensureManualBlockRangesFree(tx, body.propertyId, ranges);
+
+        return tx.manualBlock.createManyAndReturn({
+          data: ranges.map((r) => ({
+            propertyId: body.propertyId,
+            startDate: r.startDate,
+            endDate: r.endDate,
+            category: body.category ?? "OTHER",
+            reason: body.reason?.trim() || null,
+            seriesId,
+          })),
+        });
+      });
+
+      await refreshConflictsQuietly(body.propertyId);
+
+      res.status(201).json({ blocks });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/manual-blocks/:id
+ *
+ * Edits one block (also when it belongs to a series).
+ * Overlap check excludes the block itself.
+ */
+adminManualBlocksRouter.patch(
+  "/manual-blocks/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(updateManualBlockSchema),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid block id" });
+
+      const body = req.body as any;
+
+      const existing = await prisma.manualBlock.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Manual block not found" });
+
+      const startDate =
+        body.startDate !== undefined ? parseDateOnlyToUtcMidnight(body.startDate) : existing.startDate;
+      const endDate =
+        body.endDate !== undefined ? parseDateOnlyToUtcMidnight(body.endDate) : existing.endDate;
+
+      if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+        return res.status(400).json({ message: "Invalid dates" });
+      }
+      if (endDate <= startDate) {
+        return res.status(400).json({ message: "End date must be after start date" });
+      }
+
+      const block = await prisma.$transaction(async (tx) => {
+        await ensureManualBlockRangesFree(tx, existing.propertyId, [{ startDate, endDate }], [id]);
+
+        return tx.manualBlock.update({
+          where: { id },
+          data: {
+            startDate,
+            endDate,
+            ...(body.category !== undefined ? { category: body.category } : {}),
+            ...(body.reason !== undefined ? { reason: body.reason?.trim() || null } : {}),
+          },
+        });
+      });
+
+      await refreshConflictsQuietly(existing.propertyId);
+
+      res.json({ block });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/manual-blocks/:id?scope=series
+ *
+ * scope=series removes every block of the block's recurring series.
+ */
+adminManualBlocksRouter.delete(
+  "/manual-blocks/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid block id" });
+
+      const existing = await prisma.manualBlock.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Manual block not found" });
+
+      const wholeSeries = req.query.scope === "series" && existing.seriesId !== null;
+
+      const { count } = await prisma.manualBlock.deleteMany({
+        where: wholeSeries ? { seriesId: existing.seriesId } : { id },
+      });
+
+      await refreshConflictsQuietly(existing.propertyId);
+
+      res.json({ ok: true, deleted: count });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
@@ -0,0 +1,241 @@
+import { Router } from "express";
+import { prisma } from "../prismaClient.js";
+import { validateBody } from "../midleware/validateBody.js";
+import { authMiddleware } from "../midleware/authMiddleware.js";
+import { requireRole } from "../midleware/requireRole.js";
+import {
+  createPromoCodeSchema,
+  updatePromoCodeSchema,
+} from "@eagle-villas/shared/schemas/promo.schema";
+import { parseDateOnlyToUtcMidnight } from "../utils/dateOnly.js";
+import { normalizePromoCode } from "../services/promo.service.js";
+
+export const adminPromoRouter = Router();
+
+/**
+ * ADMIN PROMO ROUTER
+ * ------------------
+ * Promo codes for direct bookings + their redemption ledger.
+ *
+ * Codes are validated and priced by the pricing engine (services/promo.service.ts).
+ * Each booking that used a code gets one PromoRedemption row (created with the booking).
+ */
+
+const DATE_FIELDS = ["stayFrom", "stayTo", "bookableFrom", "bookableTo"] as const;
+
+/**
+ * YYYY-MM-DD window fields -> UTC midnight Dates.
+ * undefined -> untouched (PATCH semantics), null -> cleared.
+ */
+function toWindowDates(body: Partial<Record<(typeof DATE_FIELDS)[number], string | null>>) {
+  const out: Partial<Record<(typeof DATE_FIELDS)[number], Date | null>> = {};
+
+  for (const field of DATE_FIELDS) {
+    const v = body[field];
+    if (v === undefined) continue;
+    out[field] = v === null ? null : parseDateOnlyToUtcMidnight(v);
+  }
+
+  return out;
+}
+
+/**
+ * GET /api/admin/promo-codes
+ *
+ * All codes with redemption stats:
+ * - redemptions: bookings not cancelled (what counts against maxRedemptions)
+ * - discountCents: total discount given on those bookings
+ */
+adminPromoRouter.get("/promo-codes", authMiddleware, requireRole("ADMIN"), async (_req, res, next) => {
+  try {
+    const codes = await prisma.promoCode.findMany({
+      orderBy: [{ isActive: "desc" }, { createdAt: "desc" }],
+      include: { property: { select: { id: true, title: true } } },
+    });
+
+    const stats = await prisma.promoRedemption.groupBy({
+      by: ["promoCodeId"],
+      where: { booking: { status: { not: "cancelled" } } },
+      _count: { _all: true },
+      _sum: { discountCents: true },
+    });
+
+    const byId = new Map(stats.map((s) => [s.promoCodeId, s]));
+
+    res.json({
+      codes: codes.map((c) => ({
+        ...c,
+        redemptions: byId.get(c.id)?._count._all ?? 0,
+        discountCents: byId.get(c.id)?._sum.discountCents ?? 0,
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * GET /api/admin/promo-codes/:id/redemptions
+ *
+ * Redemption ledger for one code (including cancelled bookings, flagged by status).
+ */
+adminPromoRouter.get(
+  "/promo-codes/:id/redemptions",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid promo code id" });
+
+      const redemptions = await prisma.promoRedemption.findMany({
+        where: { promoCodeId: id },
+        orderBy: { createdAt: "desc" },
+        include: {
+          booking: {
+            select: {
+              id: true,
+              status: true,
+              startDate: true,
+              endDate: true,
+              guestName: true,
+              guestEmail: true,
+              property: { select: { id: true, title: true } },
+            },
+          },
+        },
+      });
+
+      res.json({ redemptions });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/admin/promo-codes
+ */
+adminPromoRouter.post(
+  "/promo-codes",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(createPromoCodeSchema),
+  async (req, res, next) => {
+    try {
+      const body = req.body as any;
+      const code = normalizePromoCode(body.code);
+
+      const existing = await prisma.promoCode.findUnique({ where: { code } });
+      if (existing) return res.status(409).json({ message: "A promo code with this code already exists" });
+
+      if (body.propertyId) {
+        const property = await prisma.property.findUnique({ where: { id: body.propertyId } });
+        if (!property) return res.status(404).json({ message: "Property not found" });
+      }
+
+      const windows = toWindowDates(body);
+
+      const promoCode = await prisma.promoCode.create({
+        data: {
+          code,
+          description: body.description ?? null,
+          kind: body.kind,
+          percentBps: body.kind === "percent" ? body.percentBps : null,
+          amountCents: body.kind === "fixed" ? body.amountCents : null,
+          propertyId: body.propertyId ?? null,
+          stayFrom: windows.stayFrom ?? null,
+          stayTo: windows.stayTo ?? null,
+          bookableFrom: windows.bookableFrom ?? null,
+          bookableTo: windows.bookableTo ?? null,
+          maxRedemptions: body.maxRedemptions ?? null,
+          perUserLimit: body.perUserLimit ?? null,
+          minNights: body.minNights ?? null,
+          isActive: body.isActive ?? true,
+        },
+      });
+
+      res.status(201).json({ promoCode });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/promo-codes/:id
+ *
+ * Partial update (undefined -> unchanged, null -> cleared).
+ * Existing bookings keep the discount stored on their priceBreakdown.
+ */
+adminPromoRouter.patch(
+  "/promo-codes/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(updatePromoCodeSchema),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid promo code id" });
+
+      const existing = await prisma.promoCode.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Promo code not found" });
+
+      const patch = req.body as any;
+
+      const promoCode = await prisma.promoCode.update({
+        where: { id },
+        data: {
+          description: patch.description,
+          kind: patch.kind ?? undefined,
+          percentBps: patch.percentBps,
+          amountCents: patch.amountCents,
+          propertyId: patch.propertyId,
+          ...toWindowDates(patch),
+          maxRedemptions: patch.maxRedemptions,
+          perUserLimit: patch.perUserLimit,
+          minNights: patch.minNights,
+          isActive: patch.isActive ?? undefined,
+        },
+      });
+
+      res.json({ promoCode });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/promo-codes/:id
+ *
+ * Only unused codes can be deleted; used codes should be disabled so the ledger stays intact.
+ */
+adminPromoRouter.delete(
+  "/promo-codes/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid promo code id" });
+
+      const existing = await prisma.promoCode.findUnique({
+        where: { id },
+        include: { _count: { select: { redemptions: true } } },
+      });
+      if (!existing) return res.status(404).json({ message: "Promo code not found" });
+
+      if (existing._count.redemptions > 0) {
+        return res
+          .status(409)
+          .json({ message: "This code has been redeemed. Disable it instead of deleting it." });
+      }
+
+      await prisma.promoCode.delete({ where: { id } });
+      res.json({ ok: true });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
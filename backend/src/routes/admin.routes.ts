@@ -6,6 +6,12 @@ import {
   createPropertySchema,
   updatePropertySchema,
 } from "@eagle-villas/shared/schemas/property.schema"; // adjust path/extension as needed
+import {
+  externalProviderLabel,
+  upsertBookingComCalendar,
+} from "../services/externalIcalSync.js";
+import { findOpenConflictRefs } from "../services/calendarConflict.service.js";
+import { cancellationPolicyExists } from "../services/cancellationPolicy.service.js";
 
 const router = Router();
 
@@ -82,6 +88,20 @@ router.post(
         longitude,
         minNights,
         cleaningFeeCents,
+        linenFeeCents,
+        petFeeCents,
+        extraBedFeeCents,
+        baseOccupancy,
+        extraAdultNightlyCents,
+        extraChildNightlyCents,
+        depositBps,
+        balanceDueDaysBefore,
+        balanceAutoCancelDays,
+        gapFillEnabled,
+        gapDiscountBps,
+        nonRefundableDiscountBps,
+        cancellationPolicyId,
+        taxCategory,
         featureKeys,
         amenities,
         policies,
@@ -89,6 +109,10 @@ router.post(
       } = parsed.data;
       const slug = generateSlug(title);
 
+      if (cancellationPolicyId && !(await cancellationPolicyExists(cancellationPolicyId))) {
+        return res.status(404).json({ message: "Cancellation policy not found" });
+      }
+
       const property = await prisma.property.create({
         data: {
           title,
@@ -112,6 +136,20 @@ router.post(
           ...(longitude !== undefined ? { longitude } : {}),
           ...(minNights !== undefined ? { minNights } : {}),
           ...(cleaningFeeCents !== undefined ? { cleaningFeeCents } : {}),
+          ...(linenFeeCents !== undefined ? { linenFeeCents } : {}),
+          ...(petFeeCents !== undefined ? { petFeeCents } : {}),
+          ...(extraBedFeeCents !== undefined ? { extraBedFeeCents } : {}),
+          ...(baseOccupancy !== undefined ? { baseOccupancy } : {}),
+          ...(extraAdultNightlyCents !== undefined ? { extraAdultNightlyCents } : {}),
+          ...(extraChildNightlyCents !== undefined ? { extraChildNightlyCents } : {}),
+          ...(depositBps !== undefined ? { depositBps } : {}),
+          ...(balanceDueDaysBefore !== undefined ? { balanceDueDaysBefore } : {}),
+          ...(balanceAutoCancelDays !== undefined ? { balanceAutoCancelDays } : {}),
+          ...(gapFillEnabled !== undefined ? { gapFillEnabled } : {}),
+          ...(gapDiscountBps !== undefined ? { gapDiscountBps } : {}),
+          ...(nonRefundableDiscountBps !== undefined ? { nonRefundableDiscountBps } : {}),
+          ...(cancellationPolicyId !== undefined ? { cancellationPolicyId } : {}),
+          ...(taxCategory !== undefined ? { taxCategory } : {}),
           ...(tags !== undefined ? { tags } : {}),
 
           ...(Array.isArray(images) && images.length
@@ -162,21 +200,10 @@ router.post(
       });
 
       // Check for ical link and add it if it is given 
+      // (Booking.com shortcut; other channel feeds are managed via /external-calendars)
       if (bookingComIcalUrl) {
-      await prisma.externalCalendar.upsert({
-        where: { propertyId_provider: { propertyId: property.id, provider: "BOOKING_COM" } },
-        create: {
-          propertyId: property.id,
-          provider: "BOOKING_COM",
-          icalUrl: bookingComIcalUrl,
-          isEnabled: bookingComIcalEnabled ?? true,
-        },
-        update: {
-          icalUrl: bookingComIcalUrl,
-          ...(typeof bookingComIcalEnabled === "boolean" ? { isEnabled: bookingComIcalEnabled } : {}),
-        },
-      });
-    }
+        await upsertBookingComCalendar(property.id, bookingComIcalUrl, bookingComIcalEnabled);
+      }
 
       res.status(201).json({ property });
     } catch (err) {
@@ -242,12 +269,30 @@ router.put(
         longitude,
         minNights,
         cleaningFeeCents,
+        linenFeeCents,
+        petFeeCents,
+        extraBedFeeCents,
+        baseOccupancy,
+        extraAdultNightlyCents,
+        extraChildNightlyCents,
+        depositBps,
+        balanceDueDaysBefore,
+        balanceAutoCancelDays,
+        gapFillEnabled,
+        gapDiscountBps,
+        nonRefundableDiscountBps,
+        cancellationPolicyId,
+        taxCategory,
         featureKeys,
         amenities,
         policies,
         tags,
       } = data;
 
+      if (cancellationPolicyId && !(await cancellationPolicyExists(cancellationPolicyId))) {
+        return res.status(404).json({ message: "Cancellation policy not found" });
+      }
+
       const updateData: any = {
         ...(title !== undefined ? { title } : {}),
         ...(description !== undefined ? { description } : {}),
@@ -269,6 +314,20 @@ router.put(
         ...(longitude !== undefined ? { longitude } : {}),
         ...(minNights !== undefined ? { minNights } : {}),
         ...(cleaningFeeCents !== undefined ? { cleaningFeeCents } : {}),
+        ...(linenFeeCents !== undefined ? { linenFeeCents } : {}),
+        ...(petFeeCents !== undefined ? { petFeeCents } : {}),
+        ...(extraBedFeeCents !== undefined ? { extraBedFeeCents } : {}),
+        ...(baseOccupancy !== undefined ? { baseOccupancy } : {}),
+        ...(extraAdultNightlyCents !== undefined ? { extraAdultNightlyCents } : {}),
+        ...(extraChildNightlyCents !== undefined ? { extraChildNightlyCents } : {}),
+        ...(depositBps !== undefined ? { depositBps } : {}),
+        ...(balanceDueDaysBefore !== undefined ? { balanceDueDaysBefore } : {}),
+        ...(balanceAutoCancelDays !== undefined ? { balanceAutoCancelDays } : {}),
+        ...(gapFillEnabled !== undefined ? { gapFillEnabled } : {}),
+        ...(gapDiscountBps !== undefined ? { gapDiscountBps } : {}),
+        ...(nonRefundableDiscountBps !== undefined ? { nonRefundableDiscountBps } : {}),
+        ...(cancellationPolicyId !== undefined ? { cancellationPolicyId } : {}),
+        ...(taxCategory !== undefined ? { taxCategory } : {}),
         ...(tags !== undefined ? { tags } : {}),
       };
 
@@ -342,21 +401,9 @@ router.put(
         include: { images: true, features: true, amenities: true, policies: true },
       });
 
-      // Update ical link
+      // Update ical link (Booking.com shortcut)
       if (bookingComIcalUrl) {
-        await prisma.externalCalendar.upsert({
-          where: { propertyId_provider: { propertyId: updated.id, provider: "BOOKING_COM" } },
-          create: {
-            propertyId: updated.id,
-            provider: "BOOKING_COM",
-            icalUrl: bookingComIcalUrl,
-            isEnabled: bookingComIcalEnabled ?? true,
-          },
-          update: {
-            icalUrl: bookingComIcalUrl,
-            ...(typeof bookingComIcalEnabled === "boolean" ? { isEnabled: bookingComIcalEnabled } : {}),
-          },
-        });
+        await upsertBookingComCalendar(updated.id, bookingComIcalUrl, bookingComIcalEnabled);
       }
 
       res.json({ property: updated });
@@ -403,17 +450,18 @@ router.delete(
  * - Cursor pagination for DIRECT bookings (stable ordering, prevents huge payloads)
  * - Filters (bookingId exact match, q, status, propertyId, date overlap)
  * - Include payment/refund totals and priceBreakdown for expanded DIRECT view
+ * - hasConflict flags rows involved in an open calendar conflict (channel double booking)
  *
  * Source behavior:
  * - DIRECT bookings are always paginated (can become extremely large).
- * - BOOKING_COM / MANUAL blocks can also become extremely large over time.
- *   To keep responses safe by default:
- *   - If the request includes blocks (source=ALL/BOOKING_COM/MANUAL) and no from/to is provided,
+ * - EXTERNAL (channel iCal: Booking.com, Airbnb, VRBO, ...) / MANUAL blocks can also become
+ *   extremely large over time. To keep responses safe by default:
+ *   - If the request includes blocks (source=ALL/EXTERNAL/MANUAL) and no from/to is provided,
  *     a default range window is applied (recent past + upcoming).
  *   - If from/to is provided, that range is used.
  *
  * Query params:
- * - source: ALL | DIRECT | BOOKING_COM | MANUAL (default ALL)
+ * - source: ALL | DIRECT | EXTERNAL | MANUAL (default ALL)
  * - bookingId: number (exact lookup; overrides pagination/filtering)
  * - q: string (free-text search; DIRECT only)
  * - status: pending | confirmed | cancelled (DIRECT only)
@@ -434,7 +482,7 @@ router.get(
       const source = (String(req.query.source ?? "ALL") as
         | "ALL"
         | "DIRECT"
-        | "BOOKING_COM"
+        | "EXTERNAL"
         | "MANUAL");
 
       const bookingId = req.query.bookingId ? Number(req.query.bookingId) : undefined;
@@ -470,7 +518,7 @@ router.get(
        * - from: today - 30 days
        * - to:   today + 365 days
        */
-      const wantsBlocks = source === "ALL" || source === "BOOKING_COM" || source === "MANUAL";
+      const wantsBlocks = source === "ALL" || source === "EXTERNAL" || source === "MANUAL";
 
       const ymdUTC = (d: Date) => {
         const y = d.getUTCFullYear();
@@ -509,6 +557,11 @@ router.get(
         }
       }
 
+      // Open channel conflicts (double-booking risk), flagged on every row
+      const conflicts = await findOpenConflictRefs(
+        propertyId && Number.isFinite(propertyId) ? propertyId : undefined
+      );
+
       // -----------------------------
       // 1) Exact bookingId lookup
       // -----------------------------
@@ -523,6 +576,8 @@ router.get(
                 provider: true,
                 status: true,
                 amountCents: true,
+                paidCents: true,
+                schedule: true,
                 refundedCents: true,
                 creditsAppliedCents: true,
                 currency: true,
@@ -553,8 +608,10 @@ router.get(
                 createdAt: b.createdAt,
                 property: b.property,
                 user: b.user ?? null,
+                hasConflict: conflicts.bookingIds.has(b.id),
 
                 // Expanded admin details
+                priceBreakdown: b.priceBreakdown ?? null,
                 payment: b.payment ?? null,
                 refunds: b.refunds ?? [],
                 refundedTotalCents:
@@ -626,6 +683,8 @@ router.get(
                 provider: true,
                 status: true,
                 amountCents: true,
+                paidCents: true,
+                schedule: true,
                 refundedCents: true,
                 creditsAppliedCents: true,
                 currency: true,
@@ -659,13 +718,16 @@ router.get(
           guestEmail: b.guestEmail,
           guestPhone: b.guestPhone,
           guestsCount: b.guestsCount,
+          arrivalTime: b.arrivalTime,
           totalPrice: b.totalPrice,
           status: b.status,
           createdAt: b.createdAt,
           property: b.property,
           user: b.user ?? null,
+          hasConflict: conflicts.bookingIds.has(b.id),
 
           // Expanded admin details
+          priceBreakdown: b.priceBreakdown ?? null,
           payment: b.payment ?? null,
           refunds: b.refunds ?? [],
           refundedTotalCents:
@@ -677,11 +739,11 @@ router.get(
       }
 
       // -----------------------------
-      // 3) BOOKING_COM + MANUAL blocks (range windowed)
+      // 3) EXTERNAL + MANUAL blocks (range windowed)
       // -----------------------------
       const includeBlocks = wantsBlocks && hasRange;
 
-      let bookingComBlocks: any[] = [];
+      let externalBlocks: any[] = [];
       let manualBlocks: any[] = [];
 
       if (includeBlocks) {
@@ -690,23 +752,23 @@ router.get(
           endDate: { gt: fromDate! },
         };
 
-        const [bcom, manual] = await Promise.all([
+        const [external, manual] = await Promise.all([
           source === "MANUAL"
             ? Promise.resolve([])
             : prisma.externalBlock.findMany({
                 where: {
-                  provider: "BOOKING_COM",
                   ...(propertyId && Number.isFinite(propertyId) ? { propertyId } : {}),
                   ...rangeWhere,
                 },
                 include: {
                   property: { select: { id: true, title: true, city: true, country: true } },
+                  calendar: { select: { name: true } },
                 },
                 orderBy: { startDate: "asc" },
                 take: 500,
               }),
 
-          source === "BOOKING_COM"
+          source === "EXTERNAL"
             ? Promise.resolve([])
             : prisma.manualBlock.findMany({
                 where: {
@@ -721,14 +783,16 @@ router.get(
               }),
         ]);
 
-        bookingComBlocks = bcom.map((x) => ({
-          source: "BOOKING_COM" as const,
+        externalBlocks = external.map((x) => ({
+          source: "EXTERNAL" as const,
+          provider: x.provider,
+          calendarName: x.calendar.name,
           id: x.id,
           propertyId: x.propertyId,
           userId: null,
           startDate: x.startDate,
           endDate: x.endDate,
-          guestName: x.summary ?? "Booking.com reservation",
+          guestName: x.summary ?? `${externalProviderLabel(x.provider)} reservation`,
           guestEmail: "",
           guestPhone: "",
           guestsCount: 0,
@@ -738,6 +802,7 @@ router.get(
           property: x.property,
           user: null,
           summary: x.summary ?? null,
+          hasConflict: conflicts.externalBlockIds.has(x.id),
         }));
 
         manualBlocks = manual.map((m) => ({
@@ -756,11 +821,13 @@ router.get(
           createdAt: (m as any).createdAt ?? m.startDate,
           property: m.property,
           user: null,
+          category: m.category,
           reason: m.reason ?? null,
+          hasConflict: conflicts.manualBlockIds.has(m.id),
         }));
       }
 
-      const merged = [...directItems, ...bookingComBlocks, ...manualBlocks].sort(
+      const merged = [...directItems, ...externalBlocks, ...manualBlocks].sort(
         (a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
       );
 
@@ -778,7 +845,8 @@ router.get(
 /**
  * GET /api/admin/calendar/property/:propertyId?from=YYYY-MM-DD&to=YYYY-MM-DD
  * Returns: { blocks, periods }
- * - blocks: merged DIRECT + BOOKING_COM + MANUAL (DIRECT includes PII)
+ * - blocks: merged DIRECT + EXTERNAL + MANUAL (DIRECT includes PII);
+ *   hasConflict marks blocks involved in an open calendar conflict
  * - periods: booking periods for that property (open/closed + pricing/rules)
  */
 router.get(
@@ -814,7 +882,7 @@ router.get(
             }
           : {};
 
-      const [direct, bookingCom, manual, periods] = await Promise.all([
+      const [direct, external, manual, periods, conflicts] = await Promise.all([
         prisma.booking.findMany({
           where: {
             propertyId,
@@ -838,15 +906,16 @@ router.get(
         prisma.externalBlock.findMany({
           where: {
             propertyId,
-            provider: "BOOKING_COM",
             ...(rangeWhere as any),
           },
           orderBy: { startDate: "asc" },
           select: {
             id: true,
+            provider: true,
             startDate: true,
             endDate: true,
             summary: true,
+            calendar: { select: { name: true } },
           },
         }),
 
@@ -860,7 +929,9 @@ router.get(
             id: true,
             startDate: true,
             endDate: true,
+            category: true,
             reason: true,
+            seriesId: true,
           },
         }),
 
@@ -872,6 +943,8 @@ router.get(
           },
           orderBy: { startDate: "asc" },
         }),
+
+        findOpenConflictRefs(propertyId),
       ]);
 
       const blocks = [
@@ -886,14 +959,18 @@ router.get(
           guestName: b.guestName,
           guestEmail: b.guestEmail,
           guestPhone: b.guestPhone,
+          hasConflict: conflicts.bookingIds.has(b.id),
         })),
 
-        ...bookingCom.map((x) => ({
-          source: "BOOKING_COM" as const,
+        ...external.map((x) => ({
+          source: "EXTERNAL" as const,
+          provider: x.provider,
+          calendarName: x.calendar.name,
           id: x.id,
           startDate: x.startDate,
           endDate: x.endDate,
           summary: x.summary ?? "Reserved",
+          hasConflict: conflicts.externalBlockIds.has(x.id),
         })),
 
         ...manual.map((m) => ({
@@ -901,7 +978,10 @@ router.get(
           id: m.id,
           startDate: m.startDate,
           endDate: m.endDate,
-          reason: m.reason ?? "Blocked",
+          category: m.category,
+          reason: m.reason,
+          seriesId: m.seriesId,
+          hasConflict: conflicts.manualBlockIds.has(m.id),
         })),
       ].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
 
@@ -0,0 +1,196 @@
+import { Router } from "express";
+import { prisma } from "../prismaClient.js";
+import { validateBody } from "../midleware/validateBody.js";
+import { authMiddleware } from "../midleware/authMiddleware.js";
+import { requireRole } from "../midleware/requireRole.js";
+import {
+  createTaxRuleSchema,
+  taxReportQuerySchema,
+  updateTaxRuleSchema,
+} from "@eagle-villas/shared/schemas/tax.schema";
+import { parseDateOnlyToUtcMidnight } from "../utils/dateOnly.js";
+import { buildMonthlyTaxReport } from "../services/tax.service.js";
+
+export const adminTaxRouter = Router();
+
+/**
+ * ADMIN TAX ROUTER
+ * ----------------
+ * Accommodation tax rules (e.g. Greek climate resilience fee) and the monthly filing report.
+ *
+ * Rules are evaluated by the pricing engine at quote/booking time (services/tax.service.ts).
+ * Editing or disabling a rule never changes existing bookings: the charged tax lines are
+ * snapshotted on Booking.priceBreakdown, and the report reads those snapshots.
+ */
+
+/**
+ * Converts the optional YYYY-MM-DD validity bounds to UTC midnight Dates.
+ * undefined -> untouched (PATCH semantics), null -> cleared.
+ */
+function toValidityDates(body: { validFrom?: string | null; validTo?: string | null }) {
+  return {
+    validFrom:
+      body.validFrom === undefined
+        ? undefined
+        : body.validFrom === null
+          ? null
+          : parseDateOnlyToUtcMidnight(body.validFrom),
+    validTo:
+      body.validTo === undefined
+        ? undefined
+        : body.validTo === null
+          ? null
+          : parseDateOnlyToUtcMidnight(body.validTo),
+  };
+}
+
+/**
+ * GET /api/admin/tax-rules
+ *
+ * Returns all tax rules (active first), with the scoped property title if any.
+ */
+adminTaxRouter.get("/tax-rules", authMiddleware, requireRole("ADMIN"), async (_req, res, next) => {
+  try {
+    const rules = await prisma.taxRule.findMany({
+      orderBy: [{ isActive: "desc" }, { id: "asc" }],
+      include: { property: { select: { id: true, title: true } } },
+    });
+
+    res.json({ rules });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/admin/tax-rules
+ */
+adminTaxRouter.post(
+  "/tax-rules",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(createTaxRuleSchema),
+  async (req, res, next) => {
+    try {
+      const body = req.body as any;
+
+      if (body.propertyId) {
+        const property = await prisma.property.findUnique({ where: { id: body.propertyId } });
+        if (!property) return res.status(404).json({ message: "Property not found" });
+      }
+
+      const validity = toValidityDates(body);
+
+      const rule = await prisma.taxRule.create({
+        data: {
+          name: body.name,
+          kind: body.kind,
+          amountCents: body.amountCents ?? null,
+          rateBps: body.rateBps ?? null,
+          propertyId: body.propertyId ?? null,
+          propertyCategory: body.propertyCategory ?? null,
+          seasonStartMonth: body.seasonStartMonth ?? null,
+          seasonEndMonth: body.seasonEndMonth ?? null,
+          validFrom: validity.validFrom ?? null,
+          validTo: validity.validTo ?? null,
+          isActive: body.isActive ?? true,
+          notes: body.notes ?? null,
+        },
+      });
+
+      res.status(201).json({ rule });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/tax-rules/:id
+ *
+ * Partial update (undefined -> unchanged, null -> cleared).
+ */
+adminTaxRouter.patch(
+  "/tax-rules/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  validateBody(updateTaxRuleSchema),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid tax rule id" });
+
+      const existing = await prisma.taxRule.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Tax rule not found" });
+
+      const patch = req.body as any;
+
+      const rule = await prisma.taxRule.update({
+        where: { id },
+        data: {
+          name: patch.name ?? undefined,
+          kind: patch.kind ?? undefined,
+          amountCents: patch.amountCents,
+          rateBps: patch.rateBps,
+          propertyId: patch.propertyId,
+          propertyCategory: patch.propertyCategory,
+          seasonStartMonth: patch.seasonStartMonth,
+          seasonEndMonth: patch.seasonEndMonth,
+          ...toValidityDates(patch),
+          isActive: patch.isActive ?? undefined,
+          notes: patch.notes,
+        },
+      });
+
+      res.json({ rule });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/tax-rules/:id
+ *
+ * Safe to delete: bookings keep their own tax line snapshot.
+ */
+adminTaxRouter.delete(
+  "/tax-rules/:id",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const id = Number(req.params.id);
+      if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid tax rule id" });
+
+      const existing = await prisma.taxRule.findUnique({ where: { id } });
+      if (!existing) return res.status(404).json({ message: "Tax rule not found" });
+
+      await prisma.taxRule.delete({ where: { id } });
+      res.json({ ok: true });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/tax-report?month=YYYY-MM
+ *
+ * Monthly filing report:
+ * - confirmed bookings checking in during the month
+ * - totals per tax rule + per booking rows
+ */
+adminTaxRouter.get("/tax-report", authMiddleware, requireRole("ADMIN"), async (req, res, next) => {
+  try {
+    const parsed = taxReportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: parsed.error.issues[0]?.message ?? "Invalid month" });
+    }
+
+    const report = await buildMonthlyTaxReport(parsed.data.month);
+    res.json(report);
+  } catch (err) {
+    next(err);
+  }
+});
@@ -6,7 +6,14 @@ import {
   createBookingPeriodSchema,
   updateBookingPeriodSchema,
 } from "@eagle-villas/shared/schemas/booking.period.schema";
-import { ensureNoPeriodOverlap } from "../services/periods.service.js";
+import { Prisma } from "@prisma/client";
+import {
+  ensureNoPeriodOverlap,
+  normalizeStayDiscountTiers,
+  normalizeWeekdayNightlyPrices,
+} from "../services/periods.service.js";
+import { ensureCancellationPolicyExists } from "../services/cancellationPolicy.service.js";
+import { findOrphanGaps } from "../services/gapNights.service.js";
 
 // NOTE: Make sure this path is correct in your project.
 // In your other files you used "../midleware/...". Keep it consistent.
@@ -20,10 +27,11 @@ export const adminPeriodsRouter = Router();
  * ADMIN PERIODS ROUTER
  * --------------------
  * Periods are the authoritative source for:
- * - nightly pricing (standardNightlyPrice)
+ * - nightly pricing (standardNightlyPrice + optional weekdayNightlyPrices)
  * - availability (isOpen)
- * - booking constraints (minNights, maxGuests)
+ * - booking constraints (minNights, maxGuests, allowed arrival/departure weekdays)
  * - weekly discount settings (weeklyDiscountPercentBps + threshold)
+ * - length-of-stay tiers (stayDiscountTiers), which replace the weekly discount when set
  *
  * Critical design assumptions:
  * 1) Periods should not overlap for a given property.
@@ -63,6 +71,7 @@ adminPeriodsRouter.get(
       const periods = await prisma.bookingPeriod.findMany({
         where: { propertyId },
         orderBy: { startDate: "asc" },
+        include: { cancellationPolicy: { select: { id: true, name: true } } },
       });
 
       res.json(periods);
@@ -72,6 +81,91 @@ adminPeriodsRouter.get(
   }
 );
 
+// Gap report window: defaults to the next GAP_REPORT_DEFAULT_DAYS, at most GAP_REPORT_MAX_DAYS
+const GAP_REPORT_DEFAULT_DAYS = 180;
+const GAP_REPORT_MAX_DAYS = 550;
+
+/**
+ * GET /api/admin/properties/:propertyId/gaps?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Orphan gap report: free nights between two bookings / blocks that are shorter than
+ * the min nights, starting in [from, to) (see services/gapNights.service.ts).
+ *
+ * Notes:
+ * - from defaults to today, to to from + GAP_REPORT_DEFAULT_DAYS.
+ * - bookable = the property sells gaps (gapFillEnabled) and the gap passes the
+ *   check-in / check-out weekday rules.
+ */
+adminPeriodsRouter.get(
+  "/properties/:propertyId/gaps",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const propertyId = Number(req.params.propertyId);
+      if (Number.isNaN(propertyId)) {
+        return res.status(400).json({ message: "Invalid property id" });
+      }
+
+      const { from, to } = req.query as { from?: string; to?: string };
+
+      const today = new Date();
+      const fromDate = from
+        ? parseDateOnlyToUtcMidnight(from)
+        : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+      if (Number.isNaN(fromDate.getTime())) {
+        return res.status(400).json({ message: "Invalid from date" });
+      }
+
+      const toDate = to
+        ? parseDateOnlyToUtcMidnight(to)
+        : new Date(fromDate.getTime() + GAP_REPORT_DEFAULT_DAYS * 24 * 60 * 60 * 1000);
+      if (Number.isNaN(toDate.getTime())) {
+        return res.status(400).json({ message: "Invalid to date" });
+      }
+
+      const days = Math.round((toDate.getTime() - fromDate.getTime()) / (24 * 60 * 60 * 1000));
+      if (days < 1) {
+        return res.status(400).json({ message: "to must be after from" });
+      }
+      if (days > GAP_REPORT_MAX_DAYS) {
+        return res.status(400).json({ message: `At most ${GAP_REPORT_MAX_DAYS} days per report` });
+      }
+
+      const property = await prisma.property.findUnique({
+        where: { id: propertyId },
+        select: {
+          id: true,
+          title: true,
+          pricePerNight: true,
+          minNights: true,
+          gapFillEnabled: true,
+          gapDiscountBps: true,
+        },
+      });
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const gaps = await findOrphanGaps(property, fromDate, toDate);
+
+      res.json({
+        property: {
+          id: property.id,
+          title: property.title,
+          gapFillEnabled: property.gapFillEnabled,
+          gapDiscountBps: property.gapDiscountBps,
+        },
+        from: fromDate.toISOString().slice(0, 10),
+        to: toDate.toISOString().slice(0, 10),
+        gaps,
+      });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 /**
  * POST /api/admin/periods
  *
@@ -128,11 +222,16 @@ adminPeriodsRouter.post(
         startDate,
         endDate,
       });
+      await ensureCancellationPolicyExists(body.cancellationPolicyId);
 
       // 4) Create period with defaults. These defaults must match your business logic:
       // - isOpen defaults to true
       // - weeklyThresholdNights defaults to 7
       // - minNights defaults to 1
+      // All-null weekday arrays mean "no overrides"
+      const weekdayNightlyPrices = normalizeWeekdayNightlyPrices(body.weekdayNightlyPrices);
+      const stayDiscountTiers = normalizeStayDiscountTiers(body.stayDiscountTiers);
+
       const period = await prisma.bookingPeriod.create({
         data: {
           propertyId: body.propertyId,
@@ -140,10 +239,22 @@ adminPeriodsRouter.post(
           endDate,
           isOpen: body.isOpen ?? true,
           standardNightlyPrice: body.standardNightlyPrice,
+          ...(weekdayNightlyPrices ? { weekdayNightlyPrices } : {}),
           weeklyDiscountPercentBps: body.weeklyDiscountPercentBps ?? null,
           weeklyThresholdNights: body.weeklyThresholdNights ?? 7,
+          ...(stayDiscountTiers ? { stayDiscountTiers } : {}),
           minNights: body.minNights ?? 1,
+          allowedArrivalWeekdays: body.allowedArrivalWeekdays ?? [],
+          allowedDepartureWeekdays: body.allowedDepartureWeekdays ?? [],
           maxGuests: body.maxGuests,
+          cleaningFeeCents: body.cleaningFeeCents ?? null,
+          linenFeeCents: body.linenFeeCents ?? null,
+          petFeeCents: body.petFeeCents ?? null,
+          extraBedFeeCents: body.extraBedFeeCents ?? null,
+          baseOccupancy: body.baseOccupancy ?? null,
+          extraAdultNightlyCents: body.extraAdultNightlyCents ?? null,
+          extraChildNightlyCents: body.extraChildNightlyCents ?? null,
+          cancellationPolicyId: body.cancellationPolicyId ?? null,
           name: body.name ?? null,
           notes: body.notes ?? null,
         },
@@ -213,6 +324,7 @@ adminPeriodsRouter.patch(
         endDate: nextEnd,
         ignorePeriodId: periodId,
       });
+      await ensureCancellationPolicyExists(patch.cancellationPolicyId);
 
       // Apply patch using Prisma semantics:
       // - undefined -> do not change field
@@ -224,11 +336,34 @@ adminPeriodsRouter.patch(
           endDate: patch.endDate ? nextEnd : undefined,
           isOpen: patch.isOpen ?? undefined,
           standardNightlyPrice: patch.standardNightlyPrice ?? undefined,
+          weekdayNightlyPrices:
+            patch.weekdayNightlyPrices === undefined
+              ? undefined
+              : (normalizeWeekdayNightlyPrices(patch.weekdayNightlyPrices) ?? Prisma.DbNull),
           weeklyDiscountPercentBps:
             patch.weeklyDiscountPercentBps === undefined ? undefined : patch.weeklyDiscountPercentBps,
           weeklyThresholdNights: patch.weeklyThresholdNights ?? undefined,
+          stayDiscountTiers:
+            patch.stayDiscountTiers === undefined
+              ? undefined
+              : (normalizeStayDiscountTiers(patch.stayDiscountTiers) ?? Prisma.DbNull),
           minNights: patch.minNights ?? undefined,
+          allowedArrivalWeekdays: patch.allowedArrivalWeekdays ?? undefined,
+          allowedDepartureWeekdays: patch.allowedDepartureWeekdays ?? undefined,
           maxGuests: patch.maxGuests ?? undefined,
+          cleaningFeeCents:
+            patch.cleaningFeeCents === undefined ? undefined : patch.cleaningFeeCents,
+          linenFeeCents: patch.linenFeeCents === undefined ? undefined : patch.linenFeeCents,
+          petFeeCents: patch.petFeeCents === undefined ? undefined : patch.petFeeCents,
+          extraBedFeeCents:
+            patch.extraBedFeeCents === undefined ? undefined : patch.extraBedFeeCents,
+          baseOccupancy: patch.baseOccupancy === undefined ? undefined : patch.baseOccupancy,
+          extraAdultNightlyCents:
+            patch.extraAdultNightlyCents === undefined ? undefined : patch.extraAdultNightlyCents,
+          extraChildNightlyCents:
+            patch.extraChildNightlyCents === undefined ? undefined : patch.extraChildNightlyCents,
+          cancellationPolicyId:
+            patch.cancellationPolicyId === undefined ? undefined : patch.cancellationPolicyId,
           name: patch.name === undefined ? undefined : patch.name,
           notes: patch.notes === undefined ? undefined : patch.notes,
         },
@@ -327,7 +462,7 @@ adminPeriodsRouter.get(
           : {};
 
       // Fetch everything in parallel for performance (admin calendar often hits this frequently)
-      const [direct, bookingCom, manual, periods] = await Promise.all([
+      const [direct, external, manual, periods] = await Promise.all([
         prisma.booking.findMany({
           where: {
             propertyId,
@@ -337,8 +472,9 @@ adminPeriodsRouter.get(
           orderBy: { startDate: "asc" },
         }),
         prisma.externalBlock.findMany({
-          where: { propertyId, provider: "BOOKING_COM", ...(rangeWhere as any) },
+          where: { propertyId, ...(rangeWhere as any) },
           orderBy: { startDate: "asc" },
+          include: { calendar: { select: { name: true } } },
         }),
         prisma.manualBlock.findMany({
           where: { propertyId, ...(rangeWhere as any) },
@@ -363,8 +499,10 @@ adminPeriodsRouter.get(
             guestsCount: b.guestsCount,
             totalPrice: b.totalPrice,
           })),
-          ...bookingCom.map((x) => ({
-            source: "BOOKING_COM",
+          ...external.map((x) => ({
+            source: "EXTERNAL",
+            provider: x.provider,
+            calendarName: x.calendar.name,
             id: x.id,
             startDate: x.startDate,
             endDate: x.endDate,
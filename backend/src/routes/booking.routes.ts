@@ -1,15 +1,27 @@
 import { Router } from "express";
+import type { Prisma } from "@prisma/client";
 import { prisma } from "../prismaClient.js";
 import { createBookingSchema } from "@eagle-villas/shared/schemas/booking.schema";
 import { validateBody } from "../midleware/validateBody.js";
 import { optionalAuthMiddleware } from "../midleware/optionalAuthMiddleware.js";
 import {
-  getOpenPeriodSegments,
-  nightsBetween,
-  applyWeeklyDiscount,
-} from "../services/periods.service.js";
+  buildCheckoutLineItems,
+  quoteStay,
+  withPaymentSchedule,
+  withPaymentSplit,
+} from "../services/pricing.service.js";
+import {
+  buildPaymentSchedule,
+  installmentsCreateData,
+} from "../services/paymentSchedule.service.js";
+import { consumeCreditsCents, estimateCreditsCents } from "../services/credits.service.js";
+import { reserveDateRange } from "../services/availability.service.js";
+import { reservePromoRedemption } from "../services/promo.service.js";
+import { isWeekdayAllowed, nightlyPriceForNight } from "../services/periods.service.js";
+import { buildAvailabilityDays } from "../services/availabilityCalendar.service.js";
 import { stripe } from "../stripe/stripeClient.js";
-import { REFUND_POLICY, daysBeforeStart, getRefundTier } from "../payments/refundPolicy.js";
+import { daysBeforeStart, getRefundTier } from "../payments/refundPolicy.js";
+import { resolveCancellationPolicy } from "../services/cancellationPolicy.service.js";
 import { bookingQuoteSchema } from "@eagle-villas/shared/schemas/bookingQuoteSchema";
 
 export const bookingRouter = Router();
@@ -39,59 +51,15 @@ function parseDateOnlyToUtcMidnight(value: string): Date {
   );
 }
 
-/**
- * Checks if a date range overlaps with:
- * - direct site bookings (pending/confirmed)
- * - Booking.com imported blocks (externalBlock)
- * - manual blocks (manualBlock)
- *
- * Overlap condition:
- * existing.start < requested.end AND existing.end > requested.start
- *
- * Notes:
- * - We treat "pending" bookings as holds to prevent double-selling inventory
- *   while a customer is completing Stripe Checkout.
- */
-async function isDateRangeTaken(propertyId: number, start: Date, end: Date) {
-  const [direct, external, manual] = await Promise.all([
-    prisma.booking.findFirst({
-      where: {
-        propertyId,
-        status: { in: ["pending", "confirmed"] },
-        startDate: { lt: end },
-        endDate: { gt: start },
-      },
-      select: { id: true },
-    }),
-    prisma.externalBlock.findFirst({
-      where: {
-        propertyId,
-        provider: "BOOKING_COM",
-        startDate: { lt: end },
-        endDate: { gt: start },
-      },
-      select: { id: true },
-    }),
-    prisma.manualBlock.findFirst({
-      where: {
-        propertyId,
-        startDate: { lt: end },
-        endDate: { gt: start },
-      },
-      select: { id: true },
-    }),
-  ]);
-
-  return Boolean(direct || external || manual);
-}
-
 /**
  * GET /api/bookings/calendar/property/:propertyId?from=YYYY-MM-DD&to=YYYY-MM-DD
  * (USED FOR CUSTOMER CALENDAR)
  * Returns:
- * - blocks: DIRECT + BOOKING_COM + MANUAL (public-safe, no PII)
+ * - blocks: DIRECT + EXTERNAL (channel iCal) + MANUAL (public-safe, no PII)
  * - dailyPrices: map of YYYY-MM-DD -> nightly price (period price if OPEN, else property default)
  * - dailyOpen: map of YYYY-MM-DD -> boolean (true only if covered by an OPEN period)
+ * - dailyArrivalAllowed: map of YYYY-MM-DD -> boolean (open AND check-in weekday allowed)
+ * - dailyDepartureAllowed: map of YYYY-MM-DD -> boolean (previous night open AND check-out weekday allowed)
  * - defaultNightlyPrice: property.pricePerNight
  * - hasAnyPeriods: boolean
  *
@@ -142,7 +110,7 @@ bookingRouter.get("/calendar/property/:propertyId", async (req, res, next) => {
       AND: [{ startDate: { lt: toDate } }, { endDate: { gt: fromDate } }],
     };
 
-    const [direct, bookingCom, manual, periods] = await Promise.all([
+    const [direct, external, manual, periods] = await Promise.all([
       prisma.booking.findMany({
         where: {
           propertyId,
@@ -153,7 +121,7 @@ bookingRouter.get("/calendar/property/:propertyId", async (req, res, next) => {
         select: { id: true, startDate: true, endDate: true, status: true },
       }),
       prisma.externalBlock.findMany({
-        where: { propertyId, provider: "BOOKING_COM", ...(rangeWhere as any) },
+        where: { propertyId, ...(rangeWhere as any) },
         orderBy: { startDate: "asc" },
         select: { id: true, startDate: true, endDate: true, summary: true },
       }),
@@ -171,6 +139,9 @@ bookingRouter.get("/calendar/property/:propertyId", async (req, res, next) => {
           endDate: true,
           isOpen: true,
           standardNightlyPrice: true,
+          weekdayNightlyPrices: true,
+          allowedArrivalWeekdays: true,
+          allowedDepartureWeekdays: true,
         },
       }),
     ]);
@@ -183,8 +154,8 @@ bookingRouter.get("/calendar/property/:propertyId", async (req, res, next) => {
         endDate: b.endDate,
         status: b.status,
       })),
-      ...bookingCom.map((x) => ({
-        source: "BOOKING_COM" as const,
+      ...external.map((x) => ({
+        source: "EXTERNAL" as const,
         id: x.id,
         startDate: x.startDate,
         endDate: x.endDate,
@@ -211,34 +182,51 @@ bookingRouter.get("/calendar/property/:propertyId", async (req, res, next) => {
     const dailyPrices: Record<string, number> = {};
     const dailyOpen: Record<string, boolean> = {};
 
+    // Check-in / check-out weekday rules (see pricing.service.ts):
+    // - arrival on D is governed by the period covering D
+    // - departure on D is governed by the period covering D - 1 (the last night)
+    const dailyArrivalAllowed: Record<string, boolean> = {};
+    const dailyDepartureAllowed: Record<string, boolean> = {};
+    const periodFor = (d: Date) => periods.find((p) => d >= p.startDate && d < p.endDate);
+
     for (let d = new Date(fromDate); d < toDate; d = new Date(d.getTime() + 86400000)) {
       const key = ymdUTC(d);
 
       if (!hasAnyPeriods) {
         // No periods configured => default CLOSED for all days
         dailyOpen[key] = false;
+        dailyArrivalAllowed[key] = false;
+        dailyDepartureAllowed[key] = false;
         dailyPrices[key] = property.pricePerNight;
         continue;
       }
 
-      const p = periods.find((p) => d >= p.startDate && d < p.endDate);
+      const p = periodFor(d);
+      const lastNight = periodFor(new Date(d.getTime() - 86400000));
+
+      dailyDepartureAllowed[key] =
+        !!lastNight?.isOpen && isWeekdayAllowed(lastNight.allowedDepartureWeekdays, d);
 
       // Default CLOSED when no period
       if (!p) {
         dailyOpen[key] = false;
+        dailyArrivalAllowed[key] = false;
         dailyPrices[key] = property.pricePerNight;
         continue;
       }
 
       // Covered by a period: OPEN only if period.isOpen=true
       dailyOpen[key] = !!p.isOpen;
-      dailyPrices[key] = p.standardNightlyPrice ?? property.pricePerNight;
+      dailyArrivalAllowed[key] = !!p.isOpen && isWeekdayAllowed(p.allowedArrivalWeekdays, d);
+      dailyPrices[key] = nightlyPriceForNight(p, d, property.pricePerNight);
     }
 
     return res.json({
       blocks,
       dailyPrices,
       dailyOpen,
+      dailyArrivalAllowed,
+      dailyDepartureAllowed,
       defaultNightlyPrice: property.pricePerNight,
       hasAnyPeriods,
     });
@@ -248,6 +236,63 @@ bookingRouter.get("/calendar/property/:propertyId", async (req, res, next) => {
 });
 
 
+// Longest range served by the availability calendar (months)
+const AVAILABILITY_MAX_MONTHS = 18;
+
+/**
+ * GET /api/bookings/availability/property/:propertyId?from=YYYY-MM&to=YYYY-MM
+ * (USED FOR CUSTOMER CALENDAR)
+ * Per-date status / nightly rate / min nights / check-in and check-out flags for the
+ * months from..to (both included), see services/availabilityCalendar.service.ts.
+ * Returns { days, defaultNightlyPrice }; no booking details (public).
+ */
+bookingRouter.get("/availability/property/:propertyId", async (req, res, next) => {
+  try {
+    const propertyId = Number(req.params.propertyId);
+    if (Number.isNaN(propertyId)) {
+      return res.status(400).json({ message: "Invalid property id" });
+    }
+
+    const { from, to } = req.query as { from?: string; to?: string };
+    const monthRe = /^(\d{4})-(0[1-9]|1[0-2])$/;
+    const fromMatch = from ? monthRe.exec(from) : null;
+    const toMatch = to ? monthRe.exec(to) : null;
+    if (!fromMatch || !toMatch) {
+      return res.status(400).json({ message: "from and to are required (YYYY-MM)" });
+    }
+
+    const fromDate = new Date(Date.UTC(Number(fromMatch[1]), Number(fromMatch[2]) - 1, 1));
+    // first day of the month after `to` (exclusive)
+    const toDate = new Date(Date.UTC(Number(toMatch[1]), Number(toMatch[2]), 1));
+
+    const months =
+      (toDate.getUTCFullYear() - fromDate.getUTCFullYear()) * 12 +
+      (toDate.getUTCMonth() - fromDate.getUTCMonth());
+    if (months < 1) {
+      return res.status(400).json({ message: "to must not be before from" });
+    }
+    if (months > AVAILABILITY_MAX_MONTHS) {
+      return res
+        .status(400)
+        .json({ message: `At most ${AVAILABILITY_MAX_MONTHS} months per request` });
+    }
+
+    const property = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { id: true, pricePerNight: true, minNights: true, gapFillEnabled: true },
+    });
+    if (!property) {
+      return res.status(404).json({ message: "Property not found" });
+    }
+
+    const days = await buildAvailabilityDays(property, fromDate, toDate);
+
+    return res.json({ days, defaultNightlyPrice: property.pricePerNight });
+  } catch (err) {
+    next(err);
+  }
+});
+
 /**
  * POST /api/bookings
  *
@@ -262,6 +307,8 @@ bookingRouter.get("/calendar/property/:propertyId", async (req, res, next) => {
  *   - creates payment.provider = "stripe" (unless payableCents===0)
  *   - returns Stripe Checkout URL
  *   - booking becomes "confirmed" only after Stripe webhook: checkout.session.completed
+ *   - properties with a deposit (Property.depositBps) charge the deposit now and schedule
+ *     the balance (services/paymentSchedule.service.ts) when check-in is far enough away
  * - ADMIN:
  *   - creates booking.status = "confirmed"
  *   - creates payment.provider = "admin", payment.amountCents = 0
@@ -270,12 +317,13 @@ bookingRouter.get("/calendar/property/:propertyId", async (req, res, next) => {
  * Credit policy:
  * - credits reduce the Stripe amount (payableCents)
  * - creditsAppliedCents are stored on Payment (non-refundable)
- * - refunds are only ever based on Payment.amountCents (cash paid to Stripe)
+ * - refunds are only ever based on Payment.paidCents (cash actually collected by Stripe)
  *
  * Pricing behavior:
- * - Period pricing is used when a night is covered by a period.
- * - If a night is not covered by any period, we allow fallback pricing using property defaults.
- * - If any covered night is within a CLOSED period, we reject the booking.
+ * - Delegated to quoteStay() (services/pricing.service.ts), shared with /quote.
+ * - ratePlan "non_refundable" is discounted and stored on Booking.ratePlan; its cancellation
+ *   terms (no refund, no voucher) are snapshotted instead of the villa policy.
+ * - Every night must be covered by an OPEN period; closed or uncovered nights reject the booking.
  */
 bookingRouter.post(
   "/",
@@ -290,10 +338,15 @@ bookingRouter.post(
         adults,
         children,
         babies,
+        pets, // defaults 0 via zod schema
+        extraBeds, // defaults 0 via zod schema
         useCredit, // defaults false via zod schema
+        promoCode,
+        ratePlan, // undefined = standard
         guestName,
         guestEmail,
         guestPhone,
+        arrivalTime,
       } = req.body as any;
 
       /**
@@ -316,109 +369,62 @@ bookingRouter.post(
         return res.status(400).json({ message: "End date must be after start date" });
       }
 
-      // 1) Load property (defaults are used when segments are uncovered)
-      const property = await prisma.property.findUnique({
-        where: { id: propertyId },
-      });
-      if (!property) return res.status(404).json({ message: "Property not found" });
-
-      const propertyDefaultMinNights = (property as any).minNights ?? 1;
-      const propertyDefaultMaxGuests = property.maxGuests;
-      const propertyDefaultNightlyPrice = property.pricePerNight;
-
-      // 2) Property-level max guests (babies excluded)
-      if (countedGuests > propertyDefaultMaxGuests) {
-        return res.status(400).json({
-          message: `Max guests for this property is ${propertyDefaultMaxGuests}`,
-        });
-      }
-
-      // 3) Check availability including iCal blocks
-      const isTaken = await isDateRangeTaken(propertyId, start, end);
-      if (isTaken) {
-        return res.status(409).json({ message: "These dates are not available for this property" });
-      }
-
-      // 4) Nights count (must be >= 1)
-      const nights = nightsBetween(start, end);
-      if (nights <= 0) return res.status(400).json({ message: "Stay must be at least 1 night" });
+      // Auth context (promo per-user limits need it before pricing)
+      const userId = req.user?.userId ?? null;
+      const role = req.user?.role ?? "CUSTOMER";
 
-      // 5) Get open coverage segments:
-      // - ok=false if any part hits CLOSED
-      // - segments may include "uncovered" entries where period=null (fallback pricing allowed)
-      const coverage = await getOpenPeriodSegments({
+      // 1) Shared pricing engine: property, availability, periods, min nights,
+      //    max guests, nightly segments, discounts, promo code and stay fees (see pricing.service.ts)
+      const pricing = await quoteStay({
         propertyId,
         startDate: start,
         endDate: end,
+        adults,
+        children,
+        babies,
+        pets,
+        extraBeds,
+        promoCode,
+        ratePlan,
+        userId,
+        ignorePromoUserLimit: role === "ADMIN",
       });
-
-      if (!coverage.ok) {
-        return res.status(409).json({
-          message:
-            coverage.reason === "CLOSED"
-              ? "These dates are not available (closed period)"
-              : "These dates are not available",
-        });
+      if (!pricing.ok) {
+        return res.status(pricing.status).json({ message: pricing.message });
       }
 
-      // Arrival period defines min nights + weekly discount rules (Booking.com style)
-      const arrivalPeriod = coverage.segments[0]?.period ?? null;
-
-      // 6) Min nights (arrival-based, fallback to property)
-      const arrivalMinNights = arrivalPeriod?.minNights ?? propertyDefaultMinNights;
-      if (nights < arrivalMinNights) {
-        return res.status(400).json({
-          message: `Minimum stay for these dates is ${arrivalMinNights} nights`,
-        });
-      }
+      const { property, arrivalPeriod, price } = pricing;
+      const totalPrice = price.totalEur; // EUR int (gross booking value)
 
-      // 7) Strictest maxGuests across stay (babies excluded)
-      const strictestMaxGuests = Math.min(
-        propertyDefaultMaxGuests,
-        ...coverage.segments.map((s) => s.period?.maxGuests ?? propertyDefaultMaxGuests)
+      // Cancellation terms are frozen on the booking (later policy edits don't apply to it)
+      const cancellationPolicy = await resolveCancellationPolicy(
+        property,
+        arrivalPeriod,
+        price.ratePlan.plan
       );
 
-      if (countedGuests > strictestMaxGuests) {
-        return res.status(400).json({
-          message: `Max guests for selected dates is ${strictestMaxGuests}`,
+      // 2) Promo redemption ledger row, created with the booking.
+      //    Admin bookings are made for a guest: the redemption is not the admin's.
+      const redemptionUserId = role === "ADMIN" ? null : userId;
+      const promoRedemption = price.promoCode
+        ? {
+            create: {
+              promoCodeId: price.promoCode.promoCodeId,
+              userId: redemptionUserId,
+              discountCents: price.promoCode.discountCents,
+            },
+          }
+        : undefined;
+
+      // Re-counts the promo limits under the code's lock (the quote above counted without it)
+      const claimPromoRedemption = async (tx: Prisma.TransactionClient) => {
+        if (!price.promoCode) return;
+        await reservePromoRedemption(tx, {
+          promoCodeId: price.promoCode.promoCodeId,
+          userId: redemptionUserId,
+          ignoreUserLimit: role === "ADMIN",
         });
-      }
-
-      // 8) Compute base total (EUR) + segment breakdown
-      let baseTotal = 0;
-
-      const segmentBreakdown = coverage.segments.map((seg) => {
-        const segNights = nightsBetween(seg.from, seg.to);
-
-        // Period price if present, else fallback to property default
-        const nightly = seg.period?.standardNightlyPrice ?? propertyDefaultNightlyPrice;
-
-        const segTotal = segNights * nightly;
-        baseTotal += segTotal;
-
-        return {
-          periodId: seg.period?.id ?? null,
-          from: seg.from.toISOString().slice(0, 10),
-          to: seg.to.toISOString().slice(0, 10),
-          nights: segNights,
-          nightlyPrice: nightly,
-          segmentTotal: segTotal,
-        };
-      });
-
-      // 9) Apply weekly discount (only if arrivalPeriod has weeklyDiscountPercentBps)
-      const weekly = applyWeeklyDiscount({
-        baseTotal,
-        nights,
-        weeklyThresholdNights: arrivalPeriod?.weeklyThresholdNights ?? 7,
-        weeklyDiscountPercentBps: arrivalPeriod?.weeklyDiscountPercentBps ?? null,
-      });
-
-      const totalPrice = weekly.total; // EUR int (gross booking value)
-
-      // 10) Auth context
-      const userId = req.user?.userId ?? null;
-      const role = req.user?.role ?? "CUSTOMER";
+      };
 
       /**
        * ==========================
@@ -428,57 +434,54 @@ bookingRouter.post(
        * Payment is recorded as provider="admin" with amountCents=0 (no Stripe involved).
        */
       if (role === "ADMIN") {
-        const breakdownJson = {
-          currency: "eur",
-
-          // stay pricing
-          nights,
-          segments: segmentBreakdown,
-          baseTotalEur: baseTotal,
-          weeklyDiscountAppliedBps: weekly.appliedBps ?? null,
-          totalEur: totalPrice,
-
-          // payment split
-          grossTotalCents: totalPrice * 100,
-          creditsAppliedCents: 0,
-          cashDueNowCents: 0,
-          creditRefundable: false,
-          refundPolicyAppliesTo: "cash_paid_to_stripe_only",
-        };
-
-        const booking = await prisma.booking.create({
-          data: {
-            propertyId,
-            userId,
-            bookingPeriodId: arrivalPeriod?.id ?? null,
-            startDate: start,
-            endDate: end,
-            guestName,
-            guestEmail,
-            guestPhone,
-
-            adults: Number(adults),
-            children: Number(children),
-            babies: Number(babies),
-            guestsCount: countedGuests,
-
-            totalPrice,
-            priceBreakdown: breakdownJson,
-            weeklyDiscountAppliedBps: weekly.appliedBps,
-            status: "confirmed",
-
-            payment: {
-              create: {
-                provider: "admin",
-                status: "paid",
-                amountCents: 0,
-                refundedCents: 0,
-                currency: "eur",
-                creditsAppliedCents: 0,
+        // Admin bookings are not charged: nothing is due now.
+        const breakdownJson = { ...withPaymentSplit(price, 0), cashDueNowCents: 0 };
+
+        // Re-check availability under the property calendar lock (409 if taken meanwhile)
+        const booking = await prisma.$transaction(async (tx) => {
+          await reserveDateRange(tx, propertyId, start, end);
+          await claimPromoRedemption(tx);
+
+          return tx.booking.create({
+            data: {
+              propertyId,
+              userId,
+              bookingPeriodId: arrivalPeriod?.id ?? null,
+              startDate: start,
+              endDate: end,
+              guestName,
+              guestEmail,
+              guestPhone,
+              arrivalTime: arrivalTime ?? null,
+              cancellationPolicySnapshot: cancellationPolicy,
+              ratePlan: price.ratePlan.plan,
+
+              adults: Number(adults),
+              children: Number(children),
+              babies: Number(babies),
+              guestsCount: countedGuests,
+              pets: Number(pets),
+              extraBedsCount: Number(extraBeds),
+
+              totalPrice,
+              priceBreakdown: breakdownJson,
+              weeklyDiscountAppliedBps: price.weeklyDiscountAppliedBps,
+              status: "confirmed",
+              promoRedemption,
+
+              payment: {
+                create: {
+                  provider: "admin",
+                  status: "paid",
+                  amountCents: 0,
+                  refundedCents: 0,
+                  currency: "eur",
+                  creditsAppliedCents: 0,
+                },
               },
             },
-          },
-          include: { payment: true },
+            include: { payment: true },
+          });
         });
 
         return res.status(201).json({
@@ -501,59 +504,34 @@ bookingRouter.post(
         return res.status(401).json({ message: "Please login to book and pay." });
       }
 
-      // 10.5) Credit application (optional)
+      // 3) Credit application (optional)
       // Total due in cents (gross)
-      const totalDueCents = totalPrice * 100;
-
-      let creditsAppliedCents = 0;
-      let payableCents = totalDueCents;
-
-      if (useCredit === true) {
-        const now = new Date();
+      const totalDueCents = price.totalCents;
 
-        // NOTE: we compute how much credit CAN be applied before we consume it in the transaction.
-        const vouchers = await prisma.creditVoucher.findMany({
-          where: { userId, currency: "eur", status: "active" },
-          orderBy: [{ expiresAt: "asc" }, { createdAt: "asc" }],
-        });
-
-        let remainingToCover = totalDueCents;
-
-        for (const v of vouchers) {
-          if (remainingToCover <= 0) break;
-          if (v.remainingCents <= 0) continue;
-          if (v.expiresAt && v.expiresAt.getTime() <= now.getTime()) continue;
-
-          const use = Math.min(v.remainingCents, remainingToCover);
-          remainingToCover -= use;
-          creditsAppliedCents += use;
-        }
-
-        // Net cash the customer will pay to Stripe
-        payableCents = Math.max(0, totalDueCents - creditsAppliedCents);
-      }
+      // NOTE: we compute how much credit CAN be applied before we consume it in the transaction.
+      const creditsAppliedCents =
+        useCredit === true ? await estimateCreditsCents(userId, totalDueCents) : 0;
 
-      // 10.6) Breakdown stored on booking + returned to UI for the "review before pay" screen
-      const breakdownJson = {
-        currency: "eur",
+      // 4) Breakdown stored on booking + returned to UI for the "review before pay" screen
+      // (credit is explicitly non-refundable)
+      const split = withPaymentSplit(price, creditsAppliedCents);
 
-        // stay pricing
-        nights,
-        segments: segmentBreakdown,
-        baseTotalEur: baseTotal,
-        weeklyDiscountAppliedBps: weekly.appliedBps ?? null,
-        totalEur: totalPrice,
+      // Net cash the customer will pay to Stripe, possibly as deposit + balance
+      const cashTotalCents = split.cashDueNowCents;
+      const schedule = buildPaymentSchedule({
+        property,
+        startDate: start,
+        now: new Date(),
+        cashCents: cashTotalCents,
+      });
+      const breakdownJson = withPaymentSchedule(split, schedule);
+      const isDeposit = schedule.some((line) => line.kind === "balance");
 
-        // payment split (credit is explicitly non-refundable)
-        grossTotalCents: totalPrice * 100,
-        creditsAppliedCents,
-        cashDueNowCents: payableCents,
-        creditRefundable: false,
-        refundPolicyAppliesTo: "cash_paid_to_stripe_only",
-      };
+      // Cash charged by this Checkout (the deposit for deposit schedules)
+      const payableCents = breakdownJson.cashDueNowCents;
 
       /**
-       * 11) Create booking + payment + (optional) consume vouchers atomically
+       * 5) Create booking + payment + (optional) consume vouchers atomically
        *
        * - If payableCents === 0:
        *   - we confirm immediately (no Stripe)
@@ -561,9 +539,16 @@ bookingRouter.post(
        *
        * - Else:
        *   - booking.pending until webhook confirms Stripe session completion
-       *   - payment.provider="stripe", amountCents=payableCents
+       *   - payment.provider="stripe", amountCents=cash due over all installments
+       *   - one PaymentInstallment per schedule line (the ledger the webhook + jobs update)
+       *
+       * The dates are re-checked under the property calendar lock first, so two guests racing
+       * for overlapping dates cannot both get a pending booking (the loser gets a 409).
        */
       const booking = await prisma.$transaction(async (tx) => {
+        await reserveDateRange(tx, propertyId, start, end);
+        await claimPromoRedemption(tx);
+
         const booking = await tx.booking.create({
           data: {
             propertyId,
@@ -574,72 +559,49 @@ bookingRouter.post(
             guestName,
             guestEmail,
             guestPhone,
+            arrivalTime: arrivalTime ?? null,
+            cancellationPolicySnapshot: cancellationPolicy,
+            ratePlan: price.ratePlan.plan,
 
             adults: Number(adults),
             children: Number(children),
             babies: Number(babies),
             guestsCount: countedGuests,
+            pets: Number(pets),
+            extraBedsCount: Number(extraBeds),
 
             totalPrice,
             priceBreakdown: breakdownJson,
-            weeklyDiscountAppliedBps: weekly.appliedBps,
+            weeklyDiscountAppliedBps: price.weeklyDiscountAppliedBps,
             status: payableCents === 0 ? "confirmed" : "pending",
+            promoRedemption,
 
             payment: {
               create: {
                 provider: payableCents === 0 ? "admin" : "stripe",
                 status: payableCents === 0 ? "paid" : "unpaid",
-                amountCents: payableCents, // ✅ cash charged to Stripe (0 if fully covered by credit)
+                amountCents: cashTotalCents, // ✅ cash due to Stripe (0 if fully covered by credit)
                 refundedCents: 0,
                 currency: "eur",
                 creditsAppliedCents, // ✅ non-refundable credits used
+                schedule: isDeposit ? "deposit" : "full",
+                installments: { create: installmentsCreateData(schedule) },
               },
             },
           },
-          include: { payment: true },
+          include: { payment: { include: { installments: true } } },
         });
 
         // Consume vouchers only if we decided to apply them
         if (useCredit === true && creditsAppliedCents > 0) {
-          const now = new Date();
-          let remainingToConsume = creditsAppliedCents;
-
-          const vouchers = await tx.creditVoucher.findMany({
-            where: { userId, currency: "eur", status: "active" },
-            orderBy: [{ expiresAt: "asc" }, { createdAt: "asc" }],
-          });
-
-          for (const v of vouchers) {
-            if (remainingToConsume <= 0) break;
-            if (v.remainingCents <= 0) continue;
-            if (v.expiresAt && v.expiresAt.getTime() <= now.getTime()) continue;
-
-            const use = Math.min(v.remainingCents, remainingToConsume);
-            remainingToConsume -= use;
-
-            const newRemaining = v.remainingCents - use;
-
-            if (newRemaining === 0) {
-              await tx.creditVoucher.delete({ where: { id: v.id } });
-            } else {
-              await tx.creditVoucher.update({
-                where: { id: v.id },
-                data: { remainingCents: newRemaining },
-              });
-            }
-          }
-
-          // Hard safety: if mismatch, abort transaction so we don't create inconsistent booking/payment
-          if (remainingToConsume !== 0) {
-            throw new Error("Credit voucher consumption mismatch");
-          }
+          await consumeCreditsCents(tx, userId, creditsAppliedCents, booking.id);
         }
 
         return booking;
       });
 
       /**
-       * 12) If nothing left to pay, skip Stripe entirely.
+       * 6) If nothing left to pay, skip Stripe entirely.
        * Important: checkoutUrl MUST be null here.
        */
       if (payableCents === 0) {
@@ -653,28 +615,29 @@ bookingRouter.post(
       }
 
       /**
-       * 13) Create Stripe Checkout Session (cashDueNowCents only)
+       * 7) Create Stripe Checkout Session (cashDueNowCents only)
        * Booking remains pending until webhook confirms payment.
+       * Deposits save the card so the balance can be charged off-session later.
        */
+      const firstInstallment = booking.payment?.installments.find((i) => i.sequence === 1);
+
       const session = await stripe.checkout.sessions.create({
         mode: "payment",
         payment_method_types: ["card"],
         customer_email: guestEmail,
-        line_items: [
-          {
-            quantity: 1,
-            price_data: {
-              currency: "eur",
-              unit_amount: payableCents,
-              product_data: {
-                name: `Booking #${booking.id}`,
-                description: `${property.title} • ${start.toISOString().slice(0, 10)} → ${end
-                  .toISOString()
-                  .slice(0, 10)}`,
-              },
-            },
-          },
-        ],
+        ...(isDeposit
+          ? {
+              customer_creation: "always" as const,
+              payment_intent_data: { setup_future_usage: "off_session" as const },
+            }
+          : {}),
+        line_items: buildCheckoutLineItems({
+          breakdown: breakdownJson,
+          bookingId: booking.id,
+          propertyTitle: property.title,
+          startDate: start,
+          endDate: end,
+        }),
         success_url: `${process.env.APP_URL}/booking/success?bookingId=${booking.id}`,
         cancel_url: `${process.env.APP_URL}/booking/cancelled?bookingId=${booking.id}`,
         metadata: {
@@ -682,6 +645,9 @@ bookingRouter.post(
           userId: String(userId),
           creditsAppliedCents: String(creditsAppliedCents),
           useCredit: String(useCredit === true),
+          pricingVersion: String(breakdownJson.pricingVersion),
+          ratePlan: price.ratePlan.plan,
+          ...(firstInstallment ? { installmentId: String(firstInstallment.id) } : {}),
         },
       });
 
@@ -690,6 +656,12 @@ bookingRouter.post(
         where: { bookingId: booking.id },
         data: { stripeSessionId: session.id },
       });
+      if (firstInstallment) {
+        await prisma.paymentInstallment.update({
+          where: { id: firstInstallment.id },
+          data: { stripeSessionId: session.id },
+        });
+      }
 
       return res.status(201).json({
         booking,
@@ -717,7 +689,13 @@ bookingRouter.post(
  * Notes:
  * - Validates dates, min nights, max guests, and availability the same way as booking creation.
  * - If useCredit=true, calculates the maximum credits that WOULD be applied (but does not consume).
+ * - ratePlan: "standard" (default) or "non_refundable" (Property.nonRefundableDiscountBps
+ *   off the accommodation, 400 when the property does not offer it); ratePlans tells the
+ *   UI whether the non-refundable rate can be offered.
  * - Refund policy reminder:
+ *   - refundPolicy is the cancellation policy the booking would be created with
+ *     (arrival period -> property -> default, see cancellationPolicy.service.ts;
+ *     no refund at all on the non-refundable rate)
  *   - creditsAppliedCents are non-refundable
  *   - refunds only ever apply to cash paid to Stripe
  */
@@ -734,11 +712,13 @@ bookingRouter.post(
         adults,
         children,
         babies,
+        pets,
+        extraBeds,
         useCredit,
+        promoCode,
+        ratePlan,
       } = req.body as any;
 
-      const countedGuests = Number(adults) + Number(children);
-
       const start = parseDateOnlyToUtcMidnight(startDate);
       const end = parseDateOnlyToUtcMidnight(endDate);
 
@@ -756,153 +736,76 @@ bookingRouter.post(
         return res.status(401).json({ message: "Please login to review and pay." });
       }
 
-      const property = await prisma.property.findUnique({
-        where: { id: propertyId },
-      });
-      if (!property) return res.status(404).json({ message: "Property not found" });
-
-      const propertyDefaultMinNights = (property as any).minNights ?? 1;
-      const propertyDefaultMaxGuests = property.maxGuests;
-      const propertyDefaultNightlyPrice = property.pricePerNight;
-
-      // babies excluded
-      if (countedGuests > propertyDefaultMaxGuests) {
-        return res.status(400).json({
-          message: `Max guests for this property is ${propertyDefaultMaxGuests}`,
-        });
-      }
-
-      const isTaken = await isDateRangeTaken(propertyId, start, end);
-      if (isTaken) {
-        return res.status(409).json({ message: "These dates are not available for this property" });
-      }
-
-      const nights = nightsBetween(start, end);
-      if (nights <= 0) return res.status(400).json({ message: "Stay must be at least 1 night" });
-
-      const coverage = await getOpenPeriodSegments({
+      const pricing = await quoteStay({
         propertyId,
         startDate: start,
         endDate: end,
+        adults,
+        children,
+        babies,
+        pets,
+        extraBeds,
+        promoCode,
+        ratePlan,
+        userId,
+        ignorePromoUserLimit: role === "ADMIN",
       });
-
-      if (!coverage.ok) {
-        return res.status(409).json({
-          message:
-            coverage.reason === "CLOSED"
-              ? "These dates are not available (closed period)"
-              : "These dates are not available",
-        });
-      }
-
-      const arrivalPeriod = coverage.segments[0]?.period ?? null;
-
-      const arrivalMinNights = arrivalPeriod?.minNights ?? propertyDefaultMinNights;
-      if (nights < arrivalMinNights) {
-        return res.status(400).json({
-          message: `Minimum stay for these dates is ${arrivalMinNights} nights`,
-        });
-      }
-
-      const strictestMaxGuests = Math.min(
-        propertyDefaultMaxGuests,
-        ...coverage.segments.map((s) => s.period?.maxGuests ?? propertyDefaultMaxGuests)
-      );
-
-      if (countedGuests > strictestMaxGuests) {
-        return res.status(400).json({
-          message: `Max guests for selected dates is ${strictestMaxGuests}`,
-        });
+      if (!pricing.ok) {
+        return res.status(pricing.status).json({ message: pricing.message });
       }
 
-      // Compute totals + segment breakdown
-      let baseTotal = 0;
-
-      const segmentBreakdown = coverage.segments.map((seg) => {
-        const segNights = nightsBetween(seg.from, seg.to);
-        const nightly = seg.period?.standardNightlyPrice ?? propertyDefaultNightlyPrice;
-
-        const segTotal = segNights * nightly;
-        baseTotal += segTotal;
-
-        return {
-          periodId: seg.period?.id ?? null,
-          from: seg.from.toISOString().slice(0, 10),
-          to: seg.to.toISOString().slice(0, 10),
-          nights: segNights,
-          nightlyPrice: nightly,
-          segmentTotal: segTotal,
-        };
-      });
-
-      const weekly = applyWeeklyDiscount({
-        baseTotal,
-        nights,
-        weeklyThresholdNights: arrivalPeriod?.weeklyThresholdNights ?? 7,
-        weeklyDiscountPercentBps: arrivalPeriod?.weeklyDiscountPercentBps ?? null,
-      });
-
-      const totalPrice = weekly.total; // EUR int
-      const totalDueCents = totalPrice * 100;
+      const { property, arrivalPeriod, price } = pricing;
+      const totalDueCents = price.totalCents;
 
       // Credit estimate (NOT consumed here)
-      let creditsAppliedCents = 0;
-      let payableCents = totalDueCents;
-
-      if (useCredit === true) {
-        const now = new Date();
-
-        // Admin quote never applies credit logic (admin flow is separate)
-        if (role !== "ADMIN" && userId) {
-          const vouchers = await prisma.creditVoucher.findMany({
-            where: { userId, currency: "eur", status: "active" },
-            orderBy: [{ expiresAt: "asc" }, { createdAt: "asc" }],
-          });
+      // Admin quote never applies credit logic (admin flow is separate)
+      const creditsAppliedCents =
+        useCredit === true && role !== "ADMIN" && userId
+          ? await estimateCreditsCents(userId, totalDueCents)
+          : 0;
 
-          let remainingToCover = totalDueCents;
-
-          for (const v of vouchers) {
-            if (remainingToCover <= 0) break;
-            if (v.remainingCents <= 0) continue;
-            if (v.expiresAt && v.expiresAt.getTime() <= now.getTime()) continue;
-
-            const use = Math.min(v.remainingCents, remainingToCover);
-            remainingToCover -= use;
-            creditsAppliedCents += use;
-          }
-
-          payableCents = Math.max(0, totalDueCents - creditsAppliedCents);
-        }
-      }
-
-      const breakdownJson = {
-        currency: "eur",
-
-        nights,
-        segments: segmentBreakdown,
-        baseTotalEur: baseTotal,
-        weeklyDiscountAppliedBps: weekly.appliedBps ?? null,
-        totalEur: totalPrice,
-
-        grossTotalCents: totalDueCents,
-        creditsAppliedCents,
-        cashDueNowCents: payableCents,
-        creditRefundable: false,
-        refundPolicyAppliesTo: "cash_paid_to_stripe_only",
-      };
-
-       // Refund policy preview for the selected dates (tier depends on "days before check-in").
+      // Refund policy preview for the selected dates (tier depends on "days before check-in").
       const now = new Date();
+
+      // Same deposit / balance split as booking creation (admins are never charged)
+      const split = withPaymentSplit(price, creditsAppliedCents);
+      const schedule =
+        role === "ADMIN"
+          ? []
+          : buildPaymentSchedule({
+              property,
+              startDate: start,
+              now,
+              cashCents: split.cashDueNowCents,
+            });
+      const breakdownJson = withPaymentSchedule(split, schedule);
+      const payableCents = breakdownJson.cashDueNowCents;
       const daysBefore = daysBeforeStart(now, start);
-      const refundTier = getRefundTier(daysBefore);
+      const cancellationPolicy = await resolveCancellationPolicy(
+        property,
+        arrivalPeriod,
+        price.ratePlan.plan
+      );
+      const refundTier = getRefundTier(daysBefore, cancellationPolicy.tiers);
 
       return res.status(200).json({
         priceSummary: breakdownJson,
         creditsAppliedCents,
         payableCents,
 
+        // Rate plans the guest can choose from (the quote is priced with `selected`)
+        ratePlans: {
+          selected: price.ratePlan.plan,
+          nonRefundableDiscountBps: property.nonRefundableDiscountBps ?? null,
+        },
+
         refundPolicy: {
-          tiers: REFUND_POLICY,
+          policy: {
+            key: cancellationPolicy.key,
+            name: cancellationPolicy.name,
+            description: cancellationPolicy.description,
+          },
+          tiers: cancellationPolicy.tiers,
           daysBeforeCheckIn: daysBefore,
           applicableTier: refundTier,
           // IMPORTANT: Your system refunds only cash paid to Stripe (credits are non-refundable).
@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { prisma } from "../prismaClient.js";
+import { validateBody } from "../midleware/validateBody.js";
+import { authMiddleware } from "../midleware/authMiddleware.js";
+import { requireRole } from "../midleware/requireRole.js";
+import {
+  createGiftCardCheckout,
+  giftCardLiability,
+  redeemGiftCard,
+} from "../services/giftCard.service.js";
+import {
+  purchaseGiftCardSchema,
+  redeemGiftCardSchema,
+} from "@eagle-villas/shared/schemas/giftCard.schema";
+
+/**
+ * GIFT CARD ROUTERS
+ * -----------------
+ * giftCardsRouter (/api/gift-cards): public purchase + customer redemption.
+ * adminGiftCardsRouter (/api/admin): list + outstanding liability.
+ *
+ * Payment confirmation arrives through the Stripe checkout webhook
+ * (routes/payment.routes.ts -> services/giftCard.service.ts).
+ */
+
+export const giftCardsRouter = Router();
+export const adminGiftCardsRouter = Router();
+
+/**
+ * POST /api/gift-cards/checkout
+ *
+ * Public: creates the gift card and returns the Stripe Checkout URL.
+ */
+giftCardsRouter.post(
+  "/checkout",
+  validateBody(purchaseGiftCardSchema),
+  async (req, res, next) => {
+    try {
+      const result = await createGiftCardCheckout(req.body as any);
+      res.status(201).json(result);
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/gift-cards/purchase/:id
+ *
+ * Public success page status (no code: only the recipient receives it).
+ */
+giftCardsRouter.get("/purchase/:id", async (req, res, next) => {
+  try {
+    const id = Number(req.params.id);
+    if (!Number.isFinite(id)) return res.status(400).json({ message: "Invalid gift card id" });
+
+    const card = await prisma.giftCard.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        status: true,
+        amountCents: true,
+        currency: true,
+        recipientName: true,
+        deliverAt: true,
+      },
+    });
+    if (!card) return res.status(404).json({ message: "Gift card not found" });
+
+    res.json({ giftCard: card });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/gift-cards/redeem
+ *
+ * Converts the code into a CreditVoucher on the logged-in customer's account.
+ */
+giftCardsRouter.post(
+  "/redeem",
+  authMiddleware,
+  validateBody(redeemGiftCardSchema),
+  async (req, res, next) => {
+    try {
+      const voucher = await redeemGiftCard((req.body as any).code, req.user!.userId);
+      res.status(201).json({ voucher });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/admin/gift-cards?status=
+ *
+ * Newest first, with the liability summary over all cards.
+ */
+adminGiftCardsRouter.get(
+  "/gift-cards",
+  authMiddleware,
+  requireRole("ADMIN"),
+  async (req, res, next) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : "";
+
+      const [giftCards, liability] = await Promise.all([
+        prisma.giftCard.findMany({
+          where: status ? { status } : undefined,
+          include: {
+            redeemedBy: { select: { id: true, name: true, email: true } },
+            creditVoucher: { select: { id: true, remainingCents: true, status: true } },
+          },
+          orderBy: { createdAt: "desc" },
+          take: 500,
+        }),
+        giftCardLiability(),
+      ]);
+
+      res.json({ giftCards, liability });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
@@ -4,7 +4,26 @@ import Stripe from "stripe";
 import { prisma } from "../prismaClient.js";
 import { stripe } from "../stripe/stripeClient.js";
 import { authMiddleware } from "../midleware/authMiddleware.js";
+import { validateBody } from "../midleware/validateBody.js";
 import { sendTemplateEmail } from "../services/emailService.js";
+import {
+  adjustCreditVoucher,
+  extendCreditVoucher,
+  issueCreditVoucher,
+  revokeCreditVoucher,
+} from "../services/credits.service.js";
+import { markGiftCardPaid } from "../services/giftCard.service.js";
+import { parseDateOnlyToUtcMidnight } from "../utils/dateOnly.js";
+import {
+  adjustVoucherSchema,
+  extendVoucherSchema,
+  issueVoucherSchema,
+  revokeVoucherSchema,
+} from "@eagle-villas/shared/schemas/voucher.schema";
+import {
+  createInstallmentCheckout,
+  markInstallmentPaid,
+} from "../services/paymentSchedule.service.js";
 
 export const paymentsRouter = Router();
 
@@ -16,13 +35,16 @@ export const paymentsRouter = Router();
  * This router handles:
  * - Customer additional bed requests (admin approval; manual charge or no charge)
  * - Admin additional bed request moderation (approve/reject + choose charge/no charge)
- * - Voucher visibility (customer + admin)
+ * - Voucher visibility (customer + admin) and admin voucher lifecycle
+ *   (manual issue, extend, revoke, adjust, per-voucher ledger)
  *
  * Important design principles:
  * - Backend is source-of-truth for money outcomes.
  * - Stripe refunds are capped by remaining refundable amounts.
  * - Additional bed charges are handled manually (no Stripe charge); decision recorded on approval.
  * - Admin-only endpoints must enforce role checks.
+ * - Deposit bookings: the installment ledger (PaymentInstallment) is visible to the guest and
+ *   admin, and the guest can pay an open balance through Checkout.
  */
 
 function requireAdmin(req: any, res: any): boolean {
@@ -59,6 +81,175 @@ paymentsRouter.get("/admin/vouchers", authMiddleware, async (req, res) => {
   return res.json({ vouchers });
 });
 
+/**
+ * ============================================================
+ * ADMIN: VOUCHER LIFECYCLE
+ * ============================================================
+ *
+ * Every change goes through services/credits.service.ts, which writes the
+ * voucher's ledger (CreditVoucherTransaction) with the admin and the reason.
+ */
+
+function parseVoucherId(req: any, res: any): number | null {
+  const id = Number(req.params.id);
+  if (!Number.isFinite(id)) {
+    res.status(400).json({ message: "Invalid voucher id" });
+    return null;
+  }
+  return id;
+}
+
+/**
+ * POST /api/payments/admin/vouchers
+ *
+ * Manual issue to the customer account with that email.
+ */
+paymentsRouter.post(
+  "/admin/vouchers",
+  authMiddleware,
+  validateBody(issueVoucherSchema),
+  async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+
+    try {
+      const body = req.body as any;
+
+      const user = await prisma.user.findUnique({ where: { email: body.userEmail } });
+      if (!user) return res.status(404).json({ message: "No customer with that email" });
+
+      const expiresAt = body.expiresAt ? parseDateOnlyToUtcMidnight(body.expiresAt) : undefined;
+      if (expiresAt && expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "The expiry date must be in the future" });
+      }
+
+      const voucher = await prisma.$transaction((tx) =>
+        issueCreditVoucher(tx, {
+          userId: user.id,
+          amountCents: body.amountCents,
+          expiresAt,
+          note: body.reason,
+          createdByUserId: req.user!.userId,
+        })
+      );
+
+      return res.status(201).json({ voucher });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/payments/admin/vouchers/:id/extend
+ */
+paymentsRouter.post(
+  "/admin/vouchers/:id/extend",
+  authMiddleware,
+  validateBody(extendVoucherSchema),
+  async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+    const id = parseVoucherId(req, res);
+    if (id === null) return;
+
+    try {
+      const body = req.body as any;
+      const voucher = await extendCreditVoucher(id, {
+        expiresAt: parseDateOnlyToUtcMidnight(body.expiresAt),
+        note: body.reason ?? null,
+        createdByUserId: req.user!.userId,
+      });
+
+      return res.json({ voucher });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/payments/admin/vouchers/:id/revoke
+ */
+paymentsRouter.post(
+  "/admin/vouchers/:id/revoke",
+  authMiddleware,
+  validateBody(revokeVoucherSchema),
+  async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+    const id = parseVoucherId(req, res);
+    if (id === null) return;
+
+    try {
+      const voucher = await revokeCreditVoucher(id, {
+        note: (req.body as any).reason,
+        createdByUserId: req.user!.userId,
+      });
+
+      return res.json({ voucher });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/payments/admin/vouchers/:id/adjust
+ */
+paymentsRouter.post(
+  "/admin/vouchers/:id/adjust",
+  authMiddleware,
+  validateBody(adjustVoucherSchema),
+  async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+    const id = parseVoucherId(req, res);
+    if (id === null) return;
+
+    try {
+      const body = req.body as any;
+      const voucher = await adjustCreditVoucher(id, {
+        deltaCents: body.deltaCents,
+        note: body.reason,
+        createdByUserId: req.user!.userId,
+      });
+
+      return res.json({ voucher });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * GET /api/payments/admin/vouchers/:id/transactions
+ *
+ * The voucher's ledger, oldest first, with the bookings that consumed credit.
+ */
+paymentsRouter.get("/admin/vouchers/:id/transactions", authMiddleware, async (req, res) => {
+  if (!requireAdmin(req, res)) return;
+  const id = parseVoucherId(req, res);
+  if (id === null) return;
+
+  const voucher = await prisma.creditVoucher.findUnique({ where: { id } });
+  if (!voucher) return res.status(404).json({ message: "Voucher not found" });
+
+  const transactions = await prisma.creditVoucherTransaction.findMany({
+    where: { voucherId: id },
+    include: {
+      booking: {
+        select: {
+          id: true,
+          startDate: true,
+          endDate: true,
+          property: { select: { id: true, title: true } },
+        },
+      },
+      createdBy: { select: { id: true, name: true, email: true } },
+    },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  return res.json({ voucher, transactions });
+});
+
 /**
  * ============================================================
  * CUSTOMER: ADDITIONAL BED REQUEST (ADMIN DECIDES CHARGE)
@@ -299,6 +490,104 @@ paymentsRouter.post(
   }
 );
 
+/**
+ * ============================================================
+ * PAYMENT SCHEDULE (DEPOSIT + BALANCE)
+ * ============================================================
+ *
+ * GET  /api/payments/installments/:bookingId           (owner)
+ * POST /api/payments/installments/:bookingId/checkout  (owner, pays the open balance)
+ * GET  /api/payments/admin/installments/:bookingId     (admin)
+ */
+async function loadInstallmentLedger(bookingId: number) {
+  return prisma.payment.findUnique({
+    where: { bookingId },
+    select: {
+      schedule: true,
+      status: true,
+      currency: true,
+      amountCents: true,
+      paidCents: true,
+      refundedCents: true,
+      installments: {
+        orderBy: { sequence: "asc" },
+        select: {
+          id: true,
+          kind: true,
+          sequence: true,
+          amountCents: true,
+          dueAt: true,
+          status: true,
+          paidAt: true,
+          failureReason: true,
+          refundedCents: true,
+        },
+      },
+    },
+  });
+}
+
+paymentsRouter.get("/installments/:bookingId", authMiddleware, async (req, res, next) => {
+  try {
+    const bookingId = Number(req.params.bookingId);
+    const { userId } = req.user!;
+
+    const booking = await prisma.booking.findFirst({
+      where: { id: bookingId, userId },
+      select: { id: true },
+    });
+    if (!booking) return res.status(404).json({ message: "Booking not found" });
+
+    const payment = await loadInstallmentLedger(bookingId);
+    return res.json({ bookingId, payment });
+  } catch (err) {
+    next(err);
+  }
+});
+
+paymentsRouter.post("/installments/:bookingId/checkout", authMiddleware, async (req, res, next) => {
+  try {
+    const bookingId = Number(req.params.bookingId);
+    const { userId } = req.user!;
+
+    const booking = await prisma.booking.findFirst({
+      where: { id: bookingId, userId },
+      select: { id: true, status: true, payment: { select: { id: true } } },
+    });
+    if (!booking || !booking.payment) {
+      return res.status(404).json({ message: "Booking not found" });
+    }
+    if (booking.status !== "confirmed") {
+      return res.status(400).json({ message: "Only confirmed bookings have a balance to pay" });
+    }
+
+    const open = await prisma.paymentInstallment.findFirst({
+      where: { paymentId: booking.payment.id, status: { in: ["scheduled", "failed"] } },
+      orderBy: { sequence: "asc" },
+    });
+    if (!open) return res.status(400).json({ message: "Nothing left to pay for this booking" });
+
+    const session = await createInstallmentCheckout(open.id);
+    return res.json({ bookingId, installmentId: open.id, checkoutUrl: session.url });
+  } catch (err) {
+    next(err);
+  }
+});
+
+paymentsRouter.get("/admin/installments/:bookingId", authMiddleware, async (req, res, next) => {
+  if (!requireAdmin(req, res)) return;
+
+  try {
+    const bookingId = Number(req.params.bookingId);
+    const payment = await loadInstallmentLedger(bookingId);
+    if (!payment) return res.status(404).json({ message: "Payment not found" });
+
+    return res.json({ bookingId, payment });
+  } catch (err) {
+    next(err);
+  }
+});
+
 /**
  * ============================================================
  * STRIPE WEBHOOK: CONFIRM CHECKOUT SESSION
@@ -358,6 +647,24 @@ paymentsRouter.post(
       if (event.type === "checkout.session.completed") {
         const session = event.data.object as Stripe.Checkout.Session;
 
+        // Gift card purchases are not bookings (services/giftCard.service.ts)
+        const giftCardIdRaw = session.metadata?.giftCardId;
+        if (giftCardIdRaw) {
+          const recorded = await markGiftCardPaid({
+            giftCardId: Number(giftCardIdRaw),
+            sessionId: session.id,
+            paymentIntentId:
+              typeof session.payment_intent === "string" ? session.payment_intent : null,
+          });
+
+          if (!recorded.found) {
+            console.error("❌ Gift card not found:", giftCardIdRaw);
+            return res.status(404).send("Gift card not found");
+          }
+
+          return res.json({ received: true, idempotent: recorded.alreadyPaid });
+        }
+
         /**
          * ============================================================
          * BOOKING RECONCILIATION STRATEGY
@@ -420,6 +727,36 @@ paymentsRouter.post(
           return res.json({ received: true, ignored: true });
         }
 
+        // Installment Checkouts (new bookings, deposit + balance): the ledger records it
+        const installmentIdRaw = session.metadata?.installmentId;
+        if (installmentIdRaw) {
+          const intentId =
+            typeof session.payment_intent === "string" ? session.payment_intent : null;
+
+          // Deposit Checkouts save the card; keep it for the off-session balance charge
+          const intent = intentId ? await stripe.paymentIntents.retrieve(intentId) : null;
+
+          const recorded = await markInstallmentPaid({
+            installmentId: Number(installmentIdRaw),
+            paymentIntentId: intentId,
+            sessionId: session.id,
+            stripeCustomerId: typeof session.customer === "string" ? session.customer : null,
+            paymentMethodId:
+              typeof intent?.payment_method === "string" ? intent.payment_method : null,
+          });
+
+          if (!recorded.found) {
+            console.error("❌ Installment not found:", installmentIdRaw);
+            return res.status(404).send("Installment not found");
+          }
+
+          return res.json({
+            received: true,
+            idempotent: recorded.alreadyPaid,
+            rejected: recorded.rejected,
+          });
+        }
+
         // If already confirmed + paid, just acknowledge (idempotent)
         if (booking.status === "confirmed" && booking.payment.status === "paid") {
           return res.json({ received: true, idempotent: true });
@@ -444,6 +781,7 @@ paymentsRouter.post(
             data: {
               status: "paid",
               amountCents: amountTotal,
+              paidCents: amountTotal,
               currency,
               // You already store stripeSessionId earlier, but keep it in sync anyway
               stripeSessionId: session.id,
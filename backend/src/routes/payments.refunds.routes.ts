@@ -1,14 +1,28 @@
 import express, { Router } from "express";
 import Stripe from "stripe";
+import type { Prisma, Refund } from "@prisma/client";
 import { prisma } from "../prismaClient.js";
 import { stripe } from "../stripe/stripeClient.js";
 import { authMiddleware } from "../midleware/authMiddleware.js";
+import { validateBody } from "../midleware/validateBody.js";
 import {
+  goodwillRefundSchema,
+  goodwillVoucherSchema,
+} from "@eagle-villas/shared/schemas/goodwill.schema";
+import {
+  bookingCancellationPolicy,
   computeRefundOutcome,
   daysBeforeStart,
   getRefundTier,
 } from "../payments/refundPolicy.js";
 import { sendTemplateEmail } from "../services/emailService.js";
+import { issueCreditVoucher } from "../services/credits.service.js";
+import {
+  amountPaidCents,
+  cancelOpenInstallments,
+  planRefundParts,
+  refundableCashCents,
+} from "../services/paymentSchedule.service.js";
 
 export const refundsRouter = Router();
 
@@ -30,6 +44,34 @@ function mapStripeRefundStatus(
   return "pending";
 }
 
+/**
+ * Cash still refundable on a Stripe payment: paid - refunded - refunds already in flight.
+ * refundedCents only moves once the webhook applies a refund, so every submitted row
+ * not applied yet (pending, or succeeded before applySucceededOnce) must be subtracted.
+ * Writers call it with their tx after locking the Payment row (see lockPayment).
+ */
+async function unsettledRefundableCents(
+  payment: { id: number; paidCents: number; refundedCents: number },
+  db: Prisma.TransactionClient | typeof prisma = prisma
+) {
+  const inFlight = await db.refund.aggregate({
+    where: { paymentId: payment.id, status: { in: ["pending", "succeeded"] }, appliedAt: null },
+    _sum: { amountCents: true },
+  });
+
+  return Math.max(0, refundableCashCents(payment) - (inFlight._sum.amountCents ?? 0));
+}
+
+async function lockPayment(tx: Prisma.TransactionClient, paymentId: number) {
+  // Serializes refund planning of this payment until commit
+  await tx.$executeRaw`SELECT 1 FROM "Payment" WHERE "id" = ${paymentId} FOR UPDATE`;
+
+  return tx.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+    include: { installments: true },
+  });
+}
+
 /**
  * Apply succeeded refund to Payment totals exactly-once.
  * - guarded by Refund.status transition
@@ -58,17 +100,78 @@ async function applySucceededOnce(refundId: number, stripeAmountCents?: number)
     });
 
     const p = r.payment;
-    const newRefunded = Math.min(p.amountCents, p.refundedCents + amount);
+    const newRefunded = Math.min(p.paidCents, p.refundedCents + amount);
 
     await tx.payment.update({
       where: { id: p.id },
       data: {
         refundedCents: newRefunded,
-        status: newRefunded >= p.amountCents ? "refunded" : "partially_refunded",
+        status: newRefunded >= p.paidCents ? "refunded" : "partially_refunded",
       },
     });
+
+    if (r.installmentId) {
+      await tx.paymentInstallment.update({
+        where: { id: r.installmentId },
+        data: { refundedCents: { increment: amount } },
+      });
+    }
   });
 }
+
+/**
+ * Submits the local pending Refund rows to Stripe (one per charged installment).
+ * Returns how much was submitted and whether any part failed (row marked "failed").
+ */
+async function submitStripeRefunds(
+  refunds: Array<{ id: number; amountCents: number; stripePaymentIntentId: string | null }>,
+  keyPrefix: string,
+  metadata: Record<string, string>
+) {
+  let submittedCents = 0;
+  let failed = false;
+
+  for (const r of refunds) {
+    if (!r.stripePaymentIntentId) {
+      failed = true;
+      continue;
+    }
+
+    try {
+      // ✅ Stripe idempotency: protects against duplicate refund submissions
+      const idempotencyKey = `${keyPrefix}:refund:${r.id}`;
+
+      const stripeRefund = await stripe.refunds.create(
+        {
+          payment_intent: r.stripePaymentIntentId,
+          amount: r.amountCents,
+          metadata: { ...metadata, localRefundId: String(r.id) },
+        },
+        { idempotencyKey }
+      );
+
+      await prisma.refund.update({
+        where: { id: r.id },
+        data: {
+          stripeRefundId: stripeRefund.id,
+          status: mapStripeRefundStatus(stripeRefund.status),
+        },
+      });
+
+      submittedCents += r.amountCents;
+    } catch (e) {
+      console.error("❌ Stripe refund create failed:", e);
+      failed = true;
+
+      await prisma.refund.update({
+        where: { id: r.id },
+        data: { status: "failed", failureReason: "Stripe refund create failed" },
+      });
+    }
+  }
+
+  return { submittedCents, failed };
+}
 /**
  * ============================================================
  * CUSTOMER: REFUND STATUS FOR BOOKING CARD
@@ -132,6 +235,7 @@ refundsRouter.get("/refund-status/:bookingId", authMiddleware, async (req, res)
  * CUSTOMER: CANCEL BOOKING (policy-based)
  * POST /api/payments/cancel/:bookingId
  * ============================================================
+ * Non-refundable rate plan bookings are cancelled with no refund and no voucher.
  */
 refundsRouter.post("/cancel/:bookingId", authMiddleware, async (req, res) => {
   const bookingId = Number(req.params.bookingId);
@@ -139,7 +243,7 @@ refundsRouter.post("/cancel/:bookingId", authMiddleware, async (req, res) => {
 
   const booking = await prisma.booking.findFirst({
     where: { id: bookingId, userId },
-    include: { payment: true, cancellation: true },
+    include: { payment: { include: { installments: true } }, cancellation: true },
   });
 
   if (!booking) return res.status(404).json({ message: "Booking not found" });
@@ -150,15 +254,6 @@ refundsRouter.post("/cancel/:bookingId", authMiddleware, async (req, res) => {
     return res.status(400).json({ message: "Cancellation already recorded" });
   }
 
-  const bookingTotalCents = booking.totalPrice * 100;
-
-  const now = new Date();
-  const daysBefore = daysBeforeStart(now, booking.startDate);
-  const { refundCents: policyRefundCents, voucherCents } = computeRefundOutcome(
-    daysBefore,
-    bookingTotalCents
-  );
-
   const payment = booking.payment;
 
   // Admin bookings: cancel only
@@ -191,18 +286,34 @@ refundsRouter.post("/cancel/:bookingId", authMiddleware, async (req, res) => {
     return res.status(400).json({ message: "No Stripe payment found for this booking" });
   }
 
-  const refundableRemaining = Math.max(0, payment.amountCents - payment.refundedCents);
-  const stripeRefundCents = Math.min(policyRefundCents, refundableRemaining);
-
-  const refundType =
-    stripeRefundCents > 0 ? "stripe_refund" : voucherCents > 0 ? "voucher" : "none";
+  // Policy applies to what was actually paid (a deposit booking never refunds its balance),
+  // with the terms snapshotted when the booking was made (non-refundable rate: nothing back)
+  const now = new Date();
+  const daysBefore = daysBeforeStart(now, booking.startDate);
+  const policy = bookingCancellationPolicy(booking);
+  const { refundCents: policyRefundCents, voucherCents } = computeRefundOutcome(
+    daysBefore,
+    amountPaidCents(payment),
+    policy.tiers
+  );
 
   const result = await prisma.$transaction(async (tx) => {
+    // Capped by what earlier refunds (goodwill, admin) left, including ones still in flight
+    const locked = await lockPayment(tx, payment.id);
+    const stripeRefundCents = Math.min(
+      policyRefundCents,
+      await unsettledRefundableCents(locked, tx)
+    );
+    const refundParts = planRefundParts(locked, stripeRefundCents);
+
     await tx.booking.update({
       where: { id: bookingId },
       data: { status: "cancelled" },
     });
 
+    // Stop collecting a scheduled balance
+    await cancelOpenInstallments(tx, payment.id);
+
     const cancellation = await tx.cancellation.create({
       data: {
         bookingId,
@@ -213,56 +324,42 @@ refundsRouter.post("/cancel/:bookingId", authMiddleware, async (req, res) => {
     });
 
     if (voucherCents > 0) {
-      await tx.creditVoucher.create({
-        data: {
-          userId,
-          currency: "eur",
-          originalBookingId: bookingId,
-          issuedCents: voucherCents,
-          remainingCents: voucherCents,
-          status: "active",
-        },
+      await issueCreditVoucher(tx, {
+        userId,
+        amountCents: voucherCents,
+        originalBookingId: bookingId,
+        note: "Cancellation policy voucher",
       });
     }
 
-    if (stripeRefundCents <= 0) {
-      return { cancellationId: cancellation.id, refundId: null as number | null };
+    // One local refund per charged installment (deposit + balance are separate charges)
+    const refunds: Refund[] = [];
+    for (const part of refundParts) {
+      refunds.push(
+        await tx.refund.create({
+          data: {
+            bookingId,
+            paymentId: payment.id,
+            installmentId: part.installmentId,
+            source: "policy_cancel",
+            status: part.paymentIntentId ? "pending" : "failed",
+            amountCents: part.amountCents,
+            currency: payment.currency ?? "eur",
+            stripePaymentIntentId: part.paymentIntentId,
+            cancellationId: cancellation.id,
+            failureReason: part.paymentIntentId ? null : "Missing stripePaymentIntentId",
+          },
+        })
+      );
     }
 
-    if (!payment.stripePaymentIntentId) {
-      const failed = await tx.refund.create({
-        data: {
-          bookingId,
-          paymentId: payment.id,
-          source: "policy_cancel",
-          status: "failed",
-          amountCents: stripeRefundCents,
-          currency: payment.currency ?? "eur",
-          stripePaymentIntentId: null,
-          cancellationId: cancellation.id,
-          failureReason: "Missing stripePaymentIntentId",
-        },
-      });
-
-      return { cancellationId: cancellation.id, refundId: failed.id };
-    }
-
-    const created = await tx.refund.create({
-      data: {
-        bookingId,
-        paymentId: payment.id,
-        source: "policy_cancel",
-        status: "pending",
-        amountCents: stripeRefundCents,
-        currency: payment.currency ?? "eur",
-        stripePaymentIntentId: payment.stripePaymentIntentId,
-        cancellationId: cancellation.id,
-      },
-    });
-
-    return { cancellationId: cancellation.id, refundId: created.id };
+    return { cancellationId: cancellation.id, stripeRefundCents, refunds };
   });
 
+  const { stripeRefundCents } = result;
+  const refundType =
+    stripeRefundCents > 0 ? "stripe_refund" : voucherCents > 0 ? "voucher" : "none";
+
   if (stripeRefundCents <= 0) {
     return res.json({
       bookingId,
@@ -276,7 +373,7 @@ refundsRouter.post("/cancel/:bookingId", authMiddleware, async (req, res) => {
     });
   }
 
-  if (!payment.stripePaymentIntentId) {
+  if (result.refunds.every((r) => !r.stripePaymentIntentId)) {
     return res.status(409).json({
       message: "Booking cancelled, but cannot refund: missing payment_intent",
       bookingId,
@@ -290,56 +387,34 @@ refundsRouter.post("/cancel/:bookingId", authMiddleware, async (req, res) => {
     });
   }
 
-  try {
-    // ✅ Stripe idempotency: protects against duplicate refund submissions
-    const idempotencyKey = `refund:policy_cancel:booking:${bookingId}:refund:${result.refundId}`;
-
-    const stripeRefund = await stripe.refunds.create(
-      {
-        payment_intent: payment.stripePaymentIntentId,
-        amount: stripeRefundCents,
-        metadata: {
-          localRefundId: String(result.refundId),
-          bookingId: String(bookingId),
-          cancellationId: String(result.cancellationId),
-          source: "policy_cancel",
-        },
-      },
-      { idempotencyKey }
-    );
-
-    await prisma.refund.update({
-      where: { id: result.refundId! },
-      data: {
-        stripeRefundId: stripeRefund.id,
-        status: mapStripeRefundStatus(stripeRefund.status),
-      },
-    });
-
-    return res.json({
-      bookingId,
-      status: "cancelled",
-      refund: {
-        refundType: "stripe_refund",
-        refundedCents: stripeRefundCents,
-        voucherCents,
-        refundStatus: "pending", // webhook confirms final
-      },
-    });
-  } catch (e) {
-    console.error("❌ Stripe refund create failed:", e);
-
-    await prisma.refund.update({
-      where: { id: result.refundId! },
-      data: { status: "failed", failureReason: "Stripe refund create failed" },
-    });
+  const submitted = await submitStripeRefunds(
+    result.refunds,
+    `refund:policy_cancel:booking:${bookingId}`,
+    {
+      bookingId: String(bookingId),
+      cancellationId: String(result.cancellationId),
+      source: "policy_cancel",
+    }
+  );
 
+  if (submitted.failed) {
     return res.status(502).json({
       message: "Booking cancelled, but refund submission failed. Admin may retry.",
       bookingId,
       status: "cancelled",
     });
   }
+
+  return res.json({
+    bookingId,
+    status: "cancelled",
+    refund: {
+      refundType: "stripe_refund",
+      refundedCents: submitted.submittedCents,
+      voucherCents,
+      refundStatus: "pending", // webhook confirms final
+    },
+  });
 });
 
 /**
@@ -359,15 +434,16 @@ refundsRouter.get("/cancel-preview/:bookingId", authMiddleware, async (req, res)
 
   if (!booking) return res.status(404).json({ message: "Booking not found" });
 
-  const bookingTotalCents = booking.totalPrice * 100;
-
   const now = new Date();
   const daysBefore = daysBeforeStart(now, booking.startDate);
-  const tier = getRefundTier(daysBefore);
+  const cancellationPolicy = bookingCancellationPolicy(booking);
+  const tier = getRefundTier(daysBefore, cancellationPolicy.tiers);
 
+  // Same basis as /cancel: what was actually paid so far, under the booking's own terms
   const { refundCents: policyRefundCents, voucherCents } = computeRefundOutcome(
     daysBefore,
-    bookingTotalCents
+    booking.payment ? amountPaidCents(booking.payment) : 0,
+    cancellationPolicy.tiers
   );
 
   let currency = "eur";
@@ -381,6 +457,9 @@ refundsRouter.get("/cancel-preview/:bookingId", authMiddleware, async (req, res)
       action: "cancel",
       currency,
       policy: {
+        key: cancellationPolicy.key,
+        name: cancellationPolicy.name,
+        ratePlan: booking.ratePlan,
         daysBefore,
         tier: tier.key,
         label: tier.label,
@@ -398,8 +477,7 @@ refundsRouter.get("/cancel-preview/:bookingId", authMiddleware, async (req, res)
 
   if (payment?.provider === "stripe") {
     currency = payment.currency ?? "eur";
-    const refundableRemaining = Math.max(0, payment.amountCents - payment.refundedCents);
-    stripeRefundCents = Math.min(policyRefundCents, refundableRemaining);
+    stripeRefundCents = Math.min(policyRefundCents, await unsettledRefundableCents(payment));
   }
 
   const refundType =
@@ -410,6 +488,9 @@ refundsRouter.get("/cancel-preview/:bookingId", authMiddleware, async (req, res)
     action: "cancel",
     currency,
     policy: {
+      key: cancellationPolicy.key,
+      name: cancellationPolicy.name,
+      ratePlan: booking.ratePlan,
       daysBefore,
       tier: tier.key,
       label: tier.label,
@@ -480,7 +561,7 @@ refundsRouter.get("/refund-request-preview/:bookingId", authMiddleware, async (r
 
   if (payment?.provider === "stripe") {
     currency = payment.currency ?? "eur";
-    refundableRemainingCents = Math.max(0, payment.amountCents - payment.refundedCents);
+    refundableRemainingCents = await unsettledRefundableCents(payment);
   }
 
   return res.json({
@@ -520,12 +601,13 @@ refundsRouter.get("/admin/refund-requests", authMiddleware, async (req, res) =>
     orderBy: { createdAt: "desc" },
   });
 
-  const enriched = items.map((r) => {
-    const p = r.booking.payment;
-    const remaining =
-      p && p.provider === "stripe" ? Math.max(0, p.amountCents - p.refundedCents) : 0;
-    return { ...r, computed: { refundableRemainingCents: remaining } };
-  });
+  const enriched = await Promise.all(
+    items.map(async (r) => {
+      const p = r.booking.payment;
+      const remaining = p && p.provider === "stripe" ? await unsettledRefundableCents(p) : 0;
+      return { ...r, computed: { refundableRemainingCents: remaining } };
+    })
+  );
 
   return res.json({ refundRequests: enriched });
 });
@@ -538,7 +620,7 @@ refundsRouter.post("/admin/refund-requests/:id/approve", authMiddleware, async (
   const rr = await prisma.refundRequest.findUnique({
     where: { id: requestId },
     include: {
-      booking: { include: { payment: true, user: true } },
+      booking: { include: { payment: { include: { installments: true } }, user: true } },
     },
   });
 
@@ -550,81 +632,72 @@ refundsRouter.post("/admin/refund-requests/:id/approve", authMiddleware, async (
     return res.status(400).json({ message: "No refundable Stripe payment found" });
   }
 
-  const remaining = Math.max(0, payment.amountCents - payment.refundedCents);
+  const { remaining, localRefunds } = await prisma.$transaction(async (tx) => {
+    // Capped by what earlier refunds left, including ones still in flight
+    const locked = await lockPayment(tx, payment.id);
+    const remaining = await unsettledRefundableCents(locked, tx);
 
-  if (remaining === 0) {
-    await prisma.refundRequest.update({
-      where: { id: requestId },
-      data: { status: "approved", decidedAt: new Date() },
-    });
-    return res.json({ status: "approved", refundedCents: 0, refundStatus: "not_applicable" });
-  }
-
-  const localRefund = await prisma.$transaction(async (tx) => {
     await tx.refundRequest.update({
       where: { id: requestId },
       data: { status: "approved", decidedAt: new Date() },
     });
 
+    if (remaining === 0) return { remaining, localRefunds: [] as Refund[] };
+
     // You wanted booking moved to cancelled for customer UX
     await tx.booking.update({
       where: { id: rr.bookingId },
       data: { status: "cancelled" },
     });
 
-    return tx.refund.create({
-      data: {
-        bookingId: rr.bookingId,
-        paymentId: payment.id,
-        source: "admin_request",
-        status: "pending",
-        amountCents: remaining,
-        currency: payment.currency ?? "eur",
-        stripePaymentIntentId: payment.stripePaymentIntentId,
-        refundRequestId: rr.id,
-      },
-    });
-  });
-
-  try {
-    const idempotencyKey = `refund:admin_request:request:${requestId}:refund:${localRefund.id}`;
-
-    const stripeRefund = await stripe.refunds.create(
-      {
-        payment_intent: payment.stripePaymentIntentId,
-        amount: remaining,
-        metadata: {
-          localRefundId: String(localRefund.id),
-          bookingId: String(rr.bookingId),
-          requestId: String(requestId),
-          source: "admin_request",
-        },
-      },
-      { idempotencyKey }
-    );
+    // Stop collecting a scheduled balance
+    await cancelOpenInstallments(tx, payment.id);
+
+    // One local refund per charged installment (deposit + balance are separate charges)
+    const refunds: Refund[] = [];
+    for (const part of planRefundParts(locked, remaining)) {
+      refunds.push(
+        await tx.refund.create({
+          data: {
+            bookingId: rr.bookingId,
+            paymentId: payment.id,
+            installmentId: part.installmentId,
+            source: "admin_request",
+            status: "pending",
+            amountCents: part.amountCents,
+            currency: payment.currency ?? "eur",
+            stripePaymentIntentId: part.paymentIntentId,
+            refundRequestId: rr.id,
+          },
+        })
+      );
+    }
 
-    await prisma.refund.update({
-      where: { id: localRefund.id },
-      data: {
-        stripeRefundId: stripeRefund.id,
-        status: mapStripeRefundStatus(stripeRefund.status),
-      },
-    });
+    return { remaining, localRefunds: refunds };
+  });
 
-    return res.json({ status: "approved", refundedCents: remaining, refundStatus: "pending" });
-  } catch (e) {
-    console.error("❌ Stripe refund create failed:", e);
+  if (remaining === 0) {
+    return res.json({ status: "approved", refundedCents: 0, refundStatus: "not_applicable" });
+  }
 
-    await prisma.refund.update({
-      where: { id: localRefund.id },
-      data: { status: "failed", failureReason: "Stripe refund create failed" },
-    });
+  const submitted = await submitStripeRefunds(
+    localRefunds,
+    `refund:admin_request:request:${requestId}`,
+    {
+      bookingId: String(rr.bookingId),
+      requestId: String(requestId),
+      source: "admin_request",
+    }
+  );
 
+  if (submitted.failed) {
     return res.status(502).json({
       message: "Refund approval recorded, but refund submission failed. Admin may retry.",
       status: "approved",
     });
   }
+
+  return res.json({ status: "approved", refundedCents: remaining, refundStatus: "pending" });
 });
 
 refundsRouter.post("/admin/refund-requests/:id/reject", authMiddleware, async (req, res) => {
@@ -644,6 +717,268 @@ refundsRouter.post("/admin/refund-requests/:id/reject", authMiddleware, async (r
   return res.json({ status: "rejected" });
 });
 
+/**
+ * ============================================================
+ * ADMIN: GOODWILL REFUNDS + VOUCHERS
+ * ============================================================
+ * Compensation outside the cancellation flow (complaint, maintenance issue, ...).
+ * Every grant is logged as a GoodwillCompensation with the admin and a mandatory reason.
+ *
+ * - refund: Refund rows with source "admin_goodwill", executed through Stripe and
+ *   confirmed by the refund webhook like any other refund (booking status unchanged)
+ * - voucher: CreditVoucher on the booking's customer account
+ */
+
+function isRefundableStripePayment(
+  payment: { provider: string; stripePaymentIntentId: string | null } | null
+) {
+  return !!payment && payment.provider === "stripe" && !!payment.stripePaymentIntentId;
+}
+
+/**
+ * GET /api/payments/admin/bookings/:bookingId/goodwill
+ *
+ * Balance available for a goodwill refund + compensation history (newest first).
+ */
+refundsRouter.get("/admin/bookings/:bookingId/goodwill", authMiddleware, async (req, res, next) => {
+  if (!requireAdmin(req, res)) return;
+
+  const bookingId = Number(req.params.bookingId);
+  if (!Number.isFinite(bookingId)) return res.status(400).json({ message: "Invalid booking id" });
+
+  try {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: { payment: true },
+    });
+    if (!booking) return res.status(404).json({ message: "Booking not found" });
+
+    const payment = booking.payment;
+    const canRefund = isRefundableStripePayment(payment);
+    const refundableRemainingCents =
+      canRefund && payment ? await unsettledRefundableCents(payment) : 0;
+
+    const compensations = await prisma.goodwillCompensation.findMany({
+      where: { bookingId },
+      include: {
+        createdBy: { select: { id: true, name: true, email: true } },
+        creditVoucher: {
+          select: { id: true, issuedCents: true, remainingCents: true, status: true },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const refunds = await prisma.refund.findMany({
+      where: { goodwillCompensationId: { in: compensations.map((c) => c.id) } },
+      select: {
+        id: true,
+        goodwillCompensationId: true,
+        amountCents: true,
+        status: true,
+        createdAt: true,
+      },
+      orderBy: { id: "asc" },
+    });
+
+    return res.json({
+      bookingId,
+      currency: payment?.currency ?? "eur",
+      refundableRemainingCents,
+      canRefund,
+      canIssueVoucher: booking.userId != null,
+      compensations: compensations.map((c) => ({
+        ...c,
+        refunds: refunds.filter((r) => r.goodwillCompensationId === c.id),
+      })),
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+/**
+ * POST /api/payments/admin/bookings/:bookingId/goodwill-refund
+ *
+ * Any amount up to the refundable cash balance, split over the charged installments.
+ * The balance is re-checked under a lock on the payment row, so two admins submitting
+ * at the same time cannot both pass the cap.
+ */
+refundsRouter.post(
+  "/admin/bookings/:bookingId/goodwill-refund",
+  authMiddleware,
+  validateBody(goodwillRefundSchema),
+  async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+
+    const bookingId = Number(req.params.bookingId);
+    if (!Number.isFinite(bookingId)) return res.status(400).json({ message: "Invalid booking id" });
+
+    try {
+      const { amountCents, reason } = req.body as any;
+
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: {
+          payment: { select: { id: true, provider: true, stripePaymentIntentId: true } },
+        },
+      });
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+
+      const paymentId = booking.payment?.id;
+      if (!paymentId || !isRefundableStripePayment(booking.payment)) {
+        return res.status(400).json({ message: "No refundable Stripe payment found" });
+      }
+
+      const result = await prisma.$transaction(async (tx) => {
+        const payment = await lockPayment(tx, paymentId);
+
+        const remaining = await unsettledRefundableCents(payment, tx);
+        if (amountCents > remaining) return { ok: false as const, remaining };
+
+        const currency = payment.currency ?? "eur";
+
+        const compensation = await tx.goodwillCompensation.create({
+          data: {
+            bookingId,
+            kind: "refund",
+            amountCents,
+            currency,
+            reason,
+            createdByUserId: req.user!.userId,
+          },
+        });
+
+        const localRefunds: Refund[] = [];
+        for (const part of planRefundParts(payment, amountCents)) {
+          localRefunds.push(
+            await tx.refund.create({
+              data: {
+                bookingId,
+                paymentId: payment.id,
+                installmentId: part.installmentId,
+                source: "admin_goodwill",
+                status: "pending",
+                amountCents: part.amountCents,
+                currency,
+                stripePaymentIntentId: part.paymentIntentId,
+                goodwillCompensationId: compensation.id,
+              },
+            })
+          );
+        }
+
+        return { ok: true as const, compensation, localRefunds };
+      });
+
+      if (!result.ok) {
+        return res.status(400).json({
+          message: `Amount exceeds the refundable balance (${(result.remaining / 100).toFixed(2)})`,
+          refundableRemainingCents: result.remaining,
+        });
+      }
+
+      const { compensation, localRefunds } = result;
+
+      const submitted = await submitStripeRefunds(
+        localRefunds,
+        `refund:admin_goodwill:goodwill:${compensation.id}`,
+        {
+          bookingId: String(bookingId),
+          goodwillCompensationId: String(compensation.id),
+          source: "admin_goodwill",
+        }
+      );
+
+      if (submitted.failed) {
+        return res.status(502).json({
+          message: "Goodwill refund recorded, but refund submission failed.",
+          compensation,
+        });
+      }
+
+      return res.status(201).json({ compensation, refundStatus: "pending" });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
+/**
+ * POST /api/payments/admin/bookings/:bookingId/goodwill-voucher
+ *
+ * Issues a CreditVoucher to the booking's customer (issueCreditVoucher: default expiry
+ * + "issue" ledger entry) and emails them.
+ */
+refundsRouter.post(
+  "/admin/bookings/:bookingId/goodwill-voucher",
+  authMiddleware,
+  validateBody(goodwillVoucherSchema),
+  async (req, res, next) => {
+    if (!requireAdmin(req, res)) return;
+
+    const bookingId = Number(req.params.bookingId);
+    if (!Number.isFinite(bookingId)) return res.status(400).json({ message: "Invalid booking id" });
+
+    try {
+      const { amountCents, reason } = req.body as any;
+
+      const booking = await prisma.booking.findUnique({
+        where: { id: bookingId },
+        include: { user: true, property: { select: { title: true } } },
+      });
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+
+      const userId = booking.userId;
+      if (userId == null) {
+        return res.status(400).json({ message: "Booking has no customer account for a voucher" });
+      }
+
+      const compensation = await prisma.$transaction(async (tx) => {
+        const voucher = await issueCreditVoucher(tx, {
+          userId,
+          amountCents,
+          originalBookingId: bookingId,
+          note: `Goodwill: ${reason}`,
+          createdByUserId: req.user!.userId,
+        });
+
+        return tx.goodwillCompensation.create({
+          data: {
+            bookingId,
+            kind: "voucher",
+            amountCents,
+            currency: "eur",
+            reason,
+            createdByUserId: req.user!.userId,
+            creditVoucherId: voucher.id,
+          },
+          include: { creditVoucher: true },
+        });
+      });
+
+      if (booking.user?.email) {
+        try {
+          await sendTemplateEmail("customer_goodwill_voucher_issued", booking.user.email, {
+            customerName: booking.user.name ?? "Customer",
+            amount: (amountCents / 100).toFixed(2),
+            currency: "EUR",
+            bookingId,
+            propertyTitle: booking.property?.title ?? "",
+            reason,
+          });
+        } catch (e) {
+          console.error("goodwill voucher: customer email failed", e);
+        }
+      }
+
+      return res.status(201).json({ compensation });
+    } catch (err) {
+      next(err);
+    }
+  }
+);
+
 /**
  * ============================================================
  * STRIPE WEBHOOK: REFUND CONFIRMATION + CUSTOMER EMAIL
@@ -1,5 +1,10 @@
 import { Router } from "express";
+import type { PropertyFeatureKey } from "@prisma/client";
 import { prisma } from "../prismaClient.js"; // or wherever you export PrismaClient
+import { validateBody } from "../midleware/validateBody.js";
+import { propertySearchSchema } from "@eagle-villas/shared/schemas/propertySearch.schema";
+import { parseDateOnlyToUtcMidnight } from "../utils/dateOnly.js";
+import { quoteStay } from "../services/pricing.service.js";
 
 export const propertyRouter = Router();
 
@@ -21,7 +26,73 @@ propertyRouter.get("/", async (req, res, next) => {
   }
 });
 
-// GET /api/properties/:slug
+/**
+ * POST /api/properties/search
+ * Villas bookable for the given dates and guests, with the quoted total of each.
+ *
+ * - features: every key must be present on the villa
+ * - maxGuests (babies not counted), availability, open periods, min nights and
+ *   arrival/departure weekdays are all checked by quoteStay() (same engine as /bookings/quote)
+ * - villas failing any rule are simply left out
+ * - no promo code / credits here: the total is the public price
+ */
+propertyRouter.post("/search", validateBody(propertySearchSchema), async (req, res, next) => {
+  try {
+    const { startDate, endDate, adults, children, babies, features } = req.body as any;
+
+    const start = parseDateOnlyToUtcMidnight(startDate);
+    const end = parseDateOnlyToUtcMidnight(endDate);
+
+    const countedGuests = Number(adults) + Number(children);
+
+    const candidates = await prisma.property.findMany({
+      where: {
+        maxGuests: { gte: countedGuests },
+        AND: (features as PropertyFeatureKey[]).map((key) => ({ features: { some: { key } } })),
+      },
+      include: {
+        images: true,
+        features: true,
+      },
+      orderBy: { id: "asc" },
+    });
+
+    const results: Array<
+      (typeof candidates)[number] & {
+        quote: { nights: number; totalCents: number; currency: string };
+      }
+    > = [];
+
+    // Sequential on purpose: a handful of villas, and each quote runs several queries
+    for (const property of candidates) {
+      const pricing = await quoteStay({
+        propertyId: property.id,
+        startDate: start,
+        endDate: end,
+        adults,
+        children,
+        babies,
+        pets: 0,
+        extraBeds: 0,
+      });
+      if (!pricing.ok) continue;
+
+      results.push({
+        ...property,
+        quote: {
+          nights: pricing.price.nights,
+          totalCents: pricing.price.totalCents,
+          currency: pricing.price.currency,
+        },
+      });
+    }
+
+    res.json({ properties: results });
+  } catch (err) {
+    next(err);
+  }
+});
+
 // GET /api/properties/:slug
 propertyRouter.get("/:slug", async (req, res, next) => {
   try {
@@ -1,45 +1,229 @@
-import { Router } from "express";
+import { Router, type Request, type Response } from "express";
+import type { ExternalProvider } from "@prisma/client";
 import { prisma } from "../prismaClient.js";
+import { externalProviderLabel } from "../services/externalIcalSync.js";
+import { OWN_ICAL_UID_SUFFIX } from "../services/calendarConflict.service.js";
+import { buildHousekeepingIcs } from "../services/icalExport.service.js";
+import { dtstampUTC, icsCalendar, icsEscape, yyyymmdd } from "../utils/ics.js";
 
 export const publicIcalExportRouter = Router();
 
-function icsEscape(s: string) {
-  return String(s ?? "")
-    .replace(/\\/g, "\\\\")
-    .replace(/\n/g, "\\n")
-    .replace(/,/g, "\\,")
-    .replace(/;/g, "\\;");
+type IcalExportOptions = {
+  includeDirect: boolean;
+  includeManual: boolean;
+  includeExternal: boolean;
+  // channel importing the feed: its own imported blocks are left out (no echo loop)
+  consumerProvider: ExternalProvider | null;
+};
+
+/**
+ * Builds the VCALENDAR of one property.
+ * Every UID ends with OWN_ICAL_UID_SUFFIX, so our own events coming back through a channel
+ * feed are recognised (services/calendarConflict.service.ts).
+ */
+async function buildPropertyIcs(
+  property: { id: number; title: string },
+  options: IcalExportOptions
+) {
+  const propertyId = property.id;
+
+  const [direct, manual, external] = await Promise.all([
+    options.includeDirect
+      ? prisma.booking.findMany({
+          where: {
+            propertyId,
+            status: { in: ["pending", "confirmed"] },
+          },
+          orderBy: { startDate: "asc" },
+          select: {
+            id: true,
+            startDate: true,
+            endDate: true,
+            updatedAt: true,
+          },
+        })
+      : Promise.resolve([]),
+    options.includeManual
+      ? prisma.manualBlock.findMany({
+          where: { propertyId },
+          orderBy: { startDate: "asc" },
+          select: {
+            id: true,
+            startDate: true,
+            endDate: true,
+            reason: true,
+            updatedAt: true,
+          },
+        })
+      : Promise.resolve([]),
+    options.includeExternal
+      ? prisma.externalBlock.findMany({
+          where: {
+            propertyId,
+            // never re-export our own events echoed by a channel
+            NOT: { externalUid: { endsWith: OWN_ICAL_UID_SUFFIX } },
+            ...(options.consumerProvider ? { provider: { not: options.consumerProvider } } : {}),
+          },
+          orderBy: { startDate: "asc" },
+          select: {
+            id: true,
+            provider: true,
+            startDate: true,
+            endDate: true,
+          },
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const nowStamp = dtstampUTC();
+  const events: string[] = [];
+
+  for (const b of direct) {
+    events.push(
+      [
+        "BEGIN:VEVENT",
+        `UID:direct-${propertyId}-${b.id}@eagle-villas`,
+        `DTSTAMP:${nowStamp}`,
+        `DTSTART;VALUE=DATE:${yyyymmdd(new Date(b.startDate))}`,
+        `DTEND;VALUE=DATE:${yyyymmdd(new Date(b.endDate))}`,
+        `SUMMARY:${icsEscape(`Reservation - ${property.title}`)}`,
+        "END:VEVENT",
+      ].join("\r\n")
+    );
+  }
+
+  for (const m of manual) {
+    events.push(
+      [
+        "BEGIN:VEVENT",
+        `UID:manual-${propertyId}-${m.id}@eagle-villas`,
+        `DTSTAMP:${nowStamp}`,
+        `DTSTART;VALUE=DATE:${yyyymmdd(new Date(m.startDate))}`,
+        `DTEND;VALUE=DATE:${yyyymmdd(new Date(m.endDate))}`,
+        `SUMMARY:${icsEscape(m.reason ? `Blocked - ${m.reason}` : `Blocked - ${property.title}`)}`,
+        "END:VEVENT",
+      ].join("\r\n")
+    );
+  }
+
+  // Guest details of channel reservations are not ours to share: dates + channel only
+  for (const x of external) {
+    events.push(
+      [
+        "BEGIN:VEVENT",
+        `UID:external-${propertyId}-${x.id}@eagle-villas`,
+        `DTSTAMP:${nowStamp}`,
+        `DTSTART;VALUE=DATE:${yyyymmdd(new Date(x.startDate))}`,
+        `DTEND;VALUE=DATE:${yyyymmdd(new Date(x.endDate))}`,
+        `SUMMARY:${icsEscape(`Reserved (${externalProviderLabel(x.provider)}) - ${property.title}`)}`,
+        "END:VEVENT",
+      ].join("\r\n")
+    );
+  }
+
+  return icsCalendar(events);
 }
 
-function yyyymmdd(date: Date) {
-  const y = date.getUTCFullYear();
-  const m = String(date.getUTCMonth() + 1).padStart(2, "0");
-  const d = String(date.getUTCDate()).padStart(2, "0");
-  return `${y}${m}${d}`;
+function sendIcs(res: Response, filename: string, ics: string) {
+  res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+  res.setHeader("Content-Disposition", `inline; filename="${filename}.ics"`);
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(200).send(ics);
 }
 
-function dtstampUTC() {
-  const d = new Date();
-  const y = d.getUTCFullYear();
-  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
-  const day = String(d.getUTCDate()).padStart(2, "0");
-  const hh = String(d.getUTCHours()).padStart(2, "0");
-  const mm = String(d.getUTCMinutes()).padStart(2, "0");
-  const ss = String(d.getUTCSeconds()).padStart(2, "0");
-  return `${y}${m}${day}T${hh}${mm}${ss}Z`;
+/**
+ * One fetch of a private feed: access log row + token counters.
+ * Logging must never break the feed itself.
+ */
+async function logFeedAccess(tokenId: number, statusCode: number, req: Request) {
+  try {
+    const now = new Date();
+    await prisma.$transaction([
+      prisma.icalExportAccess.create({
+        data: {
+          tokenId,
+          statusCode,
+          ip: req.ip ?? null,
+          userAgent: req.get("user-agent")?.slice(0, 300) ?? null,
+          accessedAt: now,
+        },
+      }),
+      ...(statusCode === 200
+        ? [
+            prisma.icalExportToken.update({
+              where: { id: tokenId },
+              data: { lastAccessAt: now, accessCount: { increment: 1 } },
+            }),
+          ]
+        : []),
+    ]);
+  } catch (e) {
+    console.error("iCal feed access log failed", tokenId, e);
+  }
 }
 
+/**
+ * GET /api/ical/feeds/:token.ics
+ * Private iCal export for ONE consumer (see IcalExportToken):
+ * - AVAILABILITY: one property, DIRECT bookings / MANUAL blocks / other channels' blocks,
+ *   per token options
+ * - HOUSEKEEPING: one or all properties, with guest details and turnovers
+ *   (services/icalExport.service.ts)
+ * - unknown token -> 404, revoked token -> 410 (logged)
+ */
+publicIcalExportRouter.get("/ical/feeds/:token.ics", async (req, res, next) => {
+  try {
+    const feed = await prisma.icalExportToken.findUnique({
+      where: { token: req.params.token },
+      include: { property: { select: { id: true, title: true, slug: true } } },
+    });
+
+    if (!feed) {
+      return res.status(404).send("Calendar not found");
+    }
+
+    if (feed.revokedAt) {
+      await logFeedAccess(feed.id, 410, req);
+      return res.status(410).send("This calendar link has been revoked");
+    }
+
+    const filename = feed.property
+      ? feed.property.slug || `property-${feed.property.id}`
+      : "all-villas";
+
+    if (feed.kind === "HOUSEKEEPING") {
+      const ics = await buildHousekeepingIcs(feed.propertyId);
+      await logFeedAccess(feed.id, 200, req);
+      return sendIcs(res, `housekeeping-${filename}`, ics);
+    }
+
+    if (!feed.property) {
+      return res.status(404).send("Calendar not found");
+    }
+
+    const ics = await buildPropertyIcs(feed.property, feed);
+
+    await logFeedAccess(feed.id, 200, req);
+
+    return sendIcs(res, filename, ics);
+  } catch (err) {
+    next(err);
+  }
+});
+
 /**
  * GET /api/ical/properties/:propertyId.ics
- * Public iCal export for ONE property (for Booking.com import)
- * Exports:
- * - DIRECT bookings (blocks dates)
- * - MANUAL blocks
- *
- * IMPORTANT: We do NOT export BOOKING_COM external blocks to avoid loops.
+ * LEGACY public export by sequential property id (direct bookings + manual blocks).
+ * Guessable: point each channel at a private feed (/api/ical/feeds/:token.ics), then set
+ * ICAL_LEGACY_PUBLIC_EXPORT=false to turn this URL off. On by default, so channels that
+ * still import it keep receiving direct bookings (no silent double-booking on deploy).
  */
 publicIcalExportRouter.get("/ical/properties/:propertyId.ics", async (req, res, next) => {
   try {
+    if (process.env.ICAL_LEGACY_PUBLIC_EXPORT === "false") {
+      return res.status(404).send("Calendar not found");
+    }
+
     const propertyId = Number(req.params.propertyId);
     if (Number.isNaN(propertyId)) {
       return res.status(400).send("Invalid property id");
@@ -54,82 +238,15 @@ publicIcalExportRouter.get("/ical/properties/:propertyId.ics", async (req, res,
       return res.status(404).send("Property not found");
     }
 
-    const [direct, manual] = await Promise.all([
-      prisma.booking.findMany({
-        where: {
-          propertyId,
-          status: { in: ["pending", "confirmed"] },
-        },
-        orderBy: { startDate: "asc" },
-        select: {
-          id: true,
-          startDate: true,
-          endDate: true,
-          updatedAt: true,
-        },
-      }),
-      prisma.manualBlock.findMany({
-        where: { propertyId },
-        orderBy: { startDate: "asc" },
-        select: {
-          id: true,
-          startDate: true,
-          endDate: true,
-          reason: true,
-          updatedAt: true,
-        },
-      }),
-    ]);
-
-    const nowStamp = dtstampUTC();
-    const events: string[] = [];
-
-    for (const b of direct) {
-      events.push(
-        [
-          "BEGIN:VEVENT",
-          `UID:direct-${propertyId}-${b.id}@eagle-villas`,
-          `DTSTAMP:${nowStamp}`,
-          `DTSTART;VALUE=DATE:${yyyymmdd(new Date(b.startDate))}`,
-          `DTEND;VALUE=DATE:${yyyymmdd(new Date(b.endDate))}`,
-          `SUMMARY:${icsEscape(`Reservation - ${property.title}`)}`,
-          "END:VEVENT",
-        ].join("\r\n")
-      );
-    }
-
-    for (const m of manual) {
-      events.push(
-        [
-          "BEGIN:VEVENT",
-          `UID:manual-${propertyId}-${m.id}@eagle-villas`,
-          `DTSTAMP:${nowStamp}`,
-          `DTSTART;VALUE=DATE:${yyyymmdd(new Date(m.startDate))}`,
-          `DTEND;VALUE=DATE:${yyyymmdd(new Date(m.endDate))}`,
-          `SUMMARY:${icsEscape(m.reason ? `Blocked - ${m.reason}` : `Blocked - ${property.title}`)}`,
-          "END:VEVENT",
-        ].join("\r\n")
-      );
-    }
+    // IMPORTANT: external (channel iCal) blocks are not exported here to avoid loops.
+    const ics = await buildPropertyIcs(property, {
+      includeDirect: true,
+      includeManual: true,
+      includeExternal: false,
+      consumerProvider: null,
+    });
 
-    const ics = [
-      "BEGIN:VCALENDAR",
-      "VERSION:2.0",
-      "PRODID:-//Eagle Villas//Availability//EN",
-      "CALSCALE:GREGORIAN",
-      "METHOD:PUBLISH",
-      ...events,
-      "END:VCALENDAR",
-      "",
-    ].join("\r\n");
-
-    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
-    res.setHeader(
-      "Content-Disposition",
-      `inline; filename="${property.slug || `property-${propertyId}`}.ics"`
-    );
-    res.setHeader("Cache-Control", "no-store");
-    return res.status(200).send(ics);
+    return sendIcs(res, property.slug || `property-${propertyId}`, ics);
   } catch (err) {
     next(err);
   }
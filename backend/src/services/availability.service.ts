@@ -0,0 +1,100 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+
+/**
+ * Namespace of the per-property advisory locks (pg_advisory_xact_lock(namespace, propertyId)),
+ * so they never collide with other advisory lock users.
+ */
+const CALENDAR_LOCK_NAMESPACE = 1001;
+
+/**
+ * Name of the Postgres exclusion constraint that forbids overlapping
+ * pending/confirmed bookings of the same property (migration add_booking_overlap_constraint).
+ */
+export const BOOKING_OVERLAP_CONSTRAINT = "Booking_no_overlapping_stays";
+
+/**
+ * Checks if a date range overlaps with:
+ * - direct site bookings (pending/confirmed)
+ * - channel iCal imported blocks (externalBlock: Booking.com, Airbnb, VRBO, ...)
+ * - manual blocks (manualBlock)
+ *
+ * Overlap condition:
+ * existing.start < requested.end AND existing.end > requested.start
+ *
+ * Notes:
+ * - We treat "pending" bookings as holds to prevent double-selling inventory
+ *   while a customer is completing Stripe Checkout.
+ */
+export async function isDateRangeTaken(
+  propertyId: number,
+  start: Date,
+  end: Date,
+  db: Prisma.TransactionClient | typeof prisma = prisma
+) {
+  const [direct, external, manual] = await Promise.all([
+    db.booking.findFirst({
+      where: {
+        propertyId,
+        status: { in: ["pending", "confirmed"] },
+        startDate: { lt: end },
+        endDate: { gt: start },
+      },
+      select: { id: true },
+    }),
+    db.externalBlock.findFirst({
+      where: {
+        propertyId,
+        startDate: { lt: end },
+        endDate: { gt: start },
+      },
+      select: { id: true },
+    }),
+    db.manualBlock.findFirst({
+      where: {
+        propertyId,
+        startDate: { lt: end },
+        endDate: { gt: start },
+      },
+      select: { id: true },
+    }),
+  ]);
+
+  return Boolean(direct || external || manual);
+}
+
+/**
+ * Serializes calendar writes of one property until the transaction ends
+ * (transaction-scoped advisory lock). Every writer that checks availability
+ * before inserting (bookings, manual blocks) takes it first.
+ */
+export async function lockPropertyCalendar(tx: Prisma.TransactionClient, propertyId: number) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CALENDAR_LOCK_NAMESPACE}::int, ${propertyId}::int)`;
+}
+
+/**
+ * Reserves [start, end) of a property calendar inside a transaction.
+ *
+ * isDateRangeTaken() alone is a check-then-act race: two concurrent requests can both
+ * see free dates and both create a booking. This helper:
+ * - takes a transaction-scoped advisory lock on the property, so concurrent reservations
+ *   of the same property are serialized until commit/rollback
+ * - re-checks availability (bookings, external + manual blocks) under that lock
+ *
+ * The Booking exclusion constraint (BOOKING_OVERLAP_CONSTRAINT) remains the last line of
+ * defence for writers that skip this helper. Throws a 409 error when the dates are taken.
+ */
+export async function reserveDateRange(
+  tx: Prisma.TransactionClient,
+  propertyId: number,
+  start: Date,
+  end: Date
+) {
+  await lockPropertyCalendar(tx, propertyId);
+
+  if (await isDateRangeTaken(propertyId, start, end, tx)) {
+    const err: any = new Error("These dates are not available for this property");
+    err.status = 409;
+    throw err;
+  }
+}
@@ -0,0 +1,261 @@
+import type { BookingPeriod, Property } from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+import { isWeekdayAllowed, nightlyPriceForNight } from "./periods.service.js";
+
+/**
+ * Per-date availability + pricing calendar (guest villa calendar).
+ *
+ * One entry per date D, describing the NIGHT starting on D and the rules of
+ * arriving / departing on D, with the same rules as the pricing engine (pricing.service.ts):
+ * - booked: a pending/confirmed booking, a channel block or a manual block covers the night
+ * - no_period: no BookingPeriod covers the night (closed by default)
+ * - closed: covered by a CLOSED period
+ * - available: covered by an OPEN period and free
+ *
+ * - minNights: of the arrival period (else Property.minNights), when arriving on D
+ * - arrivalAllowed: D is available, its weekday is an allowed check-in day, and a valid
+ *   check-out exists after at least minNights free nights
+ * - departureAllowed: the night before D is available and D is an allowed check-out weekday
+ *   (governed by the period of that last night)
+ *
+ * Orphan gaps (Property.gapFillEnabled): free nights between two booked nights, fewer than
+ * the min nights. Their first date gets minNights = gap length, so the gap can still sell.
+ */
+
+export type AvailabilityDayStatus = "available" | "booked" | "closed" | "no_period";
+
+export type AvailabilityDay = {
+  date: string; // YYYY-MM-DD
+  status: AvailabilityDayStatus;
+  // EUR, set whenever an OPEN period covers the night (also when booked)
+  nightlyPrice: number | null;
+  minNights: number | null;
+  arrivalAllowed: boolean;
+  departureAllowed: boolean;
+};
+
+type CalendarPeriod = Pick<
+  BookingPeriod,
+  | "startDate"
+  | "endDate"
+  | "isOpen"
+  | "standardNightlyPrice"
+  | "weekdayNightlyPrices"
+  | "minNights"
+  | "allowedArrivalWeekdays"
+  | "allowedDepartureWeekdays"
+>;
+
+export type CalendarNight = {
+  date: Date;
+  period: CalendarPeriod | null;
+  status: AvailabilityDayStatus;
+};
+
+/**
+ * Free run of nights between two booked nights, shorter than the min nights of its
+ * first night (an "orphan" gap that a regular stay can never fill).
+ * start/end index into the nights array: nights [start, end) are the gap.
+ */
+export type GapRun = {
+  start: number;
+  end: number;
+  minNights: number;
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Extra days loaded after the range, so arrivals near its end still see enough free nights
+// (plus a week for Saturday-to-Saturday style check-out rules)
+const DEPARTURE_SEARCH_EXTRA_DAYS = 7;
+
+const ymd = (d: Date) => d.toISOString().slice(0, 10);
+
+const addDays = (d: Date, days: number) => new Date(d.getTime() + days * MS_PER_DAY);
+
+/**
+ * Loads the night-by-night status of [from - 1 day, to + look-ahead).
+ * nights[0] is the night before `from` (departures on `from`, gaps starting on `from`).
+ */
+export async function loadCalendarNights(
+  property: Pick<Property, "id" | "minNights">,
+  from: Date,
+  to: Date
+): Promise<CalendarNight[]> {
+  const propertyId = property.id;
+  const defaultMinNights = property.minNights ?? 1;
+
+  const periods: CalendarPeriod[] = await prisma.bookingPeriod.findMany({
+    where: { propertyId },
+    orderBy: { startDate: "asc" },
+    select: {
+      startDate: true,
+      endDate: true,
+      isOpen: true,
+      standardNightlyPrice: true,
+      weekdayNightlyPrices: true,
+      minNights: true,
+      allowedArrivalWeekdays: true,
+      allowedDepartureWeekdays: true,
+    },
+  });
+
+  const longestMinNights = Math.max(defaultMinNights, ...periods.map((p) => p.minNights ?? 0));
+
+  // The night before `from` (departures on `from`) .. the look-ahead after `to`
+  const loadStart = addDays(from, -1);
+  const loadEnd = addDays(to, longestMinNights + DEPARTURE_SEARCH_EXTRA_DAYS);
+
+  const rangeWhere = { propertyId, startDate: { lt: loadEnd }, endDate: { gt: loadStart } };
+
+  const [direct, external, manual] = await Promise.all([
+    prisma.booking.findMany({
+      where: { ...rangeWhere, status: { in: ["pending", "confirmed"] } },
+      select: { startDate: true, endDate: true },
+    }),
+    prisma.externalBlock.findMany({
+      where: rangeWhere,
+      select: { startDate: true, endDate: true },
+    }),
+    prisma.manualBlock.findMany({
+      where: rangeWhere,
+      select: { startDate: true, endDate: true },
+    }),
+  ]);
+
+  const blocks = [...direct, ...external, ...manual];
+
+  const periodFor = (d: Date) => periods.find((p) => d >= p.startDate && d < p.endDate) ?? null;
+
+  const nights: CalendarNight[] = [];
+  for (let d = loadStart; d < loadEnd; d = addDays(d, 1)) {
+    const period = periodFor(d);
+    const booked = blocks.some((b) => d >= b.startDate && d < b.endDate);
+
+    nights.push({
+      date: d,
+      period,
+      status: booked ? "booked" : !period ? "no_period" : period.isOpen ? "available" : "closed",
+    });
+  }
+
+  return nights;
+}
+
+/**
+ * Orphan gaps of a night list: maximal runs of available nights with a booked night
+ * right before and right after, shorter than the min nights of their first night.
+ * Runs touching a closed / uncovered night are not gaps (the calendar just ends there).
+ */
+export function findGapRuns(nights: CalendarNight[], defaultMinNights: number): GapRun[] {
+  const gaps: GapRun[] = [];
+
+  let i = 1;
+  while (i < nights.length) {
+    if (nights[i].status !== "available") {
+      i++;
+      continue;
+    }
+
+    let end = i;
+    while (end < nights.length && nights[end].status === "available") end++;
+
+    const minNights = nights[i].period?.minNights ?? defaultMinNights;
+    const bookedBefore = nights[i - 1].status === "booked";
+    const bookedAfter = end < nights.length && nights[end].status === "booked";
+
+    if (bookedBefore && bookedAfter && end - i < minNights) {
+      gaps.push({ start: i, end, minNights });
+    }
+
+    i = end;
+  }
+
+  return gaps;
+}
+
+/**
+ * Check-out on nights[i].date: the night before must be free, weekday allowed by its period.
+ */
+export function canDepartAt(nights: CalendarNight[], i: number) {
+  const lastNight = nights[i - 1];
+  if (!lastNight || lastNight.status !== "available" || !nights[i]) return false;
+  return isWeekdayAllowed(lastNight.period?.allowedDepartureWeekdays, nights[i].date);
+}
+
+/**
+ * Builds the days of [from, to) (UTC midnights).
+ */
+export async function buildAvailabilityDays(
+  property: Pick<Property, "id" | "pricePerNight" | "minNights" | "gapFillEnabled">,
+  from: Date,
+  to: Date
+): Promise<AvailabilityDay[]> {
+  const defaultMinNights = property.minNights ?? 1;
+
+  const nights = await loadCalendarNights(property, from, to);
+
+  // freeRun[i] = consecutive available nights starting at nights[i]
+  const freeRun = new Array<number>(nights.length + 1).fill(0);
+  for (let i = nights.length - 1; i >= 0; i--) {
+    freeRun[i] = nights[i].status === "available" ? freeRun[i + 1] + 1 : 0;
+  }
+
+  // Gap filling: arriving on the first night of an orphan gap only needs the gap length
+  const gapByStart = new Map<number, GapRun>();
+  if (property.gapFillEnabled) {
+    for (const gap of findGapRuns(nights, defaultMinNights)) gapByStart.set(gap.start, gap);
+  }
+
+  const today = new Date();
+  const todayUtc = new Date(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate())
+  );
+
+  const days: AvailabilityDay[] = [];
+
+  // nights[0] is the day before `from`
+  for (let i = 1; i < nights.length && nights[i].date < to; i++) {
+    const { date, period, status } = nights[i];
+    const gap = gapByStart.get(i);
+
+    let minNights = status === "available" ? (period?.minNights ?? defaultMinNights) : null;
+
+    let arrivalAllowed =
+      minNights !== null &&
+      date >= todayUtc &&
+      isWeekdayAllowed(period?.allowedArrivalWeekdays, date) &&
+      freeRun[i] >= minNights;
+
+    // A check-out day must exist between minNights and the end of the free run
+    if (arrivalAllowed) {
+      arrivalAllowed = false;
+      for (let n = minNights!; n <= freeRun[i] && i + n < nights.length; n++) {
+        if (canDepartAt(nights, i + n)) {
+          arrivalAllowed = true;
+          break;
+        }
+      }
+    }
+
+    // The whole gap is the only possible stay: check-in on its first night, check-out on its end
+    if (gap) {
+      minNights = gap.end - gap.start;
+      arrivalAllowed =
+        date >= todayUtc &&
+        isWeekdayAllowed(period?.allowedArrivalWeekdays, date) &&
+        canDepartAt(nights, gap.end);
+    }
+
+    days.push({
+      date: ymd(date),
+      status,
+      nightlyPrice: period?.isOpen ? nightlyPriceForNight(period, date, property.pricePerNight) : null,
+      minNights,
+      arrivalAllowed,
+      departureAllowed: canDepartAt(nights, i),
+    });
+  }
+
+  return days;
+}
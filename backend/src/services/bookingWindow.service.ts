@@ -0,0 +1,136 @@
+import type { BookingWindowDiscount } from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+import { daysBeforeStart } from "../payments/refundPolicy.js";
+
+/**
+ * Early-bird / last-minute discounts (time-to-arrival pricing).
+ *
+ * Rule kinds:
+ * - early_bird:  daysBeforeStart(now, startDate) >= daysBefore
+ * - last_minute: daysBeforeStart(now, startDate) <= daysBefore
+ *
+ * Days are counted with the same helper as the refund policy, so "60 days before
+ * check-in" means the same thing for discounts and cancellations.
+ *
+ * Stacking against the length-of-stay / weekly discount (stackingPolicy):
+ * - stack:     applied on top of the already discounted stay
+ * - exclusive: only when no length-of-stay discount applies
+ * - best_of:   whichever discount saves the guest more wins (the other is dropped)
+ *
+ * At most one booking-window rule applies per stay: the matching rule with the
+ * highest discountBps.
+ */
+
+export type BookingWindowKind = "early_bird" | "last_minute";
+export type BookingWindowStackingPolicy = "stack" | "exclusive" | "best_of";
+
+export type BookingWindowDiscountLike = Pick<
+  BookingWindowDiscount,
+  | "id"
+  | "name"
+  | "kind"
+  | "daysBefore"
+  | "discountBps"
+  | "stackingPolicy"
+  | "validFrom"
+  | "validTo"
+>;
+
+/**
+ * Snapshot stored on Booking.priceBreakdown.bookingWindowDiscount.
+ */
+export type AppliedBookingWindowDiscount = {
+  ruleId: number;
+  name: string;
+  kind: BookingWindowKind;
+  discountBps: number;
+  daysBeforeStart: number;
+  stackingPolicy: BookingWindowStackingPolicy;
+};
+
+/**
+ * Active rules for a property.
+ */
+export async function findBookingWindowDiscounts(propertyId: number) {
+  return prisma.bookingWindowDiscount.findMany({
+    where: { propertyId, isActive: true },
+    orderBy: { id: "asc" },
+  });
+}
+
+function matchesWindow(rule: BookingWindowDiscountLike, daysBefore: number) {
+  if (rule.kind === "early_bird") return daysBefore >= rule.daysBefore;
+  if (rule.kind === "last_minute") return daysBefore <= rule.daysBefore;
+  return false;
+}
+
+function inValidity(rule: BookingWindowDiscountLike, startDate: Date) {
+  if (rule.validFrom && startDate < rule.validFrom) return false;
+  if (rule.validTo && startDate >= rule.validTo) return false;
+  return true;
+}
+
+/**
+ * Pure: combines the best matching rule with the length-of-stay result.
+ *
+ * Input totals are whole EUR (same unit as the nightly segments).
+ * Returns:
+ * - keepStayDiscount: false when best_of decided the booking-window discount wins
+ * - total: accommodation total (EUR) after both discounts
+ * - discountEur: signed amount of the booking-window line (0 = none)
+ */
+export function applyBookingWindowDiscount(params: {
+  rules: BookingWindowDiscountLike[];
+  startDate: Date;
+  now: Date;
+  baseTotal: number;
+  stayDiscountedTotal: number;
+}) {
+  const { rules, startDate, now, baseTotal, stayDiscountedTotal } = params;
+
+  const none = {
+    keepStayDiscount: true,
+    total: stayDiscountedTotal,
+    discountEur: 0,
+    applied: null as AppliedBookingWindowDiscount | null,
+  };
+
+  const daysBefore = daysBeforeStart(now, startDate);
+
+  const rule =
+    rules
+      .filter((r) => r.discountBps > 0 && matchesWindow(r, daysBefore) && inValidity(r, startDate))
+      .sort((a, b) => b.discountBps - a.discountBps)[0] ?? null;
+
+  if (!rule) return none;
+
+  const policy = rule.stackingPolicy as BookingWindowStackingPolicy;
+  const hasStayDiscount = stayDiscountedTotal !== baseTotal;
+
+  const applied: AppliedBookingWindowDiscount = {
+    ruleId: rule.id,
+    name: rule.name,
+    kind: rule.kind as BookingWindowKind,
+    discountBps: rule.discountBps,
+    daysBeforeStart: daysBefore,
+    stackingPolicy: policy,
+  };
+
+  if (policy === "exclusive" && hasStayDiscount) return none;
+
+  if (policy === "stack" || !hasStayDiscount) {
+    const discountEur = -Math.round((stayDiscountedTotal * rule.discountBps) / 10000);
+    return { keepStayDiscount: true, total: stayDiscountedTotal + discountEur, discountEur, applied };
+  }
+
+  // best_of with a length-of-stay discount in place
+  const windowDiscountEur = -Math.round((baseTotal * rule.discountBps) / 10000);
+  if (baseTotal + windowDiscountEur >= stayDiscountedTotal) return none;
+
+  return {
+    keepStayDiscount: false,
+    total: baseTotal + windowDiscountEur,
+    discountEur: windowDiscountEur,
+    applied,
+  };
+}
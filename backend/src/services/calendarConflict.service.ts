@@ -0,0 +1,226 @@
+import { prisma } from "../prismaClient.js";
+import { sendTemplateEmail } from "./emailService.js";
+
+/**
+ * Calendar conflicts (double-booking detection).
+ *
+ * Channel reservations arrive as ExternalBlock rows through iCal sync, after the fact:
+ * nothing stops Booking.com / Airbnb from selling dates that are already booked here.
+ * After every sync the property is re-checked:
+ * - each current/future ExternalBlock overlapping a pending/confirmed Booking or a
+ *   ManualBlock is a conflict (one CalendarConflict row per pair)
+ * - new conflicts are stored open and emailed to admins right away
+ * - open conflicts whose overlap vanished (block moved/removed, booking cancelled,
+ *   manual block deleted) are resolved
+ *
+ * Blocks echoing our own iCal export (UIDs ending with OWN_ICAL_UID_SUFFIX, see
+ * routes/public.calendar.export.route.ts) are the same stay seen through a channel,
+ * not a conflict.
+ */
+
+export const OWN_ICAL_UID_SUFFIX = "@eagle-villas";
+
+type ConflictKind = "booking" | "manual_block";
+
+function conflictKey(kind: ConflictKind, externalBlockId: number | null, otherId: number | null) {
+  return `${kind}:${externalBlockId}:${otherId}`;
+}
+
+function storedConflictKey(c: {
+  kind: string;
+  externalBlockId: number | null;
+  bookingId: number | null;
+  manualBlockId: number | null;
+}) {
+  const kind = c.kind as ConflictKind;
+  return conflictKey(kind, c.externalBlockId, kind === "booking" ? c.bookingId : c.manualBlockId);
+}
+
+function ymd(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function utcToday(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+/**
+ * Recomputes the conflicts of one property (all of its channel feeds).
+ * Returns how many conflicts were opened and resolved.
+ */
+export async function refreshPropertyConflicts(propertyId: number, now = new Date()) {
+  const today = utcToday(now);
+
+  const blocks = await prisma.externalBlock.findMany({
+    where: {
+      propertyId,
+      endDate: { gt: today },
+      NOT: { externalUid: { endsWith: OWN_ICAL_UID_SUFFIX } },
+    },
+    include: { calendar: { select: { name: true } } },
+    orderBy: { startDate: "asc" },
+  });
+
+  const rangeStart = blocks.length ? blocks[0].startDate : today;
+  const rangeEnd = blocks.reduce((max, b) => (b.endDate > max ? b.endDate : max), today);
+
+  const [bookings, manualBlocks, open] = await Promise.all([
+    blocks.length
+      ? prisma.booking.findMany({
+          where: {
+            propertyId,
+            status: { in: ["pending", "confirmed"] },
+            startDate: { lt: rangeEnd },
+            endDate: { gt: rangeStart },
+          },
+          select: { id: true, startDate: true, endDate: true, guestName: true, status: true },
+        })
+      : Promise.resolve([]),
+    blocks.length
+      ? prisma.manualBlock.findMany({
+          where: { propertyId, startDate: { lt: rangeEnd }, endDate: { gt: rangeStart } },
+          select: { id: true, startDate: true, endDate: true, reason: true },
+        })
+      : Promise.resolve([]),
+    prisma.calendarConflict.findMany({ where: { propertyId, resolvedAt: null } }),
+  ]);
+
+  // 1) Current overlaps (half-open ranges: a.start < b.end AND a.end > b.start)
+  type Overlap = {
+    key: string;
+    kind: ConflictKind;
+    block: (typeof blocks)[number];
+    otherId: number;
+    overlapStart: Date;
+    overlapEnd: Date;
+    description: string;
+  };
+
+  const others = [
+    ...bookings.map((b) => ({
+      kind: "booking" as const,
+      id: b.id,
+      startDate: b.startDate,
+      endDate: b.endDate,
+      description: `booking #${b.id} (${b.guestName}, ${b.status})`,
+    })),
+    ...manualBlocks.map((m) => ({
+      kind: "manual_block" as const,
+      id: m.id,
+      startDate: m.startDate,
+      endDate: m.endDate,
+      description: `manual block #${m.id}${m.reason ? ` (${m.reason})` : ""}`,
+    })),
+  ];
+
+  const overlaps: Overlap[] = [];
+
+  for (const block of blocks) {
+    for (const other of others) {
+      if (!(block.startDate < other.endDate && block.endDate > other.startDate)) continue;
+
+      overlaps.push({
+        key: conflictKey(other.kind, block.id, other.id),
+        kind: other.kind,
+        block,
+        otherId: other.id,
+        overlapStart: block.startDate > other.startDate ? block.startDate : other.startDate,
+        overlapEnd: block.endDate < other.endDate ? block.endDate : other.endDate,
+        description: other.description,
+      });
+    }
+  }
+
+  const currentKeys = new Set(overlaps.map((o) => o.key));
+  const openKeys = new Set(open.map(storedConflictKey));
+
+  // 2) Resolve vanished conflicts (includes conflicts whose rows were deleted -> null refs)
+  const toResolve = open.filter((c) => !currentKeys.has(storedConflictKey(c)));
+
+  if (toResolve.length) {
+    await prisma.calendarConflict.updateMany({
+      where: { id: { in: toResolve.map((c) => c.id) } },
+      data: { resolvedAt: now },
+    });
+  }
+
+  // 3) Open new conflicts
+  const created = overlaps.filter((o) => !openKeys.has(o.key));
+
+  const createdIds: number[] = [];
+  for (const o of created) {
+    const row = await prisma.calendarConflict.create({
+      data: {
+        propertyId,
+        kind: o.kind,
+        externalBlockId: o.block.id,
+        bookingId: o.kind === "booking" ? o.otherId : null,
+        manualBlockId: o.kind === "manual_block" ? o.otherId : null,
+        provider: o.block.provider,
+        blockSummary: o.block.summary,
+        overlapStart: o.overlapStart,
+        overlapEnd: o.overlapEnd,
+      },
+    });
+    createdIds.push(row.id);
+  }
+
+  if (created.length) {
+    await notifyAdminsOfConflicts(
+      propertyId,
+      created.map(
+        (o) =>
+          `- "${o.block.calendar.name}" (${o.block.provider}) ` +
+          `${ymd(o.block.startDate)} → ${ymd(o.block.endDate)}` +
+          `${o.block.summary ? ` (${o.block.summary})` : ""} overlaps ${o.description}`
+      )
+    );
+
+    await prisma.calendarConflict.updateMany({
+      where: { id: { in: createdIds } },
+      data: { notifiedAt: new Date() },
+    });
+  }
+
+  return { opened: created.length, resolved: toResolve.length };
+}
+
+async function notifyAdminsOfConflicts(propertyId: number, lines: string[]) {
+  const [property, admins] = await Promise.all([
+    prisma.property.findUnique({ where: { id: propertyId }, select: { title: true } }),
+    prisma.user.findMany({ where: { role: "ADMIN" }, select: { email: true, name: true } }),
+  ]);
+
+  for (const admin of admins) {
+    try {
+      await sendTemplateEmail("admin_calendar_conflict_detected", admin.email, {
+        adminName: admin.name ?? "Admin",
+        propertyTitle: property?.title ?? `Property #${propertyId}`,
+        conflicts: lines.join("\n"),
+        adminUrl: `${process.env.APP_URL}/admin`,
+      });
+    } catch (e) {
+      console.error("calendar conflict email failed", propertyId, e);
+    }
+  }
+}
+
+/**
+ * Ids of the bookings / manual blocks / external blocks involved in open conflicts,
+ * for highlighting them in admin calendars and lists.
+ */
+export async function findOpenConflictRefs(propertyId?: number) {
+  const open = await prisma.calendarConflict.findMany({
+    where: { resolvedAt: null, ...(propertyId ? { propertyId } : {}) },
+    select: { externalBlockId: true, bookingId: true, manualBlockId: true },
+  });
+
+  const ids = (values: Array<number | null>) =>
+    new Set(values.filter((v): v is number => v !== null));
+
+  return {
+    bookingIds: ids(open.map((c) => c.bookingId)),
+    manualBlockIds: ids(open.map((c) => c.manualBlockId)),
+    externalBlockIds: ids(open.map((c) => c.externalBlockId)),
+  };
+}
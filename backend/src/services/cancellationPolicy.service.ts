@@ -0,0 +1,81 @@
+import type {
+  BookingPeriod,
+  CancellationPolicy,
+  Prisma,
+  Property,
+  RatePlan,
+} from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+import {
+  LEGACY_CANCELLATION_POLICY,
+  NON_REFUNDABLE_RATE_POLICY,
+  buildRefundTiers,
+  type CancellationPolicySnapshot,
+  type RefundTierInput,
+} from "../payments/refundPolicy.js";
+
+/**
+ * Cancellation policy resolution.
+ *
+ * A stay gets the policy of its arrival period, else the property's, else the default
+ * policy (CancellationPolicy.isDefault), else the legacy tier table. Same arrival-period
+ * rule as min nights and stay fees in the pricing engine. Stays on the non-refundable
+ * rate plan get NON_REFUNDABLE_RATE_POLICY instead.
+ *
+ * The resolved policy is snapshotted on Booking.cancellationPolicySnapshot at creation;
+ * /cancel-preview and /cancel only ever read that snapshot.
+ */
+
+type PolicyRow = Pick<CancellationPolicy, "id" | "key" | "name" | "description" | "tiers">;
+
+/**
+ * Booking snapshot of a stored policy (tiers expanded with bounds + labels).
+ */
+export function toCancellationPolicySnapshot(policy: PolicyRow): CancellationPolicySnapshot {
+  return {
+    policyId: policy.id,
+    key: policy.key,
+    name: policy.name,
+    description: policy.description,
+    tiers: buildRefundTiers((policy.tiers ?? []) as RefundTierInput[]),
+  };
+}
+
+export async function resolveCancellationPolicy(
+  property: Pick<Property, "cancellationPolicyId">,
+  arrivalPeriod: Pick<BookingPeriod, "cancellationPolicyId"> | null,
+  ratePlan: RatePlan = "standard",
+  db: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<CancellationPolicySnapshot> {
+  if (ratePlan === "non_refundable") return NON_REFUNDABLE_RATE_POLICY;
+
+  const policyId = arrivalPeriod?.cancellationPolicyId ?? property.cancellationPolicyId;
+
+  const policy =
+    (policyId ? await db.cancellationPolicy.findUnique({ where: { id: policyId } }) : null) ??
+    (await db.cancellationPolicy.findFirst({ where: { isDefault: true }, orderBy: { id: "asc" } }));
+
+  return policy ? toCancellationPolicySnapshot(policy) : LEGACY_CANCELLATION_POLICY;
+}
+
+export async function cancellationPolicyExists(policyId: number) {
+  const policy = await prisma.cancellationPolicy.findUnique({
+    where: { id: policyId },
+    select: { id: true },
+  });
+  return Boolean(policy);
+}
+
+/**
+ * Guards the cancellationPolicyId of a property / period write (404 when unknown).
+ * null / undefined pass: they clear or leave the assignment.
+ */
+export async function ensureCancellationPolicyExists(policyId: number | null | undefined) {
+  if (!policyId) return;
+
+  if (!(await cancellationPolicyExists(policyId))) {
+    const err: any = new Error("Cancellation policy not found");
+    err.status = 404;
+    throw err;
+  }
+}
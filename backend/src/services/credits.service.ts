@@ -0,0 +1,402 @@
+import type { Prisma } from "@prisma/client";
+import { addDays } from "date-fns";
+import { prisma } from "../prismaClient.js";
+import { sendTemplateEmail } from "./emailService.js";
+
+/**
+ * Credit vouchers: issue, consumption (quote + booking creation) and lifecycle.
+ *
+ * Vouchers are consumed oldest-expiry first (nulls last via Prisma ordering),
+ * then oldest-created first. Expired or empty vouchers are skipped.
+ *
+ * Lifecycle (status): active -> exhausted (balance used up) | expired (job) | revoked (admin).
+ * Every balance, status or expiry change is written to CreditVoucherTransaction, so a
+ * voucher's ledger always adds up to its remainingCents.
+ *
+ * Credit policy reminder:
+ * - credits reduce the Stripe amount (cash due now)
+ * - credits are non-refundable; refunds only ever apply to cash paid to Stripe
+ */
+
+type Db = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * Validity applied at issue (env VOUCHER_VALIDITY_DAYS, default one year).
+ * Vouchers from before the expiry feature were backfilled with a fixed 365 days
+ * (migration credit_voucher_lifecycle), whatever this is set to.
+ */
+export const VOUCHER_VALIDITY_DAYS = Number(process.env.VOUCHER_VALIDITY_DAYS) || 365;
+export const VOUCHER_EXPIRY_REMINDER_DAYS_BEFORE = 30;
+
+export type VoucherTransactionKind =
+  | "issue"
+  | "consume"
+  | "adjust"
+  | "extend"
+  | "revoke"
+  | "expire"
+  | "reactivate";
+
+function voucherError(status: number, message: string) {
+  const err: any = new Error(message);
+  err.status = status;
+  return err;
+}
+
+function recordVoucherTransaction(
+  db: Db,
+  data: {
+    voucherId: number;
+    kind: VoucherTransactionKind;
+    amountCents: number;
+    balanceAfterCents: number;
+    bookingId?: number | null;
+    note?: string | null;
+    createdByUserId?: number | null;
+  }
+) {
+  return db.creditVoucherTransaction.create({
+    data: {
+      voucherId: data.voucherId,
+      kind: data.kind,
+      amountCents: data.amountCents,
+      balanceAfterCents: data.balanceAfterCents,
+      bookingId: data.bookingId ?? null,
+      note: data.note ?? null,
+      createdByUserId: data.createdByUserId ?? null,
+    },
+  });
+}
+
+/**
+ * Creates an active voucher (expiring VOUCHER_VALIDITY_DAYS from now unless expiresAt is
+ * given) and opens its ledger. Used by cancellations, goodwill and manual admin issue.
+ */
+export async function issueCreditVoucher(
+  db: Db,
+  params: {
+    userId: number;
+    amountCents: number;
+    originalBookingId?: number | null;
+    expiresAt?: Date;
+    note?: string | null;
+    createdByUserId?: number | null;
+  }
+) {
+  const voucher = await db.creditVoucher.create({
+    data: {
+      userId: params.userId,
+      currency: "eur",
+      originalBookingId: params.originalBookingId ?? null,
+      issuedCents: params.amountCents,
+      remainingCents: params.amountCents,
+      status: "active",
+      expiresAt: params.expiresAt ?? addDays(new Date(), VOUCHER_VALIDITY_DAYS),
+    },
+  });
+
+  await recordVoucherTransaction(db, {
+    voucherId: voucher.id,
+    kind: "issue",
+    amountCents: params.amountCents,
+    balanceAfterCents: params.amountCents,
+    bookingId: params.originalBookingId,
+    note: params.note,
+    createdByUserId: params.createdByUserId,
+  });
+
+  return voucher;
+}
+
+type VoucherRow = {
+  id: number;
+  remainingCents: number;
+  expiresAt: Date | null;
+};
+
+function findUsableVouchers(db: Db, userId: number) {
+  return db.creditVoucher.findMany({
+    where: { userId, currency: "eur", status: "active" },
+    orderBy: [{ expiresAt: "asc" }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * Plans how much of totalDueCents each voucher would cover.
+ * Pure: does not touch the database.
+ */
+function planVoucherUse(vouchers: VoucherRow[], totalDueCents: number, now: Date) {
+  const uses: Array<{ voucher: VoucherRow; useCents: number }> = [];
+  let remainingToCover = totalDueCents;
+
+  for (const v of vouchers) {
+    if (remainingToCover <= 0) break;
+    if (v.remainingCents <= 0) continue;
+    if (v.expiresAt && v.expiresAt.getTime() <= now.getTime()) continue;
+
+    const use = Math.min(v.remainingCents, remainingToCover);
+    remainingToCover -= use;
+    uses.push({ voucher: v, useCents: use });
+  }
+
+  return uses;
+}
+
+/**
+ * Returns how many cents of credit WOULD be applied to totalDueCents.
+ * Does not consume anything (safe for quotes).
+ */
+export async function estimateCreditsCents(userId: number, totalDueCents: number) {
+  const vouchers = await findUsableVouchers(prisma, userId);
+  return planVoucherUse(vouchers, totalDueCents, new Date()).reduce(
+    (sum, u) => sum + u.useCents,
+    0
+  );
+}
+
+/**
+ * Consumes exactly amountCents of credit for bookingId inside an existing transaction.
+ *
+ * - Vouchers reaching 0 become "exhausted" (kept for their ledger), others are decremented.
+ * - Throws if the vouchers can no longer cover amountCents, so the caller's
+ *   transaction aborts instead of creating an inconsistent booking/payment.
+ */
+export async function consumeCreditsCents(
+  tx: Prisma.TransactionClient,
+  userId: number,
+  amountCents: number,
+  bookingId: number
+) {
+  // Row locks: admin adjust / revoke / extend and the expiry job wait for this booking
+  await tx.$executeRaw`
+    SELECT 1 FROM "CreditVoucher"
+    WHERE "userId" = ${userId} AND "status" = 'active'
+    ORDER BY "id"
+    FOR UPDATE
+  `;
+
+  const vouchers = await findUsableVouchers(tx, userId);
+  const uses = planVoucherUse(vouchers, amountCents, new Date());
+
+  let consumed = 0;
+
+  for (const { voucher, useCents } of uses) {
+    const newRemaining = voucher.remainingCents - useCents;
+    consumed += useCents;
+
+    await tx.creditVoucher.update({
+      where: { id: voucher.id },
+      data: {
+        remainingCents: newRemaining,
+        ...(newRemaining === 0 ? { status: "exhausted" } : {}),
+      },
+    });
+
+    await recordVoucherTransaction(tx, {
+      voucherId: voucher.id,
+      kind: "consume",
+      amountCents: -useCents,
+      balanceAfterCents: newRemaining,
+      bookingId,
+    });
+  }
+
+  // Hard safety: if mismatch, abort transaction so we don't create inconsistent booking/payment
+  if (consumed !== amountCents) {
+    throw new Error("Credit voucher consumption mismatch");
+  }
+}
+
+/* ===========================
+   LIFECYCLE (admin + expiry job)
+   =========================== */
+
+/**
+ * Locks the voucher row until the transaction ends, then reads it.
+ * Every read-compute-write of remainingCents goes through a row lock (see also
+ * consumeCreditsCents), so concurrent writers cannot overwrite each other's balance.
+ */
+async function lockVoucher(tx: Prisma.TransactionClient, voucherId: number) {
+  await tx.$executeRaw`SELECT 1 FROM "CreditVoucher" WHERE "id" = ${voucherId} FOR UPDATE`;
+  return tx.creditVoucher.findUnique({ where: { id: voucherId } });
+}
+
+async function findVoucherOrThrow(tx: Prisma.TransactionClient, voucherId: number) {
+  const voucher = await lockVoucher(tx, voucherId);
+  if (!voucher) throw voucherError(404, "Voucher not found");
+  return voucher;
+}
+
+/**
+ * New expiry date. Extending an expired voucher reactivates it with the balance
+ * it forfeited when it expired.
+ */
+export function extendCreditVoucher(
+  voucherId: number,
+  params: { expiresAt: Date; note?: string | null; createdByUserId: number }
+) {
+  return prisma.$transaction(async (tx) => {
+    const voucher = await findVoucherOrThrow(tx, voucherId);
+
+    if (voucher.status === "revoked") throw voucherError(400, "A revoked voucher cannot be extended");
+    if (params.expiresAt.getTime() <= Date.now()) {
+      throw voucherError(400, "The new expiry date must be in the future");
+    }
+
+    let restoredCents = 0;
+    if (voucher.status === "expired") {
+      const expiry = await tx.creditVoucherTransaction.findFirst({
+        where: { voucherId, kind: "expire" },
+        orderBy: { id: "desc" },
+      });
+      restoredCents = expiry ? -expiry.amountCents : 0;
+    }
+
+    const remainingCents = voucher.remainingCents + restoredCents;
+
+    const updated = await tx.creditVoucher.update({
+      where: { id: voucherId },
+      data: {
+        expiresAt: params.expiresAt,
+        expiryReminderSentAt: null,
+        remainingCents,
+        ...(voucher.status === "expired"
+          ? { status: remainingCents > 0 ? "active" : "exhausted" }
+          : {}),
+      },
+    });
+
+    await recordVoucherTransaction(tx, {
+      voucherId,
+      kind: voucher.status === "expired" ? "reactivate" : "extend",
+      amountCents: restoredCents,
+      balanceAfterCents: remainingCents,
+      note: params.note ?? `Expiry set to ${params.expiresAt.toISOString().slice(0, 10)}`,
+      createdByUserId: params.createdByUserId,
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Cancels the voucher: the remaining balance is forfeited (ledger keeps the amount).
+ */
+export function revokeCreditVoucher(
+  voucherId: number,
+  params: { note: string; createdByUserId: number }
+) {
+  return prisma.$transaction(async (tx) => {
+    const voucher = await findVoucherOrThrow(tx, voucherId);
+    if (voucher.status === "revoked") throw voucherError(400, "Voucher is already revoked");
+
+    const updated = await tx.creditVoucher.update({
+      where: { id: voucherId },
+      data: { status: "revoked", remainingCents: 0 },
+    });
+
+    await recordVoucherTransaction(tx, {
+      voucherId,
+      kind: "revoke",
+      amountCents: -voucher.remainingCents,
+      balanceAfterCents: 0,
+      note: params.note,
+      createdByUserId: params.createdByUserId,
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Adds (deltaCents > 0) or removes credit. Only active / exhausted vouchers can be adjusted;
+ * the status follows the new balance.
+ */
+export function adjustCreditVoucher(
+  voucherId: number,
+  params: { deltaCents: number; note: string; createdByUserId: number }
+) {
+  return prisma.$transaction(async (tx) => {
+    const voucher = await findVoucherOrThrow(tx, voucherId);
+
+    if (voucher.status !== "active" && voucher.status !== "exhausted") {
+      throw voucherError(400, `A ${voucher.status} voucher cannot be adjusted`);
+    }
+
+    const remainingCents = voucher.remainingCents + params.deltaCents;
+    if (remainingCents < 0) {
+      throw voucherError(400, "Adjustment exceeds the remaining balance");
+    }
+
+    const updated = await tx.creditVoucher.update({
+      where: { id: voucherId },
+      data: { remainingCents, status: remainingCents > 0 ? "active" : "exhausted" },
+    });
+
+    await recordVoucherTransaction(tx, {
+      voucherId,
+      kind: "adjust",
+      amountCents: params.deltaCents,
+      balanceAfterCents: remainingCents,
+      note: params.note,
+      createdByUserId: params.createdByUserId,
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Moves one active voucher past its expiresAt to "expired" (balance forfeited).
+ * Re-checks the state inside the transaction, so overlapping job runs are harmless.
+ */
+export async function expireCreditVoucher(voucherId: number, now: Date) {
+  await prisma.$transaction(async (tx) => {
+    const voucher = await lockVoucher(tx, voucherId);
+    if (!voucher || voucher.status !== "active") return;
+    if (!voucher.expiresAt || voucher.expiresAt > now) return;
+
+    await tx.creditVoucher.update({
+      where: { id: voucherId },
+      data: { status: "expired", remainingCents: 0 },
+    });
+
+    await recordVoucherTransaction(tx, {
+      voucherId,
+      kind: "expire",
+      amountCents: -voucher.remainingCents,
+      balanceAfterCents: 0,
+    });
+  });
+}
+
+/**
+ * Emails the holder that the voucher expires soon (once per expiry date:
+ * extending a voucher clears expiryReminderSentAt).
+ */
+export async function sendVoucherExpiryReminder(voucherId: number) {
+  const voucher = await prisma.creditVoucher.findUnique({
+    where: { id: voucherId },
+    include: { user: { select: { email: true, name: true } } },
+  });
+  if (!voucher || voucher.status !== "active" || voucher.expiryReminderSentAt) return;
+  if (!voucher.expiresAt || voucher.remainingCents <= 0) return;
+
+  try {
+    await sendTemplateEmail("customer_voucher_expiry_reminder", voucher.user.email, {
+      customerName: voucher.user.name ?? "Customer",
+      voucherId: voucher.id,
+      amount: (voucher.remainingCents / 100).toFixed(2),
+      currency: voucher.currency.toUpperCase(),
+      expiresOn: voucher.expiresAt.toISOString().slice(0, 10),
+    });
+  } catch (e) {
+    console.error("voucher expiry reminder: email failed", e);
+    return;
+  }
+
+  await prisma.creditVoucher.update({
+    where: { id: voucher.id },
+    data: { expiryReminderSentAt: new Date() },
+  });
+}
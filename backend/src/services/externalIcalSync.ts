@@ -0,0 +1,339 @@
+import * as icalNS from "node-ical";
+import { request } from "undici";
+import type { ExternalCalendar, ExternalProvider } from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+import { sendTemplateEmail } from "./emailService.js";
+import { refreshPropertyConflicts } from "./calendarConflict.service.js";
+
+/**
+ * Channel iCal import (Booking.com, Airbnb, VRBO or any other .ics export).
+ *
+ * - A property can have any number of ExternalCalendar feeds
+ * - Each feed is synced on its own: conditional GET (ETag / If-Modified-Since),
+ *   then its ExternalBlock rows are upserted by UID and stale UIDs are removed
+ * - Blocks of every feed make the dates unavailable (availability.service.ts);
+ *   deleting a feed deletes its blocks
+ * - After every successful sync, overlaps with direct bookings / manual blocks are
+ *   recomputed as CalendarConflict rows (services/calendarConflict.service.ts)
+ * - Every attempt is persisted as an ExternalCalendarSyncRun; admins are emailed once when a
+ *   feed has not synced successfully for ExternalCalendar.staleAlertHours
+ *   (jobs/calendarSyncHealth.ts)
+ */
+
+/** Sync run history older than this is pruned by the health job */
+export const SYNC_RUN_RETENTION_DAYS = 30;
+
+const PROVIDER_LABELS: Record<ExternalProvider, string> = {
+  BOOKING_COM: "Booking.com",
+  AIRBNB: "Airbnb",
+  VRBO: "VRBO",
+  OTHER: "External",
+};
+
+export function externalProviderLabel(provider: ExternalProvider) {
+  return PROVIDER_LABELS[provider];
+}
+
+const ical: any = (icalNS as any).default ?? icalNS;
+
+function toDate(value: unknown): Date | null {
+  if (!value) return null;
+  const d = value instanceof Date ? value : new Date(String(value));
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+function headerToString(value: string | string[] | undefined | null): string | null {
+  if (!value) return null;
+  return Array.isArray(value) ? (value[0] ?? null) : value;
+}
+
+/** What one fetch of a feed did (persisted as an ExternalCalendarSyncRun) */
+type FeedOutcome = {
+  status: "success" | "not_modified" | "failed";
+  httpStatus: number | null;
+  eventsParsed: number;
+  blocksAdded: number;
+  blocksRemoved: number;
+  error: string | null;
+};
+
+/**
+ * Conditional GET of the feed + upsert of its blocks by UID.
+ * Network errors propagate; HTTP errors are returned as a failed outcome.
+ */
+async function fetchAndApplyFeed(cal: ExternalCalendar): Promise<FeedOutcome> {
+  const headers: Record<string, string> = {};
+  if (cal.etag) headers["If-None-Match"] = cal.etag;
+  if (cal.lastModified) headers["If-Modified-Since"] = cal.lastModified;
+
+  const resp = await request(cal.icalUrl, { headers });
+
+  const outcome: FeedOutcome = {
+    status: "success",
+    httpStatus: resp.statusCode,
+    eventsParsed: 0,
+    blocksAdded: 0,
+    blocksRemoved: 0,
+    error: null,
+  };
+
+  if (resp.statusCode === 304) {
+    await resp.body.dump();
+    return { ...outcome, status: "not_modified" };
+  }
+
+  if (resp.statusCode < 200 || resp.statusCode >= 300) {
+    await resp.body.dump();
+    return { ...outcome, status: "failed", error: `http_${resp.statusCode}` };
+  }
+
+  const text = await resp.body.text();
+
+  const parsed = ical.parseICS(text);
+  const vevents = Object.values(parsed).filter((e: any) => e?.type === "VEVENT") as any[];
+
+  const existing = await prisma.externalBlock.findMany({
+    where: { calendarId: cal.id },
+    select: { externalUid: true },
+  });
+  const existingUids = new Set(existing.map((b) => b.externalUid));
+
+  const uids: string[] = [];
+
+  for (const e of vevents) {
+    const uid = String(e.uid ?? "").trim();
+    const start = toDate(e.start);
+    const end = toDate(e.end);
+    if (!uid || !start || !end) continue;
+
+    uids.push(uid);
+    if (!existingUids.has(uid)) outcome.blocksAdded++;
+
+    await prisma.externalBlock.upsert({
+      where: { calendarId_externalUid: { calendarId: cal.id, externalUid: uid } },
+      create: {
+        calendarId: cal.id,
+        propertyId: cal.propertyId,
+        provider: cal.provider,
+        externalUid: uid,
+        startDate: start,
+        endDate: end,
+        summary: e.summary ? String(e.summary) : null,
+      },
+      update: {
+        startDate: start,
+        endDate: end,
+        summary: e.summary ? String(e.summary) : null,
+      },
+    });
+  }
+
+  outcome.eventsParsed = uids.length;
+
+  // ✅ Ensure deletions work even if feed becomes empty
+  const removed =
+    uids.length === 0
+      ? await prisma.externalBlock.deleteMany({ where: { calendarId: cal.id } })
+      : await prisma.externalBlock.deleteMany({
+          where: { calendarId: cal.id, externalUid: { notIn: uids } },
+        });
+  outcome.blocksRemoved = removed.count;
+
+  const etag = headerToString((resp.headers as any)["etag"]);
+  const lastModified = headerToString((resp.headers as any)["last-modified"]);
+
+  await prisma.externalCalendar.update({
+    where: { id: cal.id },
+    data: {
+      etag: etag ?? cal.etag,
+      lastModified: lastModified ?? cal.lastModified,
+    },
+  });
+
+  return outcome;
+}
+
+/**
+ * Syncs one feed and records the attempt:
+ * - an ExternalCalendarSyncRun row (status, HTTP code, counts, duration)
+ * - the health fields on ExternalCalendar (last success, consecutive failures, last error)
+ */
+export async function syncExternalCalendar(calendarId: number) {
+  const cal = await prisma.externalCalendar.findUnique({ where: { id: calendarId } });
+
+  if (!cal || !cal.isEnabled) return { synced: false, reason: "no_calendar_or_disabled" as const };
+
+  const startedAt = new Date();
+
+  let outcome: FeedOutcome;
+  try {
+    outcome = await fetchAndApplyFeed(cal);
+  } catch (e: any) {
+    outcome = {
+      status: "failed",
+      httpStatus: null,
+      eventsParsed: 0,
+      blocksAdded: 0,
+      blocksRemoved: 0,
+      error: String(e?.message ?? e).slice(0, 500),
+    };
+  }
+
+  const finishedAt = new Date();
+  const ok = outcome.status !== "failed";
+
+  await prisma.$transaction([
+    prisma.externalCalendarSyncRun.create({
+      data: {
+        calendarId: cal.id,
+        status: outcome.status,
+        httpStatus: outcome.httpStatus,
+        eventsParsed: outcome.eventsParsed,
+        blocksAdded: outcome.blocksAdded,
+        blocksRemoved: outcome.blocksRemoved,
+        error: outcome.error,
+        startedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+      },
+    }),
+    prisma.externalCalendar.update({
+      where: { id: cal.id },
+      data: ok
+        ? {
+            lastRunAt: finishedAt,
+            lastSyncAt: finishedAt,
+            consecutiveFailures: 0,
+            lastError: null,
+            staleAlertSentAt: null,
+          }
+        : {
+            lastRunAt: finishedAt,
+            consecutiveFailures: { increment: 1 },
+            lastError: outcome.error,
+          },
+    }),
+  ]);
+
+  // Channel imports may collide with stays booked here meanwhile
+  if (ok) {
+    try {
+      await refreshPropertyConflicts(cal.propertyId);
+    } catch (e) {
+      console.error("calendar conflict detection failed", cal.propertyId, e);
+    }
+  }
+
+  if (outcome.status === "not_modified") return { synced: false, reason: "not_modified" as const };
+  if (!ok) return { synced: false, reason: outcome.error ?? "error" };
+
+  return { synced: true, count: outcome.eventsParsed };
+}
+
+/**
+ * Syncs every enabled feed of a property.
+ * One failing feed does not stop the others.
+ */
+export async function syncExternalCalendarsForProperty(propertyId: number) {
+  const calendars = await prisma.externalCalendar.findMany({
+    where: { propertyId, isEnabled: true },
+    select: { id: true },
+    orderBy: { id: "asc" },
+  });
+
+  for (const c of calendars) {
+    try {
+      await syncExternalCalendar(c.id);
+    } catch (e) {
+      console.error("iCal sync error", propertyId, c.id, e);
+    }
+  }
+}
+
+/**
+ * Property form shortcut (bookingComIcalUrl): updates the first Booking.com feed
+ * of the property or creates one.
+ */
+export async function upsertBookingComCalendar(
+  propertyId: number,
+  icalUrl: string,
+  isEnabled?: boolean
+) {
+  const existing = await prisma.externalCalendar.findFirst({
+    where: { propertyId, provider: "BOOKING_COM" },
+    orderBy: { id: "asc" },
+  });
+
+  if (existing) {
+    return prisma.externalCalendar.update({
+      where: { id: existing.id },
+      data: { icalUrl, ...(typeof isEnabled === "boolean" ? { isEnabled } : {}) },
+    });
+  }
+
+  return prisma.externalCalendar.create({
+    data: {
+      propertyId,
+      provider: "BOOKING_COM",
+      name: PROVIDER_LABELS.BOOKING_COM,
+      icalUrl,
+      isEnabled: isEnabled ?? true,
+    },
+  });
+}
+
+/**
+ * True when an enabled feed has not synced successfully for its staleAlertHours.
+ * Never-synced feeds count from their creation.
+ */
+export function isCalendarStale(
+  cal: Pick<ExternalCalendar, "isEnabled" | "lastSyncAt" | "createdAt" | "staleAlertHours">,
+  now: Date
+) {
+  if (!cal.isEnabled) return false;
+  const since = cal.lastSyncAt ?? cal.createdAt;
+  return now.getTime() - since.getTime() > cal.staleAlertHours * 60 * 60 * 1000;
+}
+
+/**
+ * Emails every admin about a stale feed, once per outage
+ * (staleAlertSentAt is cleared by the next successful sync).
+ */
+export async function sendStaleCalendarAlert(calendarId: number, now: Date) {
+  const cal = await prisma.externalCalendar.findUnique({
+    where: { id: calendarId },
+    include: { property: { select: { title: true } } },
+  });
+  if (!cal || cal.staleAlertSentAt || !isCalendarStale(cal, now)) return false;
+
+  // Claim the alert first so overlapping runs never email twice
+  const claimed = await prisma.externalCalendar.updateMany({
+    where: { id: cal.id, staleAlertSentAt: null },
+    data: { staleAlertSentAt: now },
+  });
+  if (claimed.count === 0) return false;
+
+  const admins = await prisma.user.findMany({
+    where: { role: "ADMIN" },
+    select: { email: true, name: true },
+  });
+
+  for (const admin of admins) {
+    try {
+      await sendTemplateEmail("admin_calendar_sync_stale", admin.email, {
+        adminName: admin.name ?? "Admin",
+        calendarName: cal.name,
+        provider: externalProviderLabel(cal.provider),
+        propertyTitle: cal.property.title,
+        staleAlertHours: cal.staleAlertHours,
+        lastSuccessAt: cal.lastSyncAt ? cal.lastSyncAt.toISOString() : "never",
+        consecutiveFailures: cal.consecutiveFailures,
+        lastError: cal.lastError ?? "none",
+        adminUrl: `${process.env.APP_URL}/admin/calendar-health`,
+      });
+    } catch (e) {
+      console.error("stale calendar alert email failed", cal.id, e);
+    }
+  }
+
+  return true;
+}
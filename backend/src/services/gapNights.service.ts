@@ -0,0 +1,85 @@
+import type { Property } from "@prisma/client";
+import { isDateRangeTaken } from "./availability.service.js";
+import { canDepartAt, findGapRuns, loadCalendarNights } from "./availabilityCalendar.service.js";
+import { isWeekdayAllowed, nightlyPriceForNight } from "./periods.service.js";
+
+/**
+ * Orphan gap nights.
+ *
+ * A gap is a run of free nights with a booking / channel block / manual block right
+ * before and right after it. It is an "orphan" when it is shorter than the min nights
+ * of its first night: no regular stay can ever fill it.
+ *
+ * Property.gapFillEnabled relaxes min nights for a stay that exactly fills such a gap
+ * (pricing engine + availability calendar); Property.gapDiscountBps is then taken off
+ * its accommodation total ("gap_discount" line).
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const ymd = (d: Date) => d.toISOString().slice(0, 10);
+
+export type OrphanGap = {
+  startDate: string; // YYYY-MM-DD (check-in)
+  endDate: string; // YYYY-MM-DD (check-out)
+  nights: number;
+  // Min nights a regular stay arriving on startDate needs
+  minNights: number;
+  // The gap stay passes the check-in / check-out weekday rules
+  weekdaysAllowed: boolean;
+  // Bookable right now (gap filling enabled + weekdays allowed)
+  bookable: boolean;
+  // EUR, sum of the nightly prices (before any discount)
+  nightlyTotal: number;
+};
+
+/**
+ * True when [start, end) exactly fills the free space between two taken nights:
+ * the night before check-in and the night of check-out are both taken.
+ * Does not check the stay itself is free (quoteStay already did).
+ */
+export async function isGapStay(propertyId: number, start: Date, end: Date) {
+  const [takenBefore, takenAfter] = await Promise.all([
+    isDateRangeTaken(propertyId, new Date(start.getTime() - MS_PER_DAY), start),
+    isDateRangeTaken(propertyId, end, new Date(end.getTime() + MS_PER_DAY)),
+  ]);
+
+  return takenBefore && takenAfter;
+}
+
+/**
+ * Orphan gaps starting in [from, to), oldest first (admin gap report).
+ */
+export async function findOrphanGaps(
+  property: Pick<Property, "id" | "pricePerNight" | "minNights" | "gapFillEnabled">,
+  from: Date,
+  to: Date
+): Promise<OrphanGap[]> {
+  const nights = await loadCalendarNights(property, from, to);
+
+  return findGapRuns(nights, property.minNights ?? 1)
+    .filter((gap) => nights[gap.start].date < to)
+    .map((gap) => {
+      const first = nights[gap.start];
+      const gapNights = nights.slice(gap.start, gap.end);
+
+      const weekdaysAllowed =
+        isWeekdayAllowed(first.period?.allowedArrivalWeekdays, first.date) &&
+        canDepartAt(nights, gap.end);
+
+      const nightlyTotal = gapNights.reduce(
+        (sum, n) => sum + nightlyPriceForNight(n.period, n.date, property.pricePerNight),
+        0
+      );
+
+      return {
+        startDate: ymd(first.date),
+        endDate: ymd(nights[gap.end].date),
+        nights: gap.end - gap.start,
+        minNights: gap.minNights,
+        weekdaysAllowed,
+        bookable: property.gapFillEnabled && weekdaysAllowed,
+        nightlyTotal,
+      };
+    });
+}
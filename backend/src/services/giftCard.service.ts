@@ -0,0 +1,280 @@
+import { randomBytes } from "node:crypto";
+import { prisma } from "../prismaClient.js";
+import { stripe } from "../stripe/stripeClient.js";
+import { sendTemplateEmail } from "./emailService.js";
+import { issueCreditVoucher } from "./credits.service.js";
+import { parseDateOnlyToUtcMidnight } from "../utils/dateOnly.js";
+import type { PurchaseGiftCardInput } from "@eagle-villas/shared/schemas/giftCard.schema";
+
+/**
+ * Gift cards (GiftCard).
+ *
+ * Flow:
+ * 1) public purchase -> GiftCard "pending_payment" + Stripe Checkout (metadata.giftCardId)
+ * 2) checkout.session.completed (routes/payment.routes.ts) -> "paid", receipt to the purchaser
+ * 3) on deliverAt the code is emailed to the recipient -> "delivered" (jobs/giftCardDelivery.ts,
+ *    or straight away when deliverAt has passed at payment time)
+ * 4) the recipient redeems the code -> CreditVoucher on their account -> "redeemed"
+ *
+ * Liability: paid / delivered cards are owed in full; once redeemed the voucher balance is.
+ */
+
+export const GIFT_CARD_MAX_DELIVERY_DAYS_AHEAD = 365;
+
+// No 0/O, 1/I/L: codes are typed in by hand
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A delivery claim older than this is treated as abandoned (worker crashed mid-send)
+const DELIVERY_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
+function giftCardError(status: number, message: string) {
+  const err: any = new Error(message);
+  err.status = status;
+  return err;
+}
+
+/**
+ * EV-XXXX-XXXX-XXXX (12 random characters, ~59 bits).
+ */
+export function generateGiftCardCode() {
+  const bytes = randomBytes(12);
+  const chars = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+  return `EV-${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8, 12)}`;
+}
+
+/**
+ * "ev 7kq2m9xd4htp" / "EV-7KQ2-M9XD-4HTP" -> "EV-7KQ2-M9XD-4HTP".
+ */
+export function normalizeGiftCardCode(code: string) {
+  const raw = code.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const m = /^EV([A-Z0-9]{4})([A-Z0-9]{4})([A-Z0-9]{4})$/.exec(raw);
+  return m ? `EV-${m[1]}-${m[2]}-${m[3]}` : raw;
+}
+
+function euros(cents: number) {
+  return (cents / 100).toFixed(2);
+}
+
+function ymd(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Creates the pending gift card and its Stripe Checkout session.
+ */
+export async function createGiftCardCheckout(input: PurchaseGiftCardInput) {
+  const today = parseDateOnlyToUtcMidnight(ymd(new Date()));
+  const deliverAt = input.deliverOn ? parseDateOnlyToUtcMidnight(input.deliverOn) : today;
+
+  if (deliverAt < today) throw giftCardError(400, "The delivery date cannot be in the past");
+  if (deliverAt.getTime() - today.getTime() > GIFT_CARD_MAX_DELIVERY_DAYS_AHEAD * DAY_MS) {
+    throw giftCardError(400, "The delivery date must be within a year");
+  }
+
+  const giftCard = await prisma.giftCard.create({
+    data: {
+      code: generateGiftCardCode(),
+      amountCents: input.amountCents,
+      currency: "eur",
+      status: "pending_payment",
+      purchaserName: input.purchaserName,
+      purchaserEmail: input.purchaserEmail,
+      recipientName: input.recipientName,
+      recipientEmail: input.recipientEmail,
+      message: input.message ?? null,
+      deliverAt,
+    },
+  });
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    payment_method_types: ["card"],
+    customer_email: input.purchaserEmail,
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency: "eur",
+          unit_amount: input.amountCents,
+          product_data: {
+            name: `Gift card €${euros(input.amountCents)}`,
+            description: `For ${input.recipientName}, delivered by email on ${ymd(deliverAt)}`,
+          },
+        },
+      },
+    ],
+    success_url: `${process.env.APP_URL}/gift-cards?purchased=${giftCard.id}`,
+    cancel_url: `${process.env.APP_URL}/gift-cards`,
+    metadata: { giftCardId: String(giftCard.id) },
+  });
+
+  await prisma.giftCard.update({
+    where: { id: giftCard.id },
+    data: { stripeSessionId: session.id },
+  });
+
+  return { giftCardId: giftCard.id, checkoutUrl: session.url };
+}
+
+/**
+ * Emails the code to the recipient ("paid" -> "delivered").
+ * The worker first claims the card (deliveryClaimedAt, conditional update) and only the
+ * one that wins the claim sends the email, so a webhook retry and the job cannot both
+ * deliver. A failed send releases the claim for the next job run.
+ */
+export async function deliverGiftCard(giftCardId: number) {
+  const now = new Date();
+
+  const claimed = await prisma.giftCard.updateMany({
+    where: {
+      id: giftCardId,
+      status: "paid",
+      OR: [
+        { deliveryClaimedAt: null },
+        { deliveryClaimedAt: { lt: new Date(now.getTime() - DELIVERY_CLAIM_TIMEOUT_MS) } },
+      ],
+    },
+    data: { deliveryClaimedAt: now },
+  });
+  if (claimed.count !== 1) return;
+
+  const card = await prisma.giftCard.findUniqueOrThrow({ where: { id: giftCardId } });
+
+  try {
+    await sendTemplateEmail("gift_card_delivery", card.recipientEmail, {
+      recipientName: card.recipientName,
+      purchaserName: card.purchaserName,
+      amount: euros(card.amountCents),
+      currency: card.currency.toUpperCase(),
+      message: card.message ?? "",
+      code: card.code,
+      redeemUrl: `${process.env.APP_URL}/dashboard`,
+    });
+  } catch (e) {
+    // Stays "paid": the delivery job retries
+    console.error("gift card delivery: email failed", e);
+    await prisma.giftCard.updateMany({
+      where: { id: card.id, deliveryClaimedAt: now },
+      data: { deliveryClaimedAt: null },
+    });
+    return;
+  }
+
+  await prisma.giftCard.updateMany({
+    where: { id: card.id, status: "paid" },
+    data: { status: "delivered", deliveredAt: new Date() },
+  });
+}
+
+/**
+ * checkout.session.completed for a gift card. Idempotent (Stripe retries events).
+ */
+export async function markGiftCardPaid(params: {
+  giftCardId: number;
+  sessionId: string;
+  paymentIntentId: string | null;
+}) {
+  const card = await prisma.giftCard.findUnique({ where: { id: params.giftCardId } });
+  if (!card) return { found: false as const, alreadyPaid: false };
+
+  const claimed = await prisma.giftCard.updateMany({
+    where: { id: card.id, status: "pending_payment" },
+    data: {
+      status: "paid",
+      paidAt: new Date(),
+      stripeSessionId: params.sessionId,
+      stripePaymentIntentId: params.paymentIntentId,
+    },
+  });
+
+  if (claimed.count === 0) return { found: true as const, alreadyPaid: true };
+
+  try {
+    await sendTemplateEmail("gift_card_purchase_confirmation", card.purchaserEmail, {
+      purchaserName: card.purchaserName,
+      recipientName: card.recipientName,
+      recipientEmail: card.recipientEmail,
+      amount: euros(card.amountCents),
+      currency: card.currency.toUpperCase(),
+      deliverOn: ymd(card.deliverAt),
+    });
+  } catch (e) {
+    console.error("gift card purchase: confirmation email failed", e);
+  }
+
+  if (card.deliverAt.getTime() <= Date.now()) {
+    await deliverGiftCard(card.id);
+  }
+
+  return { found: true as const, alreadyPaid: false };
+}
+
+/**
+ * Converts a paid gift card into a CreditVoucher on userId's account.
+ * The card is claimed with a conditional update, so a code can only be redeemed once.
+ */
+export async function redeemGiftCard(code: string, userId: number) {
+  const card = await prisma.giftCard.findUnique({ where: { code: normalizeGiftCardCode(code) } });
+
+  if (!card || card.status === "pending_payment") {
+    throw giftCardError(404, "Gift card code not found");
+  }
+  if (card.status === "redeemed") throw giftCardError(409, "This gift card has already been redeemed");
+
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.giftCard.updateMany({
+      where: { id: card.id, status: { in: ["paid", "delivered"] } },
+      data: { status: "redeemed", redeemedAt: new Date(), redeemedByUserId: userId },
+    });
+    if (claimed.count === 0) {
+      throw giftCardError(409, "This gift card has already been redeemed");
+    }
+
+    const voucher = await issueCreditVoucher(tx, {
+      userId,
+      amountCents: card.amountCents,
+      note: `Gift card ${card.code}`,
+    });
+
+    await tx.giftCard.update({
+      where: { id: card.id },
+      data: { creditVoucherId: voucher.id },
+    });
+
+    return voucher;
+  });
+}
+
+/**
+ * Outstanding liability:
+ * - unredeemedCents: paid / delivered cards (owed in full)
+ * - redeemedOpenCents: unused balance of active vouchers created from gift cards
+ */
+export async function giftCardLiability() {
+  const [unredeemed, redeemedOpen] = await Promise.all([
+    prisma.giftCard.aggregate({
+      where: { status: { in: ["paid", "delivered"] } },
+      _sum: { amountCents: true },
+      _count: true,
+    }),
+    prisma.creditVoucher.aggregate({
+      where: { status: "active", giftCard: { isNot: null } },
+      _sum: { remainingCents: true },
+      _count: true,
+    }),
+  ]);
+
+  const unredeemedCents = unredeemed._sum.amountCents ?? 0;
+  const redeemedOpenCents = redeemedOpen._sum.remainingCents ?? 0;
+
+  return {
+    currency: "eur",
+    unredeemedCount: unredeemed._count,
+    unredeemedCents,
+    redeemedOpenCount: redeemedOpen._count,
+    redeemedOpenCents,
+    totalCents: unredeemedCents + redeemedOpenCents,
+  };
+}
@@ -0,0 +1,242 @@
+import { randomBytes } from "node:crypto";
+import { prisma } from "../prismaClient.js";
+import { externalProviderLabel } from "./externalIcalSync.js";
+import { OWN_ICAL_UID_SUFFIX } from "./calendarConflict.service.js";
+import { dtstampUTC, icsCalendar, icsEscape, yyyymmdd } from "../utils/ics.js";
+
+/**
+ * Private iCal export feeds (IcalExportToken).
+ *
+ * - Each consumer (Booking.com, Airbnb, the cleaner's phone...) gets its own token,
+ *   so one link can be rotated or revoked without touching the others
+ * - Tokens are 32 random bytes (base64url): the feed URL is the only credential
+ * - Every fetch is logged as an IcalExportAccess row, pruned after ICAL_ACCESS_RETENTION_DAYS
+ *   (jobs/calendarSyncHealth.ts)
+ * - AVAILABILITY feeds carry dates only (routes/public.calendar.export.route.ts);
+ *   HOUSEKEEPING feeds carry guest details for owners/staff (buildHousekeepingIcs below)
+ */
+
+export const ICAL_ACCESS_RETENTION_DAYS = 90;
+
+// Housekeeping feed window (phone calendars do not need the whole history)
+const HOUSEKEEPING_PAST_DAYS = 7;
+const HOUSEKEEPING_FUTURE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function generateIcalExportToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+type HousekeepingStay = {
+  propertyId: number;
+  start: Date;
+  end: Date;
+  label: string;
+};
+
+function guestCountsLabel(b: { adults: number; children: number; babies: number }) {
+  const parts = [`${b.adults} adult${b.adults === 1 ? "" : "s"}`];
+  if (b.children > 0) parts.push(`${b.children} child${b.children === 1 ? "" : "ren"}`);
+  if (b.babies > 0) parts.push(`${b.babies} bab${b.babies === 1 ? "y" : "ies"}`);
+  return parts.join(", ");
+}
+
+/**
+ * Builds the housekeeping VCALENDAR of one property (or of all properties when null).
+ *
+ * - confirmed bookings: guest name, guest counts, extra beds (booked + approved
+ *   AdditionalBedRequest), arrival time (Booking.arrivalTime, else the property check-in time);
+ *   no contact details, since anyone holding the feed URL can read it
+ * - channel reservations and owner stays: dates only (guest details are not ours)
+ * - a TURNOVER all-day event when a stay ends on the day another one starts
+ */
+export async function buildHousekeepingIcs(propertyId: number | null) {
+  const now = Date.now();
+  const windowStart = new Date(now - HOUSEKEEPING_PAST_DAYS * DAY_MS);
+  const windowEnd = new Date(now + HOUSEKEEPING_FUTURE_DAYS * DAY_MS);
+
+  const inWindow = { startDate: { lt: windowEnd }, endDate: { gt: windowStart } };
+  const propertyWhere = propertyId !== null ? { propertyId } : {};
+
+  const [properties, bookings, external, ownerStays] = await Promise.all([
+    prisma.property.findMany({
+      where: propertyId !== null ? { id: propertyId } : undefined,
+      select: { id: true, title: true, checkInFrom: true, checkOutUntil: true },
+    }),
+    prisma.booking.findMany({
+      where: { ...propertyWhere, ...inWindow, status: "confirmed" },
+      orderBy: { startDate: "asc" },
+      select: {
+        id: true,
+        propertyId: true,
+        startDate: true,
+        endDate: true,
+        guestName: true,
+        adults: true,
+        children: true,
+        babies: true,
+        pets: true,
+        extraBedsCount: true,
+        arrivalTime: true,
+        additionalBedRequests: {
+          where: { status: "approved" },
+          select: { bedsRequested: true },
+        },
+      },
+    }),
+    prisma.externalBlock.findMany({
+      where: {
+        ...propertyWhere,
+        ...inWindow,
+        NOT: { externalUid: { endsWith: OWN_ICAL_UID_SUFFIX } },
+      },
+      orderBy: { startDate: "asc" },
+      select: { id: true, propertyId: true, provider: true, startDate: true, endDate: true },
+    }),
+    prisma.manualBlock.findMany({
+      where: { ...propertyWhere, ...inWindow, category: "OWNER_STAY" },
+      orderBy: { startDate: "asc" },
+      select: { id: true, propertyId: true, startDate: true, endDate: true, reason: true },
+    }),
+  ]);
+
+  const propertyById = new Map(properties.map((p) => [p.id, p]));
+  const nowStamp = dtstampUTC();
+  const events: string[] = [];
+  const stays: HousekeepingStay[] = [];
+
+  for (const b of bookings) {
+    const property = propertyById.get(b.propertyId);
+    if (!property) continue;
+
+    const extraBeds =
+      b.extraBedsCount + b.additionalBedRequests.reduce((sum, r) => sum + r.bedsRequested, 0);
+    const arrival = b.arrivalTime ?? (property.checkInFrom ? `from ${property.checkInFrom}` : null);
+
+    const summary = [
+      `${property.title}: ${b.guestName}`,
+      guestCountsLabel(b),
+      ...(extraBeds > 0 ? [`+${extraBeds} extra bed${extraBeds === 1 ? "" : "s"}`] : []),
+      ...(b.arrivalTime ? [`arr. ${b.arrivalTime}`] : []),
+    ].join(" · ");
+
+    const description = [
+      `Guest: ${b.guestName}`,
+      `Guests: ${guestCountsLabel(b)}`,
+      ...(b.pets > 0 ? [`Pets: ${b.pets}`] : []),
+      `Extra beds: ${extraBeds}`,
+      ...(arrival ? [`Arrival: ${arrival}`] : []),
+      ...(property.checkOutUntil ? [`Check-out until ${property.checkOutUntil}`] : []),
+      `Booking #${b.id}`,
+    ].join("\n");
+
+    events.push(
+      [
+        "BEGIN:VEVENT",
+        `UID:housekeeping-booking-${b.id}@eagle-villas`,
+        `DTSTAMP:${nowStamp}`,
+        `DTSTART;VALUE=DATE:${yyyymmdd(new Date(b.startDate))}`,
+        `DTEND;VALUE=DATE:${yyyymmdd(new Date(b.endDate))}`,
+        `SUMMARY:${icsEscape(summary)}`,
+        `DESCRIPTION:${icsEscape(description)}`,
+        "END:VEVENT",
+      ].join("\r\n")
+    );
+
+    stays.push({
+      propertyId: b.propertyId,
+      start: b.startDate,
+      end: b.endDate,
+      label: b.guestName,
+    });
+  }
+
+  for (const x of external) {
+    const property = propertyById.get(x.propertyId);
+    if (!property) continue;
+
+    const channel = externalProviderLabel(x.provider);
+
+    events.push(
+      [
+        "BEGIN:VEVENT",
+        `UID:housekeeping-external-${x.id}@eagle-villas`,
+        `DTSTAMP:${nowStamp}`,
+        `DTSTART;VALUE=DATE:${yyyymmdd(new Date(x.startDate))}`,
+        `DTEND;VALUE=DATE:${yyyymmdd(new Date(x.endDate))}`,
+        `SUMMARY:${icsEscape(`${property.title}: ${channel} guest`)}`,
+        "END:VEVENT",
+      ].join("\r\n")
+    );
+
+    stays.push({
+      propertyId: x.propertyId,
+      start: x.startDate,
+      end: x.endDate,
+      label: `${channel} guest`,
+    });
+  }
+
+  for (const m of ownerStays) {
+    const property = propertyById.get(m.propertyId);
+    if (!property) continue;
+
+    events.push(
+      [
+        "BEGIN:VEVENT",
+        `UID:housekeeping-owner-${m.id}@eagle-villas`,
+        `DTSTAMP:${nowStamp}`,
+        `DTSTART;VALUE=DATE:${yyyymmdd(new Date(m.startDate))}`,
+        `DTEND;VALUE=DATE:${yyyymmdd(new Date(m.endDate))}`,
+        `SUMMARY:${icsEscape(`${property.title}: Owner stay${m.reason ? ` - ${m.reason}` : ""}`)}`,
+        "END:VEVENT",
+      ].join("\r\n")
+    );
+
+    stays.push({ propertyId: m.propertyId, start: m.startDate, end: m.endDate, label: "Owner stay" });
+  }
+
+  // Same-day turnovers: a departure and an arrival on the same date at the same property
+  const arrivals = new Map<string, HousekeepingStay>();
+  for (const s of stays) {
+    arrivals.set(`${s.propertyId}:${yyyymmdd(s.start)}`, s);
+  }
+
+  const turnovers = new Set<string>();
+  for (const out of stays) {
+    const day = yyyymmdd(out.end);
+    const key = `${out.propertyId}:${day}`;
+    const incoming = arrivals.get(key);
+    if (!incoming || turnovers.has(key)) continue;
+    turnovers.add(key);
+
+    const property = propertyById.get(out.propertyId)!;
+    const nextDay = yyyymmdd(new Date(out.end.getTime() + DAY_MS));
+
+    const description = [
+      `Out: ${out.label}${property.checkOutUntil ? ` (until ${property.checkOutUntil})` : ""}`,
+      `In: ${incoming.label}${property.checkInFrom ? ` (from ${property.checkInFrom})` : ""}`,
+    ].join("\n");
+
+    events.push(
+      [
+        "BEGIN:VEVENT",
+        `UID:housekeeping-turnover-${out.propertyId}-${day}@eagle-villas`,
+        `DTSTAMP:${nowStamp}`,
+        `DTSTART;VALUE=DATE:${day}`,
+        `DTEND;VALUE=DATE:${nextDay}`,
+        `SUMMARY:${icsEscape(`TURNOVER - ${property.title}`)}`,
+        `DESCRIPTION:${icsEscape(description)}`,
+        "END:VEVENT",
+      ].join("\r\n")
+    );
+  }
+
+  const calendarName =
+    propertyId !== null && properties[0]
+      ? `Housekeeping - ${properties[0].title}`
+      : "Housekeeping - All villas";
+
+  return icsCalendar(events, calendarName);
+}
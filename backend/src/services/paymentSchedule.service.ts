@@ -0,0 +1,562 @@
+import type { Payment, PaymentInstallment, Prisma, Property } from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+import { stripe } from "../stripe/stripeClient.js";
+import { daysBeforeStart } from "../payments/refundPolicy.js";
+import { sendTemplateEmail } from "./emailService.js";
+
+/**
+ * Payment schedules (deposit now, balance later).
+ *
+ * Every Stripe payment gets a ledger of PaymentInstallment rows:
+ * - full:    one installment charged by the booking Checkout
+ * - deposit: Property.depositBps of the cash due, charged by the booking Checkout
+ *            (the card is saved for off-session use), then a balance installment due
+ *            Property.balanceDueDaysBefore days before check-in
+ *
+ * Bookings made inside the balance window pay in full.
+ *
+ * Balance lifecycle (jobs/paymentSchedule.ts):
+ * - reminder email BALANCE_REMINDER_DAYS_BEFORE_DUE days before the due date
+ * - on the due date the saved card is charged off-session
+ * - a failed charge emails the guest a link to pay from their dashboard
+ * - still unpaid Property.balanceAutoCancelDays after the due date -> booking cancelled,
+ *   deposit kept
+ *
+ * Money:
+ * - Payment.amountCents is the cash due over all installments
+ * - Payment.paidCents is the cash actually collected; refunds are capped by it
+ */
+
+export const DEFAULT_BALANCE_DUE_DAYS_BEFORE = 30;
+export const BALANCE_REMINDER_DAYS_BEFORE_DUE = 7;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const ymd = (d: Date) => d.toISOString().slice(0, 10);
+
+export type InstallmentKind = "full" | "deposit" | "balance";
+
+/**
+ * Planned installment, stored on Booking.priceBreakdown.paymentSchedule.
+ */
+export type PaymentScheduleLine = {
+  kind: InstallmentKind;
+  sequence: number;
+  amountCents: number;
+  dueDate: string; // YYYY-MM-DD
+};
+
+/**
+ * Pure: splits the cash due for a stay into installments.
+ * Returns [] when nothing is due in cash (admin bookings, fully covered by credits).
+ */
+export function buildPaymentSchedule(params: {
+  property: Pick<Property, "depositBps" | "balanceDueDaysBefore">;
+  startDate: Date;
+  now: Date;
+  cashCents: number;
+}): PaymentScheduleLine[] {
+  const { property, startDate, now, cashCents } = params;
+  if (cashCents <= 0) return [];
+
+  const full: PaymentScheduleLine[] = [
+    { kind: "full", sequence: 1, amountCents: cashCents, dueDate: ymd(now) },
+  ];
+
+  const bps = property.depositBps ?? 0;
+  if (bps <= 0 || bps >= 10000) return full;
+
+  const dueDaysBefore = property.balanceDueDaysBefore ?? DEFAULT_BALANCE_DUE_DAYS_BEFORE;
+  if (daysBeforeStart(now, startDate) <= dueDaysBefore) return full;
+
+  const depositCents = Math.round((cashCents * bps) / 10000);
+  if (depositCents <= 0 || depositCents >= cashCents) return full;
+
+  return [
+    { kind: "deposit", sequence: 1, amountCents: depositCents, dueDate: ymd(now) },
+    {
+      kind: "balance",
+      sequence: 2,
+      amountCents: cashCents - depositCents,
+      dueDate: ymd(new Date(startDate.getTime() - dueDaysBefore * MS_PER_DAY)),
+    },
+  ];
+}
+
+/**
+ * Nested create data for Payment.installments.
+ */
+export function installmentsCreateData(
+  schedule: PaymentScheduleLine[]
+): Prisma.PaymentInstallmentCreateWithoutPaymentInput[] {
+  return schedule.map((line) => ({
+    kind: line.kind,
+    sequence: line.sequence,
+    amountCents: line.amountCents,
+    dueAt: new Date(`${line.dueDate}T00:00:00.000Z`),
+  }));
+}
+
+/**
+ * What the guest actually paid: cash collected + credits applied.
+ * Cancellation policy percentages (refundPolicy.ts) apply to this amount, so an
+ * unpaid balance is never refunded or turned into a voucher.
+ */
+export function amountPaidCents(payment: Pick<Payment, "paidCents" | "creditsAppliedCents">) {
+  return payment.paidCents + payment.creditsAppliedCents;
+}
+
+/**
+ * Cash that can still be refunded to Stripe.
+ */
+export function refundableCashCents(payment: Pick<Payment, "paidCents" | "refundedCents">) {
+  return Math.max(0, payment.paidCents - payment.refundedCents);
+}
+
+export type RefundPart = {
+  installmentId: number | null;
+  paymentIntentId: string | null;
+  amountCents: number;
+};
+
+/**
+ * Pure: splits a cash refund over the charges it must be sent to.
+ * Latest installment first (the balance before the deposit). Legacy payments without
+ * installments refund their single PaymentIntent.
+ */
+export function planRefundParts(
+  payment: Pick<Payment, "stripePaymentIntentId"> & {
+    installments: Array<
+      Pick<
+        PaymentInstallment,
+        "id" | "sequence" | "status" | "amountCents" | "refundedCents" | "stripePaymentIntentId"
+      >
+    >;
+  },
+  refundCents: number
+): RefundPart[] {
+  if (refundCents <= 0) return [];
+
+  const paid = payment.installments
+    .filter((i) => i.status === "paid")
+    .sort((a, b) => b.sequence - a.sequence);
+
+  if (paid.length === 0) {
+    return [
+      {
+        installmentId: null,
+        paymentIntentId: payment.stripePaymentIntentId,
+        amountCents: refundCents,
+      },
+    ];
+  }
+
+  const parts: RefundPart[] = [];
+  let left = refundCents;
+
+  for (const inst of paid) {
+    if (left <= 0) break;
+
+    const amount = Math.min(left, Math.max(0, inst.amountCents - inst.refundedCents));
+    if (amount <= 0) continue;
+
+    parts.push({
+      installmentId: inst.id,
+      paymentIntentId: inst.stripePaymentIntentId,
+      amountCents: amount,
+    });
+    left -= amount;
+  }
+
+  return parts;
+}
+
+/**
+ * Stops collecting: open installments of a cancelled booking are cancelled.
+ */
+export function cancelOpenInstallments(tx: Prisma.TransactionClient, paymentId: number) {
+  return tx.paymentInstallment.updateMany({
+    where: { paymentId, status: { in: ["scheduled", "failed"] } },
+    data: { status: "cancelled" },
+  });
+}
+
+/**
+ * Installments that may still be charged (Checkout or off-session).
+ */
+function isOpenInstallment(inst: Pick<PaymentInstallment, "status">) {
+  return inst.status === "scheduled" || inst.status === "failed";
+}
+
+/**
+ * Records a collected installment (Checkout webhook or off-session charge).
+ * Idempotent: returns alreadyPaid=true when the installment was already recorded with
+ * this PaymentIntent (Stripe retrying the event).
+ *
+ * - Payment.paidCents += installment amount
+ * - Payment.status = "paid" once nothing is left to collect, else "deposit_paid"
+ * - the first charge confirms the booking and keeps the card for the balance
+ *
+ * Only open installments of a booking that is not cancelled are recorded. A charge that
+ * lands afterwards (e.g. a balance Checkout completed after the auto-cancel), or a second
+ * charge of an installment already paid by another PaymentIntent (a Checkout completed
+ * after the off-session charge), is refunded and flagged instead
+ * (rejected = "closed" | "duplicate", see refundRejectedCharge()).
+ */
+export async function markInstallmentPaid(params: {
+  installmentId: number;
+  paymentIntentId: string | null;
+  sessionId?: string | null;
+  stripeCustomerId?: string | null;
+  paymentMethodId?: string | null;
+}) {
+  const result = await prisma.$transaction(async (tx) => {
+    // Row lock: a concurrent cancelOpenInstallments() waits for this charge (and vice versa)
+    await tx.$executeRaw`
+      SELECT 1 FROM "PaymentInstallment" WHERE "id" = ${params.installmentId} FOR UPDATE
+    `;
+
+    const inst = await tx.paymentInstallment.findUnique({
+      where: { id: params.installmentId },
+      include: {
+        payment: { include: { installments: true, booking: { select: { status: true } } } },
+      },
+    });
+    if (!inst) return { found: false as const, alreadyPaid: false, rejected: null };
+
+    if (inst.status === "paid") {
+      const sameCharge =
+        !params.paymentIntentId ||
+        !inst.stripePaymentIntentId ||
+        inst.stripePaymentIntentId === params.paymentIntentId;
+
+      return sameCharge
+        ? { found: true as const, alreadyPaid: true, rejected: null }
+        : { found: true as const, alreadyPaid: false, rejected: "duplicate" as const };
+    }
+
+    // Cancelled installment or booking: paidCents must not grow, the charge goes back
+    if (!isOpenInstallment(inst) || inst.payment.booking.status === "cancelled") {
+      return { found: true as const, alreadyPaid: false, rejected: "closed" as const };
+    }
+
+    await tx.paymentInstallment.update({
+      where: { id: inst.id },
+      data: {
+        status: "paid",
+        paidAt: new Date(),
+        failureReason: null,
+        stripePaymentIntentId: params.paymentIntentId,
+        ...(params.sessionId ? { stripeSessionId: params.sessionId } : {}),
+      },
+    });
+
+    const payment = inst.payment;
+    const stillOpen = payment.installments.some(
+      (i) => i.id !== inst.id && (i.status === "scheduled" || i.status === "failed")
+    );
+
+    await tx.payment.update({
+      where: { id: payment.id },
+      data: {
+        paidCents: payment.paidCents + inst.amountCents,
+        status: stillOpen ? "deposit_paid" : "paid",
+        stripePaymentIntentId: payment.stripePaymentIntentId ?? params.paymentIntentId,
+        stripeCustomerId: payment.stripeCustomerId ?? params.stripeCustomerId ?? null,
+        stripePaymentMethodId: payment.stripePaymentMethodId ?? params.paymentMethodId ?? null,
+      },
+    });
+
+    await tx.booking.updateMany({
+      where: { id: payment.bookingId, status: "pending" },
+      data: { status: "confirmed" },
+    });
+
+    return { found: true as const, alreadyPaid: false, rejected: null };
+  });
+
+  if (result.rejected) {
+    await refundRejectedCharge(params.installmentId, params.paymentIntentId, result.rejected);
+  }
+
+  return result;
+}
+
+/**
+ * Refunds a charge markInstallmentPaid() refused to record, in full and outside the ledger
+ * (no Refund row: the cash never reached Payment.paidCents, so the refund webhook ignores it).
+ * The installment's failureReason flags it in the admin ledger; when the refund cannot be
+ * submitted it asks for admin review instead.
+ */
+async function refundRejectedCharge(
+  installmentId: number,
+  paymentIntentId: string | null,
+  rejected: "closed" | "duplicate"
+) {
+  const charge = paymentIntentId ?? "unknown payment intent";
+  const what =
+    rejected === "duplicate"
+      ? `Charged again after it was paid (${charge})`
+      : `Charged after it was closed (${charge})`;
+  let failureReason = `${what}, refunded automatically`;
+
+  try {
+    if (!paymentIntentId) throw new Error("Missing payment intent");
+
+    await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        metadata: { installmentId: String(installmentId), reason: `installment_${rejected}` },
+      },
+      { idempotencyKey: `installment:${installmentId}:${rejected}-charge:${paymentIntentId}` }
+    );
+  } catch (e: any) {
+    console.error(
+      `payment schedule: ${rejected} installment charge refund failed`,
+      installmentId,
+      e?.message ?? e
+    );
+    failureReason = `${what}, refund failed: needs admin review`;
+  }
+
+  await prisma.paymentInstallment.update({
+    where: { id: installmentId },
+    data: { failureReason },
+  });
+}
+
+/**
+ * Loads an installment with everything the emails need.
+ */
+function findInstallmentWithBooking(id: number) {
+  return prisma.paymentInstallment.findUnique({
+    where: { id },
+    include: {
+      payment: {
+        include: {
+          booking: {
+            include: {
+              user: { select: { name: true, email: true } },
+              property: { select: { title: true, balanceAutoCancelDays: true } },
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+type InstallmentWithBooking = NonNullable<Awaited<ReturnType<typeof findInstallmentWithBooking>>>;
+
+/**
+ * Emails the guest about an installment. Template failures are logged, never thrown:
+ * the payment state must not depend on SMTP.
+ */
+async function notifyInstallment(key: string, inst: InstallmentWithBooking) {
+  const booking = inst.payment.booking;
+  const to = booking.user?.email ?? booking.guestEmail;
+
+  try {
+    await sendTemplateEmail(key, to, {
+      customerName: booking.user?.name ?? booking.guestName,
+      bookingId: booking.id,
+      propertyTitle: booking.property.title,
+      amount: (inst.amountCents / 100).toFixed(2),
+      currency: inst.payment.currency.toUpperCase(),
+      dueDate: ymd(inst.dueAt),
+      payUrl: `${process.env.APP_URL}/dashboard`,
+    });
+  } catch (e) {
+    console.error(`payment schedule: ${key} email failed`, inst.id, e);
+  }
+}
+
+/**
+ * Balance reminder, sent once.
+ */
+export async function sendBalanceReminder(installmentId: number) {
+  const inst = await findInstallmentWithBooking(installmentId);
+  if (!inst || inst.status !== "scheduled" || inst.reminderSentAt) return;
+
+  await notifyInstallment("customer_balance_reminder", inst);
+  await prisma.paymentInstallment.update({
+    where: { id: inst.id },
+    data: { reminderSentAt: new Date() },
+  });
+}
+
+/**
+ * Charges a due installment with the card saved by the deposit Checkout.
+ * A failure marks the installment "failed" and emails the guest a pay link;
+ * the guest can still pay it through createInstallmentCheckout().
+ */
+export async function chargeInstallmentOffSession(
+  installmentId: number
+): Promise<"paid" | "failed" | "skipped"> {
+  const inst = await findInstallmentWithBooking(installmentId);
+  if (!inst || inst.status !== "scheduled") return "skipped";
+
+  const payment = inst.payment;
+  if (payment.booking.status !== "confirmed") return "skipped";
+
+  // The guest may be paying this installment through Checkout right now:
+  // expire an open session first, leave a completed one to the webhook (next run retries)
+  if (inst.stripeSessionId) {
+    try {
+      const session = await stripe.checkout.sessions.retrieve(inst.stripeSessionId);
+      if (session.status === "complete") return "skipped";
+      if (session.status === "open") await stripe.checkout.sessions.expire(session.id);
+    } catch (e: any) {
+      console.error("payment schedule: open Checkout check failed", inst.id, e?.message ?? e);
+      return "skipped";
+    }
+  }
+
+  const attempts = inst.attempts + 1;
+
+  const fail = async (reason: string) => {
+    await prisma.paymentInstallment.update({
+      where: { id: inst.id },
+      data: { status: "failed", failedAt: new Date(), failureReason: reason, attempts },
+    });
+    await notifyInstallment("customer_balance_payment_failed", inst);
+    return "failed" as const;
+  };
+
+  if (!payment.stripeCustomerId || !payment.stripePaymentMethodId) {
+    return fail("No saved card");
+  }
+
+  try {
+    const intent = await stripe.paymentIntents.create(
+      {
+        amount: inst.amountCents,
+        currency: payment.currency,
+        customer: payment.stripeCustomerId,
+        payment_method: payment.stripePaymentMethodId,
+        off_session: true,
+        confirm: true,
+        description: `Balance for booking #${payment.bookingId}`,
+        metadata: {
+          bookingId: String(payment.bookingId),
+          installmentId: String(inst.id),
+        },
+      },
+      { idempotencyKey: `installment:${inst.id}:attempt:${attempts}` }
+    );
+
+    if (intent.status !== "succeeded") return fail(`Payment ${intent.status}`);
+
+    await prisma.paymentInstallment.update({ where: { id: inst.id }, data: { attempts } });
+    const recorded = await markInstallmentPaid({
+      installmentId: inst.id,
+      paymentIntentId: intent.id,
+    });
+    return recorded.rejected ? "skipped" : "paid";
+  } catch (e: any) {
+    console.error("payment schedule: off-session charge failed", inst.id, e?.message ?? e);
+    return fail(e?.message ?? "Card charge failed");
+  }
+}
+
+/**
+ * Cancels a confirmed booking whose balance was not paid in time.
+ * The deposit is kept (no refund, no voucher); admins can still approve a refund request.
+ */
+export async function autoCancelForUnpaidBalance(installmentId: number) {
+  const inst = await findInstallmentWithBooking(installmentId);
+  if (!inst || !isOpenInstallment(inst)) return false;
+
+  const booking = inst.payment.booking;
+  if (booking.status !== "confirmed") return false;
+
+  const cancelled = await prisma.$transaction(async (tx) => {
+    const fresh = await tx.booking.findUnique({
+      where: { id: booking.id },
+      include: { cancellation: true },
+    });
+    if (!fresh || fresh.status !== "confirmed" || fresh.cancellation) return false;
+
+    await tx.booking.update({ where: { id: booking.id }, data: { status: "cancelled" } });
+    await tx.cancellation.create({
+      data: {
+        bookingId: booking.id,
+        policyRefundCents: 0,
+        voucherIssuedCents: 0,
+        reason: "balance_unpaid",
+      },
+    });
+    await cancelOpenInstallments(tx, inst.paymentId);
+
+    return true;
+  });
+
+  if (cancelled) await notifyInstallment("customer_booking_cancelled_balance_unpaid", inst);
+  return cancelled;
+}
+
+/**
+ * Stripe Checkout for an open installment (guest pays the balance manually).
+ * The Checkout webhook records it through markInstallmentPaid().
+ * Throws 404 for an unknown installment, 409 when it is no longer open.
+ *
+ * One Checkout per installment at a time: a session that is still open is returned
+ * again, one that completed (webhook not processed yet) is refused with 409.
+ */
+export async function createInstallmentCheckout(installmentId: number) {
+  const inst = await findInstallmentWithBooking(installmentId);
+  if (!inst) {
+    const err: any = new Error(`Installment ${installmentId} not found`);
+    err.status = 404;
+    throw err;
+  }
+  if (!isOpenInstallment(inst)) {
+    const err: any = new Error("This installment can no longer be paid");
+    err.status = 409;
+    throw err;
+  }
+
+  const previous = inst.stripeSessionId
+    ? await stripe.checkout.sessions.retrieve(inst.stripeSessionId)
+    : null;
+  if (previous?.status === "open") return previous;
+  if (previous?.status === "complete") {
+    const err: any = new Error("This installment is already being paid");
+    err.status = 409;
+    throw err;
+  }
+
+  const booking = inst.payment.booking;
+
+  const session = await stripe.checkout.sessions.create({
+    mode: "payment",
+    payment_method_types: ["card"],
+    customer_email: booking.guestEmail,
+    line_items: [
+      {
+        quantity: 1,
+        price_data: {
+          currency: inst.payment.currency,
+          unit_amount: inst.amountCents,
+          product_data: {
+            name: `Balance for booking #${booking.id}`,
+            description: `${booking.property.title} • ${ymd(booking.startDate)} → ${ymd(booking.endDate)}`,
+          },
+        },
+      },
+    ],
+    success_url: `${process.env.APP_URL}/booking/success?bookingId=${booking.id}`,
+    cancel_url: `${process.env.APP_URL}/dashboard`,
+    metadata: {
+      bookingId: String(booking.id),
+      installmentId: String(inst.id),
+    },
+  });
+
+  await prisma.paymentInstallment.update({
+    where: { id: inst.id },
+    data: { stripeSessionId: session.id },
+  });
+
+  return session;
+}
@@ -11,6 +11,84 @@ import { prisma } from "../prismaClient.js";
  */
 const MS_PER_DAY = 1000 * 60 * 60 * 24;
 
+/**
+ * Minimal period shape needed to build coverage segments.
+ * Prisma's BookingPeriod satisfies it; in-memory callers only need these fields.
+ */
+export type PeriodLike = {
+  id: number;
+  startDate: Date;
+  endDate: Date;
+  isOpen: boolean;
+};
+
+/**
+ * Per-weekday nightly prices stored on BookingPeriod.weekdayNightlyPrices.
+ * Index = UTC weekday of the night (0 = Sunday). null entry = standardNightlyPrice.
+ */
+export type WeekdayNightlyPrices = Array<number | null>;
+
+/**
+ * Normalizes an incoming weekday price array before it is written:
+ * - all-null (or missing) arrays are stored as "no overrides" (null)
+ */
+export function normalizeWeekdayNightlyPrices(
+  value: WeekdayNightlyPrices | null | undefined
+): WeekdayNightlyPrices | null {
+  if (!Array.isArray(value) || value.length !== 7) return null;
+  return value.some((v) => typeof v === "number") ? value : null;
+}
+
+/**
+ * Nightly price (EUR) for a single night.
+ *
+ * Resolution order:
+ * 1) period weekday override for the night's UTC weekday
+ * 2) period standardNightlyPrice
+ * 3) fallback (property pricePerNight)
+ */
+export function nightlyPriceForNight(
+  period: { standardNightlyPrice: number; weekdayNightlyPrices?: unknown } | null,
+  night: Date,
+  fallback: number
+) {
+  if (!period) return fallback;
+
+  const overrides = period.weekdayNightlyPrices as WeekdayNightlyPrices | null | undefined;
+  const override = Array.isArray(overrides) ? overrides[night.getUTCDay()] : null;
+
+  return typeof override === "number" ? override : period.standardNightlyPrice ?? fallback;
+}
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+/**
+ * True when the date's UTC weekday is allowed by a period weekday list.
+ * Empty list (or no period) = any day allowed.
+ */
+export function isWeekdayAllowed(allowed: number[] | null | undefined, date: Date) {
+  if (!allowed || allowed.length === 0) return true;
+  return allowed.includes(date.getUTCDay());
+}
+
+/**
+ * "Saturday" / "Friday or Saturday" for error messages.
+ */
+export function formatWeekdays(days: number[]) {
+  const names = [...days].sort((a, b) => a - b).map((d) => WEEKDAY_NAMES[d]);
+  return names.length <= 1
+    ? (names[0] ?? "")
+    : `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`;
+}
+
 /**
  * Returns the number of nights in a booking for a [start, end) range.
  *
@@ -127,8 +205,27 @@ export async function getOpenPeriodSegments(params: {
     orderBy: { startDate: "asc" },
   });
 
+  return buildOpenPeriodSegments({ periods, startDate, endDate });
+}
+
+/**
+ * Pure segment builder behind getOpenPeriodSegments().
+ *
+ * Kept free of Prisma so the pricing engine (and anything else that already has
+ * the periods in memory) can reuse the exact same coverage rules.
+ *
+ * Input:
+ * - periods sorted by startDate asc (as returned by the Prisma query above)
+ */
+export function buildOpenPeriodSegments<P extends PeriodLike>(params: {
+  periods: P[];
+  startDate: Date;
+  endDate: Date;
+}) {
+  const { periods, startDate, endDate } = params;
+
   const segments: Array<{
-    period: any | null;
+    period: P;
     from: Date;
     to: Date;
   }> = [];
@@ -150,13 +247,6 @@ export async function getOpenPeriodSegments(params: {
   const covering = (d: Date) =>
     periods.find((p) => p.startDate <= d && p.endDate > d);
 
-  /**
-   * Returns the next period that starts after date d (based on sorted order).
-   * Used to define how long a fallback segment should last.
-   */
-  const nextStartingAfter = (d: Date) =>
-    periods.find((p) => p.startDate > d);
-
   while (cursor < endDate) {
     const p = covering(cursor);
 
@@ -167,7 +257,7 @@ export async function getOpenPeriodSegments(params: {
         return {
           ok: false as const,
           reason: "CLOSED" as const,
-          segments: [] as any[],
+          segments: [] as typeof segments,
         };
       }
 
@@ -188,7 +278,7 @@ export async function getOpenPeriodSegments(params: {
     return {
       ok: false as const,
       reason: "NO_PERIOD" as const,
-      segments: [] as any[],
+      segments: [] as typeof segments,
     };
   }
 
@@ -229,3 +319,83 @@ export function applyWeeklyDiscount(params: {
   const discounted = Math.round(baseTotal * (1 - weeklyDiscountPercentBps / 10000));
   return { total: discounted, appliedBps: weeklyDiscountPercentBps };
 }
+
+/**
+ * Length-of-stay tier stored on BookingPeriod.stayDiscountTiers.
+ * Exactly one of:
+ * - discountBps:  percent off the whole stay (basis points)
+ * - nightlyPrice: flat EUR rate for every night of the stay (e.g. a monthly rate)
+ */
+export type StayDiscountTier = {
+  minNights: number;
+  discountBps?: number | null;
+  nightlyPrice?: number | null;
+  label?: string | null;
+};
+
+/**
+ * Normalizes incoming tiers before they are written:
+ * - sorted by minNights asc
+ * - empty (or missing) lists are stored as "no tiers" (null)
+ */
+export function normalizeStayDiscountTiers(
+  value: StayDiscountTier[] | null | undefined
+): StayDiscountTier[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+
+  return [...value]
+    .sort((a, b) => a.minNights - b.minNights)
+    .map((t) => ({
+      minNights: t.minNights,
+      discountBps: t.discountBps ?? null,
+      nightlyPrice: t.nightlyPrice ?? null,
+      label: t.label?.trim() || null,
+    }));
+}
+
+/**
+ * Length-of-stay pricing on top of applyWeeklyDiscount().
+ *
+ * - The tier with the highest minNights <= nights wins (tiers never stack)
+ * - A flat nightlyPrice tier never makes the stay more expensive than the base total
+ * - Periods without tiers keep the legacy single weekly discount
+ *
+ * Returns the tier that was applied (null = no discount) so the breakdown can show it.
+ */
+export function applyStayDiscountTiers(params: {
+  baseTotal: number;
+  nights: number;
+  tiers: unknown;
+  weeklyThresholdNights: number;
+  weeklyDiscountPercentBps?: number | null;
+}) {
+  const { baseTotal, nights } = params;
+  const tiers = Array.isArray(params.tiers) ? (params.tiers as StayDiscountTier[]) : [];
+
+  if (tiers.length === 0) {
+    const weekly = applyWeeklyDiscount(params);
+    return {
+      total: weekly.total,
+      appliedBps: weekly.appliedBps,
+      tier: null as StayDiscountTier | null,
+    };
+  }
+
+  const tier =
+    [...tiers]
+      .filter((t) => nights >= t.minNights)
+      .sort((a, b) => b.minNights - a.minNights)[0] ?? null;
+
+  if (!tier) return { total: baseTotal, appliedBps: null as number | null, tier: null };
+
+  if (typeof tier.nightlyPrice === "number") {
+    const total = Math.min(baseTotal, tier.nightlyPrice * nights);
+    const appliedBps = baseTotal > 0 ? Math.round(((baseTotal - total) / baseTotal) * 10000) : 0;
+    return { total, appliedBps: appliedBps || null, tier };
+  }
+
+  const bps = tier.discountBps ?? 0;
+  if (!bps) return { total: baseTotal, appliedBps: null as number | null, tier: null };
+
+  return { total: Math.round(baseTotal * (1 - bps / 10000)), appliedBps: bps, tier };
+}
@@ -0,0 +1,930 @@
+import type Stripe from "stripe";
+import type { BookingPeriod, Property, RatePlan } from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+import { isDateRangeTaken } from "./availability.service.js";
+import { buildTaxLines, findTaxRulesForProperty, type TaxRuleLike } from "./tax.service.js";
+import {
+  applyBookingWindowDiscount,
+  findBookingWindowDiscounts,
+  type AppliedBookingWindowDiscount,
+  type BookingWindowDiscountLike,
+} from "./bookingWindow.service.js";
+import {
+  promoDiscountCents,
+  resolvePromoCode,
+  type AppliedPromoCode,
+  type PromoCodeLike,
+} from "./promo.service.js";
+import { isGapStay } from "./gapNights.service.js";
+import type { PaymentScheduleLine } from "./paymentSchedule.service.js";
+import {
+  applyStayDiscountTiers,
+  buildOpenPeriodSegments,
+  formatWeekdays,
+  isWeekdayAllowed,
+  nightlyPriceForNight,
+  nightsBetween,
+  type StayDiscountTier,
+} from "./periods.service.js";
+
+/**
+ * Stay pricing engine.
+ *
+ * Single source of truth for:
+ * - POST /api/bookings/quote   (review-before-pay screen)
+ * - POST /api/bookings         (customer + admin booking creation)
+ * - Stripe Checkout line items
+ * - Booking.priceBreakdown     (what the admin UI renders)
+ *
+ * Pipeline (order matters, it defines which error the guest sees first):
+ * 1) property max guests (babies excluded)
+ * 2) availability (direct bookings, iCal blocks, manual blocks)
+ * 3) nights >= 1
+ * 4) open period coverage (closed or uncovered nights reject the stay)
+ * 5) arrival period min nights (Booking.com style, waived for a stay exactly filling an
+ *    orphan gap when Property.gapFillEnabled) + allowed check-in/check-out weekdays
+ * 6) strictest maxGuests across every covered period
+ * 7) nightly segments (split on weekday rate changes) -> length-of-stay tier (or legacy
+ *    weekly discount) of the arrival period -> early-bird / last-minute rule -> gap discount
+ *    -> non-refundable rate discount -> promo code -> itemised totals
+ * 8) occupancy surcharges per extra adult / child above the base occupancy, never discounted
+ * 9) per-stay fees (cleaning, linen, pets, extra beds), never discounted
+ * 10) accommodation taxes (see tax.service.ts), never discounted
+ *
+ * Promo codes (promo.service.ts) are checked before step 3 but their error is only
+ * returned once the stay itself is valid, so date problems are reported first.
+ *
+ * Versioning:
+ * - Every breakdown carries pricingVersion. Bump PRICING_VERSION whenever the
+ *   breakdown shape or the maths change, so stored Booking.priceBreakdown rows
+ *   can be told apart from newer ones.
+ *
+ * Money:
+ * - Nightly prices on periods/properties are whole EUR (legacy), line items are cents.
+ * - Fees are configured in cents; totalEur is the cents total rounded to whole EUR
+ *   because Booking.totalPrice is still an EUR int.
+ *
+ * History:
+ * - v1: nights + weekly discount
+ * - v2: per-stay fee lines
+ * - v3: accommodation tax lines
+ * - v4: per-weekday nightly rates (segments split where the rate changes)
+ * - v5: length-of-stay tiers ("stay_discount" line + stayDiscountTier)
+ * - v6: early-bird / last-minute discounts ("booking_window_discount" line + bookingWindowDiscount)
+ * - v7: promo codes ("promo_discount" line + promoCode)
+ * - v8: occupancy surcharges ("extra_guests" lines)
+ * - v9: orphan gap stays ("gap_discount" line + gapFill)
+ * - v10: rate plans ("non_refundable_discount" line + ratePlan)
+ */
+export const PRICING_VERSION = 10;
+
+export type StayFeeCode = "cleaning_fee" | "linen_fee" | "pet_fee" | "extra_bed_fee";
+
+export type PriceLineItemCode =
+  | "nights"
+  | "weekly_discount"
+  | "stay_discount"
+  | "booking_window_discount"
+  | "gap_discount"
+  | "non_refundable_discount"
+  | "promo_discount"
+  | "extra_guests"
+  | StayFeeCode
+  | "tax";
+
+/**
+ * Accommodation lines (nights + discounts + occupancy surcharges); everything else is a fee or tax.
+ */
+const ACCOMMODATION_CODES: PriceLineItemCode[] = [
+  "nights",
+  "weekly_discount",
+  "stay_discount",
+  "booking_window_discount",
+  "gap_discount",
+  "non_refundable_discount",
+  "promo_discount",
+  "extra_guests",
+];
+
+/**
+ * One itemised line of the breakdown.
+ * amountCents is signed: discounts are negative.
+ */
+export type PriceLineItem = {
+  code: PriceLineItemCode;
+  label: string;
+  quantity: number;
+  unitAmountCents: number;
+  amountCents: number;
+
+  // Only for "nights" lines
+  periodId?: number | null;
+  from?: string;
+  to?: string;
+
+  // Only for "tax" lines
+  taxRuleId?: number;
+};
+
+export type PriceSegment = {
+  periodId: number | null;
+  from: string;
+  to: string;
+  nights: number;
+  nightlyPrice: number;
+  segmentTotal: number;
+};
+
+/**
+ * Stay price (no payment split yet).
+ */
+export type StayPrice = {
+  pricingVersion: number;
+  currency: "eur";
+
+  nights: number;
+  segments: PriceSegment[];
+  baseTotalEur: number;
+  weeklyDiscountAppliedBps: number | null;
+  // Length-of-stay tier of the arrival period that was applied (null = none / legacy weekly)
+  stayDiscountTier: StayDiscountTier | null;
+  // Early-bird / last-minute rule applied (null = none)
+  bookingWindowDiscount: AppliedBookingWindowDiscount | null;
+  // Orphan gap filled with min nights waived (null = regular stay)
+  gapFill: AppliedGapFill | null;
+  // Rate plan the stay was priced with (non_refundable = discounted, no refund on cancel)
+  ratePlan: AppliedRatePlan;
+  // Promo code applied (null = none)
+  promoCode: AppliedPromoCode | null;
+  totalEur: number;
+
+  lineItems: PriceLineItem[];
+  totalCents: number;
+};
+
+/**
+ * Orphan gap stay: min nights waived because the stay exactly fills the gap.
+ */
+export type AppliedGapFill = {
+  // Min nights of the arrival period that did not apply
+  waivedMinNights: number;
+  discountBps: number | null;
+  discountCents: number;
+};
+
+/**
+ * Rate plan of the stay; discountBps / discountCents are 0 for the standard rate.
+ */
+export type AppliedRatePlan = {
+  plan: RatePlan;
+  discountBps: number;
+  discountCents: number;
+};
+
+/**
+ * Shape stored on Booking.priceBreakdown and returned as priceSummary.
+ */
+export type PriceBreakdown = StayPrice & {
+  grossTotalCents: number;
+  creditsAppliedCents: number;
+  cashDueNowCents: number;
+  creditRefundable: false;
+  refundPolicyAppliesTo: "cash_paid_to_stripe_only";
+  // Cash installments (deposit + balance); cashDueNowCents is the first one
+  paymentSchedule: PaymentScheduleLine[];
+};
+
+export type StayRequest = {
+  propertyId: number;
+  startDate: Date;
+  endDate: Date;
+  adults: number;
+  children: number;
+  babies: number;
+  pets: number;
+  extraBeds: number;
+  promoCode?: string | null;
+  // Missing = standard
+  ratePlan?: RatePlan;
+  // Needed for promo per-user limits
+  userId?: number | null;
+  // Admin bookings / quotes: the promo per-user limit does not apply
+  ignorePromoUserLimit?: boolean;
+};
+
+type StayFeeFields = "cleaningFeeCents" | "linenFeeCents" | "petFeeCents" | "extraBedFeeCents";
+
+type OccupancyFields = "baseOccupancy" | "extraAdultNightlyCents" | "extraChildNightlyCents";
+
+type GapFillFields = "gapFillEnabled" | "gapDiscountBps";
+
+type PricingProperty = Pick<
+  Property,
+  | "pricePerNight"
+  | "maxGuests"
+  | "minNights"
+  | "nonRefundableDiscountBps"
+  | StayFeeFields
+  | OccupancyFields
+  | GapFillFields
+>;
+
+type PricingPeriod = Pick<
+  BookingPeriod,
+  | "id"
+  | "startDate"
+  | "endDate"
+  | "isOpen"
+  | "standardNightlyPrice"
+  | "weekdayNightlyPrices"
+  | "weeklyDiscountPercentBps"
+  | "weeklyThresholdNights"
+  | "stayDiscountTiers"
+  | "minNights"
+  | "allowedArrivalWeekdays"
+  | "allowedDepartureWeekdays"
+  | "maxGuests"
+  | StayFeeFields
+  | OccupancyFields
+>;
+
+export type PricingFailure = { ok: false; status: 400 | 404 | 409; message: string };
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const ymd = (d: Date) => d.toISOString().slice(0, 10);
+
+/**
+ * Per-stay fee definitions.
+ * perUnit fees are multiplied by the matching stay extra (pets / extra beds).
+ */
+const STAY_FEES: Array<{
+  code: StayFeeCode;
+  field: StayFeeFields;
+  label: string;
+  unit: "stay" | "pet" | "extraBed";
+}> = [
+  { code: "cleaning_fee", field: "cleaningFeeCents", label: "Cleaning fee", unit: "stay" },
+  { code: "linen_fee", field: "linenFeeCents", label: "Linen fee", unit: "stay" },
+  { code: "pet_fee", field: "petFeeCents", label: "Pet fee", unit: "pet" },
+  { code: "extra_bed_fee", field: "extraBedFeeCents", label: "Extra bed", unit: "extraBed" },
+];
+
+/**
+ * Resolves per-stay fee lines.
+ * The arrival period's fee wins when set (same rule as min nights), otherwise the property fee.
+ * Zero-amount lines are dropped.
+ */
+export function buildStayFeeLines(params: {
+  property: Pick<Property, StayFeeFields>;
+  arrivalPeriod: Pick<BookingPeriod, StayFeeFields> | null;
+  pets: number;
+  extraBeds: number;
+}): PriceLineItem[] {
+  const { property, arrivalPeriod, pets, extraBeds } = params;
+  const lines: PriceLineItem[] = [];
+
+  for (const fee of STAY_FEES) {
+    const unitAmountCents = arrivalPeriod?.[fee.field] ?? property[fee.field] ?? 0;
+    const quantity = fee.unit === "pet" ? pets : fee.unit === "extraBed" ? extraBeds : 1;
+    if (unitAmountCents <= 0 || quantity <= 0) continue;
+
+    lines.push({
+      code: fee.code,
+      label: quantity > 1 ? `${fee.label} × ${quantity}` : fee.label,
+      quantity,
+      unitAmountCents,
+      amountCents: unitAmountCents * quantity,
+    });
+  }
+
+  return lines;
+}
+
+/**
+ * Resolves the occupancy surcharge lines ("extra_guests").
+ *
+ * Per night, the covering period's values win when set, otherwise the property ones;
+ * no base occupancy means no surcharge. Adults fill the base occupancy first, then
+ * children; babies are free (same rule as maxGuests).
+ * Nights with the same extra guest count and rate are grouped into one line.
+ */
+export function buildOccupancyLines(params: {
+  property: Pick<Property, OccupancyFields>;
+  segments: Array<{ period: Pick<BookingPeriod, OccupancyFields> | null; from: Date; to: Date }>;
+  adults: number;
+  children: number;
+}): PriceLineItem[] {
+  const { property, segments, adults, children } = params;
+
+  const groups = new Map<
+    string,
+    { kind: "adult" | "child"; guests: number; unitAmountCents: number; nights: number }
+  >();
+
+  const addNights = (
+    kind: "adult" | "child",
+    guests: number,
+    unitAmountCents: number,
+    nights: number
+  ) => {
+    if (guests <= 0 || unitAmountCents <= 0 || nights <= 0) return;
+
+    const key = `${kind}:${guests}:${unitAmountCents}`;
+    const entry = groups.get(key) ?? { kind, guests, unitAmountCents, nights: 0 };
+    entry.nights += nights;
+    groups.set(key, entry);
+  };
+
+  for (const seg of segments) {
+    const base = seg.period?.baseOccupancy ?? property.baseOccupancy;
+    if (base == null) continue;
+
+    const extraAdults = Math.max(0, adults - base);
+    const extraChildren = Math.max(0, children - Math.max(0, base - adults));
+    const segNights = nightsBetween(seg.from, seg.to);
+
+    addNights(
+      "adult",
+      extraAdults,
+      seg.period?.extraAdultNightlyCents ?? property.extraAdultNightlyCents ?? 0,
+      segNights
+    );
+    addNights(
+      "child",
+      extraChildren,
+      seg.period?.extraChildNightlyCents ?? property.extraChildNightlyCents ?? 0,
+      segNights
+    );
+  }
+
+  return Array.from(groups.values()).map((g) => {
+    const who = `${g.guests} extra ${g.kind === "adult" ? "adult" : "child"}${
+      g.guests === 1 ? "" : g.kind === "adult" ? "s" : "ren"
+    }`;
+    const unit = (g.unitAmountCents / 100).toFixed(2).replace(/\.00$/, "");
+
+    return {
+      code: "extra_guests" as const,
+      label: `${who} × ${g.nights} night${g.nights === 1 ? "" : "s"} (€${unit}/night each)`,
+      quantity: g.guests * g.nights,
+      unitAmountCents: g.unitAmountCents,
+      amountCents: g.unitAmountCents * g.guests * g.nights,
+    };
+  });
+}
+
+/**
+ * "Long stay 14+ nights (15% off)" / "28+ nights rate (€120/night)".
+ */
+function stayDiscountLabel(tier: StayDiscountTier) {
+  const detail =
+    typeof tier.nightlyPrice === "number"
+      ? `€${tier.nightlyPrice}/night`
+      : `${((tier.discountBps ?? 0) / 100).toFixed(2).replace(/\.?0+$/, "")}% off`;
+
+  return `${tier.label ?? "Length-of-stay discount"} ${tier.minNights}+ nights (${detail})`;
+}
+
+/**
+ * Pure evaluation of steps 3..10 for an already-loaded property + periods.
+ *
+ * No Prisma access: callers pass the periods intersecting [startDate, endDate)
+ * sorted by startDate asc (same contract as getOpenPeriodSegments).
+ * `now` is the booking time used for early-bird / last-minute rules.
+ * `gapStay` = the nights right before and after the stay are taken (see isGapStay).
+ * `ratePlan` non_refundable needs Property.nonRefundableDiscountBps (400 otherwise).
+ */
+export function evaluateStay<P extends PricingPeriod>(params: {
+  property: PricingProperty;
+  periods: P[];
+  startDate: Date;
+  endDate: Date;
+  countedGuests: number;
+  // Occupancy surcharges (babies are never charged)
+  adults: number;
+  children: number;
+  pets: number;
+  extraBeds: number;
+  taxRules: TaxRuleLike[];
+  bookingWindowDiscounts: BookingWindowDiscountLike[];
+  now: Date;
+  promo?: PromoCodeLike | null;
+  gapStay?: boolean;
+  ratePlan?: RatePlan;
+}): PricingFailure | { ok: true; arrivalPeriod: P | null; price: StayPrice } {
+  const { property, periods, startDate, endDate, countedGuests, pets, extraBeds, taxRules } =
+    params;
+
+  const propertyDefaultMinNights = property.minNights ?? 1;
+  const propertyDefaultMaxGuests = property.maxGuests;
+  const propertyDefaultNightlyPrice = property.pricePerNight;
+
+  // Nights count (must be >= 1)
+  const nights = nightsBetween(startDate, endDate);
+  if (nights <= 0) return { ok: false, status: 400, message: "Stay must be at least 1 night" };
+
+  // Open coverage: fails if any night is CLOSED or not covered by a period
+  const coverage = buildOpenPeriodSegments({ periods, startDate, endDate });
+  if (!coverage.ok) {
+    return {
+      ok: false,
+      status: 409,
+      message:
+        coverage.reason === "CLOSED"
+          ? "These dates are not available (closed period)"
+          : "These dates are not available",
+    };
+  }
+
+  // Arrival period defines min nights + length-of-stay discount rules (Booking.com style)
+  const arrivalPeriod = coverage.segments[0]?.period ?? null;
+
+  const arrivalMinNights = arrivalPeriod?.minNights ?? propertyDefaultMinNights;
+
+  // Orphan gap: a stay exactly filling it may be shorter than min nights
+  const gapFill = Boolean(params.gapStay && property.gapFillEnabled && nights < arrivalMinNights);
+
+  if (nights < arrivalMinNights && !gapFill) {
+    return {
+      ok: false,
+      status: 400,
+      message: `Minimum stay for these dates is ${arrivalMinNights} nights`,
+    };
+  }
+
+  // Check-in weekday (arrival period) and check-out weekday (period of the last night)
+  const arrivalDays = arrivalPeriod?.allowedArrivalWeekdays ?? [];
+  if (!isWeekdayAllowed(arrivalDays, startDate)) {
+    return {
+      ok: false,
+      status: 400,
+      message: `Check-in for these dates is only possible on ${formatWeekdays(arrivalDays)}`,
+    };
+  }
+
+  const lastNightPeriod = coverage.segments[coverage.segments.length - 1]?.period ?? null;
+  const departureDays = lastNightPeriod?.allowedDepartureWeekdays ?? [];
+  if (!isWeekdayAllowed(departureDays, endDate)) {
+    return {
+      ok: false,
+      status: 400,
+      message: `Check-out for these dates is only possible on ${formatWeekdays(departureDays)}`,
+    };
+  }
+
+  // Strictest maxGuests across stay (babies excluded)
+  const strictestMaxGuests = Math.min(
+    propertyDefaultMaxGuests,
+    ...coverage.segments.map((s) => s.period?.maxGuests ?? propertyDefaultMaxGuests)
+  );
+  if (countedGuests > strictestMaxGuests) {
+    return {
+      ok: false,
+      status: 400,
+      message: `Max guests for selected dates is ${strictestMaxGuests}`,
+    };
+  }
+
+  // Base total (EUR) + segment breakdown.
+  // Period segments are split further wherever the nightly rate changes
+  // (weekday overrides), so each rate gets its own line.
+  let baseTotal = 0;
+  const segments: PriceSegment[] = [];
+
+  const pushSegment = (periodId: number | null, from: Date, to: Date, nightly: number) => {
+    const segNights = nightsBetween(from, to);
+    const segTotal = segNights * nightly;
+    baseTotal += segTotal;
+
+    segments.push({
+      periodId,
+      from: ymd(from),
+      to: ymd(to),
+      nights: segNights,
+      nightlyPrice: nightly,
+      segmentTotal: segTotal,
+    });
+  };
+
+  for (const seg of coverage.segments) {
+    const periodId = seg.period?.id ?? null;
+    let runFrom = seg.from;
+    let runRate = nightlyPriceForNight(seg.period, seg.from, propertyDefaultNightlyPrice);
+
+    for (let t = seg.from.getTime() + MS_PER_DAY; t < seg.to.getTime(); t += MS_PER_DAY) {
+      const night = new Date(t);
+      const rate = nightlyPriceForNight(seg.period, night, propertyDefaultNightlyPrice);
+      if (rate === runRate) continue;
+
+      pushSegment(periodId, runFrom, night, runRate);
+      runFrom = night;
+      runRate = rate;
+    }
+
+    pushSegment(periodId, runFrom, seg.to, runRate);
+  }
+
+  const weekly = applyStayDiscountTiers({
+    baseTotal,
+    nights,
+    tiers: arrivalPeriod?.stayDiscountTiers,
+    weeklyThresholdNights: arrivalPeriod?.weeklyThresholdNights ?? 7,
+    weeklyDiscountPercentBps: arrivalPeriod?.weeklyDiscountPercentBps ?? null,
+  });
+
+  const bookingWindow = applyBookingWindowDiscount({
+    rules: params.bookingWindowDiscounts,
+    startDate,
+    now: params.now,
+    baseTotal,
+    stayDiscountedTotal: weekly.total,
+  });
+
+  // best_of may drop the length-of-stay discount in favour of the booking-window one
+  const keepStayDiscount = bookingWindow.keepStayDiscount;
+
+  const lineItems: PriceLineItem[] = segments.map((s) => ({
+    code: "nights",
+    label: `${s.nights} night${s.nights === 1 ? "" : "s"} × €${s.nightlyPrice}`,
+    quantity: s.nights,
+    unitAmountCents: s.nightlyPrice * 100,
+    amountCents: s.segmentTotal * 100,
+    periodId: s.periodId,
+    from: s.from,
+    to: s.to,
+  }));
+
+  if (!keepStayDiscount) {
+    // best_of: the booking-window line below replaces the length-of-stay discount
+  } else if (weekly.tier && weekly.total !== baseTotal) {
+    lineItems.push({
+      code: "stay_discount",
+      label: stayDiscountLabel(weekly.tier),
+      quantity: 1,
+      unitAmountCents: (weekly.total - baseTotal) * 100,
+      amountCents: (weekly.total - baseTotal) * 100,
+    });
+  } else if (!weekly.tier && weekly.appliedBps) {
+    lineItems.push({
+      code: "weekly_discount",
+      label: `Weekly discount (${(weekly.appliedBps / 100).toFixed(0)}%)`,
+      quantity: 1,
+      unitAmountCents: (weekly.total - baseTotal) * 100,
+      amountCents: (weekly.total - baseTotal) * 100,
+    });
+  }
+
+  if (bookingWindow.applied) {
+    const kindLabel = bookingWindow.applied.kind === "early_bird" ? "early booking" : "last minute";
+    lineItems.push({
+      code: "booking_window_discount",
+      label: `${bookingWindow.applied.name} (${kindLabel}, ${(bookingWindow.applied.discountBps / 100).toFixed(0)}%)`,
+      quantity: 1,
+      unitAmountCents: bookingWindow.discountEur * 100,
+      amountCents: bookingWindow.discountEur * 100,
+    });
+  }
+
+  let accommodationCents = bookingWindow.total * 100;
+
+  // Gap discount: off the accommodation total after the stay / booking-window discounts
+  let appliedGapFill: AppliedGapFill | null = null;
+
+  if (gapFill) {
+    const discountBps = property.gapDiscountBps ?? null;
+    const discountCents = discountBps
+      ? Math.min(accommodationCents, Math.round((accommodationCents * discountBps) / 10_000))
+      : 0;
+
+    appliedGapFill = { waivedMinNights: arrivalMinNights, discountBps, discountCents };
+
+    if (discountBps != null && discountCents > 0) {
+      accommodationCents -= discountCents;
+      lineItems.push({
+        code: "gap_discount",
+        label: `Gap night discount (${(discountBps / 100).toFixed(0)}%)`,
+        quantity: 1,
+        unitAmountCents: -discountCents,
+        amountCents: -discountCents,
+      });
+    }
+  }
+
+  // Non-refundable rate: off the accommodation total after the stay-based discounts
+  const ratePlan: AppliedRatePlan = { plan: "standard", discountBps: 0, discountCents: 0 };
+
+  if (params.ratePlan === "non_refundable") {
+    const discountBps = property.nonRefundableDiscountBps ?? 0;
+    if (discountBps <= 0) {
+      return {
+        ok: false,
+        status: 400,
+        message: "The non-refundable rate is not available for this property",
+      };
+    }
+
+    const discountCents = Math.min(
+      accommodationCents,
+      Math.round((accommodationCents * discountBps) / 10_000)
+    );
+
+    ratePlan.plan = "non_refundable";
+    ratePlan.discountBps = discountBps;
+    ratePlan.discountCents = discountCents;
+
+    if (discountCents > 0) {
+      accommodationCents -= discountCents;
+      lineItems.push({
+        code: "non_refundable_discount",
+        label: `Non-refundable rate (${(discountBps / 100).toFixed(2).replace(/\.?0+$/, "")}% off)`,
+        quantity: 1,
+        unitAmountCents: -discountCents,
+        amountCents: -discountCents,
+      });
+    }
+  }
+
+  // Promo code: off the accommodation total after every other discount
+  let promoCode: AppliedPromoCode | null = null;
+
+  if (params.promo) {
+    const discountCents = promoDiscountCents(params.promo, accommodationCents);
+
+    if (discountCents > 0) {
+      accommodationCents -= discountCents;
+      promoCode = {
+        promoCodeId: params.promo.id,
+        code: params.promo.code,
+        kind: params.promo.kind as AppliedPromoCode["kind"],
+        percentBps: params.promo.percentBps,
+        amountCents: params.promo.amountCents,
+        discountCents,
+      };
+
+      lineItems.push({
+        code: "promo_discount",
+        label: `Promo code ${params.promo.code}`,
+        quantity: 1,
+        unitAmountCents: -discountCents,
+        amountCents: -discountCents,
+      });
+    }
+  }
+
+  // Occupancy surcharges: after every discount, but part of the taxable accommodation
+  const occupancyLines = buildOccupancyLines({
+    property,
+    segments: coverage.segments,
+    adults: params.adults,
+    children: params.children,
+  });
+  lineItems.push(...occupancyLines);
+  accommodationCents += occupancyLines.reduce((sum, li) => sum + li.amountCents, 0);
+
+  lineItems.push(...buildStayFeeLines({ property, arrivalPeriod, pets, extraBeds }));
+
+  lineItems.push(
+    ...buildTaxLines({
+      rules: taxRules,
+      startDate,
+      endDate,
+      accommodationCents,
+    })
+  );
+
+  const totalCents = lineItems.reduce((sum, li) => sum + li.amountCents, 0);
+
+  return {
+    ok: true,
+    arrivalPeriod,
+    price: {
+      pricingVersion: PRICING_VERSION,
+      currency: "eur",
+      nights,
+      segments,
+      baseTotalEur: baseTotal,
+      weeklyDiscountAppliedBps: keepStayDiscount ? (weekly.appliedBps ?? null) : null,
+      stayDiscountTier:
+        keepStayDiscount && weekly.tier && weekly.total !== baseTotal ? weekly.tier : null,
+      bookingWindowDiscount: bookingWindow.applied,
+      gapFill: appliedGapFill,
+      ratePlan,
+      promoCode,
+      totalEur: Math.round(totalCents / 100),
+      lineItems,
+      totalCents,
+    },
+  };
+}
+
+/**
+ * Loads everything needed and runs the full pipeline (steps 1..10).
+ *
+ * Returns ok=false with the HTTP status + message the routes should send,
+ * mirroring the ok/reason style of getOpenPeriodSegments().
+ */
+export async function quoteStay(
+  req: StayRequest
+): Promise<
+  | PricingFailure
+  | { ok: true; property: Property; arrivalPeriod: BookingPeriod | null; price: StayPrice }
+> {
+  const { propertyId, startDate, endDate } = req;
+
+  // Babies (<2) are NOT counted in maxGuests checks.
+  const countedGuests = Number(req.adults) + Number(req.children);
+
+  const property = await prisma.property.findUnique({
+    where: { id: propertyId },
+    include: { features: { select: { key: true } } },
+  });
+  if (!property) return { ok: false, status: 404, message: "Property not found" };
+
+  const pets = Number(req.pets ?? 0);
+  const extraBeds = Number(req.extraBeds ?? 0);
+
+  if (pets > 0 && !property.features.some((f) => f.key === "PETS_ALLOWED")) {
+    return { ok: false, status: 400, message: "Pets are not allowed at this property" };
+  }
+
+  if (countedGuests > property.maxGuests) {
+    return {
+      ok: false,
+      status: 400,
+      message: `Max guests for this property is ${property.maxGuests}`,
+    };
+  }
+
+  const isTaken = await isDateRangeTaken(propertyId, startDate, endDate);
+  if (isTaken) {
+    return { ok: false, status: 409, message: "These dates are not available for this property" };
+  }
+
+  const periods = await prisma.bookingPeriod.findMany({
+    where: {
+      propertyId,
+      endDate: { gt: startDate },
+      startDate: { lt: endDate },
+    },
+    orderBy: { startDate: "asc" },
+  });
+
+  const taxRules = await findTaxRulesForProperty(property);
+  const bookingWindowDiscounts = await findBookingWindowDiscounts(propertyId);
+
+  const now = new Date();
+
+  // Only looked up when the property sells orphan gaps (two extra availability queries)
+  const gapStay = property.gapFillEnabled
+    ? await isGapStay(propertyId, startDate, endDate)
+    : false;
+
+  const promo = req.promoCode
+    ? await resolvePromoCode({
+        code: req.promoCode,
+        propertyId,
+        startDate,
+        endDate,
+        userId: req.userId ?? null,
+        now,
+        ignoreUserLimit: req.ignorePromoUserLimit,
+      })
+    : null;
+
+  const result = evaluateStay({
+    property,
+    periods,
+    startDate,
+    endDate,
+    countedGuests,
+    adults: Number(req.adults),
+    children: Number(req.children),
+    pets,
+    extraBeds,
+    taxRules,
+    bookingWindowDiscounts,
+    now,
+    promo: promo?.ok ? promo.promo : null,
+    gapStay,
+    ratePlan: req.ratePlan,
+  });
+  if (!result.ok) return result;
+  if (promo && !promo.ok) return promo;
+
+  return { ok: true, property, arrivalPeriod: result.arrivalPeriod, price: result.price };
+}
+
+/**
+ * Adds the payment split to a stay price.
+ * This is the exact JSON stored on Booking.priceBreakdown.
+ *
+ * Credit policy:
+ * - creditsAppliedCents reduce cash due now
+ * - credits are non-refundable; refunds are based on cash paid to Stripe only
+ */
+export function withPaymentSplit(price: StayPrice, creditsAppliedCents: number): PriceBreakdown {
+  const grossTotalCents = price.totalCents;
+  const credits = Math.max(0, Math.min(creditsAppliedCents, grossTotalCents));
+
+  return {
+    ...price,
+    grossTotalCents,
+    creditsAppliedCents: credits,
+    cashDueNowCents: grossTotalCents - credits,
+    creditRefundable: false,
+    refundPolicyAppliesTo: "cash_paid_to_stripe_only",
+    paymentSchedule: [],
+  };
+}
+
+/**
+ * Applies a payment schedule (services/paymentSchedule.service.ts):
+ * only the first installment is due now, the rest is collected later.
+ */
+export function withPaymentSchedule(
+  breakdown: PriceBreakdown,
+  schedule: PaymentScheduleLine[]
+): PriceBreakdown {
+  if (schedule.length === 0) return breakdown;
+
+  return { ...breakdown, cashDueNowCents: schedule[0].amountCents, paymentSchedule: schedule };
+}
+
+/**
+ * Stripe Checkout line items for the cash due now.
+ *
+ * Stripe does not accept negative line items, so discounts are folded into
+ * the accommodation line and each stay fee gets its own line. Credits are
+ * taken off the accommodation line first, then off the fee lines in order,
+ * so the Stripe total always equals cashDueNowCents.
+ *
+ * Deposit schedules charge a single "Deposit" line (the balance is charged later).
+ * The non-refundable rate is named in the description so the Stripe receipt shows it.
+ */
+export function buildCheckoutLineItems(params: {
+  breakdown: PriceBreakdown;
+  bookingId: number;
+  propertyTitle: string;
+  startDate: Date;
+  endDate: Date;
+}): Stripe.Checkout.SessionCreateParams.LineItem[] {
+  const { breakdown, bookingId, propertyTitle, startDate, endDate } = params;
+
+  const ratePlanText =
+    breakdown.ratePlan.plan === "non_refundable" ? " • Non-refundable rate" : "";
+  const description = `${propertyTitle} • ${ymd(startDate)} → ${ymd(endDate)}${ratePlanText}`;
+
+  const balance = breakdown.paymentSchedule.find((line) => line.kind === "balance");
+  if (balance) {
+    return [
+      {
+        quantity: 1,
+        price_data: {
+          currency: breakdown.currency,
+          unit_amount: breakdown.cashDueNowCents,
+          product_data: {
+            name: `Deposit for booking #${bookingId}`,
+            description: `${description} • balance €${(balance.amountCents / 100).toFixed(2)} due ${balance.dueDate}`,
+          },
+        },
+      },
+    ];
+  }
+
+  const accommodationCents = breakdown.lineItems
+    .filter((li) => ACCOMMODATION_CODES.includes(li.code))
+    .reduce((sum, li) => sum + li.amountCents, 0);
+
+  const lines: Array<{ name: string; description?: string; amountCents: number }> = [
+    {
+      name: `Booking #${bookingId}`,
+      description: `${description} • ${breakdown.nights} night${breakdown.nights === 1 ? "" : "s"}`,
+      amountCents: accommodationCents,
+    },
+    ...breakdown.lineItems
+      .filter((li) => !ACCOMMODATION_CODES.includes(li.code))
+      .map((li) => ({ name: li.label, amountCents: li.amountCents })),
+  ];
+
+  let creditsLeft = breakdown.creditsAppliedCents;
+
+  return lines
+    .map((line) => {
+      const covered = Math.min(creditsLeft, line.amountCents);
+      creditsLeft -= covered;
+      return { ...line, amountCents: line.amountCents - covered };
+    })
+    .filter((line) => line.amountCents > 0)
+    .map((line) => ({
+      quantity: 1,
+      price_data: {
+        currency: breakdown.currency,
+        unit_amount: line.amountCents,
+        product_data: {
+          name: line.name,
+          ...(line.description ? { description: line.description } : {}),
+        },
+      },
+    }));
+}
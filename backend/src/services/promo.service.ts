@@ -0,0 +1,195 @@
+import type { Prisma, PromoCode } from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+import { nightsBetween } from "./periods.service.js";
+
+/**
+ * Promo codes for direct bookings.
+ *
+ * Kinds:
+ * - percent: percentBps off the accommodation total (nights after stay / booking-window discounts)
+ * - fixed:   amountCents off the accommodation total, capped at it
+ *
+ * Stay fees and taxes are never discounted by a promo code.
+ *
+ * Limits:
+ * - maxRedemptions counts PromoRedemption rows whose booking is not cancelled
+ * - perUserLimit needs a logged-in user (same rule as booking creation); admin bookings
+ *   skip it and their redemption is not attributed to anyone
+ * - both are re-counted inside the booking transaction (reservePromoRedemption)
+ */
+
+export type PromoCodeKind = "percent" | "fixed";
+
+export type PromoCodeLike = Pick<PromoCode, "id" | "code" | "kind" | "percentBps" | "amountCents">;
+
+/**
+ * Snapshot stored on Booking.priceBreakdown.promoCode.
+ */
+export type AppliedPromoCode = {
+  promoCodeId: number;
+  code: string;
+  kind: PromoCodeKind;
+  percentBps: number | null;
+  amountCents: number | null;
+  discountCents: number;
+};
+
+export type PromoFailure = { ok: false; status: 400 | 404; message: string };
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Namespace of the per-code advisory locks (pg_advisory_xact_lock(namespace, promoCodeId)),
+ * distinct from the property calendar locks (availability.service.ts).
+ */
+const PROMO_LOCK_NAMESPACE = 1002;
+
+/**
+ * Codes are case-insensitive; stored uppercase without surrounding spaces.
+ */
+export function normalizePromoCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Counts redemptions that still hold a slot (booking not cancelled).
+ */
+export function countActiveRedemptions(
+  promoCodeId: number,
+  userId?: number,
+  db: Prisma.TransactionClient | typeof prisma = prisma
+) {
+  return db.promoRedemption.count({
+    where: {
+      promoCodeId,
+      ...(userId !== undefined ? { userId } : {}),
+      booking: { status: { not: "cancelled" } },
+    },
+  });
+}
+
+/**
+ * Loads a code and checks every rule that does not depend on the price.
+ * Returns ok/status/message like the pricing engine so routes can send it as-is.
+ */
+export async function resolvePromoCode(params: {
+  code: string;
+  propertyId: number;
+  startDate: Date;
+  endDate: Date;
+  userId: number | null;
+  now: Date;
+  ignoreUserLimit?: boolean;
+}): Promise<PromoFailure | { ok: true; promo: PromoCode }> {
+  const { propertyId, startDate, endDate, userId, now } = params;
+
+  const promo = await prisma.promoCode.findUnique({
+    where: { code: normalizePromoCode(params.code) },
+  });
+  if (!promo || !promo.isActive) {
+    return { ok: false, status: 404, message: "This promo code is not valid" };
+  }
+
+  if (promo.propertyId && promo.propertyId !== propertyId) {
+    return { ok: false, status: 400, message: "This promo code is not valid for this property" };
+  }
+
+  if (
+    (promo.stayFrom && startDate < promo.stayFrom) ||
+    (promo.stayTo && endDate.getTime() - MS_PER_DAY >= promo.stayTo.getTime())
+  ) {
+    return { ok: false, status: 400, message: "This promo code is not valid for these dates" };
+  }
+
+  if ((promo.bookableFrom && now < promo.bookableFrom) || (promo.bookableTo && now >= promo.bookableTo)) {
+    return { ok: false, status: 400, message: "This promo code has expired or is not active yet" };
+  }
+
+  if (promo.minNights && nightsBetween(startDate, endDate) < promo.minNights) {
+    return {
+      ok: false,
+      status: 400,
+      message: `This promo code requires a stay of at least ${promo.minNights} nights`,
+    };
+  }
+
+  const limitFailure = await checkRedemptionLimits(promo, {
+    userId,
+    ignoreUserLimit: params.ignoreUserLimit,
+  });
+  if (limitFailure) return limitFailure;
+
+  return { ok: true, promo };
+}
+
+/**
+ * maxRedemptions / perUserLimit against the redemptions that currently hold a slot.
+ * ignoreUserLimit = admin booking (the per-user limit does not apply).
+ */
+async function checkRedemptionLimits(
+  promo: Pick<PromoCode, "id" | "maxRedemptions" | "perUserLimit">,
+  params: { userId: number | null; ignoreUserLimit?: boolean },
+  db: Prisma.TransactionClient | typeof prisma = prisma
+): Promise<PromoFailure | null> {
+  const { userId } = params;
+
+  if (promo.maxRedemptions != null) {
+    const used = await countActiveRedemptions(promo.id, undefined, db);
+    if (used >= promo.maxRedemptions) {
+      return { ok: false, status: 400, message: "This promo code has been fully redeemed" };
+    }
+  }
+
+  if (promo.perUserLimit != null && !params.ignoreUserLimit) {
+    if (!userId) {
+      return { ok: false, status: 400, message: "Please login to use this promo code" };
+    }
+
+    const usedByUser = await countActiveRedemptions(promo.id, userId, db);
+    if (usedByUser >= promo.perUserLimit) {
+      return { ok: false, status: 400, message: "You have already used this promo code" };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Claims a redemption slot of a code inside the booking transaction, right before
+ * its PromoRedemption row is created.
+ *
+ * resolvePromoCode() counts outside any transaction: two guests racing for the last
+ * redemption could both pass it. This helper takes a transaction-scoped advisory lock
+ * on the code, so redemptions of it are serialized until commit/rollback, and counts
+ * again under that lock. Throws a 400 error when the code was used up meanwhile.
+ */
+export async function reservePromoRedemption(
+  tx: Prisma.TransactionClient,
+  params: { promoCodeId: number; userId: number | null; ignoreUserLimit?: boolean }
+) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${PROMO_LOCK_NAMESPACE}::int, ${params.promoCodeId}::int)`;
+
+  const promo = await tx.promoCode.findUnique({ where: { id: params.promoCodeId } });
+  const failure = promo
+    ? await checkRedemptionLimits(promo, params, tx)
+    : { ok: false as const, status: 404 as const, message: "This promo code is not valid" };
+
+  if (failure) {
+    const err: any = new Error(failure.message);
+    err.status = failure.status;
+    throw err;
+  }
+}
+
+/**
+ * Pure: discount (positive cents) a code gives on an accommodation total.
+ */
+export function promoDiscountCents(promo: PromoCodeLike, accommodationCents: number) {
+  if (accommodationCents <= 0) return 0;
+
+  if (promo.kind === "percent") {
+    return Math.round((accommodationCents * (promo.percentBps ?? 0)) / 10000);
+  }
+
+  return Math.min(promo.amountCents ?? 0, accommodationCents);
+}
@@ -0,0 +1,214 @@
+import type { Property, TaxRule } from "@prisma/client";
+import { prisma } from "../prismaClient.js";
+import type { PriceLineItem } from "./pricing.service.js";
+
+/**
+ * Accommodation taxes (Greek climate resilience fee and similar).
+ *
+ * Rule kinds:
+ * - per_night:  amountCents × taxable nights
+ * - per_stay:   amountCents once, if the arrival night is taxable
+ * - percentage: rateBps of the accommodation amount (nights + discounts + extra guests),
+ *               pro-rated by taxable nights
+ *
+ * A night is taxable for a rule when it falls inside:
+ * - the seasonal window (seasonStartMonth..seasonEndMonth, inclusive, may wrap the year end)
+ * - the validity window [validFrom, validTo)
+ *
+ * Taxes are never discounted and never covered by stay fees; they are separate
+ * "tax" lines on Booking.priceBreakdown so the monthly report can sum them.
+ */
+
+export type TaxRuleLike = Pick<
+  TaxRule,
+  | "id"
+  | "name"
+  | "kind"
+  | "amountCents"
+  | "rateBps"
+  | "seasonStartMonth"
+  | "seasonEndMonth"
+  | "validFrom"
+  | "validTo"
+>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function inSeason(rule: TaxRuleLike, night: Date) {
+  const { seasonStartMonth: from, seasonEndMonth: to } = rule;
+  if (from == null || to == null) return true;
+
+  const m = night.getUTCMonth() + 1;
+  return from <= to ? m >= from && m <= to : m >= from || m <= to;
+}
+
+function inValidity(rule: TaxRuleLike, night: Date) {
+  if (rule.validFrom && night < rule.validFrom) return false;
+  if (rule.validTo && night >= rule.validTo) return false;
+  return true;
+}
+
+function isTaxableNight(rule: TaxRuleLike, night: Date) {
+  return inSeason(rule, night) && inValidity(rule, night);
+}
+
+/**
+ * Active rules that apply to a property:
+ * - propertyId is null or matches
+ * - propertyCategory is null or matches Property.taxCategory
+ */
+export async function findTaxRulesForProperty(property: Pick<Property, "id" | "taxCategory">) {
+  return prisma.taxRule.findMany({
+    where: {
+      isActive: true,
+      OR: [{ propertyId: null }, { propertyId: property.id }],
+      AND: [
+        {
+          OR: [
+            { propertyCategory: null },
+            ...(property.taxCategory ? [{ propertyCategory: property.taxCategory }] : []),
+          ],
+        },
+      ],
+    },
+    orderBy: { id: "asc" },
+  });
+}
+
+/**
+ * Pure: builds the "tax" lines for a stay.
+ * Zero-amount lines (out of season, expired rule, 0 rate) are dropped.
+ */
+export function buildTaxLines(params: {
+  rules: TaxRuleLike[];
+  startDate: Date;
+  endDate: Date;
+  accommodationCents: number;
+}): PriceLineItem[] {
+  const { rules, startDate, endDate, accommodationCents } = params;
+
+  const nights: Date[] = [];
+  for (let t = startDate.getTime(); t < endDate.getTime(); t += DAY_MS) {
+    nights.push(new Date(t));
+  }
+  if (nights.length === 0) return [];
+
+  const lines: PriceLineItem[] = [];
+
+  for (const rule of rules) {
+    const taxableNights = nights.filter((n) => isTaxableNight(rule, n)).length;
+    if (taxableNights === 0) continue;
+
+    if (rule.kind === "per_night") {
+      const unit = rule.amountCents ?? 0;
+      if (unit <= 0) continue;
+
+      lines.push({
+        code: "tax",
+        label: `${rule.name} (${taxableNights} night${taxableNights === 1 ? "" : "s"})`,
+        quantity: taxableNights,
+        unitAmountCents: unit,
+        amountCents: unit * taxableNights,
+        taxRuleId: rule.id,
+      });
+    } else if (rule.kind === "per_stay") {
+      const unit = rule.amountCents ?? 0;
+      if (unit <= 0 || !isTaxableNight(rule, nights[0])) continue;
+
+      lines.push({
+        code: "tax",
+        label: rule.name,
+        quantity: 1,
+        unitAmountCents: unit,
+        amountCents: unit,
+        taxRuleId: rule.id,
+      });
+    } else if (rule.kind === "percentage") {
+      const bps = rule.rateBps ?? 0;
+      const taxableBase = Math.round((accommodationCents * taxableNights) / nights.length);
+      const amount = Math.round((taxableBase * bps) / 10000);
+      if (amount <= 0) continue;
+
+      lines.push({
+        code: "tax",
+        label: `${rule.name} (${(bps / 100).toFixed(2).replace(/\.?0+$/, "")}%)`,
+        quantity: 1,
+        unitAmountCents: amount,
+        amountCents: amount,
+        taxRuleId: rule.id,
+      });
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Monthly tax report.
+ *
+ * - Confirmed bookings whose check-in falls in the month (UTC)
+ * - Sums the "tax" lines stored on Booking.priceBreakdown (what the guest was charged),
+ *   so editing a rule later never changes a filed month
+ */
+export async function buildMonthlyTaxReport(month: string) {
+  const [y, m] = month.split("-").map(Number);
+  const from = new Date(Date.UTC(y, m - 1, 1));
+  const to = new Date(Date.UTC(y, m, 1));
+
+  const bookings = await prisma.booking.findMany({
+    where: { status: "confirmed", startDate: { gte: from, lt: to } },
+    orderBy: [{ startDate: "asc" }, { id: "asc" }],
+    select: {
+      id: true,
+      startDate: true,
+      endDate: true,
+      guestName: true,
+      priceBreakdown: true,
+      property: { select: { id: true, title: true, taxCategory: true } },
+    },
+  });
+
+  const byRule = new Map<
+    string,
+    { taxRuleId: number | null; label: string; amountCents: number; bookings: number }
+  >();
+
+  const rows = bookings.map((b) => {
+    const lineItems = ((b.priceBreakdown as any)?.lineItems ?? []) as PriceLineItem[];
+    const taxLines = lineItems.filter((li) => li.code === "tax");
+
+    for (const li of taxLines) {
+      const key = li.taxRuleId != null ? `rule:${li.taxRuleId}` : `label:${li.label}`;
+      const entry = byRule.get(key) ?? {
+        taxRuleId: li.taxRuleId ?? null,
+        label: li.label.replace(/\s*\(.*\)$/, ""),
+        amountCents: 0,
+        bookings: 0,
+      };
+
+      entry.amountCents += li.amountCents;
+      entry.bookings += 1;
+      byRule.set(key, entry);
+    }
+
+    return {
+      bookingId: b.id,
+      property: b.property,
+      guestName: b.guestName,
+      startDate: b.startDate,
+      endDate: b.endDate,
+      nights: Math.round((b.endDate.getTime() - b.startDate.getTime()) / DAY_MS),
+      taxCents: taxLines.reduce((sum, li) => sum + li.amountCents, 0),
+      lines: taxLines,
+    };
+  });
+
+  return {
+    month,
+    from,
+    to,
+    totalTaxCents: rows.reduce((sum, r) => sum + r.taxCents, 0),
+    byRule: Array.from(byRule.values()),
+    bookings: rows,
+  };
+}
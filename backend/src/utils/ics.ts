@@ -0,0 +1,47 @@
+/**
+ * Small helpers for writing iCalendar (RFC 5545) text.
+ * Dates are all-day values in UTC (our bookings are date-only, checkout exclusive).
+ */
+
+export function icsEscape(s: string) {
+  return String(s ?? "")
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/,/g, "\\,")
+    .replace(/;/g, "\\;");
+}
+
+export function yyyymmdd(date: Date) {
+  const y = date.getUTCFullYear();
+  const m = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const d = String(date.getUTCDate()).padStart(2, "0");
+  return `${y}${m}${d}`;
+}
+
+export function dtstampUTC() {
+  const d = new Date();
+  const y = d.getUTCFullYear();
+  const m = String(d.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(d.getUTCDate()).padStart(2, "0");
+  const hh = String(d.getUTCHours()).padStart(2, "0");
+  const mm = String(d.getUTCMinutes()).padStart(2, "0");
+  const ss = String(d.getUTCSeconds()).padStart(2, "0");
+  return `${y}${m}${day}T${hh}${mm}${ss}Z`;
+}
+
+/**
+ * Wraps VEVENT blocks into a published VCALENDAR (CRLF line endings).
+ */
+export function icsCalendar(events: string[], name?: string) {
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Eagle Villas//Availability//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    ...(name ? [`X-WR-CALNAME:${icsEscape(name)}`] : []),
+    ...events,
+    "END:VCALENDAR",
+    "",
+  ].join("\r\n");
+}
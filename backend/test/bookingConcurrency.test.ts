@@ -0,0 +1,200 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+
+/**
+ * Double-booking guards of POST /api/bookings against a real Postgres:
+ * - reserveDateRange(): per-property advisory lock + availability re-check
+ * - Booking_no_overlapping_stays exclusion constraint, mapped to 409 by errorHandler
+ *
+ * Needs TEST_DATABASE_URL pointing at a migrated, disposable database
+ * (`DATABASE_URL=$TEST_DATABASE_URL npx prisma migrate deploy`). Skipped otherwise.
+ */
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+const PARALLEL_REQUESTS = 8;
+
+describe(
+  "POST /api/bookings concurrency",
+  { skip: TEST_DATABASE_URL ? false : "TEST_DATABASE_URL is not set" },
+  () => {
+    let server: Server;
+    let baseUrl: string;
+    let prisma: typeof import("../src/prismaClient.js").prisma;
+    let adminToken: string;
+    let adminId: number;
+    let propertyId: number;
+
+    before(async () => {
+      // Must be set before the Prisma / Stripe clients are created (admin bookings never call Stripe)
+      process.env.DATABASE_URL = TEST_DATABASE_URL;
+      process.env.STRIPE_SECRET_KEY ??= "sk_test_unused";
+
+      const { default: express } = await import("express");
+      ({ prisma } = await import("../src/prismaClient.js"));
+      const { bookingRouter } = await import("../src/routes/booking.routes.js");
+      const { errorHandler } = await import("../src/midleware/errorHandler.js");
+      const { signToken } = await import("../src/utils/jwt.js");
+
+      const suffix = `${process.pid}-${Date.now()}`;
+
+      const admin = await prisma.user.create({
+        data: {
+          email: `concurrency-${suffix}@test.local`,
+          password: "not-a-real-hash",
+          role: "ADMIN",
+        },
+      });
+      adminId = admin.id;
+      adminToken = signToken({ userId: admin.id, role: "ADMIN" });
+
+      const property = await prisma.property.create({
+        data: {
+          title: "Concurrency test villa",
+          slug: `concurrency-${suffix}`,
+          description: "Fixture",
+          address: "Fixture",
+          city: "Fixture",
+          country: "HR",
+          maxGuests: 4,
+          pricePerNight: 100,
+          bookingPeriods: {
+            create: {
+              startDate: new Date("2030-09-01T00:00:00.000Z"),
+              endDate: new Date("2030-10-01T00:00:00.000Z"),
+              standardNightlyPrice: 100,
+              maxGuests: 4,
+            },
+          },
+        },
+      });
+      propertyId = property.id;
+
+      // Same stack as index.ts for this router: JSON body -> bookings -> errorHandler
+      const app = express();
+      app.use(express.json());
+      app.use("/api/bookings", bookingRouter);
+
+      // Writer that skips reserveDateRange(), so only the exclusion constraint can stop it
+      app.post("/test/unlocked-booking", async (req, res, next) => {
+        try {
+          const booking = await prisma.booking.create({ data: req.body });
+          res.status(201).json({ booking });
+        } catch (err) {
+          next(err);
+        }
+      });
+
+      app.use(errorHandler);
+
+      server = app.listen(0);
+      await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(async () => {
+      if (server) await new Promise<void>((resolve) => server.close(() => resolve()));
+      if (!prisma) return;
+
+      if (propertyId) {
+        await prisma.payment.deleteMany({ where: { booking: { propertyId } } });
+        await prisma.booking.deleteMany({ where: { propertyId } });
+        await prisma.bookingPeriod.deleteMany({ where: { propertyId } });
+        await prisma.property.delete({ where: { id: propertyId } });
+      }
+      if (adminId) await prisma.user.delete({ where: { id: adminId } });
+
+      await prisma.$disconnect();
+    });
+
+    const postBooking = (startDate: string, endDate: string, guest: number) =>
+      fetch(`${baseUrl}/api/bookings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminToken}` },
+        body: JSON.stringify({
+          propertyId,
+          startDate,
+          endDate,
+          guestName: `Guest ${guest}`,
+          guestEmail: `guest${guest}@test.local`,
+          guestPhone: "+385 91 123 4567",
+          adults: 2,
+          children: 0,
+          babies: 0,
+        }),
+      });
+
+    it("accepts exactly one of several parallel requests for the same dates", async () => {
+      const responses = await Promise.all(
+        Array.from({ length: PARALLEL_REQUESTS }, (_, i) =>
+          postBooking("2030-09-10", "2030-09-14", i)
+        )
+      );
+      const statuses = responses.map((r) => r.status).sort();
+
+      assert.deepEqual(statuses, [201, ...Array(PARALLEL_REQUESTS - 1).fill(409)]);
+
+      const stored = await prisma.booking.count({
+        where: { propertyId, status: { in: ["pending", "confirmed"] } },
+      });
+      assert.equal(stored, 1);
+    });
+
+    it("accepts exactly one of several parallel overlapping (not identical) requests", async () => {
+      // All ranges share the night of Sep 21, so only one of them may win
+      const ranges = [
+        ["2030-09-20", "2030-09-24"],
+        ["2030-09-21", "2030-09-25"],
+        ["2030-09-18", "2030-09-22"],
+        ["2030-09-19", "2030-09-23"],
+        ["2030-09-21", "2030-09-27"],
+      ];
+
+      const responses = await Promise.all(
+        ranges.map(([start, end], i) => postBooking(start, end, 100 + i))
+      );
+      const statuses = responses.map((r) => r.status).sort();
+
+      assert.deepEqual(statuses, [201, ...Array(ranges.length - 1).fill(409)]);
+    });
+
+    it("maps the overlap constraint to 409 when a writer skips the calendar lock", async () => {
+      const existing = await prisma.booking.findFirstOrThrow({
+        where: { propertyId, startDate: new Date("2030-09-10T00:00:00.000Z") },
+      });
+
+      const res = await fetch(`${baseUrl}/test/unlocked-booking`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          propertyId,
+          startDate: "2030-09-12T00:00:00.000Z",
+          endDate: "2030-09-16T00:00:00.000Z",
+          guestName: "Unlocked writer",
+          guestEmail: "unlocked@test.local",
+          guestPhone: "+385 91 765 4321",
+          guestsCount: 2,
+          totalPrice: 400,
+          status: "confirmed",
+        }),
+      });
+
+      assert.equal(res.status, 409);
+      assert.deepEqual(await res.json(), {
+        message: "These dates are not available for this property",
+      });
+
+      // The losing insert rolled back; the original stay is untouched
+      const overlapping = await prisma.booking.findMany({
+        where: {
+          propertyId,
+          startDate: { lt: new Date("2030-09-16T00:00:00.000Z") },
+          endDate: { gt: new Date("2030-09-12T00:00:00.000Z") },
+        },
+        select: { id: true },
+      });
+      assert.deepEqual(overlapping, [{ id: existing.id }]);
+    });
+  }
+);
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { buildOpenPeriodSegments, type PeriodLike } from "../src/services/periods.service.js";
+
+/**
+ * Fixture calendar (periods are [startDate, endDate), so endDate is the first night NOT covered):
+ *
+ *   A  open    Jul 01 .. Jul 08   (last night Jul 07)
+ *   B  open    Jul 08 .. Jul 15   (first night Jul 08)
+ *   X  closed  Jul 15 .. Jul 18
+ *   C  open    Jul 18 .. Jul 25
+ *      (no period Jul 25 .. Jul 28)
+ *   D  open    Jul 28 .. Aug 04
+ */
+const day = (ymd: string) => new Date(`${ymd}T00:00:00.000Z`);
+
+const periods: PeriodLike[] = [
+  { id: 1, startDate: day("2026-07-01"), endDate: day("2026-07-08"), isOpen: true },
+  { id: 2, startDate: day("2026-07-08"), endDate: day("2026-07-15"), isOpen: true },
+  { id: 3, startDate: day("2026-07-15"), endDate: day("2026-07-18"), isOpen: false },
+  { id: 4, startDate: day("2026-07-18"), endDate: day("2026-07-25"), isOpen: true },
+  { id: 5, startDate: day("2026-07-28"), endDate: day("2026-08-04"), isOpen: true },
+];
+
+const segmentsOf = (startDate: string, endDate: string) =>
+  buildOpenPeriodSegments({ periods, startDate: day(startDate), endDate: day(endDate) });
+
+const summary = (result: ReturnType<typeof segmentsOf>) =>
+  result.segments.map((s) => ({
+    periodId: s.period.id,
+    from: s.from.toISOString().slice(0, 10),
+    to: s.to.toISOString().slice(0, 10),
+  }));
+
+describe("buildOpenPeriodSegments", () => {
+  describe("period boundaries", () => {
+    it("keeps a one-night stay on a period's last night inside that period", () => {
+      const result = segmentsOf("2026-07-07", "2026-07-08");
+
+      assert.equal(result.ok, true);
+      assert.deepEqual(summary(result), [{ periodId: 1, from: "2026-07-07", to: "2026-07-08" }]);
+    });
+
+    it("keeps a one-night stay on a period's first night inside that period", () => {
+      const result = segmentsOf("2026-07-08", "2026-07-09");
+
+      assert.equal(result.ok, true);
+      assert.deepEqual(summary(result), [{ periodId: 2, from: "2026-07-08", to: "2026-07-09" }]);
+    });
+
+    it("splits check-in on the last night and checkout after the next period's first night", () => {
+      const result = segmentsOf("2026-07-07", "2026-07-09");
+
+      assert.equal(result.ok, true);
+      assert.deepEqual(summary(result), [
+        { periodId: 1, from: "2026-07-07", to: "2026-07-08" },
+        { periodId: 2, from: "2026-07-08", to: "2026-07-09" },
+      ]);
+    });
+  });
+
+  describe("uncovered nights", () => {
+    it("rejects a stay with a night outside every period", () => {
+      const result = segmentsOf("2026-07-23", "2026-07-30");
+
+      assert.equal(result.ok, false);
+      assert.equal(result.reason, "NO_PERIOD");
+      assert.deepEqual(result.segments, []);
+    });
+
+    it("rejects a stay starting before the first period", () => {
+      const result = segmentsOf("2026-06-30", "2026-07-02");
+
+      assert.equal(result.ok, false);
+      assert.equal(result.reason, "NO_PERIOD");
+    });
+
+    it("accepts checkout on the first uncovered day", () => {
+      const result = segmentsOf("2026-07-22", "2026-07-25");
+
+      assert.equal(result.ok, true);
+      assert.deepEqual(summary(result), [{ periodId: 4, from: "2026-07-22", to: "2026-07-25" }]);
+    });
+  });
+
+  describe("closed periods", () => {
+    it("rejects a stay crossing a closed period", () => {
+      const result = segmentsOf("2026-07-13", "2026-07-20");
+
+      assert.equal(result.ok, false);
+      assert.equal(result.reason, "CLOSED");
+      assert.deepEqual(result.segments, []);
+    });
+
+    it("accepts checkout on the closed period's first day and check-in on its end day", () => {
+      assert.equal(segmentsOf("2026-07-12", "2026-07-15").ok, true);
+      assert.equal(segmentsOf("2026-07-18", "2026-07-21").ok, true);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateStay } from "../src/services/pricing.service.js";
+
+type StayParams = Parameters<typeof evaluateStay>[0];
+type FixturePeriod = StayParams["periods"][number];
+
+const day = (ymd: string) => new Date(`${ymd}T00:00:00.000Z`);
+
+const property: StayParams["property"] = {
+  pricePerNight: 100,
+  maxGuests: 6,
+  minNights: 1,
+  nonRefundableDiscountBps: null,
+  cleaningFeeCents: null,
+  linenFeeCents: null,
+  petFeeCents: null,
+  extraBedFeeCents: null,
+  baseOccupancy: null,
+  extraAdultNightlyCents: null,
+  extraChildNightlyCents: null,
+  gapFillEnabled: false,
+  gapDiscountBps: null,
+};
+
+const period = (
+  id: number,
+  startDate: string,
+  endDate: string,
+  fields: Partial<FixturePeriod> = {}
+): FixturePeriod => ({
+  id,
+  startDate: day(startDate),
+  endDate: day(endDate),
+  isOpen: true,
+  standardNightlyPrice: 100,
+  weekdayNightlyPrices: null,
+  weeklyDiscountPercentBps: null,
+  weeklyThresholdNights: 7,
+  stayDiscountTiers: null,
+  minNights: 1,
+  allowedArrivalWeekdays: [],
+  allowedDepartureWeekdays: [],
+  maxGuests: 6,
+  cleaningFeeCents: null,
+  linenFeeCents: null,
+  petFeeCents: null,
+  extraBedFeeCents: null,
+  baseOccupancy: null,
+  extraAdultNightlyCents: null,
+  extraChildNightlyCents: null,
+  ...fields,
+});
+
+/**
+ * Fixture calendar: low season (€100, 3 min nights), high season (€180, 2 min nights),
+ * closed for maintenance, then a gap with no period before the autumn period.
+ */
+const periods = [
+  period(1, "2026-07-01", "2026-07-08", { standardNightlyPrice: 100, minNights: 3 }),
+  period(2, "2026-07-08", "2026-07-15", { standardNightlyPrice: 180, minNights: 2 }),
+  period(3, "2026-07-15", "2026-07-18", { isOpen: false }),
+  period(4, "2026-07-18", "2026-07-25", { standardNightlyPrice: 120 }),
+  period(5, "2026-07-28", "2026-08-04", { standardNightlyPrice: 90 }),
+];
+
+const quote = (startDate: string, endDate: string) =>
+  evaluateStay({
+    property,
+    periods,
+    startDate: day(startDate),
+    endDate: day(endDate),
+    countedGuests: 2,
+    adults: 2,
+    children: 0,
+    pets: 0,
+    extraBeds: 0,
+    taxRules: [],
+    bookingWindowDiscounts: [],
+    now: day("2026-01-15"),
+  });
+
+describe("evaluateStay", () => {
+  describe("period boundaries", () => {
+    it("prices check-in on a period's last night and checkout on the next period's first night", () => {
+      const result = quote("2026-07-05", "2026-07-09");
+
+      assert.equal(result.ok, true);
+      if (!result.ok) return;
+
+      // Arrival period rules apply (3 min nights), each night at its own period's rate
+      assert.equal(result.arrivalPeriod?.id, 1);
+      assert.deepEqual(
+        result.price.segments.map((s) => [s.periodId, s.from, s.to, s.nightlyPrice]),
+        [
+          [1, "2026-07-05", "2026-07-08", 100],
+          [2, "2026-07-08", "2026-07-09", 180],
+        ]
+      );
+      assert.equal(result.price.nights, 4);
+      assert.equal(result.price.totalCents, (3 * 100 + 180) * 100);
+    });
+
+    it("uses the next period's min nights when checking in on its first night", () => {
+      const result = quote("2026-07-08", "2026-07-10");
+
+      assert.equal(result.ok, true);
+      if (!result.ok) return;
+
+      assert.equal(result.arrivalPeriod?.id, 2);
+      assert.equal(result.price.totalCents, 2 * 180 * 100);
+    });
+
+    it("applies the arrival period's min nights to a stay starting on its last night", () => {
+      const result = quote("2026-07-07", "2026-07-09");
+
+      assert.deepEqual(result, {
+        ok: false,
+        status: 400,
+        message: "Minimum stay for these dates is 3 nights",
+      });
+    });
+  });
+
+  it("rejects a stay with an uncovered night", () => {
+    const result = quote("2026-07-22", "2026-07-29");
+
+    assert.deepEqual(result, { ok: false, status: 409, message: "These dates are not available" });
+  });
+
+  it("rejects a stay that crosses a closed period", () => {
+    const result = quote("2026-07-12", "2026-07-20");
+
+    assert.deepEqual(result, {
+      ok: false,
+      status: 409,
+      message: "These dates are not available (closed period)",
+    });
+  });
+});
@@ -22,7 +22,9 @@ import BookingSuccessPage from "./pages/BookingSuccessPage";
 import LefkadaShowcasePage from "./pages/LefkadaShowcasePage";
 import StayGuidePage from "./pages/StayGuidePage";
 import AdminStayGuidePage from "./pages/admin/AdminStayGuidePage";
+import AdminCalendarHealthPage from "./pages/admin/AdminCalendarHealthPage";
 import BookingSummaryPage from "./pages/BookingSummaryPage";
+import GiftCardsPage from "./pages/GiftCardsPage";
 
 export default function App() {
   return (
@@ -41,6 +43,7 @@ export default function App() {
           <Route path="/booking/confirmed" element={<BookingConfirmedPage />} />
           <Route path="/booking/success" element={<BookingSuccessPage />} />
           <Route path="/contact" element={<ContactPage />} />
+          <Route path="/gift-cards" element={<GiftCardsPage />} />
           <Route path="/lefkada" element={<LefkadaShowcasePage />} />
           <Route path="/stay-guide/:token" element={<StayGuidePage />} />
           <Route path="/booking/summary" element={<BookingSummaryPage />} />
@@ -73,6 +76,15 @@ export default function App() {
             }
           />
 
+          <Route
+            path="/admin/calendar-health"
+            element={
+              <AdminRoute>
+                <AdminCalendarHealthPage />
+              </AdminRoute>
+            }
+          />
+
           {/* ✅ NEW: Protected admin-only periods test page */}
           <Route
             path="/admin/periods"
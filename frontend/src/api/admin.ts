@@ -5,6 +5,8 @@ import type {
   AdminPropertyListResponse,
   AdminBookingListResponse,
   AdminProperty,
+  ExternalProvider,
+  PriceBreakdown,
 } from "../api/types";
 import type { CreatePropertyInput, UpdatePropertyInput } from "@shared/schemas/property.schema";
 
@@ -116,7 +118,9 @@ export type AdminBookingsSearchResponse = {
 };
 
 export type AdminBooking = {
-  source: "DIRECT" | "BOOKING_COM" | "MANUAL";
+  source: "DIRECT" | "EXTERNAL" | "MANUAL";
+  provider?: ExternalProvider;
+  calendarName?: string;
   id: number;
   propertyId: number;
   userId: number | null;
@@ -126,22 +130,30 @@ export type AdminBooking = {
   guestEmail: string;
   guestPhone: string;
   guestsCount: number;
+  // "HH:MM" estimated arrival given by the guest
+  arrivalTime?: string | null;
   totalPrice: number;
   status: string;
   createdAt: string;
   property: { id: number; title: string; city: string; country: string };
   user: { id: number; name: string | null; email: string | null } | null;
 
-  priceBreakdown?: any;
+  priceBreakdown?: PriceBreakdown | null;
   payment?: {
     provider: string;
     status: string;
     amountCents: number;
+    // cash actually collected; deposit bookings collect the balance later
+    paidCents?: number;
+    schedule?: "full" | "deposit";
     refundedCents: number;
     creditsAppliedCents: number;
     currency: string;
   } | null;
   refundedTotalCents?: number;
   refunds?: { id: number; amountCents: number; status: string; createdAt: string }[];
+
+  // involved in an open channel double-booking conflict (see CalendarConflict)
+  hasConflict?: boolean;
 };
 
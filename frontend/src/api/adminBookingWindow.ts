@@ -0,0 +1,109 @@
+// src/api/adminBookingWindow.ts
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "./client";
+import type {
+  CreateBookingWindowDiscountInput,
+  UpdateBookingWindowDiscountInput,
+} from "@shared/schemas/bookingWindow.schema";
+
+export const ADMIN_BOOKING_WINDOW_QUERY_KEY = ["admin", "booking-window-discounts"] as const;
+
+/**
+ * Early-bird / last-minute discount rule.
+ * Dates are ISO strings (UTC midnight).
+ */
+export type BookingWindowDiscount = {
+  id: number;
+  propertyId: number;
+  name: string;
+  kind: "early_bird" | "last_minute";
+  daysBefore: number;
+  discountBps: number;
+  stackingPolicy: "stack" | "exclusive" | "best_of";
+  validFrom: string | null;
+  validTo: string | null;
+  isActive: boolean;
+  createdAt: string;
+  property: { id: number; title: string };
+};
+
+/* ===========================
+   FETCHERS
+   =========================== */
+
+async function fetchBookingWindowDiscounts(): Promise<{ rules: BookingWindowDiscount[] }> {
+  const res = await api.get<{ rules: BookingWindowDiscount[] }>(
+    "/api/admin/booking-window-discounts"
+  );
+  return res.data;
+}
+
+async function createBookingWindowDiscount(
+  data: CreateBookingWindowDiscountInput
+): Promise<{ rule: BookingWindowDiscount }> {
+  const res = await api.post<{ rule: BookingWindowDiscount }>(
+    "/api/admin/booking-window-discounts",
+    data
+  );
+  return res.data;
+}
+
+async function updateBookingWindowDiscount(
+  id: number,
+  data: UpdateBookingWindowDiscountInput
+): Promise<{ rule: BookingWindowDiscount }> {
+  const res = await api.patch<{ rule: BookingWindowDiscount }>(
+    `/api/admin/booking-window-discounts/${id}`,
+    data
+  );
+  return res.data;
+}
+
+async function deleteBookingWindowDiscount(id: number): Promise<void> {
+  await api.delete(`/api/admin/booking-window-discounts/${id}`);
+}
+
+/* ===========================
+   HOOKS
+   =========================== */
+
+export function useAdminBookingWindowDiscountsQuery() {
+  return useQuery({
+    queryKey: ADMIN_BOOKING_WINDOW_QUERY_KEY,
+    queryFn: fetchBookingWindowDiscounts,
+  });
+}
+
+export function useCreateBookingWindowDiscountMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createBookingWindowDiscount,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_BOOKING_WINDOW_QUERY_KEY });
+    },
+  });
+}
+
+export function useUpdateBookingWindowDiscountMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateBookingWindowDiscountInput }) =>
+      updateBookingWindowDiscount(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_BOOKING_WINDOW_QUERY_KEY });
+    },
+  });
+}
+
+export function useDeleteBookingWindowDiscountMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteBookingWindowDiscount,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_BOOKING_WINDOW_QUERY_KEY });
+    },
+  });
+}
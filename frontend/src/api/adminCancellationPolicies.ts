@@ -0,0 +1,106 @@
+// src/api/adminCancellationPolicies.ts
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "./client";
+import type {
+  CreateCancellationPolicyInput,
+  RefundTierInput,
+  UpdateCancellationPolicyInput,
+} from "@shared/schemas/cancellationPolicy.schema";
+
+export const ADMIN_CANCELLATION_POLICIES_QUERY_KEY = ["admin", "cancellation-policies"] as const;
+
+/**
+ * Named cancellation policy (refund tiers by days before check-in).
+ * Bookings keep a snapshot of the policy they were made with.
+ */
+export type CancellationPolicy = {
+  id: number;
+  key: string;
+  name: string;
+  description: string | null;
+  tiers: RefundTierInput[];
+  isDefault: boolean;
+  createdAt: string;
+  _count: { properties: number; bookingPeriods: number };
+};
+
+/* ===========================
+   FETCHERS
+   =========================== */
+
+async function fetchCancellationPolicies(): Promise<{ policies: CancellationPolicy[] }> {
+  const res = await api.get<{ policies: CancellationPolicy[] }>(
+    "/api/admin/cancellation-policies"
+  );
+  return res.data;
+}
+
+async function createCancellationPolicy(
+  data: CreateCancellationPolicyInput
+): Promise<{ policy: CancellationPolicy }> {
+  const res = await api.post<{ policy: CancellationPolicy }>(
+    "/api/admin/cancellation-policies",
+    data
+  );
+  return res.data;
+}
+
+async function updateCancellationPolicy(
+  id: number,
+  data: UpdateCancellationPolicyInput
+): Promise<{ policy: CancellationPolicy }> {
+  const res = await api.patch<{ policy: CancellationPolicy }>(
+    `/api/admin/cancellation-policies/${id}`,
+    data
+  );
+  return res.data;
+}
+
+async function deleteCancellationPolicy(id: number): Promise<void> {
+  await api.delete(`/api/admin/cancellation-policies/${id}`);
+}
+
+/* ===========================
+   HOOKS
+   =========================== */
+
+export function useAdminCancellationPoliciesQuery() {
+  return useQuery({
+    queryKey: ADMIN_CANCELLATION_POLICIES_QUERY_KEY,
+    queryFn: fetchCancellationPolicies,
+  });
+}
+
+export function useCreateCancellationPolicyMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createCancellationPolicy,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_CANCELLATION_POLICIES_QUERY_KEY });
+    },
+  });
+}
+
+export function useUpdateCancellationPolicyMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateCancellationPolicyInput }) =>
+      updateCancellationPolicy(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_CANCELLATION_POLICIES_QUERY_KEY });
+    },
+  });
+}
+
+export function useDeleteCancellationPolicyMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteCancellationPolicy,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_CANCELLATION_POLICIES_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,194 @@
+// src/api/adminExternalCalendars.ts
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "./client";
+import type { ExternalProvider } from "./types";
+import type {
+  CreateExternalCalendarInput,
+  UpdateExternalCalendarInput,
+} from "@shared/schemas/externalcalendar.schema";
+
+export const ADMIN_EXTERNAL_CALENDARS_QUERY_KEY = ["admin", "external-calendars"] as const;
+export const ADMIN_CALENDAR_HEALTH_QUERY_KEY = ["admin", "external-calendars", "health"] as const;
+
+export const EXTERNAL_PROVIDER_LABELS: Record<ExternalProvider, string> = {
+  BOOKING_COM: "Booking.com",
+  AIRBNB: "Airbnb",
+  VRBO: "VRBO",
+  OTHER: "Other",
+};
+
+/**
+ * Imported channel iCal feed (a villa can have several).
+ * Dates are ISO strings.
+ */
+export type ExternalCalendar = {
+  id: number;
+  propertyId: number;
+  provider: ExternalProvider;
+  name: string;
+  icalUrl: string;
+  isEnabled: boolean;
+  /** last successful sync (200 or 304) */
+  lastSyncAt: string | null;
+  lastRunAt: string | null;
+  consecutiveFailures: number;
+  lastError: string | null;
+  staleAlertHours: number;
+  staleAlertSentAt: string | null;
+  createdAt: string;
+  property: { id: number; title: string };
+  _count: { blocks: number };
+};
+
+/** One persisted sync attempt of a feed */
+export type ExternalCalendarSyncRun = {
+  id: number;
+  calendarId: number;
+  status: "success" | "not_modified" | "failed";
+  httpStatus: number | null;
+  eventsParsed: number;
+  blocksAdded: number;
+  blocksRemoved: number;
+  error: string | null;
+  startedAt: string;
+  durationMs: number;
+};
+
+export type ExternalCalendarHealth = ExternalCalendar & {
+  lastRun: ExternalCalendarSyncRun | null;
+  isStale: boolean;
+};
+
+/** Result of one feed sync (services/externalIcalSync.ts) */
+export type ExternalCalendarSyncResult =
+  | { synced: true; count: number }
+  | { synced: false; reason: string };
+
+type CalendarMutationResponse = {
+  calendar: ExternalCalendar;
+  sync: ExternalCalendarSyncResult | null;
+};
+
+/* ===========================
+   FETCHERS
+   =========================== */
+
+async function fetchExternalCalendars(): Promise<{ calendars: ExternalCalendar[] }> {
+  const res = await api.get<{ calendars: ExternalCalendar[] }>("/api/admin/external-calendars");
+  return res.data;
+}
+
+async function fetchCalendarHealth(): Promise<{ feeds: ExternalCalendarHealth[] }> {
+  const res = await api.get<{ feeds: ExternalCalendarHealth[] }>(
+    "/api/admin/external-calendars/health"
+  );
+  return res.data;
+}
+
+async function fetchCalendarSyncRuns(id: number): Promise<{ runs: ExternalCalendarSyncRun[] }> {
+  const res = await api.get<{ runs: ExternalCalendarSyncRun[] }>(
+    `/api/admin/external-calendars/${id}/runs`,
+    { params: { limit: 50 } }
+  );
+  return res.data;
+}
+
+async function createExternalCalendar(
+  data: CreateExternalCalendarInput
+): Promise<CalendarMutationResponse> {
+  const res = await api.post<CalendarMutationResponse>("/api/admin/external-calendars", data);
+  return res.data;
+}
+
+async function updateExternalCalendar(
+  id: number,
+  data: UpdateExternalCalendarInput
+): Promise<CalendarMutationResponse> {
+  const res = await api.patch<CalendarMutationResponse>(
+    `/api/admin/external-calendars/${id}`,
+    data
+  );
+  return res.data;
+}
+
+async function deleteExternalCalendar(id: number): Promise<void> {
+  await api.delete(`/api/admin/external-calendars/${id}`);
+}
+
+async function syncExternalCalendar(id: number): Promise<CalendarMutationResponse> {
+  const res = await api.post<CalendarMutationResponse>(
+    `/api/admin/external-calendars/${id}/sync`
+  );
+  return res.data;
+}
+
+/* ===========================
+   HOOKS
+   =========================== */
+
+export function useAdminExternalCalendarsQuery() {
+  return useQuery({
+    queryKey: ADMIN_EXTERNAL_CALENDARS_QUERY_KEY,
+    queryFn: fetchExternalCalendars,
+  });
+}
+
+export function useAdminCalendarHealthQuery() {
+  return useQuery({
+    queryKey: ADMIN_CALENDAR_HEALTH_QUERY_KEY,
+    queryFn: fetchCalendarHealth,
+  });
+}
+
+export function useAdminCalendarSyncRunsQuery(calendarId: number | null) {
+  return useQuery({
+    queryKey: [...ADMIN_EXTERNAL_CALENDARS_QUERY_KEY, calendarId, "runs"] as const,
+    queryFn: () => fetchCalendarSyncRuns(calendarId as number),
+    enabled: calendarId !== null,
+  });
+}
+
+export function useCreateExternalCalendarMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createExternalCalendar,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_EXTERNAL_CALENDARS_QUERY_KEY });
+    },
+  });
+}
+
+export function useUpdateExternalCalendarMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateExternalCalendarInput }) =>
+      updateExternalCalendar(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_EXTERNAL_CALENDARS_QUERY_KEY });
+    },
+  });
+}
+
+export function useDeleteExternalCalendarMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteExternalCalendar,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_EXTERNAL_CALENDARS_QUERY_KEY });
+    },
+  });
+}
+
+export function useSyncExternalCalendarMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: syncExternalCalendar,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_EXTERNAL_CALENDARS_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,172 @@
+// src/api/adminIcalExports.ts
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "./client";
+import type { ExternalProvider } from "./types";
+import type {
+  CreateIcalExportTokenInput,
+  IcalExportKind,
+  UpdateIcalExportTokenInput,
+} from "@shared/schemas/icalexport.schema";
+
+export const ADMIN_ICAL_EXPORTS_QUERY_KEY = ["admin", "ical-exports"] as const;
+
+/**
+ * Private iCal export feed of a villa for one consumer.
+ * HOUSEKEEPING feeds may cover all villas (propertyId null).
+ * Dates are ISO strings.
+ */
+export type IcalExportFeed = {
+  id: number;
+  kind: IcalExportKind;
+  propertyId: number | null;
+  name: string;
+  token: string;
+  includeDirect: boolean;
+  includeManual: boolean;
+  includeExternal: boolean;
+  consumerProvider: ExternalProvider | null;
+  revokedAt: string | null;
+  rotatedAt: string | null;
+  lastAccessAt: string | null;
+  accessCount: number;
+  createdAt: string;
+  property: { id: number; title: string } | null;
+};
+
+/** One fetch of a feed (200 served, 410 revoked) */
+export type IcalExportAccess = {
+  id: number;
+  tokenId: number;
+  accessedAt: string;
+  statusCode: number;
+  ip: string | null;
+  userAgent: string | null;
+};
+
+/**
+ * Public URL of a feed, to paste in the consumer's calendar import.
+ * Same origin as the API (VITE_API_URL, or the site itself behind the /api proxy).
+ */
+export function icalExportFeedUrl(token: string) {
+  const base = import.meta.env.VITE_API_URL || window.location.origin;
+  return `${base}/api/ical/feeds/${token}.ics`;
+}
+
+/* ===========================
+   FETCHERS
+   =========================== */
+
+async function fetchIcalExports(): Promise<{ feeds: IcalExportFeed[] }> {
+  const res = await api.get<{ feeds: IcalExportFeed[] }>("/api/admin/ical-exports");
+  return res.data;
+}
+
+async function fetchIcalExportAccess(id: number): Promise<{ accesses: IcalExportAccess[] }> {
+  const res = await api.get<{ accesses: IcalExportAccess[] }>(
+    `/api/admin/ical-exports/${id}/access`,
+    { params: { limit: 50 } }
+  );
+  return res.data;
+}
+
+async function createIcalExport(data: CreateIcalExportTokenInput): Promise<{ feed: IcalExportFeed }> {
+  const res = await api.post<{ feed: IcalExportFeed }>("/api/admin/ical-exports", data);
+  return res.data;
+}
+
+async function updateIcalExport(
+  id: number,
+  data: UpdateIcalExportTokenInput
+): Promise<{ feed: IcalExportFeed }> {
+  const res = await api.patch<{ feed: IcalExportFeed }>(`/api/admin/ical-exports/${id}`, data);
+  return res.data;
+}
+
+async function rotateIcalExport(id: number): Promise<{ feed: IcalExportFeed }> {
+  const res = await api.post<{ feed: IcalExportFeed }>(`/api/admin/ical-exports/${id}/rotate`);
+  return res.data;
+}
+
+async function revokeIcalExport(id: number): Promise<{ feed: IcalExportFeed }> {
+  const res = await api.post<{ feed: IcalExportFeed }>(`/api/admin/ical-exports/${id}/revoke`);
+  return res.data;
+}
+
+async function deleteIcalExport(id: number): Promise<void> {
+  await api.delete(`/api/admin/ical-exports/${id}`);
+}
+
+/* ===========================
+   HOOKS
+   =========================== */
+
+export function useAdminIcalExportsQuery() {
+  return useQuery({
+    queryKey: ADMIN_ICAL_EXPORTS_QUERY_KEY,
+    queryFn: fetchIcalExports,
+  });
+}
+
+export function useAdminIcalExportAccessQuery(feedId: number | null) {
+  return useQuery({
+    queryKey: [...ADMIN_ICAL_EXPORTS_QUERY_KEY, feedId, "access"] as const,
+    queryFn: () => fetchIcalExportAccess(feedId as number),
+    enabled: feedId !== null,
+  });
+}
+
+export function useCreateIcalExportMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createIcalExport,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_ICAL_EXPORTS_QUERY_KEY });
+    },
+  });
+}
+
+export function useUpdateIcalExportMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateIcalExportTokenInput }) =>
+      updateIcalExport(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_ICAL_EXPORTS_QUERY_KEY });
+    },
+  });
+}
+
+export function useRotateIcalExportMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: rotateIcalExport,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_ICAL_EXPORTS_QUERY_KEY });
+    },
+  });
+}
+
+export function useRevokeIcalExportMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: revokeIcalExport,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_ICAL_EXPORTS_QUERY_KEY });
+    },
+  });
+}
+
+export function useDeleteIcalExportMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteIcalExport,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_ICAL_EXPORTS_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,69 @@
+// src/api/adminManualBlocks.ts
+import { api } from "./client";
+import { getApiErrorMessage } from "./apiError";
+import type {
+  CreateManualBlockInput,
+  ManualBlockCategory,
+  UpdateManualBlockInput,
+} from "@shared/schemas/manualblock.schema";
+
+export const MANUAL_BLOCK_CATEGORY_LABELS: Record<ManualBlockCategory, string> = {
+  OWNER_STAY: "Owner stay",
+  MAINTENANCE: "Maintenance",
+  CLOSURE: "Closure",
+  OTHER: "Other",
+};
+
+/**
+ * Dates closed by the admin. Dates are ISO strings, endDate exclusive.
+ * seriesId is shared by the blocks of one recurring rule.
+ */
+export type ManualBlock = {
+  id: number;
+  propertyId: number;
+  startDate: string;
+  endDate: string;
+  category: ManualBlockCategory;
+  reason: string | null;
+  seriesId: string | null;
+  createdAt: string;
+};
+
+/**
+ * POST /api/admin/manual-blocks
+ * A recurring rule returns every block it created.
+ */
+export async function adminCreateManualBlock(body: CreateManualBlockInput) {
+  try {
+    const res = await api.post<{ blocks: ManualBlock[] }>("/api/admin/manual-blocks", body);
+    return res.data;
+  } catch (err) {
+    throw new Error(getApiErrorMessage(err, "Could not create the block."));
+  }
+}
+
+/**
+ * PATCH /api/admin/manual-blocks/:id
+ */
+export async function adminPatchManualBlock(id: number, body: UpdateManualBlockInput) {
+  try {
+    const res = await api.patch<{ block: ManualBlock }>(`/api/admin/manual-blocks/${id}`, body);
+    return res.data;
+  } catch (err) {
+    throw new Error(getApiErrorMessage(err, "Could not update the block."));
+  }
+}
+
+/**
+ * DELETE /api/admin/manual-blocks/:id (wholeSeries: every block of its recurring series)
+ */
+export async function adminDeleteManualBlock(id: number, wholeSeries = false) {
+  try {
+    const res = await api.delete<{ ok: true; deleted: number }>(`/api/admin/manual-blocks/${id}`, {
+      params: wholeSeries ? { scope: "series" } : undefined,
+    });
+    return res.data;
+  } catch (err) {
+    throw new Error(getApiErrorMessage(err, "Could not delete the block."));
+  }
+}
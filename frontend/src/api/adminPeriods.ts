@@ -79,3 +79,43 @@ export async function adminDeletePeriod(periodId: number) {
     throw new Error(extractErrorMessage(err));
   }
 }
+
+/**
+ * One orphan gap: free nights between two bookings / blocks, shorter than min nights.
+ */
+export type OrphanGap = {
+  startDate: string; // YYYY-MM-DD (check-in)
+  endDate: string; // YYYY-MM-DD (check-out)
+  nights: number;
+  minNights: number;
+  weekdaysAllowed: boolean;
+  bookable: boolean;
+  nightlyTotal: number; // EUR, before discounts
+};
+
+export type GapReportPayload = {
+  property: {
+    id: number;
+    title: string;
+    gapFillEnabled: boolean;
+    gapDiscountBps: number | null;
+  };
+  from: string;
+  to: string;
+  gaps: OrphanGap[];
+};
+
+/**
+ * GET /api/admin/properties/:propertyId/gaps?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Orphan gap report of one property (gaps starting in [from, to))
+ */
+export async function adminFetchGapReport(propertyId: number, from: string, to: string) {
+  try {
+    const res = await api.get<GapReportPayload>(`/api/admin/properties/${propertyId}/gaps`, {
+      params: { from, to },
+    });
+    return res.data;
+  } catch (err: unknown) {
+    throw new Error(extractErrorMessage(err));
+  }
+}
@@ -0,0 +1,137 @@
+// src/api/adminPromo.ts
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "./client";
+import type { CreatePromoCodeInput, UpdatePromoCodeInput } from "@shared/schemas/promo.schema";
+
+export const ADMIN_PROMO_CODES_QUERY_KEY = ["admin", "promo-codes"] as const;
+
+/**
+ * Promo code + redemption stats (bookings not cancelled).
+ * Dates are ISO strings (UTC midnight).
+ */
+export type PromoCode = {
+  id: number;
+  code: string;
+  description: string | null;
+  kind: "percent" | "fixed";
+  percentBps: number | null;
+  amountCents: number | null;
+  propertyId: number | null;
+  stayFrom: string | null;
+  stayTo: string | null;
+  bookableFrom: string | null;
+  bookableTo: string | null;
+  maxRedemptions: number | null;
+  perUserLimit: number | null;
+  minNights: number | null;
+  isActive: boolean;
+  createdAt: string;
+  property: { id: number; title: string } | null;
+
+  redemptions: number;
+  discountCents: number;
+};
+
+export type PromoRedemption = {
+  id: number;
+  promoCodeId: number;
+  bookingId: number;
+  userId: number | null;
+  discountCents: number;
+  createdAt: string;
+  booking: {
+    id: number;
+    status: "pending" | "confirmed" | "cancelled";
+    startDate: string;
+    endDate: string;
+    guestName: string;
+    guestEmail: string;
+    property: { id: number; title: string };
+  };
+};
+
+/* ===========================
+   FETCHERS
+   =========================== */
+
+async function fetchPromoCodes(): Promise<{ codes: PromoCode[] }> {
+  const res = await api.get<{ codes: PromoCode[] }>("/api/admin/promo-codes");
+  return res.data;
+}
+
+async function fetchPromoRedemptions(id: number): Promise<{ redemptions: PromoRedemption[] }> {
+  const res = await api.get<{ redemptions: PromoRedemption[] }>(
+    `/api/admin/promo-codes/${id}/redemptions`
+  );
+  return res.data;
+}
+
+async function createPromoCode(data: CreatePromoCodeInput): Promise<{ promoCode: PromoCode }> {
+  const res = await api.post<{ promoCode: PromoCode }>("/api/admin/promo-codes", data);
+  return res.data;
+}
+
+async function updatePromoCode(
+  id: number,
+  data: UpdatePromoCodeInput
+): Promise<{ promoCode: PromoCode }> {
+  const res = await api.patch<{ promoCode: PromoCode }>(`/api/admin/promo-codes/${id}`, data);
+  return res.data;
+}
+
+async function deletePromoCode(id: number): Promise<void> {
+  await api.delete(`/api/admin/promo-codes/${id}`);
+}
+
+/* ===========================
+   HOOKS
+   =========================== */
+
+export function useAdminPromoCodesQuery() {
+  return useQuery({
+    queryKey: ADMIN_PROMO_CODES_QUERY_KEY,
+    queryFn: fetchPromoCodes,
+  });
+}
+
+export function useAdminPromoRedemptionsQuery(id: number | null) {
+  return useQuery({
+    queryKey: [...ADMIN_PROMO_CODES_QUERY_KEY, id, "redemptions"] as const,
+    queryFn: () => fetchPromoRedemptions(id as number),
+    enabled: id != null,
+  });
+}
+
+export function useCreatePromoCodeMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createPromoCode,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_PROMO_CODES_QUERY_KEY });
+    },
+  });
+}
+
+export function useUpdatePromoCodeMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdatePromoCodeInput }) =>
+      updatePromoCode(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_PROMO_CODES_QUERY_KEY });
+    },
+  });
+}
+
+export function useDeletePromoCodeMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deletePromoCode,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_PROMO_CODES_QUERY_KEY });
+    },
+  });
+}
@@ -0,0 +1,133 @@
+// src/api/adminTax.ts
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { api } from "./client";
+import type { PriceLineItem } from "./types";
+import type { CreateTaxRuleInput, UpdateTaxRuleInput } from "@shared/schemas/tax.schema";
+
+export const ADMIN_TAX_RULES_QUERY_KEY = ["admin", "tax-rules"] as const;
+export const ADMIN_TAX_REPORT_QUERY_KEY = ["admin", "tax-report"] as const;
+
+/**
+ * Accommodation tax rule (e.g. climate resilience fee).
+ * Dates are ISO strings (UTC midnight).
+ */
+export type TaxRule = {
+  id: number;
+  name: string;
+  kind: "per_night" | "per_stay" | "percentage";
+  amountCents: number | null;
+  rateBps: number | null;
+  propertyId: number | null;
+  propertyCategory: string | null;
+  seasonStartMonth: number | null;
+  seasonEndMonth: number | null;
+  validFrom: string | null;
+  validTo: string | null;
+  isActive: boolean;
+  notes: string | null;
+  createdAt: string;
+  property: { id: number; title: string } | null;
+};
+
+export type TaxReport = {
+  month: string;
+  from: string;
+  to: string;
+  totalTaxCents: number;
+  byRule: Array<{
+    taxRuleId: number | null;
+    label: string;
+    amountCents: number;
+    bookings: number;
+  }>;
+  bookings: Array<{
+    bookingId: number;
+    property: { id: number; title: string; taxCategory: string | null };
+    guestName: string;
+    startDate: string;
+    endDate: string;
+    nights: number;
+    taxCents: number;
+    lines: PriceLineItem[];
+  }>;
+};
+
+/* ===========================
+   FETCHERS
+   =========================== */
+
+async function fetchTaxRules(): Promise<{ rules: TaxRule[] }> {
+  const res = await api.get<{ rules: TaxRule[] }>("/api/admin/tax-rules");
+  return res.data;
+}
+
+async function fetchTaxReport(month: string): Promise<TaxReport> {
+  const res = await api.get<TaxReport>("/api/admin/tax-report", { params: { month } });
+  return res.data;
+}
+
+async function createTaxRule(data: CreateTaxRuleInput): Promise<{ rule: TaxRule }> {
+  const res = await api.post<{ rule: TaxRule }>("/api/admin/tax-rules", data);
+  return res.data;
+}
+
+async function updateTaxRule(id: number, data: UpdateTaxRuleInput): Promise<{ rule: TaxRule }> {
+  const res = await api.patch<{ rule: TaxRule }>(`/api/admin/tax-rules/${id}`, data);
+  return res.data;
+}
+
+async function deleteTaxRule(id: number): Promise<void> {
+  await api.delete(`/api/admin/tax-rules/${id}`);
+}
+
+/* ===========================
+   HOOKS
+   =========================== */
+
+export function useAdminTaxRulesQuery() {
+  return useQuery({
+    queryKey: ADMIN_TAX_RULES_QUERY_KEY,
+    queryFn: fetchTaxRules,
+  });
+}
+
+export function useAdminTaxReportQuery(month: string) {
+  return useQuery({
+    queryKey: [...ADMIN_TAX_REPORT_QUERY_KEY, month] as const,
+    queryFn: () => fetchTaxReport(month),
+    enabled: /^\d{4}-\d{2}$/.test(month),
+  });
+}
+
+export function useCreateTaxRuleMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: createTaxRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_TAX_RULES_QUERY_KEY });
+    },
+  });
+}
+
+export function useUpdateTaxRuleMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateTaxRuleInput }) => updateTaxRule(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_TAX_RULES_QUERY_KEY });
+    },
+  });
+}
+
+export function useDeleteTaxRuleMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: deleteTaxRule,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ADMIN_TAX_RULES_QUERY_KEY });
+    },
+  });
+}
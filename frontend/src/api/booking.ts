@@ -13,6 +13,7 @@ import type {
   CustomerBookingsResponse,
   CreateBookingResponse,
   PropertyCalendarResponse,
+  PropertyAvailabilityResponse,
 } from "./types.ts";
 
 /**
@@ -150,6 +151,37 @@ async function fetchPropertyCalendar(
   return res.data;
 }
 
+/**
+ * Per-date availability calendar of a property for whole months (fromMonth..toMonth, YYYY-MM):
+ * status, nightly price, min nights and check-in / check-out flags of each date
+ */
+async function fetchPropertyAvailability(
+  propertyId: number,
+  fromMonth: string,
+  toMonth: string
+): Promise<PropertyAvailabilityResponse> {
+  const res = await api.get<PropertyAvailabilityResponse>(
+    `/api/bookings/availability/property/${propertyId}`,
+    { params: { from: fromMonth, to: toMonth } }
+  );
+  return res.data;
+}
+
+export function usePropertyAvailability(
+  propertyId: number,
+  fromMonth: string,
+  toMonth: string,
+  enabled = true
+) {
+  return useQuery({
+    queryKey: ["property-availability", propertyId, fromMonth, toMonth],
+    queryFn: () => fetchPropertyAvailability(propertyId, fromMonth, toMonth),
+    enabled: enabled && Number.isFinite(propertyId) && !!fromMonth && !!toMonth,
+    staleTime: 30_000,
+    refetchOnWindowFocus: false,
+  });
+}
+
 export function usePropertyCalendar(
   propertyId: number,
   from: string,
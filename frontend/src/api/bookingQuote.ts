@@ -1,5 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { api } from "./client";
+import type { PriceBreakdown, RatePlan } from "./types";
 
 export type BookingQuoteInput = {
   propertyId: number;
@@ -8,35 +9,31 @@ export type BookingQuoteInput = {
   adults: number;
   children: number;
   babies: number;
+  pets: number;
+  extraBeds: number;
   useCredit: boolean;
+  promoCode?: string | null;
+  ratePlan?: RatePlan;
 };
 
 export type BookingQuoteResponse = {
-  priceSummary: {
-    currency: "eur";
-    nights: number;
-    segments: Array<{
-      periodId: number | null;
-      from: string;
-      to: string;
-      nights: number;
-      nightlyPrice: number;
-      segmentTotal: number;
-    }>;
-    baseTotalEur: number;
-    weeklyDiscountAppliedBps: number | null;
-    totalEur: number;
-
-    grossTotalCents: number;
-    creditsAppliedCents: number;
-    cashDueNowCents: number;
-    creditRefundable: boolean;
-    refundPolicyAppliesTo: string;
-  };
+  priceSummary: PriceBreakdown;
   creditsAppliedCents: number;
   payableCents: number;
 
+  // The quote is priced with `selected`; null discount = non-refundable rate not offered
+  ratePlans: {
+    selected: RatePlan;
+    nonRefundableDiscountBps: number | null;
+  };
+
   refundPolicy: {
+    // Cancellation policy that will be snapshotted on the booking
+    policy: {
+      key: string;
+      name: string;
+      description: string | null;
+    };
     tiers: Array<{
       key: string;
       minDaysBefore: number;
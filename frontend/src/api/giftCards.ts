@@ -0,0 +1,146 @@
+// src/api/giftCards.ts
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api } from "./client";
+import type { CreditVoucher } from "./vouchers";
+import type {
+  PurchaseGiftCardInput,
+  RedeemGiftCardInput,
+} from "@shared/schemas/giftCard.schema";
+
+/**
+ * Gift cards:
+ * - bought on the public /gift-cards page (Stripe Checkout)
+ * - code emailed to the recipient on the chosen date
+ * - redeemed from the customer dashboard into a credit voucher
+ *
+ * Backend routes:
+ * - POST /api/gift-cards/checkout
+ * - GET  /api/gift-cards/purchase/:id
+ * - POST /api/gift-cards/redeem
+ * - GET  /api/admin/gift-cards?status=
+ */
+
+export type GiftCardStatus = "pending_payment" | "paid" | "delivered" | "redeemed";
+
+export type GiftCardCheckoutResponse = {
+  giftCardId: number;
+  checkoutUrl: string | null;
+};
+
+export type GiftCardPurchaseResponse = {
+  giftCard: {
+    id: number;
+    status: GiftCardStatus;
+    amountCents: number;
+    currency: string;
+    recipientName: string;
+    deliverAt: string;
+  };
+};
+
+export type RedeemGiftCardResponse = {
+  voucher: CreditVoucher;
+};
+
+export type AdminGiftCard = {
+  id: number;
+  code: string;
+  amountCents: number;
+  currency: string;
+  status: GiftCardStatus;
+  purchaserName: string;
+  purchaserEmail: string;
+  recipientName: string;
+  recipientEmail: string;
+  message: string | null;
+  deliverAt: string;
+  paidAt: string | null;
+  deliveredAt: string | null;
+  redeemedAt: string | null;
+  createdAt: string;
+  redeemedBy: { id: number; name: string | null; email: string } | null;
+  creditVoucher: { id: number; remainingCents: number; status: string } | null;
+};
+
+export type GiftCardLiability = {
+  currency: string;
+  // paid / delivered cards, owed in full
+  unredeemedCount: number;
+  unredeemedCents: number;
+  // unused balance of active vouchers created from gift cards
+  redeemedOpenCount: number;
+  redeemedOpenCents: number;
+  totalCents: number;
+};
+
+export type AdminGiftCardsResponse = {
+  giftCards: AdminGiftCard[];
+  liability: GiftCardLiability;
+};
+
+async function createGiftCardCheckout(
+  data: PurchaseGiftCardInput
+): Promise<GiftCardCheckoutResponse> {
+  const res = await api.post<GiftCardCheckoutResponse>("/api/gift-cards/checkout", data);
+  return res.data;
+}
+
+async function fetchGiftCardPurchase(id: number): Promise<GiftCardPurchaseResponse> {
+  const res = await api.get<GiftCardPurchaseResponse>(`/api/gift-cards/purchase/${id}`);
+  return res.data;
+}
+
+async function redeemGiftCard(data: RedeemGiftCardInput): Promise<RedeemGiftCardResponse> {
+  const res = await api.post<RedeemGiftCardResponse>("/api/gift-cards/redeem", data);
+  return res.data;
+}
+
+async function fetchAdminGiftCards(status: GiftCardStatus | ""): Promise<AdminGiftCardsResponse> {
+  const res = await api.get<AdminGiftCardsResponse>("/api/admin/gift-cards", {
+    params: status ? { status } : undefined,
+  });
+  return res.data;
+}
+
+/**
+ * Redirect the browser to checkoutUrl on success.
+ */
+export function useGiftCardCheckout() {
+  return useMutation({
+    mutationFn: createGiftCardCheckout,
+  });
+}
+
+/**
+ * Purchase status after returning from Stripe (the webhook may still be on its way).
+ */
+export function useGiftCardPurchaseQuery(id: number | null) {
+  return useQuery({
+    queryKey: ["gift-card-purchase", id],
+    queryFn: () => fetchGiftCardPurchase(id!),
+    enabled: id !== null,
+    refetchInterval: (query) =>
+      query.state.data?.giftCard.status === "pending_payment" ? 3_000 : false,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useRedeemGiftCard() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: redeemGiftCard,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customer-vouchers"] });
+    },
+  });
+}
+
+export function useAdminGiftCardsQuery(status: GiftCardStatus | "") {
+  return useQuery({
+    queryKey: ["admin-gift-cards", status],
+    queryFn: () => fetchAdminGiftCards(status),
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+  });
+}
@@ -1,11 +1,14 @@
 // src/api/payments.ts
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "./client";
+import type { RatePlan } from "./types";
+import type { GoodwillRefundInput, GoodwillVoucherInput } from "@shared/schemas/goodwill.schema";
 
 /**
  * Cancelling a booking:
- * - Backend decides how much is refunded immediately based on policy.
- * - Backend may issue a voucher (credit) for <15 day cancellations.
+ * - Backend decides how much is refunded immediately based on the booking's
+ *   cancellation policy (snapshotted when it was made).
+ * - Backend may issue a voucher (credit) for late cancellations.
  */
 export type CancelBookingPayload = {
   bookingId: number;
@@ -33,8 +36,12 @@ export type CancelBookingPreviewResponse = {
   action: "cancel";
   currency: string;
   policy: {
+    key: string;
+    name: string;
+    ratePlan: RatePlan;
     daysBefore: number;
-    tier: "60_plus" | "30_to_59" | "15_to_29" | "lt_15";
+    // e.g. "60_plus", "30_to_59", "lt_15" (derived from the policy's tiers)
+    tier: string;
     label: string;
     description: string;
     refundBps: number;
@@ -292,6 +299,125 @@ export function useAdminRejectRefundRequest() {
   });
 }
 
+/**
+ * ============================================================
+ * ADMIN: GOODWILL REFUNDS + VOUCHERS
+ * ============================================================
+ *
+ * Backend routes:
+ * - GET  /api/payments/admin/bookings/:bookingId/goodwill
+ * - POST /api/payments/admin/bookings/:bookingId/goodwill-refund
+ * - POST /api/payments/admin/bookings/:bookingId/goodwill-voucher
+ */
+
+export type GoodwillCompensation = {
+  id: number;
+  bookingId: number;
+  kind: "refund" | "voucher";
+  amountCents: number;
+  currency: string;
+  reason: string;
+  createdAt: string;
+  createdBy: { id: number; name: string | null; email: string } | null;
+  creditVoucher: {
+    id: number;
+    issuedCents: number;
+    remainingCents: number;
+    status: string;
+  } | null;
+  refunds: Array<{
+    id: number;
+    amountCents: number;
+    status: "pending" | "succeeded" | "failed" | "canceled";
+    createdAt: string;
+  }>;
+};
+
+export type AdminBookingGoodwillResponse = {
+  bookingId: number;
+  currency: string;
+  // paid - refunded - refunds still pending at Stripe
+  refundableRemainingCents: number;
+  canRefund: boolean;
+  canIssueVoucher: boolean;
+  compensations: GoodwillCompensation[];
+};
+
+export type AdminGoodwillResponse = {
+  compensation: GoodwillCompensation;
+  refundStatus?: "pending";
+};
+
+async function adminFetchBookingGoodwill(
+  bookingId: number
+): Promise<AdminBookingGoodwillResponse> {
+  const res = await api.get<AdminBookingGoodwillResponse>(
+    `/api/payments/admin/bookings/${bookingId}/goodwill`
+  );
+  return res.data;
+}
+
+async function adminGoodwillRefund(
+  bookingId: number,
+  data: GoodwillRefundInput
+): Promise<AdminGoodwillResponse> {
+  const res = await api.post<AdminGoodwillResponse>(
+    `/api/payments/admin/bookings/${bookingId}/goodwill-refund`,
+    data
+  );
+  return res.data;
+}
+
+async function adminGoodwillVoucher(
+  bookingId: number,
+  data: GoodwillVoucherInput
+): Promise<AdminGoodwillResponse> {
+  const res = await api.post<AdminGoodwillResponse>(
+    `/api/payments/admin/bookings/${bookingId}/goodwill-voucher`,
+    data
+  );
+  return res.data;
+}
+
+export function useAdminBookingGoodwillQuery(bookingId: number) {
+  return useQuery({
+    queryKey: ["admin-booking-goodwill", bookingId],
+    queryFn: () => adminFetchBookingGoodwill(bookingId),
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Admin mutation: goodwill cash refund (Stripe submit; the refund webhook confirms it).
+ */
+export function useAdminGoodwillRefund(bookingId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: GoodwillRefundInput) => adminGoodwillRefund(bookingId, data),
+    onSettled: () => {
+      // A failed Stripe submit still records the compensation
+      queryClient.invalidateQueries({ queryKey: ["admin-booking-goodwill", bookingId] });
+    },
+  });
+}
+
+/**
+ * Admin mutation: goodwill credit voucher on the customer's account.
+ */
+export function useAdminGoodwillVoucher(bookingId: number) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: GoodwillVoucherInput) => adminGoodwillVoucher(bookingId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-booking-goodwill", bookingId] });
+      queryClient.invalidateQueries({ queryKey: ["admin-vouchers"] });
+    },
+  });
+}
+
 export type BookingRefundStatusResponse = {
   bookingId: number;
   bookingStatus: string;
@@ -302,7 +428,7 @@ export type BookingRefundStatusResponse = {
   } | null;
   refund: {
     id: number;
-    source: "policy_cancel" | "admin_request";
+    source: "policy_cancel" | "admin_request" | "admin_goodwill";
     status: "pending" | "succeeded" | "failed" | "canceled";
     amountCents: number;
     currency: string;
@@ -329,3 +455,79 @@ export function useBookingRefundStatusQuery(bookingId: number, enabled: boolean)
     refetchOnWindowFocus: false,
   });
 }
+
+/**
+ * ============================================================
+ * PAYMENT SCHEDULE (DEPOSIT + BALANCE)
+ * ============================================================
+ *
+ * - GET  /api/payments/installments/:bookingId
+ * - POST /api/payments/installments/:bookingId/checkout (pay the open balance now)
+ */
+
+export type PaymentInstallment = {
+  id: number;
+  kind: "full" | "deposit" | "balance";
+  sequence: number;
+  amountCents: number;
+  dueAt: string;
+  status: "scheduled" | "paid" | "failed" | "cancelled";
+  paidAt: string | null;
+  failureReason: string | null;
+  refundedCents: number;
+};
+
+export type BookingInstallmentsResponse = {
+  bookingId: number;
+  payment: {
+    schedule: "full" | "deposit";
+    status: string;
+    currency: string;
+    amountCents: number;
+    paidCents: number;
+    refundedCents: number;
+    installments: PaymentInstallment[];
+  } | null;
+};
+
+export type PayInstallmentResponse = {
+  bookingId: number;
+  installmentId: number;
+  checkoutUrl: string | null;
+};
+
+async function fetchBookingInstallments(
+  bookingId: number
+): Promise<BookingInstallmentsResponse> {
+  const res = await api.get<BookingInstallmentsResponse>(
+    `/api/payments/installments/${bookingId}`
+  );
+  return res.data;
+}
+
+async function payInstallment(bookingId: number): Promise<PayInstallmentResponse> {
+  const res = await api.post<PayInstallmentResponse>(
+    `/api/payments/installments/${bookingId}/checkout`
+  );
+  return res.data;
+}
+
+export function useBookingInstallmentsQuery(bookingId: number, enabled: boolean) {
+  return useQuery({
+    queryKey: ["booking-installments", bookingId],
+    queryFn: () => fetchBookingInstallments(bookingId),
+    enabled,
+    staleTime: 15_000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Mutation hook used from the booking card "Pay balance" button.
+ * Redirect the browser to checkoutUrl on success.
+ */
+export function usePayInstallment() {
+  return useMutation({
+    mutationFn: payInstallment,
+  });
+}
@@ -1,7 +1,57 @@
 import { useQuery } from "@tanstack/react-query";
 import { api } from "./client";
 import type { Property } from "./types";
+import type { PropertySearchInput } from "@shared/schemas/propertySearch.schema";
+import { propertyFeatureKeyEnum } from "@shared/schemas/property.schema";
 
+/**
+ * Villa returned by the availability search, with its quoted total
+ * (public price: no promo code / credits).
+ */
+export type PropertySearchResult = Property & {
+  quote: { nights: number; totalCents: number; currency: string };
+};
+
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Search state lives in the /properties URL (?start=&end=&adults=&children=&babies=&features=)
+ * so the home page forms can link to it and results survive a refresh.
+ */
+export function propertySearchToQuery(input: PropertySearchInput) {
+  const qs = new URLSearchParams();
+  qs.set("start", input.startDate);
+  qs.set("end", input.endDate);
+  qs.set("adults", String(input.adults));
+  if (input.children) qs.set("children", String(input.children));
+  if (input.babies) qs.set("babies", String(input.babies));
+  if (input.features.length) qs.set("features", input.features.join(","));
+  return qs.toString();
+}
+
+/** Search from the URL, or null when dates are missing/invalid (plain listing) */
+export function parsePropertySearch(params: URLSearchParams): PropertySearchInput | null {
+  const startDate = params.get("start") ?? "";
+  const endDate = params.get("end") ?? "";
+  if (!YMD.test(startDate) || !YMD.test(endDate) || endDate <= startDate) return null;
+
+  const count = (key: string, min: number) => {
+    const n = Number(params.get(key) ?? min);
+    return Number.isInteger(n) && n >= min ? n : min;
+  };
+
+  return {
+    startDate,
+    endDate,
+    adults: count("adults", 1),
+    children: count("children", 0),
+    babies: count("babies", 0),
+    // unknown keys are dropped (old links, hand-edited URLs)
+    features: (params.get("features") ?? "")
+      .split(",")
+      .filter((k) => propertyFeatureKeyEnum.safeParse(k).success) as PropertySearchInput["features"],
+  };
+}
 
 export function useProperties() {
   return useQuery({
@@ -13,6 +63,20 @@ export function useProperties() {
   });
 }
 
+export function usePropertySearch(input: PropertySearchInput | null) {
+  return useQuery({
+    queryKey: ["properties", "search", input],
+    queryFn: async () => {
+      const res = await api.post<{ properties: PropertySearchResult[] }>(
+        "/api/properties/search",
+        input
+      );
+      return res.data.properties;
+    },
+    enabled: input !== null,
+  });
+}
+
 export function useProperty(slug: string) {
   return useQuery({
     queryKey: ["property", slug],
@@ -56,6 +56,34 @@ export type Property = {
   cleaningFeeCents?: number | null;
   minNights?: number | null;
 
+  // optional per-stay fees (cents)
+  linenFeeCents?: number | null;
+  petFeeCents?: number | null;
+  extraBedFeeCents?: number | null;
+
+  // optional occupancy pricing: nightly surcharge (cents) per guest above baseOccupancy
+  baseOccupancy?: number | null;
+  extraAdultNightlyCents?: number | null;
+  extraChildNightlyCents?: number | null;
+
+  // optional deposit schedule: depositBps at booking, balance balanceDueDaysBefore days before check-in
+  depositBps?: number | null;
+  balanceDueDaysBefore?: number | null;
+  balanceAutoCancelDays?: number | null;
+
+  // orphan gap nights: stays exactly filling a gap may be shorter than min nights
+  gapFillEnabled?: boolean;
+  gapDiscountBps?: number | null;
+
+  // non-refundable rate plan discount (null = standard rate only)
+  nonRefundableDiscountBps?: number | null;
+
+  // cancellation policy (null = the default policy)
+  cancellationPolicyId?: number | null;
+
+  // accommodation tax category (matches TaxRule.propertyCategory)
+  taxCategory?: string | null;
+
   // optional specs
   bedrooms?: number | null;
   bathrooms?: number | null;
@@ -77,6 +105,8 @@ export type Property = {
 };
 
 
+export type RatePlan = "standard" | "non_refundable";
+
 export type Booking = {
   id: number;
   propertyId: number;
@@ -95,9 +125,121 @@ export type Booking = {
   status: string;
   createdAt: string;
 
+  // Rate plan chosen at checkout (non_refundable = no refund on cancellation)
+  ratePlan?: RatePlan;
+
   property?: Property;
 };
 
+/* ============================================================
+   PRICE BREAKDOWN (quote + Booking.priceBreakdown)
+   ============================================================ */
+
+/**
+ * One itemised line from the backend pricing engine.
+ * amountCents is signed: discounts are negative.
+ */
+export type PriceLineItem = {
+  code: string; // "nights" | "weekly_discount" | "stay_discount" | "booking_window_discount" | "gap_discount" | "non_refundable_discount" | "promo_discount" | "extra_guests" | "cleaning_fee" | "linen_fee" | "pet_fee" | "extra_bed_fee" | "tax" (new codes may be added by newer pricing versions)
+  label: string;
+  quantity: number;
+  unitAmountCents: number;
+  amountCents: number;
+
+  // Only for "nights" lines
+  periodId?: number | null;
+  from?: string;
+  to?: string;
+
+  // Only for "tax" lines
+  taxRuleId?: number;
+};
+
+/**
+ * Length-of-stay tier of a booking period.
+ * discountBps = % off the stay, nightlyPrice = flat EUR rate per night (e.g. monthly rate).
+ */
+export type StayDiscountTier = {
+  minNights: number;
+  discountBps?: number | null;
+  nightlyPrice?: number | null;
+  label?: string | null;
+};
+
+/**
+ * One planned cash installment (YYYY-MM-DD due date).
+ */
+export type PaymentScheduleLine = {
+  kind: "full" | "deposit" | "balance";
+  sequence: number;
+  amountCents: number;
+  dueDate: string;
+};
+
+/**
+ * Versioned breakdown produced by backend services/pricing.service.ts.
+ * Older stored bookings may not have pricingVersion/lineItems.
+ */
+export type PriceBreakdown = {
+  pricingVersion?: number;
+  currency: "eur";
+  nights: number;
+  segments: Array<{
+    periodId: number | null;
+    from: string;
+    to: string;
+    nights: number;
+    nightlyPrice: number;
+    segmentTotal: number;
+  }>;
+  baseTotalEur: number;
+  weeklyDiscountAppliedBps: number | null;
+  // Length-of-stay tier applied (pricingVersion >= 5)
+  stayDiscountTier?: StayDiscountTier | null;
+  // Early-bird / last-minute rule applied (pricingVersion >= 6)
+  bookingWindowDiscount?: {
+    ruleId: number;
+    name: string;
+    kind: "early_bird" | "last_minute";
+    discountBps: number;
+    daysBeforeStart: number;
+    stackingPolicy: "stack" | "exclusive" | "best_of";
+  } | null;
+  // Orphan gap stay, min nights waived (pricingVersion >= 9)
+  gapFill?: {
+    waivedMinNights: number;
+    discountBps: number | null;
+    discountCents: number;
+  } | null;
+  // Rate plan priced (pricingVersion >= 10)
+  ratePlan?: {
+    plan: RatePlan;
+    discountBps: number;
+    discountCents: number;
+  };
+  // Promo code applied (pricingVersion >= 7)
+  promoCode?: {
+    promoCodeId: number;
+    code: string;
+    kind: "percent" | "fixed";
+    percentBps: number | null;
+    amountCents: number | null;
+    discountCents: number;
+  } | null;
+  totalEur: number;
+
+  lineItems?: PriceLineItem[];
+  totalCents?: number;
+
+  grossTotalCents: number;
+  creditsAppliedCents: number;
+  cashDueNowCents: number;
+  creditRefundable: boolean;
+  refundPolicyAppliesTo: string;
+  // Cash installments; cashDueNowCents is the first (deposit schedules add a "balance" line)
+  paymentSchedule?: PaymentScheduleLine[];
+};
+
 /* ============================================================
    BOOKING CREATION (CUSTOMER / ADMIN)
    ============================================================ */
@@ -125,6 +267,9 @@ export type CreateBookingPayload = {
   // optional credit usage
   useCredit?: boolean;
 
+  // missing = standard
+  ratePlan?: RatePlan;
+
   // guest info
   guestName: string;
   guestEmail: string;
@@ -210,6 +355,9 @@ export interface AdminPropertyListResponse {
   properties: AdminProperty[];
 }
 
+/** Channel of an imported iCal feed (ExternalCalendar.provider) */
+export type ExternalProvider = "BOOKING_COM" | "AIRBNB" | "VRBO" | "OTHER";
+
 export type AdminBooking =
   | {
       source: "DIRECT";
@@ -237,8 +385,11 @@ export type AdminBooking =
         email: string;
       } | null;
 
+      /** rate plan chosen at checkout */
+      ratePlan?: RatePlan;
+
       /**  booking pricing breakdown JSON (stored on Booking.priceBreakdown) */
-      priceBreakdown?: any | null;
+      priceBreakdown?: PriceBreakdown | null;
 
       /** payment snapshot (cash-only logic lives here) */
       payment?: {
@@ -252,15 +403,21 @@ export type AdminBooking =
 
       /** computed cash refunded (prefer payment.refundedCents if present) */
       refundedTotalCents?: number;
+
+      /** involved in an open channel double-booking conflict */
+      hasConflict?: boolean;
     }
   | {
-      source: "BOOKING_COM";
+      source: "EXTERNAL";
+      provider: ExternalProvider;
+      calendarName: string;
       id: number;
       propertyId: number;
       startDate: string;
       endDate: string;
       summary?: string | null;
       status: "confirmed";
+      hasConflict?: boolean;
       createdAt: string;
       property: {
         id: number;
@@ -277,6 +434,7 @@ export type AdminBooking =
       endDate: string;
       reason?: string | null;
       status: "blocked";
+      hasConflict?: boolean;
       createdAt: string;
       property: {
         id: number;
@@ -297,7 +455,7 @@ export type AdminBookingListResponse = {
 
 export type CalendarItemPublic =
   | { source: "DIRECT"; id: number; startDate: string; endDate: string; status: string }
-  | { source: "BOOKING_COM"; id: number; startDate: string; endDate: string; summary?: string | null }
+  | { source: "EXTERNAL"; id: number; startDate: string; endDate: string; summary?: string | null }
   | { source: "MANUAL"; id: number; startDate: string; endDate: string; reason?: string | null };
 
 export type CalendarItemAdmin =
@@ -314,17 +472,49 @@ export type CalendarItemAdmin =
       totalPrice: number;
       createdAt: string;
     }
-  | { source: "BOOKING_COM"; id: number; startDate: string; endDate: string; summary?: string | null }
+  | {
+      source: "EXTERNAL";
+      provider: ExternalProvider;
+      calendarName: string;
+      id: number;
+      startDate: string;
+      endDate: string;
+      summary?: string | null;
+    }
   | { source: "MANUAL"; id: number; startDate: string; endDate: string; reason?: string | null };
 
   export type PropertyCalendarResponse = {
   blocks: any[];
   dailyPrices: Record<string, number>;
   dailyOpen: Record<string, boolean>;
+  // Check-in / check-out weekday rules per YYYY-MM-DD (periods with Saturday-to-Saturday etc.)
+  dailyArrivalAllowed?: Record<string, boolean>;
+  dailyDepartureAllowed?: Record<string, boolean>;
   defaultNightlyPrice: number;
   hasAnyPeriods: boolean;
 };
 
+/**
+ * One date of the per-date availability calendar (the night starting that day).
+ * booked = any booking/block; no_period = not covered by a period (closed by default).
+ */
+export type AvailabilityDayStatus = "available" | "booked" | "closed" | "no_period";
+
+export type AvailabilityDay = {
+  date: string; // YYYY-MM-DD
+  status: AvailabilityDayStatus;
+  nightlyPrice: number | null;
+  // min stay when arriving that day (null when not available)
+  minNights: number | null;
+  arrivalAllowed: boolean;
+  departureAllowed: boolean;
+};
+
+export type PropertyAvailabilityResponse = {
+  days: AvailabilityDay[];
+  defaultNightlyPrice: number;
+};
+
 
 /* ============================================================
    EMAIL TEMPLATES
@@ -1,10 +1,17 @@
 // src/api/vouchers.ts
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { api } from "./client";
+import type {
+  AdjustVoucherInput,
+  ExtendVoucherInput,
+  IssueVoucherInput,
+  RevokeVoucherInput,
+} from "@shared/schemas/voucher.schema";
 
 /**
- * Voucher = store credit issued when a booking is cancelled <15 days before start.
- * Backend creates these automatically.
+ * Voucher = store credit issued when a booking is cancelled <15 days before start,
+ * as an admin goodwill gesture, or manually by an admin.
+ * Valid for a fixed period from issue (expiresAt); expired vouchers are closed by a backend job.
  */
 export type CreditVoucher = {
   id: number;
@@ -14,6 +21,7 @@ export type CreditVoucher = {
   remainingCents: number;
   currency: "eur";
   status: "active" | "used" | "expired" | "void" | "exhausted" | "revoked";
+  expiresAt: string | null;
   createdAt: string;
 };
 
@@ -74,3 +82,141 @@ export function useAdminVouchersQuery() {
     refetchOnWindowFocus: false,
   });
 }
+
+/**
+ * ============================================================
+ * ADMIN: VOUCHER LIFECYCLE + LEDGER
+ * ============================================================
+ *
+ * Backend routes:
+ * - POST /api/payments/admin/vouchers                  (manual issue)
+ * - POST /api/payments/admin/vouchers/:id/extend
+ * - POST /api/payments/admin/vouchers/:id/revoke
+ * - POST /api/payments/admin/vouchers/:id/adjust
+ * - GET  /api/payments/admin/vouchers/:id/transactions (ledger)
+ */
+
+export type VoucherTransaction = {
+  id: number;
+  voucherId: number;
+  kind: "issue" | "consume" | "adjust" | "extend" | "revoke" | "expire" | "reactivate";
+  // signed balance change
+  amountCents: number;
+  balanceAfterCents: number;
+  bookingId: number | null;
+  note: string | null;
+  createdAt: string;
+  booking: {
+    id: number;
+    startDate: string;
+    endDate: string;
+    property: { id: number; title: string } | null;
+  } | null;
+  createdBy: { id: number; name: string | null; email: string } | null;
+};
+
+export type AdminVoucherTransactionsResponse = {
+  voucher: CreditVoucher;
+  transactions: VoucherTransaction[];
+};
+
+export type AdminVoucherResponse = {
+  voucher: CreditVoucher;
+};
+
+async function fetchAdminVoucherTransactions(
+  id: number
+): Promise<AdminVoucherTransactionsResponse> {
+  const res = await api.get<AdminVoucherTransactionsResponse>(
+    `/api/payments/admin/vouchers/${id}/transactions`
+  );
+  return res.data;
+}
+
+async function issueVoucher(data: IssueVoucherInput): Promise<AdminVoucherResponse> {
+  const res = await api.post<AdminVoucherResponse>("/api/payments/admin/vouchers", data);
+  return res.data;
+}
+
+async function extendVoucher(id: number, data: ExtendVoucherInput): Promise<AdminVoucherResponse> {
+  const res = await api.post<AdminVoucherResponse>(
+    `/api/payments/admin/vouchers/${id}/extend`,
+    data
+  );
+  return res.data;
+}
+
+async function revokeVoucher(id: number, data: RevokeVoucherInput): Promise<AdminVoucherResponse> {
+  const res = await api.post<AdminVoucherResponse>(
+    `/api/payments/admin/vouchers/${id}/revoke`,
+    data
+  );
+  return res.data;
+}
+
+async function adjustVoucher(id: number, data: AdjustVoucherInput): Promise<AdminVoucherResponse> {
+  const res = await api.post<AdminVoucherResponse>(
+    `/api/payments/admin/vouchers/${id}/adjust`,
+    data
+  );
+  return res.data;
+}
+
+export function useAdminVoucherTransactionsQuery(id: number) {
+  return useQuery({
+    queryKey: ["admin-voucher-transactions", id],
+    queryFn: () => fetchAdminVoucherTransactions(id),
+    staleTime: 10_000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * Refreshes the voucher list and, for changes to one voucher, its ledger.
+ */
+function useInvalidateVouchers() {
+  const queryClient = useQueryClient();
+
+  return (id?: number) => {
+    queryClient.invalidateQueries({ queryKey: ["admin-vouchers"] });
+    if (id !== undefined) {
+      queryClient.invalidateQueries({ queryKey: ["admin-voucher-transactions", id] });
+    }
+  };
+}
+
+export function useIssueVoucherMutation() {
+  const invalidate = useInvalidateVouchers();
+
+  return useMutation({
+    mutationFn: issueVoucher,
+    onSuccess: () => invalidate(),
+  });
+}
+
+export function useExtendVoucherMutation() {
+  const invalidate = useInvalidateVouchers();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: ExtendVoucherInput }) => extendVoucher(id, data),
+    onSuccess: (_res, { id }) => invalidate(id),
+  });
+}
+
+export function useRevokeVoucherMutation() {
+  const invalidate = useInvalidateVouchers();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: RevokeVoucherInput }) => revokeVoucher(id, data),
+    onSuccess: (_res, { id }) => invalidate(id),
+  });
+}
+
+export function useAdjustVoucherMutation() {
+  const invalidate = useInvalidateVouchers();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: AdjustVoucherInput }) => adjustVoucher(id, data),
+    onSuccess: (_res, { id }) => invalidate(id),
+  });
+}
@@ -28,6 +28,12 @@ type FieldErrors = {
   children?: string;
   babies?: string;
 
+  pets?: string;
+  extraBeds?: string;
+
+  promoCode?: string;
+  arrivalTime?: string;
+
   guestName?: string;
   guestEmail?: string;
   guestPhone?: string;
@@ -54,9 +60,19 @@ export function BookingForm({
   const [children, setChildren] = useState(0);
   const [babies, setBabies] = useState(0);
 
+  // Stay extras (charged as per-stay fees when the property sets them)
+  const [pets, setPets] = useState(0);
+  const [extraBeds, setExtraBeds] = useState(0);
+
   // Optional credit usage
   const [useCredit, setUseCredit] = useState(false);
 
+  // Optional promo code (validated by the quote on the next step)
+  const [promoCode, setPromoCode] = useState("");
+
+  // Optional estimated arrival "HH:MM" (passed on to housekeeping)
+  const [arrivalTime, setArrivalTime] = useState("");
+
   const [guestName, setGuestName] = useState("");
   const [guestEmail, setGuestEmail] = useState("");
   const [guestPhone, setGuestPhone] = useState("");
@@ -128,7 +144,11 @@ export function BookingForm({
       adults,
       children,
       babies,
+      pets,
+      extraBeds,
       useCredit,
+      promoCode: promoCode.trim() || null,
+      arrivalTime: arrivalTime || null,
     });
 
     if (!result.success) {
@@ -146,6 +166,12 @@ export function BookingForm({
         children: flattened.fieldErrors.children?.[0],
         babies: flattened.fieldErrors.babies?.[0],
 
+        pets: flattened.fieldErrors.pets?.[0],
+        extraBeds: flattened.fieldErrors.extraBeds?.[0],
+
+        promoCode: flattened.fieldErrors.promoCode?.[0],
+        arrivalTime: flattened.fieldErrors.arrivalTime?.[0],
+
         guestName: flattened.fieldErrors.guestName?.[0],
         guestEmail: flattened.fieldErrors.guestEmail?.[0],
         guestPhone: flattened.fieldErrors.guestPhone?.[0],
@@ -175,10 +201,14 @@ export function BookingForm({
           adults: result.data.adults,
           children: result.data.children,
           babies: result.data.babies,
+          pets: result.data.pets,
+          extraBeds: result.data.extraBeds,
           guestName: result.data.guestName,
           guestEmail: result.data.guestEmail,
           guestPhone: result.data.guestPhone,
           useCredit: result.data.useCredit,
+          promoCode: result.data.promoCode ?? undefined,
+          arrivalTime: result.data.arrivalTime ?? undefined,
           note: note.trim() || undefined,
         },
       },
@@ -280,6 +310,45 @@ export function BookingForm({
             don’t count.
           </p>
 
+          {/* Stay extras */}
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <label className="block">
+              <span className="text-sm font-semibold text-slate-900">
+                Pets
+              </span>
+              <input
+                type="number"
+                min={0}
+                value={pets}
+                onChange={(e) => setPets(Number(e.target.value))}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-amber-300"
+              />
+              {fieldErrors.pets ? (
+                <p className="mt-1 text-xs text-red-600">{fieldErrors.pets}</p>
+              ) : null}
+            </label>
+
+            <label className="block">
+              <span className="text-sm font-semibold text-slate-900">
+                Extra beds
+              </span>
+              <input
+                type="number"
+                min={0}
+                value={extraBeds}
+                onChange={(e) => setExtraBeds(Number(e.target.value))}
+                className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-amber-300"
+              />
+              {fieldErrors.extraBeds ? (
+                <p className="mt-1 text-xs text-red-600">{fieldErrors.extraBeds}</p>
+              ) : null}
+            </label>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Pet and extra bed fees (if any) are shown on the next step.
+          </p>
+
           {/* Optional credit usage */}
           <label className="flex items-center gap-3 rounded-xl border border-slate-200 bg-white px-3 py-2">
             <input
@@ -294,6 +363,39 @@ export function BookingForm({
           </label>
           <FieldError msg={fieldErrors.useCredit} />
 
+          {/* Optional promo code */}
+          <label className="block">
+            <span className="text-sm font-semibold text-slate-900">
+              Promo code (optional)
+            </span>
+            <input
+              type="text"
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm uppercase text-slate-900 outline-none focus:border-amber-300"
+              placeholder="e.g. WELCOME10"
+            />
+            {fieldErrors.promoCode ? (
+              <p className="mt-1 text-xs text-red-600">{fieldErrors.promoCode}</p>
+            ) : null}
+          </label>
+
+          {/* Optional estimated arrival time */}
+          <label className="block">
+            <span className="text-sm font-semibold text-slate-900">
+              Estimated arrival time (optional)
+            </span>
+            <input
+              type="time"
+              value={arrivalTime}
+              onChange={(e) => setArrivalTime(e.target.value)}
+              className="mt-1 w-full rounded-xl border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-amber-300"
+            />
+            {fieldErrors.arrivalTime ? (
+              <p className="mt-1 text-xs text-red-600">{fieldErrors.arrivalTime}</p>
+            ) : null}
+          </label>
+
           {/* Guest details */}
           <label className="block">
             <span className="text-sm font-semibold text-slate-900">
@@ -61,6 +61,12 @@ export function Footer() {
             >
               Contact
             </Link>
+            <Link
+              to="/gift-cards"
+              className="block text-stone-200 hover:text-amber-300 transition-colors"
+            >
+              Gift cards
+            </Link>
           </nav>
         </div>
 
@@ -2,10 +2,14 @@ import FullCalendar from "@fullcalendar/react";
 import dayGridPlugin from "@fullcalendar/daygrid";
 import interactionPlugin from "@fullcalendar/interaction";
 import { useMemo, useState } from "react";
+import type { ExternalProvider } from "../../api/types";
+import { EXTERNAL_PROVIDER_LABELS } from "../../api/adminExternalCalendars";
+import { MANUAL_BLOCK_CATEGORY_LABELS } from "../../api/adminManualBlocks";
+import type { ManualBlockCategory } from "@shared/schemas/manualblock.schema";
 
 // If you already have types, keep them. Otherwise this is the shape expected:
-type CalendarBlock = {
-  source: "DIRECT" | "BOOKING_COM" | "MANUAL";
+export type CalendarBlock = {
+  source: "DIRECT" | "EXTERNAL" | "MANUAL";
   id: number;
   startDate: string; // ISO
   endDate: string; // ISO (checkout exclusive)
@@ -17,8 +21,19 @@ type CalendarBlock = {
   guestEmail?: string;
   guestPhone?: string;
 
+  // EXTERNAL only: channel + admin name of the iCal feed
+  provider?: ExternalProvider;
+  calendarName?: string;
+
   summary?: string;
-  reason?: string;
+  reason?: string | null;
+
+  // MANUAL only
+  category?: ManualBlockCategory;
+  seriesId?: string | null;
+
+  // Involved in an open channel double-booking conflict
+  hasConflict?: boolean;
 };
 
 type BookingPeriod = {
@@ -27,6 +42,7 @@ type BookingPeriod = {
   endDate: string; // ISO
   isOpen: boolean;
   standardNightlyPrice: number;
+  weekdayNightlyPrices?: Array<number | null> | null; // [sun..sat], null = standard
 
   // Booking.com-like weekly discount fields (bps)
   weeklyDiscountPercentBps?: number | null;
@@ -44,6 +60,11 @@ type Props = {
 
   // ✅ add this: the property base price to show when no period covers the day
   fallbackNightlyPrice: number;
+
+  // Drag across days -> YYYY-MM-DD range, end exclusive (e.g. to create a manual block)
+  onSelectRange?: (startDate: string, endDate: string) => void;
+  // "Edit" on a selected manual block
+  onEditManualBlock?: (block: CalendarBlock) => void;
 };
 
 // ---------- helpers ----------
@@ -53,6 +74,14 @@ function dateInRange(day: Date, startISO: string, endISO: string) {
   return day >= start && day < end; // checkout exclusive
 }
 
+/**
+ * Nightly price for a calendar day, honouring weekday overrides (index 0 = Sunday).
+ */
+function nightlyPriceForDay(p: BookingPeriod, day: Date) {
+  const override = p.weekdayNightlyPrices?.[day.getDay()];
+  return typeof override === "number" ? override : p.standardNightlyPrice;
+}
+
 function findPeriodForDay(periods: BookingPeriod[], day: Date) {
   return periods.find((p) => dateInRange(day, p.startDate, p.endDate));
 }
@@ -61,9 +90,12 @@ export default function AdminAvailabilityCalendar({
   blocks,
   periods,
   fallbackNightlyPrice,
+  onSelectRange,
+  onEditManualBlock,
 }: Props) {
   const [selectedDay, setSelectedDay] = useState<Date | null>(null);
-  const [selectedBlockId, setSelectedBlockId] = useState<number | null>(null);
+  // `${source}-${id}`: ids are only unique per source
+  const [selectedBlockKey, setSelectedBlockKey] = useState<string | null>(null);
 
   const periodsSafe = periods ?? [];
   const blocksSafe = blocks ?? [];
@@ -74,9 +106,9 @@ export default function AdminAvailabilityCalendar({
   }, [periodsSafe, selectedDay]);
 
   const selectedBlock = useMemo(() => {
-    if (selectedBlockId == null) return null;
-    return blocksSafe.find((b) => b.id === selectedBlockId) ?? null;
-  }, [blocksSafe, selectedBlockId]);
+    if (selectedBlockKey == null) return null;
+    return blocksSafe.find((b) => `${b.source}-${b.id}` === selectedBlockKey) ?? null;
+  }, [blocksSafe, selectedBlockKey]);
 
   // Build FullCalendar "events" from blocks (these are your big booking lines)
   const events = useMemo(() => {
@@ -84,9 +116,9 @@ export default function AdminAvailabilityCalendar({
       const title =
         b.source === "DIRECT"
           ? b.guestName ?? "Direct booking"
-          : b.source === "BOOKING_COM"
-          ? b.summary ?? "Booking.com reservation"
-          : b.reason ?? "Manual block";
+          : b.source === "EXTERNAL"
+          ? b.summary ?? `${EXTERNAL_PROVIDER_LABELS[b.provider ?? "OTHER"]} reservation`
+          : b.reason ?? (b.category ? MANUAL_BLOCK_CATEGORY_LABELS[b.category] : "Manual block");
 
       // FullCalendar expects end to be exclusive for allDay events -> perfect for your model
       return {
@@ -100,9 +132,10 @@ export default function AdminAvailabilityCalendar({
           "ev",
           b.source === "DIRECT"
             ? "ev-direct"
-            : b.source === "BOOKING_COM"
-            ? "ev-bcom"
+            : b.source === "EXTERNAL"
+            ? "ev-external"
             : "ev-manual",
+          ...(b.hasConflict ? ["ev-conflict"] : []),
         ],
       };
     });
@@ -118,12 +151,16 @@ export default function AdminAvailabilityCalendar({
         </span>
         <span className="inline-flex items-center gap-2">
           <span className="h-3.5 w-3.5 rounded-sm" style={{ background: "#f97316" }} />
-          Booking.com
+          Channel calendars (Booking.com, Airbnb, VRBO…)
         </span>
         <span className="inline-flex items-center gap-2">
           <span className="h-3.5 w-3.5 rounded-sm" style={{ background: "#6b7280" }} />
           Manual block
         </span>
+        <span className="inline-flex items-center gap-2">
+          <span className="h-3.5 w-3.5 rounded-sm border-2" style={{ borderColor: "#dc2626" }} />
+          Conflict (double booking risk)
+        </span>
         <span className="inline-flex items-center gap-2">
           <span className="h-3.5 w-3.5 rounded-sm" style={{ background: "#e5e7eb" }} />
           Closed (closed period)
@@ -141,13 +178,18 @@ export default function AdminAvailabilityCalendar({
           dayMaxEventRows={3}
           events={events}
           eventDisplay="block"
+          selectable={Boolean(onSelectRange)}
+          select={(arg) => {
+            // allDay selection: endStr is already the exclusive "checkout" day
+            onSelectRange?.(arg.startStr.slice(0, 10), arg.endStr.slice(0, 10));
+          }}
           dateClick={(arg) => {
             setSelectedDay(arg.date);
-            setSelectedBlockId(null);
+            setSelectedBlockKey(null);
           }}
           eventClick={(arg) => {
             const props = arg.event.extendedProps as CalendarBlock;
-            setSelectedBlockId(props.id);
+            setSelectedBlockKey(`${props.source}-${props.id}`);
             setSelectedDay(new Date(arg.event.startStr));
           }}
           // Day cell: number + price under it
@@ -163,7 +205,7 @@ export default function AdminAvailabilityCalendar({
               p == null
                 ? ""
                 : p.isOpen
-                ? `€${p.standardNightlyPrice}`
+                ? `€${nightlyPriceForDay(p, day)}`
                 : "";
 
             return {
@@ -194,6 +236,7 @@ export default function AdminAvailabilityCalendar({
         {!selectedDay && (
           <p className="text-base text-slate-500 font-medium">
             Click a day to see period pricing/rules. Click a booking line to see booking details.
+            {onSelectRange ? " Drag across days to block them." : ""}
           </p>
         )}
 
@@ -217,6 +260,11 @@ export default function AdminAvailabilityCalendar({
                   <div className="mt-2 text-sm text-slate-700">
                     <div>
                       Nightly: <span className="font-semibold">€{selectedPeriod.standardNightlyPrice}</span>
+                      {selectedDay ? (
+                        <span className="ml-2 text-slate-500">
+                          (this day: €{nightlyPriceForDay(selectedPeriod, selectedDay)})
+                        </span>
+                      ) : null}
                     </div>
                     <div>
                       Min nights (arrival): <span className="font-semibold">{selectedPeriod.minNights}</span>
@@ -256,6 +304,13 @@ export default function AdminAvailabilityCalendar({
                   {selectedBlock.endDate.slice(0, 10)}
                 </div>
 
+                {selectedBlock.hasConflict ? (
+                  <div className="mt-1 text-sm font-semibold text-red-700">
+                    Conflict: overlaps another reservation for these dates. Resolve it on the
+                    channel or here.
+                  </div>
+                ) : null}
+
                 {selectedBlock.source === "DIRECT" ? (
                   <>
                     <div className="mt-1 text-sm text-slate-700">
@@ -270,14 +325,33 @@ export default function AdminAvailabilityCalendar({
                       <span className="font-semibold">€{selectedBlock.totalPrice}</span>
                     </div>
                   </>
-                ) : selectedBlock.source === "BOOKING_COM" ? (
+                ) : selectedBlock.source === "EXTERNAL" ? (
                   <div className="mt-1 text-sm text-slate-700">
-                    Summary: <span className="font-semibold">{selectedBlock.summary ?? "Reserved"}</span>
+                    {EXTERNAL_PROVIDER_LABELS[selectedBlock.provider ?? "OTHER"]}
+                    {selectedBlock.calendarName ? ` (${selectedBlock.calendarName})` : ""} · Summary:{" "}
+                    <span className="font-semibold">{selectedBlock.summary ?? "Reserved"}</span>
                   </div>
                 ) : (
-                  <div className="mt-1 text-sm text-slate-700">
-                    Reason: <span className="font-semibold">{selectedBlock.reason ?? "Blocked"}</span>
-                  </div>
+                  <>
+                    <div className="mt-1 text-sm text-slate-700">
+                      {selectedBlock.category
+                        ? `${MANUAL_BLOCK_CATEGORY_LABELS[selectedBlock.category]} · `
+                        : ""}
+                      Reason: <span className="font-semibold">{selectedBlock.reason ?? "Blocked"}</span>
+                      {selectedBlock.seriesId ? (
+                        <span className="ml-2 text-slate-500">(recurring)</span>
+                      ) : null}
+                    </div>
+                    {onEditManualBlock ? (
+                      <button
+                        type="button"
+                        onClick={() => onEditManualBlock(selectedBlock)}
+                        className="mt-2 text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                      >
+                        Edit block
+                      </button>
+                    ) : null}
+                  </>
                 )}
               </div>
             ) : (
@@ -344,8 +418,8 @@ export default function AdminAvailabilityCalendar({
           color: #1c1917;
         }
 
-        /* ✅ BOOKING.COM → BLUE */
-        .admin-big-calendar .fc .ev-bcom {
+        /* ✅ CHANNEL CALENDARS → BLUE */
+        .admin-big-calendar .fc .ev-external {
           background: linear-gradient(135deg, #2563eb, #1d4ed8);
           color: white;
         }
@@ -361,7 +435,7 @@ export default function AdminAvailabilityCalendar({
           background: #2563eb;
           color: white;
         }
-        .admin-big-calendar .fc .ev-bcom {
+        .admin-big-calendar .fc .ev-external {
           background: #f97316;
           color: white;
         }
@@ -370,6 +444,12 @@ export default function AdminAvailabilityCalendar({
           color: white;
         }
 
+        /* Open calendar conflict → red outline on top of the source color */
+        .admin-big-calendar .fc .ev-conflict {
+          outline: 3px solid #dc2626;
+          outline-offset: -3px;
+        }
+
         /* Make the bar look like a "line" */
         .admin-big-calendar .fc .fc-daygrid-event-harness {
           margin-top: 6px;
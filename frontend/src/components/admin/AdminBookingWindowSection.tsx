@@ -0,0 +1,300 @@
+import { useMemo, useState } from "react";
+import {
+  useAdminBookingWindowDiscountsQuery,
+  useCreateBookingWindowDiscountMutation,
+  useDeleteBookingWindowDiscountMutation,
+  useUpdateBookingWindowDiscountMutation,
+  type BookingWindowDiscount,
+} from "../../api/adminBookingWindow";
+import { useAdminPropertiesQuery } from "../../api/admin";
+import { getApiErrorMessage } from "../../api/apiError";
+
+type RuleForm = {
+  propertyId: number | "";
+  name: string;
+  kind: BookingWindowDiscount["kind"];
+  daysBefore: number | "";
+  discountPercent: number | "";
+  stackingPolicy: BookingWindowDiscount["stackingPolicy"];
+  validFrom: string;
+  validTo: string;
+};
+
+const EMPTY_FORM: RuleForm = {
+  propertyId: "",
+  name: "Early bird",
+  kind: "early_bird",
+  daysBefore: 90,
+  discountPercent: 10,
+  stackingPolicy: "best_of",
+  validFrom: "",
+  validTo: "",
+};
+
+const STACKING_LABELS: Record<BookingWindowDiscount["stackingPolicy"], string> = {
+  stack: "stacks with length-of-stay discount",
+  exclusive: "only without length-of-stay discount",
+  best_of: "best of this or length-of-stay discount",
+};
+
+function describeRule(r: BookingWindowDiscount) {
+  const when =
+    r.kind === "early_bird"
+      ? `booked ${r.daysBefore}+ days ahead`
+      : `booked within ${r.daysBefore} days of arrival`;
+
+  const validity =
+    r.validFrom || r.validTo
+      ? ` · check-in ${r.validFrom?.slice(0, 10) ?? "…"} → ${r.validTo?.slice(0, 10) ?? "…"}`
+      : "";
+
+  return `${(r.discountBps / 100).toFixed(0)}% off when ${when} · ${STACKING_LABELS[r.stackingPolicy]}${validity}`;
+}
+
+/**
+ * AdminBookingWindowSection
+ *
+ * Early-bird and last-minute discount rules per property.
+ * Applied by the backend pricing engine to new quotes/bookings only.
+ */
+export default function AdminBookingWindowSection() {
+  const { data: rulesData, isLoading, error } = useAdminBookingWindowDiscountsQuery();
+  const { data: propertiesData } = useAdminPropertiesQuery();
+
+  const createRule = useCreateBookingWindowDiscountMutation();
+  const updateRule = useUpdateBookingWindowDiscountMutation();
+  const deleteRule = useDeleteBookingWindowDiscountMutation();
+
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const rules = rulesData?.rules ?? [];
+  const properties = useMemo(() => propertiesData?.properties ?? [], [propertiesData]);
+
+  function onCreate() {
+    setFormError(null);
+
+    if (form.propertyId === "" || form.daysBefore === "" || form.discountPercent === "") {
+      setFormError("Property, days and discount are required.");
+      return;
+    }
+
+    createRule.mutate(
+      {
+        propertyId: Number(form.propertyId),
+        name: form.name.trim(),
+        kind: form.kind,
+        daysBefore: Number(form.daysBefore),
+        discountBps: Math.round(Number(form.discountPercent) * 100),
+        stackingPolicy: form.stackingPolicy,
+        validFrom: form.validFrom || null,
+        validTo: form.validTo || null,
+        isActive: true,
+      },
+      {
+        onSuccess: () => setForm(EMPTY_FORM),
+        onError: (err) => setFormError(getApiErrorMessage(err, "Could not create discount rule.")),
+      }
+    );
+  }
+
+  function onDelete(r: BookingWindowDiscount) {
+    if (!window.confirm(`Delete "${r.name}"? Existing bookings keep their discount.`)) return;
+    deleteRule.mutate(r.id);
+  }
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">Early-bird &amp; last-minute</h2>
+        <p className="text-sm text-slate-500">
+          Discounts based on how far ahead guests book. The best matching rule applies; the policy
+          decides how it combines with length-of-stay discounts.
+        </p>
+      </div>
+
+      {/* Rules */}
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading discount rules…</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">
+            {getApiErrorMessage(error, "Could not load discount rules.")}
+          </p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-slate-500">No early-bird or last-minute rules yet.</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {rules.map((r) => (
+              <div key={r.id} className="p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-900">{r.name}</span>
+                    <span className="text-xs text-slate-500">{r.property.title}</span>
+                    <span
+                      className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                        r.isActive ? "bg-green-100 text-green-700" : "bg-slate-200 text-slate-700"
+                      }`}
+                    >
+                      {r.isActive ? "ACTIVE" : "INACTIVE"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-600 mt-1">{describeRule(r)}</div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => updateRule.mutate({ id: r.id, data: { isActive: !r.isActive } })}
+                    className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                  >
+                    {r.isActive ? "Disable" : "Enable"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(r)}
+                    className="text-xs px-3 py-2 rounded border border-red-300 text-red-700 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create rule */}
+      <div className="border rounded-lg p-4 bg-slate-50 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">Add rule</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Property</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.propertyId}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  propertyId: e.target.value === "" ? "" : Number(e.target.value),
+                }))
+              }
+            >
+              <option value="">Select property…</option>
+              {properties.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Kind</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.kind}
+              onChange={(e) =>
+                setForm((f) => ({ ...f, kind: e.target.value as BookingWindowDiscount["kind"] }))
+              }
+            >
+              <option value="early_bird">Early bird (at least N days ahead)</option>
+              <option value="last_minute">Last minute (within N days)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Days before check-in</label>
+            <input
+              type="number"
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.daysBefore}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  daysBefore: e.target.value === "" ? "" : Number(e.target.value),
+                }))
+              }
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Discount (%)</label>
+            <input
+              type="number"
+              step="0.01"
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.discountPercent}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  discountPercent: e.target.value === "" ? "" : Number(e.target.value),
+                }))
+              }
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">With length-of-stay discount</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.stackingPolicy}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  stackingPolicy: e.target.value as BookingWindowDiscount["stackingPolicy"],
+                }))
+              }
+            >
+              <option value="best_of">Best of the two</option>
+              <option value="stack">Stack</option>
+              <option value="exclusive">Only without it</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Check-in from (optional)</label>
+            <input
+              type="date"
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.validFrom}
+              onChange={(e) => setForm((f) => ({ ...f, validFrom: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Check-in to (optional)</label>
+            <input
+              type="date"
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.validTo}
+              onChange={(e) => setForm((f) => ({ ...f, validTo: e.target.value }))}
+            />
+            <p className="text-xs text-slate-500 mt-1">Exclusive</p>
+          </div>
+        </div>
+
+        {formError ? <p className="text-sm text-red-600">{formError}</p> : null}
+
+        <button
+          type="button"
+          onClick={onCreate}
+          disabled={createRule.isPending}
+          className="px-4 py-2 text-sm rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+        >
+          {createRule.isPending ? "Saving..." : "Add rule"}
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -1,6 +1,8 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useAdminBookingsQuery } from "../../api/admin";
-import type { AdminBooking } from "../../api/types";
+import { EXTERNAL_PROVIDER_LABELS } from "../../api/adminExternalCalendars";
+import BookingGoodwillPanel from "./BookingGoodwillPanel";
+import type { AdminBooking, ExternalProvider, PriceBreakdown } from "../../api/types";
 
 function formatRange(startDate: string, endDate: string) {
   const fmt = (d: string) =>
@@ -14,7 +16,7 @@ function formatRange(startDate: string, endDate: string) {
 }
 
 function badgeClass(source: string, status?: string) {
-  if (source === "BOOKING_COM") return "bg-orange-100 text-orange-700";
+  if (source === "EXTERNAL") return "bg-orange-100 text-orange-700";
   if (source === "MANUAL") return "bg-slate-200 text-slate-700";
   if (status === "confirmed") return "bg-green-100 text-green-700";
   if (status === "cancelled") return "bg-red-100 text-red-700";
@@ -32,10 +34,10 @@ function badgeClass(source: string, status?: string) {
  *   because they are real bookings (not manualBlock records) and contain guest/payment/price info.
  *
  * Therefore we separate:
- * - category: what the badge + filter shows (DIRECT | BOOKING_COM | MANUAL)
+ * - category: what the badge + filter shows (DIRECT | EXTERNAL | MANUAL)
  * - kind: what details panel renders (BOOKING vs BLOCK)
  */
-type DisplayCategory = "DIRECT" | "BOOKING_COM" | "MANUAL";
+type DisplayCategory = "DIRECT" | "EXTERNAL" | "MANUAL";
 type DetailsKind = "BOOKING" | "BLOCK";
 
 function isAdminDirectBooking(b: any) {
@@ -45,7 +47,7 @@ function isAdminDirectBooking(b: any) {
 function displayCategory(b: any): DisplayCategory {
   const s = (b?.source ?? "DIRECT") as string;
 
-  if (s === "BOOKING_COM") return "BOOKING_COM";
+  if (s === "EXTERNAL") return "EXTERNAL";
   if (s === "MANUAL") return "MANUAL";
 
   // Admin-created DIRECT bookings are shown as MANUAL in this UI
@@ -60,16 +62,20 @@ function detailsKind(b: any): DetailsKind {
 
   const s = (b?.source ?? "DIRECT") as string;
   if (s === "DIRECT") return "BOOKING";
-  if (s === "BOOKING_COM") return "BOOKING";
+  if (s === "EXTERNAL") return "BOOKING";
   return "BLOCK";
 }
 
 function getStatus(b: any, category: DisplayCategory) {
   if (category === "DIRECT") return b?.status ?? "pending";
-  if (category === "BOOKING_COM") return "confirmed";
+  if (category === "EXTERNAL") return "confirmed";
   return "blocked";
 }
 
+function channelLabel(b: { provider?: ExternalProvider }) {
+  return b.provider ? EXTERNAL_PROVIDER_LABELS[b.provider] : "Channel";
+}
+
 function keyOf(b: any) {
   // Stable key based on DB identity, not UI category (category can be derived/mapped)
   const raw = (b?.source ?? "DIRECT") as string;
@@ -110,7 +116,7 @@ function parseBookingId(input: string): number | null {
 const AdminBookingsSection: React.FC = () => {
   const [query, setQuery] = useState("");
   const [sourceFilter, setSourceFilter] =
-    useState<"ALL" | "DIRECT" | "BOOKING_COM" | "MANUAL">("ALL");
+    useState<"ALL" | "DIRECT" | "EXTERNAL" | "MANUAL">("ALL");
 
   const [showPast, setShowPast] = useState(false);
   const [showCancelled, setShowCancelled] = useState(false);
@@ -301,14 +307,22 @@ const AdminBookingsSection: React.FC = () => {
   const counts = useMemo(() => {
     const all = bookings as any[];
     const direct = all.filter((b) => displayCategory(b) === "DIRECT").length;
-    const bcom = all.filter((b) => displayCategory(b) === "BOOKING_COM").length;
+    const external = all.filter((b) => displayCategory(b) === "EXTERNAL").length;
     const manual = all.filter((b) => displayCategory(b) === "MANUAL").length;
+    const conflicts = all.filter((b) => b.hasConflict).length;
 
     const cancelledCount = (cancelledBookings as any[]).filter(
       (b) => displayCategory(b) === "DIRECT"
     ).length;
 
-    return { total: all.length, direct, bcom, manual, cancelledLoaded: cancelledCount };
+    return {
+      total: all.length,
+      direct,
+      external,
+      manual,
+      conflicts,
+      cancelledLoaded: cancelledCount,
+    };
   }, [bookings, cancelledBookings]);
 
   function Row({ b }: { b: any }) {
@@ -331,8 +345,8 @@ const AdminBookingsSection: React.FC = () => {
     let info = "—";
     if (kind === "BOOKING") {
       info = `${b?.guestName ?? ""}${b?.guestEmail ? ` · ${b.guestEmail}` : ""}`;
-    } else if (category === "BOOKING_COM") {
-      info = b?.summary ?? "Booking.com reservation";
+    } else if (category === "EXTERNAL") {
+      info = b?.summary ?? `${channelLabel(b)} reservation`;
     } else {
       info = b?.reason ?? "Manual block";
     }
@@ -341,7 +355,7 @@ const AdminBookingsSection: React.FC = () => {
     const total = kind === "BOOKING" ? `€${b?.totalPrice ?? 0}` : "—";
 
     return (
-      <div className="border rounded-lg bg-white">
+      <div className={`border rounded-lg bg-white ${b?.hasConflict ? "border-red-400" : ""}`}>
         <button
           type="button"
           onClick={() => setOpenKey((prev) => (prev === k ? null : k))}
@@ -359,6 +373,15 @@ const AdminBookingsSection: React.FC = () => {
                 {category}
               </span>
 
+              {b?.hasConflict && (
+                <span
+                  className="text-xs font-semibold px-2 py-1 rounded-full bg-red-600 text-white"
+                  title="Overlaps another reservation for these dates (double booking risk)"
+                >
+                  CONFLICT
+                </span>
+              )}
+
               <div className="font-semibold text-slate-900 truncate">
                 {propertyTitle}
                 {kind === "BOOKING" && (
@@ -402,6 +425,12 @@ const AdminBookingsSection: React.FC = () => {
                   <div className="font-semibold text-slate-900">{b.guestName}</div>
                   <div className="text-slate-700">{b.guestEmail}</div>
                   <div className="text-slate-700">{b.guestPhone}</div>
+                  {b.arrivalTime ? (
+                    <div className="text-slate-700">Arrival: {b.arrivalTime}</div>
+                  ) : null}
+                  {b.ratePlan === "non_refundable" ? (
+                    <div className="text-amber-700 font-semibold">Non-refundable rate</div>
+                  ) : null}
                 </div>
 
                 <div className="rounded border bg-white p-3">
@@ -439,10 +468,21 @@ const AdminBookingsSection: React.FC = () => {
                     <div className="text-slate-700">
                       Cash paid (Stripe):{" "}
                       <span className="font-semibold text-slate-900">
-                        €{(((b.payment?.amountCents ?? 0) as number) / 100).toFixed(2)}
+                        €{(((b.payment?.paidCents ?? b.payment?.amountCents ?? 0) as number) / 100).toFixed(2)}
                       </span>
                     </div>
 
+                    {b.payment?.schedule === "deposit" &&
+                      b.status !== "cancelled" &&
+                      (b.payment.paidCents ?? 0) < b.payment.amountCents && (
+                        <div className="text-slate-700">
+                          Balance outstanding:{" "}
+                          <span className="font-semibold text-amber-800">
+                            €{((b.payment.amountCents - (b.payment.paidCents ?? 0)) / 100).toFixed(2)}
+                          </span>
+                        </div>
+                      )}
+
                     <div className="text-slate-700">
                       Cash refunded:{" "}
                       <span className="font-semibold text-slate-900">
@@ -491,15 +531,47 @@ const AdminBookingsSection: React.FC = () => {
                       <span className="font-semibold text-slate-900">€{b.totalPrice}</span>
                     </div>
 
+                    {b.priceBreakdown?.lineItems?.length ? (
+                      <div className="mt-2 space-y-0.5 border-t pt-2">
+                        {(b.priceBreakdown as PriceBreakdown).lineItems!.map((li, idx) => (
+                          <div key={idx} className="flex justify-between gap-3 text-xs text-slate-700">
+                            <span>
+                              {li.label}
+                              {li.from && li.to ? (
+                                <span className="ml-1 text-slate-500">
+                                  ({li.from} → {li.to})
+                                </span>
+                              ) : null}
+                            </span>
+                            <span className="font-semibold text-slate-900">
+                              €{(li.amountCents / 100).toFixed(2)}
+                            </span>
+                          </div>
+                        ))}
+                        <div className="text-[11px] text-slate-500">
+                          Pricing v{b.priceBreakdown.pricingVersion ?? 0}
+                        </div>
+                      </div>
+                    ) : null}
+
                     <div className="text-xs text-slate-500 mt-2">
                       Nights are calculated from start/end dates (date-only).
                     </div>
                   </div>
                 </div>
+
+                {category === "DIRECT" ? (
+                  <div className="md:col-span-2">
+                    <BookingGoodwillPanel bookingId={b.id} />
+                  </div>
+                ) : null}
               </div>
-            ) : category === "BOOKING_COM" ? (
+            ) : category === "EXTERNAL" ? (
               <div className="mt-2 rounded border bg-white p-3 text-sm">
-                <div className="text-xs font-semibold text-slate-500 mb-1">Booking.com</div>
+                <div className="text-xs font-semibold text-slate-500 mb-1">
+                  {channelLabel(b)}
+                  {b.calendarName ? ` · ${b.calendarName}` : ""}
+                </div>
                 <div className="font-semibold text-slate-900">{b.summary ?? "Reserved"}</div>
                 <div className="text-slate-700">Note: iCal usually doesn’t include guest contact details.</div>
               </div>
@@ -544,7 +616,7 @@ const AdminBookingsSection: React.FC = () => {
           >
             <option value="ALL">All sources</option>
             <option value="DIRECT">Site (DIRECT)</option>
-            <option value="BOOKING_COM">Booking.com</option>
+            <option value="EXTERNAL">Channels (Booking.com, Airbnb, VRBO…)</option>
             <option value="MANUAL">Manual</option>
           </select>
 
@@ -577,11 +649,16 @@ const AdminBookingsSection: React.FC = () => {
           Direct: {counts.direct}
         </span>
         <span className="px-2 py-1 rounded-full bg-orange-100 text-orange-700 font-semibold">
-          Booking.com: {counts.bcom}
+          Channels: {counts.external}
         </span>
         <span className="px-2 py-1 rounded-full bg-slate-200 text-slate-700 font-semibold">
           Manual: {counts.manual}
         </span>
+        {counts.conflicts > 0 && (
+          <span className="px-2 py-1 rounded-full bg-red-600 text-white font-semibold">
+            Conflicts: {counts.conflicts}
+          </span>
+        )}
         {showCancelled && (
           <span className="px-2 py-1 rounded-full bg-red-100 text-red-700 font-semibold">
             Cancelled loaded: {counts.cancelledLoaded}
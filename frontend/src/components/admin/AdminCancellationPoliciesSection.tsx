@@ -0,0 +1,374 @@
+import { useState } from "react";
+import {
+  useAdminCancellationPoliciesQuery,
+  useCreateCancellationPolicyMutation,
+  useDeleteCancellationPolicyMutation,
+  useUpdateCancellationPolicyMutation,
+  type CancellationPolicy,
+} from "../../api/adminCancellationPolicies";
+import { getApiErrorMessage } from "../../api/apiError";
+
+type TierForm = {
+  minDaysBefore: number | "";
+  refundPercent: number | "";
+  voucherPercent: number | "";
+  description: string;
+};
+
+type PolicyForm = {
+  key: string;
+  name: string;
+  description: string;
+  isDefault: boolean;
+  tiers: TierForm[];
+};
+
+const EMPTY_TIER: TierForm = {
+  minDaysBefore: "",
+  refundPercent: 0,
+  voucherPercent: 0,
+  description: "",
+};
+
+const EMPTY_FORM: PolicyForm = {
+  key: "",
+  name: "",
+  description: "",
+  isDefault: false,
+  tiers: [
+    { minDaysBefore: 30, refundPercent: 100, voucherPercent: 0, description: "" },
+    { minDaysBefore: 0, refundPercent: 0, voucherPercent: 0, description: "" },
+  ],
+};
+
+function pct(bps: number) {
+  return `${Number((bps / 100).toFixed(2))}%`;
+}
+
+/**
+ * "60+ days: 100% refund · 0+ days: 80% voucher" summary, highest tier first.
+ */
+function describeTiers(p: CancellationPolicy) {
+  return [...p.tiers]
+    .sort((a, b) => b.minDaysBefore - a.minDaysBefore)
+    .map((t) => {
+      const parts = [
+        t.refundBps > 0 ? `${pct(t.refundBps)} refund` : null,
+        t.voucherBps > 0 ? `${pct(t.voucherBps)} voucher` : null,
+      ].filter(Boolean);
+      return `${t.minDaysBefore}+ days: ${parts.length ? parts.join(" + ") : "nothing"}`;
+    })
+    .join(" · ");
+}
+
+function toForm(p: CancellationPolicy): PolicyForm {
+  return {
+    key: p.key,
+    name: p.name,
+    description: p.description ?? "",
+    isDefault: p.isDefault,
+    tiers: p.tiers.map((t) => ({
+      minDaysBefore: t.minDaysBefore,
+      refundPercent: t.refundBps / 100,
+      voucherPercent: t.voucherBps / 100,
+      description: t.description ?? "",
+    })),
+  };
+}
+
+/**
+ * AdminCancellationPoliciesSection
+ *
+ * Named cancellation policies (refund tiers), assigned on properties and periods.
+ * Changes only apply to new bookings: each booking keeps the terms it was made with.
+ */
+export default function AdminCancellationPoliciesSection() {
+  const { data, isLoading, error } = useAdminCancellationPoliciesQuery();
+
+  const createPolicy = useCreateCancellationPolicyMutation();
+  const updatePolicy = useUpdateCancellationPolicyMutation();
+  const deletePolicy = useDeleteCancellationPolicyMutation();
+
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const policies = data?.policies ?? [];
+  const saving = createPolicy.isPending || updatePolicy.isPending;
+
+  function resetForm() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setFormError(null);
+  }
+
+  function patchTier(index: number, patch: Partial<TierForm>) {
+    setForm((f) => ({
+      ...f,
+      tiers: f.tiers.map((t, i) => (i === index ? { ...t, ...patch } : t)),
+    }));
+  }
+
+  function onSubmit() {
+    setFormError(null);
+
+    if (
+      form.tiers.some(
+        (t) => t.minDaysBefore === "" || t.refundPercent === "" || t.voucherPercent === ""
+      )
+    ) {
+      setFormError("Every tier needs days, refund and voucher percentages.");
+      return;
+    }
+
+    const payload = {
+      key: form.key.trim(),
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      isDefault: form.isDefault,
+      tiers: form.tiers.map((t) => ({
+        minDaysBefore: Number(t.minDaysBefore),
+        refundBps: Math.round(Number(t.refundPercent) * 100),
+        voucherBps: Math.round(Number(t.voucherPercent) * 100),
+        description: t.description.trim() || null,
+      })),
+    };
+
+    const options = {
+      onSuccess: resetForm,
+      onError: (err: unknown) =>
+        setFormError(getApiErrorMessage(err, "Could not save cancellation policy.")),
+    };
+
+    if (editingId !== null) {
+      updatePolicy.mutate({ id: editingId, data: payload }, options);
+    } else {
+      createPolicy.mutate(payload, options);
+    }
+  }
+
+  function onDelete(p: CancellationPolicy) {
+    if (!window.confirm(`Delete "${p.name}"? Existing bookings keep their terms.`)) return;
+    deletePolicy.mutate(p.id, {
+      onError: (err) => window.alert(getApiErrorMessage(err, "Could not delete policy.")),
+    });
+  }
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">Cancellation policies</h2>
+        <p className="text-sm text-slate-500">
+          Refund tiers by days before check-in. A stay gets its arrival period's policy, else the
+          villa's, else the default. Edits only apply to new bookings.
+        </p>
+      </div>
+
+      {/* Policies */}
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading cancellation policies…</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">
+            {getApiErrorMessage(error, "Could not load cancellation policies.")}
+          </p>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-slate-500">No cancellation policies yet.</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {policies.map((p) => (
+              <div
+                key={p.id}
+                className="p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-900">{p.name}</span>
+                    <span className="text-xs text-slate-500">{p.key}</span>
+                    {p.isDefault ? (
+                      <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-green-100 text-green-700">
+                        DEFAULT
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="text-xs text-slate-600 mt-1">{describeTiers(p)}</div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    Used by {p._count.properties} villa{p._count.properties === 1 ? "" : "s"} ·{" "}
+                    {p._count.bookingPeriods} period{p._count.bookingPeriods === 1 ? "" : "s"}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  {!p.isDefault ? (
+                    <button
+                      type="button"
+                      onClick={() => updatePolicy.mutate({ id: p.id, data: { isDefault: true } })}
+                      className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                    >
+                      Make default
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingId(p.id);
+                      setForm(toForm(p));
+                      setFormError(null);
+                    }}
+                    className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(p)}
+                    className="text-xs px-3 py-2 rounded border border-red-300 text-red-700 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create / edit policy */}
+      <div className="border rounded-lg p-4 bg-slate-50 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">
+          {editingId !== null ? "Edit policy" : "Add policy"}
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Key</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              placeholder="e.g. flexible"
+              value={form.key}
+              onChange={(e) => setForm((f) => ({ ...f, key: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Name (shown to guests)</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Description (optional)</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.description}
+              onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Tiers</div>
+          {form.tiers.map((t, i) => (
+            <div key={i} className="grid grid-cols-2 md:grid-cols-[1fr_1fr_1fr_2fr_auto] gap-2">
+              <input
+                type="number"
+                className="border rounded px-3 py-2 text-sm"
+                placeholder="Days before"
+                value={t.minDaysBefore}
+                onChange={(e) =>
+                  patchTier(i, {
+                    minDaysBefore: e.target.value === "" ? "" : Number(e.target.value),
+                  })
+                }
+              />
+              <input
+                type="number"
+                step="0.01"
+                className="border rounded px-3 py-2 text-sm"
+                placeholder="Refund %"
+                value={t.refundPercent}
+                onChange={(e) =>
+                  patchTier(i, {
+                    refundPercent: e.target.value === "" ? "" : Number(e.target.value),
+                  })
+                }
+              />
+              <input
+                type="number"
+                step="0.01"
+                className="border rounded px-3 py-2 text-sm"
+                placeholder="Voucher %"
+                value={t.voucherPercent}
+                onChange={(e) =>
+                  patchTier(i, {
+                    voucherPercent: e.target.value === "" ? "" : Number(e.target.value),
+                  })
+                }
+              />
+              <input
+                className="border rounded px-3 py-2 text-sm"
+                placeholder="Guest text (optional)"
+                value={t.description}
+                onChange={(e) => patchTier(i, { description: e.target.value })}
+              />
+              <button
+                type="button"
+                disabled={form.tiers.length === 1}
+                onClick={() =>
+                  setForm((f) => ({ ...f, tiers: f.tiers.filter((_, j) => j !== i) }))
+                }
+                className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+          <p className="text-xs text-slate-500">
+            Days = from how many days before check-in the tier applies; one tier must start at 0.
+          </p>
+          <button
+            type="button"
+            onClick={() => setForm((f) => ({ ...f, tiers: [...f.tiers, EMPTY_TIER] }))}
+            className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+          >
+            Add tier
+          </button>
+        </div>
+
+        <label className="inline-flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={form.isDefault}
+            onChange={(e) => setForm((f) => ({ ...f, isDefault: e.target.checked }))}
+          />
+          Default policy (villas and periods without their own)
+        </label>
+
+        {formError ? <p className="text-sm text-red-600">{formError}</p> : null}
+
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={onSubmit}
+            disabled={saving}
+            className="px-4 py-2 text-sm rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+          >
+            {saving ? "Saving..." : editingId !== null ? "Save policy" : "Add policy"}
+          </button>
+          {editingId !== null ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-sm rounded border border-slate-300 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,370 @@
+import { useMemo, useState } from "react";
+import {
+  EXTERNAL_PROVIDER_LABELS,
+  useAdminExternalCalendarsQuery,
+  useCreateExternalCalendarMutation,
+  useDeleteExternalCalendarMutation,
+  useSyncExternalCalendarMutation,
+  useUpdateExternalCalendarMutation,
+  type ExternalCalendar,
+  type ExternalCalendarSyncResult,
+} from "../../api/adminExternalCalendars";
+import type { ExternalProvider } from "../../api/types";
+import { useAdminPropertiesQuery } from "../../api/admin";
+import { getApiErrorMessage } from "../../api/apiError";
+
+type FeedForm = {
+  propertyId: number | "";
+  provider: ExternalProvider;
+  name: string;
+  icalUrl: string;
+  staleAlertHours: number | "";
+};
+
+const EMPTY_FORM: FeedForm = {
+  propertyId: "",
+  provider: "AIRBNB",
+  name: "",
+  icalUrl: "",
+  staleAlertHours: 12,
+};
+
+const PROVIDERS = Object.keys(EXTERNAL_PROVIDER_LABELS) as ExternalProvider[];
+
+function describeSync(sync: ExternalCalendarSyncResult | null) {
+  if (!sync) return null;
+  if (sync.synced) return `Synced: ${sync.count} reservation(s) imported.`;
+  if (sync.reason === "not_modified") return "Feed unchanged since the last sync.";
+  return `Sync failed (${sync.reason}). Check the URL.`;
+}
+
+/**
+ * AdminChannelCalendarsSection
+ *
+ * Imported iCal feeds per villa (Booking.com, Airbnb, VRBO or any other channel).
+ * Every feed is synced every 15 minutes; its reservations block the dates on the site.
+ */
+export default function AdminChannelCalendarsSection() {
+  const { data: calendarsData, isLoading, error } = useAdminExternalCalendarsQuery();
+  const { data: propertiesData } = useAdminPropertiesQuery();
+
+  const createFeed = useCreateExternalCalendarMutation();
+  const updateFeed = useUpdateExternalCalendarMutation();
+  const deleteFeed = useDeleteExternalCalendarMutation();
+  const syncFeed = useSyncExternalCalendarMutation();
+
+  const [propertyFilter, setPropertyFilter] = useState<number | "">("");
+  const [form, setForm] = useState<FeedForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const properties = useMemo(() => propertiesData?.properties ?? [], [propertiesData]);
+
+  const calendars = useMemo(() => {
+    const all = calendarsData?.calendars ?? [];
+    return propertyFilter === "" ? all : all.filter((c) => c.propertyId === propertyFilter);
+  }, [calendarsData, propertyFilter]);
+
+  function resetForm() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setFormError(null);
+  }
+
+  function onEdit(c: ExternalCalendar) {
+    setEditingId(c.id);
+    setFormError(null);
+    setForm({
+      propertyId: c.propertyId,
+      provider: c.provider,
+      name: c.name,
+      icalUrl: c.icalUrl,
+      staleAlertHours: c.staleAlertHours,
+    });
+  }
+
+  function onSubmit() {
+    setFormError(null);
+    setNotice(null);
+
+    if (form.propertyId === "" || !form.name.trim() || !form.icalUrl.trim()) {
+      setFormError("Property, name and iCal URL are required.");
+      return;
+    }
+
+    const staleAlertHours = form.staleAlertHours === "" ? undefined : Number(form.staleAlertHours);
+
+    const onSuccess = (res: { sync: ExternalCalendarSyncResult | null }) => {
+      setNotice(describeSync(res.sync));
+      resetForm();
+    };
+
+    if (editingId !== null) {
+      updateFeed.mutate(
+        {
+          id: editingId,
+          data: {
+            provider: form.provider,
+            name: form.name.trim(),
+            icalUrl: form.icalUrl.trim(),
+            staleAlertHours,
+          },
+        },
+        {
+          onSuccess,
+          onError: (err) => setFormError(getApiErrorMessage(err, "Could not update the feed.")),
+        }
+      );
+      return;
+    }
+
+    createFeed.mutate(
+      {
+        propertyId: Number(form.propertyId),
+        provider: form.provider,
+        name: form.name.trim(),
+        icalUrl: form.icalUrl.trim(),
+        isEnabled: true,
+        staleAlertHours,
+      },
+      {
+        onSuccess,
+        onError: (err) => setFormError(getApiErrorMessage(err, "Could not add the feed.")),
+      }
+    );
+  }
+
+  function onSync(c: ExternalCalendar) {
+    setNotice(null);
+    syncFeed.mutate(c.id, {
+      onSuccess: (res) => setNotice(`${c.name}: ${describeSync(res.sync)}`),
+      onError: (err) => setNotice(getApiErrorMessage(err, "Sync failed.")),
+    });
+  }
+
+  function onDelete(c: ExternalCalendar) {
+    if (
+      !window.confirm(
+        `Delete "${c.name}"? Its ${c._count.blocks} imported reservation(s) will no longer block dates.`
+      )
+    ) {
+      return;
+    }
+    if (editingId === c.id) resetForm();
+    deleteFeed.mutate(c.id);
+  }
+
+  const saving = createFeed.isPending || updateFeed.isPending;
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Channel calendars</h2>
+          <p className="text-sm text-slate-500">
+            iCal feeds imported from Booking.com, Airbnb, VRBO and other channels. A villa can have
+            several feeds; each is synced every 15 minutes.
+          </p>
+        </div>
+
+        <select
+          className="border rounded px-3 py-2 text-sm bg-white"
+          value={propertyFilter}
+          onChange={(e) => setPropertyFilter(e.target.value === "" ? "" : Number(e.target.value))}
+        >
+          <option value="">All villas</option>
+          {properties.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.title}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {notice ? <p className="text-sm text-slate-700">{notice}</p> : null}
+
+      {/* Feeds */}
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading feeds…</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{getApiErrorMessage(error, "Could not load feeds.")}</p>
+        ) : calendars.length === 0 ? (
+          <p className="text-sm text-slate-500">No channel feeds yet.</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {calendars.map((c) => (
+              <div
+                key={c.id}
+                className="p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-900">{c.name}</span>
+                    <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-orange-100 text-orange-700">
+                      {EXTERNAL_PROVIDER_LABELS[c.provider]}
+                    </span>
+                    <span className="text-xs text-slate-500">{c.property.title}</span>
+                    <span
+                      className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                        c.isEnabled ? "bg-green-100 text-green-700" : "bg-slate-200 text-slate-700"
+                      }`}
+                    >
+                      {c.isEnabled ? "ENABLED" : "DISABLED"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-600 mt-1 truncate">{c.icalUrl}</div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {c._count.blocks} imported reservation(s) · Last sync:{" "}
+                    {c.lastSyncAt ? new Date(c.lastSyncAt).toLocaleString("en-GB") : "never"}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2 shrink-0">
+                  <button
+                    type="button"
+                    onClick={() => onSync(c)}
+                    disabled={!c.isEnabled || syncFeed.isPending}
+                    className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100 disabled:opacity-60"
+                  >
+                    Sync now
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onEdit(c)}
+                    className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => updateFeed.mutate({ id: c.id, data: { isEnabled: !c.isEnabled } })}
+                    className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                  >
+                    {c.isEnabled ? "Disable" : "Enable"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(c)}
+                    className="text-xs px-3 py-2 rounded border border-red-300 text-red-700 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Add / edit feed */}
+      <div className="border rounded-lg p-4 bg-slate-50 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">
+          {editingId !== null ? "Edit feed" : "Add feed"}
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Villa</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.propertyId}
+              disabled={editingId !== null}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  propertyId: e.target.value === "" ? "" : Number(e.target.value),
+                }))
+              }
+            >
+              <option value="">Select villa…</option>
+              {properties.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Channel</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.provider}
+              onChange={(e) =>
+                setForm((f) => ({ ...f, provider: e.target.value as ExternalProvider }))
+              }
+            >
+              {PROVIDERS.map((p) => (
+                <option key={p} value={p}>
+                  {EXTERNAL_PROVIDER_LABELS[p]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              placeholder="e.g. Airbnb - main listing"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium mb-1">iCal URL</label>
+            <input
+              type="url"
+              className="w-full border rounded px-3 py-2 text-sm"
+              placeholder="Paste the channel's calendar export .ics link"
+              value={form.icalUrl}
+              onChange={(e) => setForm((f) => ({ ...f, icalUrl: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Alert after (hours)</label>
+            <input
+              type="number"
+              min={1}
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.staleAlertHours}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  staleAlertHours: e.target.value === "" ? "" : Number(e.target.value),
+                }))
+              }
+            />
+            <p className="text-xs text-slate-500 mt-1">Admin email when not synced for this long</p>
+          </div>
+        </div>
+
+        {formError ? <p className="text-sm text-red-600">{formError}</p> : null}
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onSubmit}
+            disabled={saving}
+            className="px-4 py-2 text-sm rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+          >
+            {saving ? "Saving..." : editingId !== null ? "Save feed" : "Add feed"}
+          </button>
+          {editingId !== null ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-sm rounded border border-slate-300 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useAdminGiftCardsQuery, type GiftCardStatus } from "../../api/giftCards";
+import { getApiErrorMessage } from "../../api/apiError";
+
+function euros(cents: number) {
+  return `€${(cents / 100).toFixed(2)}`;
+}
+
+const STATUS_LABELS: Record<GiftCardStatus, string> = {
+  pending_payment: "Awaiting payment",
+  paid: "Paid (not sent yet)",
+  delivered: "Sent",
+  redeemed: "Redeemed",
+};
+
+/**
+ * AdminGiftCardsSection
+ *
+ * Sold gift cards and outstanding liability:
+ * - unredeemed cards (paid / sent) are owed in full
+ * - redeemed cards are owed as the unused balance of the voucher they became
+ */
+export default function AdminGiftCardsSection() {
+  const [status, setStatus] = useState<GiftCardStatus | "">("");
+  const { data, isLoading, error, refetch } = useAdminGiftCardsQuery(status);
+
+  const giftCards = data?.giftCards ?? [];
+  const liability = data?.liability;
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Gift cards</h2>
+          <p className="text-sm text-slate-500">
+            Purchased on the public gift card page; codes are emailed to the recipient on the
+            chosen date and redeemed into vouchers.
+          </p>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as GiftCardStatus | "")}
+            className="h-9 rounded-lg border border-slate-200 bg-white px-3 text-sm"
+          >
+            <option value="">All</option>
+            {(Object.keys(STATUS_LABELS) as GiftCardStatus[]).map((s) => (
+              <option key={s} value={s}>
+                {STATUS_LABELS[s]}
+              </option>
+            ))}
+          </select>
+
+          <button
+            onClick={() => refetch()}
+            className="h-9 rounded-lg bg-slate-900 px-3 text-sm font-semibold text-white hover:bg-slate-800"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {liability ? (
+        <div className="flex flex-wrap gap-2">
+          <span className="inline-flex items-center rounded-full bg-amber-100 px-3 py-1 text-xs font-semibold text-amber-900">
+            Outstanding liability: {euros(liability.totalCents)}
+          </span>
+          <span className="inline-flex items-center rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">
+            Unredeemed: {liability.unredeemedCount} · {euros(liability.unredeemedCents)}
+          </span>
+          <span className="inline-flex items-center rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">
+            Redeemed, unused credit: {liability.redeemedOpenCount} ·{" "}
+            {euros(liability.redeemedOpenCents)}
+          </span>
+        </div>
+      ) : null}
+
+      {error ? (
+        <div className="rounded-lg border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">
+          {getApiErrorMessage(error, "Failed to load gift cards")}
+        </div>
+      ) : null}
+
+      {isLoading ? (
+        <div className="text-sm text-slate-500">Loading…</div>
+      ) : giftCards.length === 0 ? (
+        <div className="text-sm text-slate-500">No gift cards found.</div>
+      ) : (
+        <div className="overflow-x-auto border border-slate-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-slate-50">
+              <tr className="text-left text-slate-600">
+                <th className="px-3 py-2">Code</th>
+                <th className="px-3 py-2">Amount</th>
+                <th className="px-3 py-2">Purchaser</th>
+                <th className="px-3 py-2">Recipient</th>
+                <th className="px-3 py-2">Send on</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Voucher</th>
+              </tr>
+            </thead>
+            <tbody>
+              {giftCards.map((g) => (
+                <tr key={g.id} className="border-t border-slate-200">
+                  <td className="px-3 py-2 font-mono text-xs text-slate-900">{g.code}</td>
+                  <td className="px-3 py-2 font-semibold text-slate-900">{euros(g.amountCents)}</td>
+
+                  <td className="px-3 py-2">
+                    <div className="text-slate-900 font-medium">{g.purchaserName}</div>
+                    <div className="text-slate-500 text-xs">{g.purchaserEmail}</div>
+                  </td>
+
+                  <td className="px-3 py-2">
+                    <div className="text-slate-900 font-medium">{g.recipientName}</div>
+                    <div className="text-slate-500 text-xs">{g.recipientEmail}</div>
+                  </td>
+
+                  <td className="px-3 py-2 text-slate-600">
+                    {new Date(g.deliverAt).toLocaleDateString()}
+                  </td>
+
+                  <td className="px-3 py-2">
+                    <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-700">
+                      {STATUS_LABELS[g.status] ?? g.status}
+                    </span>
+                    {g.redeemedBy ? (
+                      <div className="text-slate-500 text-xs mt-1">
+                        by {g.redeemedBy.name ?? g.redeemedBy.email}
+                      </div>
+                    ) : null}
+                  </td>
+
+                  <td className="px-3 py-2 text-slate-700">
+                    {g.creditVoucher
+                      ? `#${g.creditVoucher.id} · ${euros(g.creditVoucher.remainingCents)} left · ${g.creditVoucher.status}`
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,519 @@
+import { useMemo, useState } from "react";
+import {
+  icalExportFeedUrl,
+  useAdminIcalExportAccessQuery,
+  useAdminIcalExportsQuery,
+  useCreateIcalExportMutation,
+  useDeleteIcalExportMutation,
+  useRevokeIcalExportMutation,
+  useRotateIcalExportMutation,
+  useUpdateIcalExportMutation,
+  type IcalExportFeed,
+} from "../../api/adminIcalExports";
+import { EXTERNAL_PROVIDER_LABELS } from "../../api/adminExternalCalendars";
+import type { ExternalProvider } from "../../api/types";
+import type { IcalExportKind } from "@shared/schemas/icalexport.schema";
+import { useAdminPropertiesQuery } from "../../api/admin";
+import { getApiErrorMessage } from "../../api/apiError";
+
+type FeedForm = {
+  kind: IcalExportKind;
+  // "all" = every villa (housekeeping links only)
+  propertyId: number | "" | "all";
+  name: string;
+  includeDirect: boolean;
+  includeManual: boolean;
+  includeExternal: boolean;
+  consumerProvider: ExternalProvider | "";
+};
+
+const EMPTY_FORM: FeedForm = {
+  kind: "AVAILABILITY",
+  propertyId: "",
+  name: "",
+  includeDirect: true,
+  includeManual: true,
+  includeExternal: false,
+  consumerProvider: "",
+};
+
+const PROVIDERS = Object.keys(EXTERNAL_PROVIDER_LABELS) as ExternalProvider[];
+
+const CONTENT_FIELDS: Array<{
+  key: "includeDirect" | "includeManual" | "includeExternal";
+  label: string;
+}> = [
+  { key: "includeDirect", label: "Site bookings" },
+  { key: "includeManual", label: "Manual blocks" },
+  { key: "includeExternal", label: "Other channels' reservations" },
+];
+
+function formatDateTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-GB") : "never";
+}
+
+const KIND_LABELS: Record<IcalExportKind, string> = {
+  AVAILABILITY: "Availability (dates only)",
+  HOUSEKEEPING: "Housekeeping (guest details)",
+};
+
+function contentText(f: IcalExportFeed) {
+  if (f.kind === "HOUSEKEEPING") {
+    return "guest names & counts · extra beds · arrival times · turnovers";
+  }
+  const parts = CONTENT_FIELDS.filter((c) => f[c.key]).map((c) => c.label.toLowerCase());
+  return parts.length ? parts.join(" · ") : "nothing";
+}
+
+/**
+ * Latest fetches of one feed (newest first).
+ */
+function AccessLogTable({ feedId }: { feedId: number }) {
+  const { data, isLoading, error } = useAdminIcalExportAccessQuery(feedId);
+  const accesses = data?.accesses ?? [];
+
+  if (isLoading) return <p className="text-sm text-slate-500">Loading access log…</p>;
+  if (error) {
+    return (
+      <p className="text-sm text-red-600">{getApiErrorMessage(error, "Could not load access log.")}</p>
+    );
+  }
+  if (accesses.length === 0) return <p className="text-sm text-slate-500">Never fetched yet.</p>;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-1 pr-3">When</th>
+            <th className="py-1 pr-3">Status</th>
+            <th className="py-1 pr-3">IP</th>
+            <th className="py-1">User agent</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {accesses.map((a) => (
+            <tr key={a.id} className={a.statusCode === 200 ? "text-slate-700" : "text-red-700"}>
+              <td className="py-1 pr-3 whitespace-nowrap">{formatDateTime(a.accessedAt)}</td>
+              <td className="py-1 pr-3">{a.statusCode}</td>
+              <td className="py-1 pr-3">{a.ip ?? "—"}</td>
+              <td className="py-1 break-all">{a.userAgent ?? ""}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * AdminIcalExportsSection
+ *
+ * Private calendar links of each villa, one per consumer (Booking.com, Airbnb, the cleaner's
+ * phone...). Each link can be rotated or revoked on its own; every fetch is logged.
+ */
+export default function AdminIcalExportsSection() {
+  const { data: feedsData, isLoading, error } = useAdminIcalExportsQuery();
+  const { data: propertiesData } = useAdminPropertiesQuery();
+
+  const createFeed = useCreateIcalExportMutation();
+  const updateFeed = useUpdateIcalExportMutation();
+  const rotateFeed = useRotateIcalExportMutation();
+  const revokeFeed = useRevokeIcalExportMutation();
+  const deleteFeed = useDeleteIcalExportMutation();
+
+  const [propertyFilter, setPropertyFilter] = useState<number | "">("");
+  const [form, setForm] = useState<FeedForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [logId, setLogId] = useState<number | null>(null);
+
+  const properties = useMemo(() => propertiesData?.properties ?? [], [propertiesData]);
+
+  const feeds = useMemo(() => {
+    const all = feedsData?.feeds ?? [];
+    return propertyFilter === "" ? all : all.filter((f) => f.propertyId === propertyFilter);
+  }, [feedsData, propertyFilter]);
+
+  function resetForm() {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+    setFormError(null);
+  }
+
+  function onEdit(f: IcalExportFeed) {
+    setEditingId(f.id);
+    setFormError(null);
+    setForm({
+      kind: f.kind,
+      propertyId: f.propertyId ?? "all",
+      name: f.name,
+      includeDirect: f.includeDirect,
+      includeManual: f.includeManual,
+      includeExternal: f.includeExternal,
+      consumerProvider: f.consumerProvider ?? "",
+    });
+  }
+
+  function onSubmit() {
+    setFormError(null);
+    setNotice(null);
+
+    if (form.propertyId === "" || !form.name.trim()) {
+      setFormError("Villa and name are required.");
+      return;
+    }
+
+    const options = {
+      name: form.name.trim(),
+      includeDirect: form.includeDirect,
+      includeManual: form.includeManual,
+      includeExternal: form.includeExternal,
+      consumerProvider: form.consumerProvider === "" ? null : form.consumerProvider,
+    };
+
+    if (editingId !== null) {
+      updateFeed.mutate(
+        { id: editingId, data: options },
+        {
+          onSuccess: resetForm,
+          onError: (err) => setFormError(getApiErrorMessage(err, "Could not update the link.")),
+        }
+      );
+      return;
+    }
+
+    createFeed.mutate(
+      {
+        kind: form.kind,
+        propertyId: form.propertyId === "all" ? null : Number(form.propertyId),
+        ...options,
+      },
+      {
+        onSuccess: () => {
+          setNotice("Link created. Copy it into the consumer's calendar import.");
+          resetForm();
+        },
+        onError: (err) => setFormError(getApiErrorMessage(err, "Could not create the link.")),
+      }
+    );
+  }
+
+  async function onCopy(f: IcalExportFeed) {
+    try {
+      await navigator.clipboard.writeText(icalExportFeedUrl(f.token));
+      setNotice(`${f.name}: link copied.`);
+    } catch {
+      setNotice(icalExportFeedUrl(f.token));
+    }
+  }
+
+  function onRotate(f: IcalExportFeed) {
+    if (!window.confirm(`Rotate "${f.name}"? The current link stops working immediately.`)) return;
+    setNotice(null);
+    rotateFeed.mutate(f.id, {
+      onSuccess: () => setNotice(`${f.name}: new link generated. Update it at the consumer.`),
+      onError: (err) => setNotice(getApiErrorMessage(err, "Could not rotate the link.")),
+    });
+  }
+
+  function onRevoke(f: IcalExportFeed) {
+    if (!window.confirm(`Revoke "${f.name}"? The link will stop working.`)) return;
+    setNotice(null);
+    revokeFeed.mutate(f.id, {
+      onError: (err) => setNotice(getApiErrorMessage(err, "Could not revoke the link.")),
+    });
+  }
+
+  function onDelete(f: IcalExportFeed) {
+    if (!window.confirm(`Delete "${f.name}" and its access log?`)) return;
+    if (editingId === f.id) resetForm();
+    if (logId === f.id) setLogId(null);
+    deleteFeed.mutate(f.id);
+  }
+
+  const saving = createFeed.isPending || updateFeed.isPending;
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Calendar export links</h2>
+          <p className="text-sm text-slate-500">
+            Private iCal links of each villa, one per consumer (channel, cleaner, owner). Rotate or
+            revoke a link without touching the others.
+          </p>
+        </div>
+
+        <select
+          className="border rounded px-3 py-2 text-sm bg-white"
+          value={propertyFilter}
+          onChange={(e) => setPropertyFilter(e.target.value === "" ? "" : Number(e.target.value))}
+        >
+          <option value="">All villas</option>
+          {properties.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.title}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {notice ? <p className="text-sm text-slate-700 break-all">{notice}</p> : null}
+
+      {/* Links */}
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading links…</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{getApiErrorMessage(error, "Could not load links.")}</p>
+        ) : feeds.length === 0 ? (
+          <p className="text-sm text-slate-500">No export links yet.</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {feeds.map((f) => {
+              const showLog = logId === f.id;
+
+              return (
+                <div key={f.id} className="p-3 space-y-2">
+                  <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-slate-900">{f.name}</span>
+                        <span className="text-xs text-slate-500">
+                          {f.property?.title ?? "All villas"}
+                        </span>
+                        {f.kind === "HOUSEKEEPING" ? (
+                          <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-sky-100 text-sky-700">
+                            HOUSEKEEPING
+                          </span>
+                        ) : null}
+                        {f.consumerProvider ? (
+                          <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-orange-100 text-orange-700">
+                            {EXTERNAL_PROVIDER_LABELS[f.consumerProvider]}
+                          </span>
+                        ) : null}
+                        <span
+                          className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                            f.revokedAt ? "bg-red-100 text-red-700" : "bg-green-100 text-green-700"
+                          }`}
+                        >
+                          {f.revokedAt ? "REVOKED" : "ACTIVE"}
+                        </span>
+                      </div>
+                      <div className="text-xs text-slate-600 mt-1">Contains: {contentText(f)}</div>
+                      <div className="text-xs text-slate-500 mt-1">
+                        {f.accessCount} fetch(es) · Last fetched: {formatDateTime(f.lastAccessAt)}
+                        {f.rotatedAt ? ` · Rotated ${formatDateTime(f.rotatedAt)}` : ""}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => onCopy(f)}
+                        disabled={Boolean(f.revokedAt)}
+                        className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100 disabled:opacity-60"
+                      >
+                        Copy link
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onEdit(f)}
+                        className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setLogId(showLog ? null : f.id)}
+                        className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                        aria-expanded={showLog}
+                      >
+                        {showLog ? "Hide log" : "Access log"}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onRotate(f)}
+                        disabled={rotateFeed.isPending}
+                        className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100 disabled:opacity-60"
+                      >
+                        Rotate
+                      </button>
+                      {!f.revokedAt ? (
+                        <button
+                          type="button"
+                          onClick={() => onRevoke(f)}
+                          disabled={revokeFeed.isPending}
+                          className="text-xs px-3 py-2 rounded border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-60"
+                        >
+                          Revoke
+                        </button>
+                      ) : null}
+                      <button
+                        type="button"
+                        onClick={() => onDelete(f)}
+                        className="text-xs px-3 py-2 rounded border border-red-300 text-red-700 hover:bg-red-50"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+
+                  {showLog ? (
+                    <div className="rounded border bg-slate-50 p-3">
+                      <AccessLogTable feedId={f.id} />
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Add / edit link */}
+      <div className="border rounded-lg p-4 bg-slate-50 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">
+          {editingId !== null ? "Edit link" : "New link"}
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium mb-1">Type</label>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(KIND_LABELS) as IcalExportKind[]).map((k) => (
+                <label key={k} className="inline-flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="ical-export-kind"
+                    checked={form.kind === k}
+                    disabled={editingId !== null}
+                    onChange={() =>
+                      setForm((f) => ({
+                        ...f,
+                        kind: k,
+                        propertyId: k === "AVAILABILITY" && f.propertyId === "all" ? "" : f.propertyId,
+                        consumerProvider: k === "HOUSEKEEPING" ? "" : f.consumerProvider,
+                      }))
+                    }
+                  />
+                  {KIND_LABELS[k]}
+                </label>
+              ))}
+            </div>
+            {form.kind === "HOUSEKEEPING" ? (
+              <p className="text-xs text-slate-500 mt-1">
+                For owner / staff phones only: includes guest names and arrival times. Never
+                give it to a channel.
+              </p>
+            ) : null}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Villa</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.propertyId}
+              disabled={editingId !== null}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  propertyId:
+                    e.target.value === "" || e.target.value === "all"
+                      ? e.target.value
+                      : Number(e.target.value),
+                }))
+              }
+            >
+              <option value="">Select villa…</option>
+              {form.kind === "HOUSEKEEPING" ? <option value="all">All villas</option> : null}
+              {properties.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              placeholder="e.g. Cleaner's phone"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            />
+          </div>
+
+          {form.kind === "AVAILABILITY" ? (
+            <>
+              <div>
+                <label className="block text-sm font-medium mb-1">Imported by channel</label>
+                <select
+                  className="w-full border rounded px-3 py-2 text-sm bg-white"
+                  value={form.consumerProvider}
+                  onChange={(e) =>
+                    setForm((f) => ({
+                      ...f,
+                      consumerProvider: e.target.value as ExternalProvider | "",
+                    }))
+                  }
+                >
+                  <option value="">None (person / other app)</option>
+                  {PROVIDERS.map((p) => (
+                    <option key={p} value={p}>
+                      {EXTERNAL_PROVIDER_LABELS[p]}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-slate-500 mt-1">
+                  That channel's own reservations are never sent back to it
+                </p>
+              </div>
+
+              <div className="md:col-span-3">
+                <label className="block text-sm font-medium mb-1">Contains</label>
+                <div className="flex flex-wrap gap-4">
+                  {CONTENT_FIELDS.map((c) => (
+                    <label key={c.key} className="inline-flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form[c.key]}
+                        onChange={(e) => setForm((f) => ({ ...f, [c.key]: e.target.checked }))}
+                      />
+                      {c.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            </>
+          ) : null}
+        </div>
+
+        {formError ? <p className="text-sm text-red-600">{formError}</p> : null}
+
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onSubmit}
+            disabled={saving}
+            className="px-4 py-2 text-sm rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+          >
+            {saving ? "Saving..." : editingId !== null ? "Save link" : "Create link"}
+          </button>
+          {editingId !== null ? (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-sm rounded border border-slate-300 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </section>
+  );
+}
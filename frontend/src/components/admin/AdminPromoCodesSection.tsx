@@ -0,0 +1,372 @@
+import { useMemo, useState } from "react";
+import {
+  useAdminPromoCodesQuery,
+  useAdminPromoRedemptionsQuery,
+  useCreatePromoCodeMutation,
+  useDeletePromoCodeMutation,
+  useUpdatePromoCodeMutation,
+  type PromoCode,
+} from "../../api/adminPromo";
+import { useAdminPropertiesQuery } from "../../api/admin";
+import { getApiErrorMessage } from "../../api/apiError";
+
+type CodeForm = {
+  code: string;
+  description: string;
+  kind: PromoCode["kind"];
+  percent: number | "";
+  amountCents: number | "";
+  propertyId: number | "";
+  stayFrom: string;
+  stayTo: string;
+  bookableFrom: string;
+  bookableTo: string;
+  maxRedemptions: number | "";
+  perUserLimit: number | "";
+  minNights: number | "";
+};
+
+const EMPTY_FORM: CodeForm = {
+  code: "",
+  description: "",
+  kind: "percent",
+  percent: 10,
+  amountCents: "",
+  propertyId: "",
+  stayFrom: "",
+  stayTo: "",
+  bookableFrom: "",
+  bookableTo: "",
+  maxRedemptions: "",
+  perUserLimit: 1,
+  minNights: "",
+};
+
+function euros(cents: number) {
+  return `€${(cents / 100).toFixed(2)}`;
+}
+
+function windowText(label: string, from: string | null, to: string | null) {
+  return from || to ? `${label} ${from?.slice(0, 10) ?? "…"} → ${to?.slice(0, 10) ?? "…"}` : null;
+}
+
+function describeCode(c: PromoCode) {
+  return [
+    c.kind === "percent" ? `${((c.percentBps ?? 0) / 100).toFixed(0)}% off` : `${euros(c.amountCents ?? 0)} off`,
+    c.property ? c.property.title : "all properties",
+    windowText("stay", c.stayFrom, c.stayTo),
+    windowText("book", c.bookableFrom, c.bookableTo),
+    c.minNights ? `min ${c.minNights} nights` : null,
+    c.perUserLimit ? `${c.perUserLimit}× per guest` : null,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Redemption ledger of one code (loaded on demand).
+ */
+function PromoRedemptionsList({ promoCodeId }: { promoCodeId: number }) {
+  const { data, isLoading, error } = useAdminPromoRedemptionsQuery(promoCodeId);
+
+  if (isLoading) return <p className="text-xs text-slate-500">Loading redemptions…</p>;
+  if (error) {
+    return (
+      <p className="text-xs text-red-600">{getApiErrorMessage(error, "Could not load redemptions.")}</p>
+    );
+  }
+
+  const rows = data?.redemptions ?? [];
+  if (rows.length === 0) return <p className="text-xs text-slate-500">Not redeemed yet.</p>;
+
+  return (
+    <div className="overflow-x-auto border rounded bg-white">
+      <table className="min-w-full text-xs">
+        <thead className="bg-slate-100 text-left text-slate-600">
+          <tr>
+            <th className="px-3 py-2">Booking</th>
+            <th className="px-3 py-2">Property</th>
+            <th className="px-3 py-2">Guest</th>
+            <th className="px-3 py-2">Dates</th>
+            <th className="px-3 py-2">Status</th>
+            <th className="px-3 py-2 text-right">Discount</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {rows.map((r) => (
+            <tr key={r.id} className={r.booking.status === "cancelled" ? "text-slate-400" : ""}>
+              <td className="px-3 py-2">#{r.bookingId}</td>
+              <td className="px-3 py-2">{r.booking.property.title}</td>
+              <td className="px-3 py-2">
+                {r.booking.guestName} <span className="text-slate-500">{r.booking.guestEmail}</span>
+              </td>
+              <td className="px-3 py-2">
+                {r.booking.startDate.slice(0, 10)} → {r.booking.endDate.slice(0, 10)}
+              </td>
+              <td className="px-3 py-2">{r.booking.status}</td>
+              <td className="px-3 py-2 text-right font-semibold">{euros(r.discountCents)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * AdminPromoCodesSection
+ *
+ * Promo codes for direct bookings (newsletter, returning guests) + redemption tracking.
+ * - Codes are checked and priced by the backend on quote and booking creation
+ * - Redemptions on cancelled bookings do not count against the limits
+ */
+export default function AdminPromoCodesSection() {
+  const { data: codesData, isLoading, error } = useAdminPromoCodesQuery();
+  const { data: propertiesData } = useAdminPropertiesQuery();
+
+  const createCode = useCreatePromoCodeMutation();
+  const updateCode = useUpdatePromoCodeMutation();
+  const deleteCode = useDeletePromoCodeMutation();
+
+  const [form, setForm] = useState<CodeForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [listError, setListError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  const codes = codesData?.codes ?? [];
+  const properties = useMemo(() => propertiesData?.properties ?? [], [propertiesData]);
+
+  const numOrNull = (v: number | "") => (v === "" ? null : Number(v));
+
+  function onCreate() {
+    setFormError(null);
+
+    createCode.mutate(
+      {
+        code: form.code.trim(),
+        description: form.description.trim() || null,
+        kind: form.kind,
+        percentBps:
+          form.kind === "percent" && form.percent !== "" ? Math.round(Number(form.percent) * 100) : null,
+        amountCents: form.kind === "fixed" ? numOrNull(form.amountCents) : null,
+        propertyId: numOrNull(form.propertyId),
+        stayFrom: form.stayFrom || null,
+        stayTo: form.stayTo || null,
+        bookableFrom: form.bookableFrom || null,
+        bookableTo: form.bookableTo || null,
+        maxRedemptions: numOrNull(form.maxRedemptions),
+        perUserLimit: numOrNull(form.perUserLimit),
+        minNights: numOrNull(form.minNights),
+        isActive: true,
+      },
+      {
+        onSuccess: () => setForm(EMPTY_FORM),
+        onError: (err) => setFormError(getApiErrorMessage(err, "Could not create promo code.")),
+      }
+    );
+  }
+
+  function onDelete(c: PromoCode) {
+    if (!window.confirm(`Delete promo code ${c.code}?`)) return;
+    setListError(null);
+    deleteCode.mutate(c.id, {
+      onError: (err) => setListError(getApiErrorMessage(err, "Could not delete promo code.")),
+    });
+  }
+
+  const dateInput = (key: "stayFrom" | "stayTo" | "bookableFrom" | "bookableTo", label: string) => (
+    <div>
+      <label className="block text-sm font-medium mb-1">{label}</label>
+      <input
+        type="date"
+        className="w-full border rounded px-3 py-2 text-sm"
+        value={form[key]}
+        onChange={(e) => setForm((f) => ({ ...f, [key]: e.target.value }))}
+      />
+    </div>
+  );
+
+  const numberInput = (
+    key: "amountCents" | "maxRedemptions" | "perUserLimit" | "minNights" | "percent",
+    label: string,
+    placeholder?: string
+  ) => (
+    <div>
+      <label className="block text-sm font-medium mb-1">{label}</label>
+      <input
+        type="number"
+        className="w-full border rounded px-3 py-2 text-sm"
+        placeholder={placeholder}
+        value={form[key]}
+        onChange={(e) =>
+          setForm((f) => ({ ...f, [key]: e.target.value === "" ? "" : Number(e.target.value) }))
+        }
+      />
+    </div>
+  );
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">Promo codes</h2>
+        <p className="text-sm text-slate-500">
+          Codes for returning guests and newsletter subscribers. Discounts apply to the
+          accommodation only (not fees or taxes).
+        </p>
+      </div>
+
+      {/* Codes */}
+      <div className="space-y-2">
+        {listError ? <p className="text-sm text-red-600">{listError}</p> : null}
+
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading promo codes…</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{getApiErrorMessage(error, "Could not load promo codes.")}</p>
+        ) : codes.length === 0 ? (
+          <p className="text-sm text-slate-500">No promo codes yet.</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {codes.map((c) => (
+              <div key={c.id} className="p-3 space-y-2">
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-semibold text-slate-900">{c.code}</span>
+                      <span
+                        className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                          c.isActive ? "bg-green-100 text-green-700" : "bg-slate-200 text-slate-700"
+                        }`}
+                      >
+                        {c.isActive ? "ACTIVE" : "INACTIVE"}
+                      </span>
+                      <span className="text-xs text-slate-600">
+                        {c.redemptions}
+                        {c.maxRedemptions ? ` / ${c.maxRedemptions}` : ""} used ·{" "}
+                        {euros(c.discountCents)} given
+                      </span>
+                    </div>
+                    <div className="text-xs text-slate-600 mt-1">{describeCode(c)}</div>
+                    {c.description ? (
+                      <div className="text-xs text-slate-500 mt-1">{c.description}</div>
+                    ) : null}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => setOpenId(openId === c.id ? null : c.id)}
+                      className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                    >
+                      {openId === c.id ? "Hide redemptions" : "Redemptions"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => updateCode.mutate({ id: c.id, data: { isActive: !c.isActive } })}
+                      className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                    >
+                      {c.isActive ? "Disable" : "Enable"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(c)}
+                      className="text-xs px-3 py-2 rounded border border-red-300 text-red-700 hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {openId === c.id ? <PromoRedemptionsList promoCodeId={c.id} /> : null}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create code */}
+      <div className="border rounded-lg p-4 bg-slate-50 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">Create promo code</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Code</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm font-mono uppercase"
+              placeholder="WELCOME10"
+              value={form.code}
+              onChange={(e) => setForm((f) => ({ ...f, code: e.target.value.toUpperCase() }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Kind</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.kind}
+              onChange={(e) => setForm((f) => ({ ...f, kind: e.target.value as PromoCode["kind"] }))}
+            >
+              <option value="percent">Percent off</option>
+              <option value="fixed">Fixed amount off</option>
+            </select>
+          </div>
+
+          {form.kind === "percent"
+            ? numberInput("percent", "Discount (%)")
+            : numberInput("amountCents", "Amount (cents)", "5000 = €50.00")}
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Property</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.propertyId}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  propertyId: e.target.value === "" ? "" : Number(e.target.value),
+                }))
+              }
+            >
+              <option value="">All properties</option>
+              {properties.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {numberInput("minNights", "Min nights (optional)")}
+          {numberInput("maxRedemptions", "Max redemptions (optional)")}
+          {numberInput("perUserLimit", "Per guest limit (optional)")}
+
+          {dateInput("stayFrom", "Stay from (optional)")}
+          {dateInput("stayTo", "Stay to (optional, exclusive)")}
+          {dateInput("bookableFrom", "Bookable from (optional)")}
+          {dateInput("bookableTo", "Bookable to (optional, exclusive)")}
+
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium mb-1">Description (internal)</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              placeholder="Spring newsletter"
+              value={form.description}
+              onChange={(e) => setForm((f) => ({ ...f, description: e.target.value }))}
+            />
+          </div>
+        </div>
+
+        {formError ? <p className="text-sm text-red-600">{formError}</p> : null}
+
+        <button
+          type="button"
+          onClick={onCreate}
+          disabled={createCode.isPending}
+          className="px-4 py-2 text-sm rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+        >
+          {createCode.isPending ? "Saving..." : "Create code"}
+        </button>
+      </div>
+    </section>
+  );
+}
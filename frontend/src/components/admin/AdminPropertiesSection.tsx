@@ -7,6 +7,7 @@ import {
   useUpdatePropertyMutation,
   useDeletePropertyMutation,
 } from "../../api/admin";
+import { useAdminCancellationPoliciesQuery } from "../../api/adminCancellationPolicies";
 
 import {
   PropertyFeaturePicker,
@@ -34,6 +35,8 @@ const AdminPropertiesSection: React.FC = () => {
   } = useAdminPropertiesQuery();
 
   const properties = propertiesData?.properties ?? [];
+  const { data: policiesData } = useAdminCancellationPoliciesQuery();
+  const cancellationPolicies = policiesData?.policies ?? [];
 
   const createPropertyMutation = useCreatePropertyMutation();
   const updatePropertyMutation = useUpdatePropertyMutation();
@@ -71,6 +74,20 @@ const AdminPropertiesSection: React.FC = () => {
   const [longitude, setLongitude] = useState<number | "">("");
   const [minNights, setMinNights] = useState<number | "">("");
   const [cleaningFeeCents, setCleaningFeeCents] = useState<number | "">("");
+  const [linenFeeCents, setLinenFeeCents] = useState<number | "">("");
+  const [petFeeCents, setPetFeeCents] = useState<number | "">("");
+  const [extraBedFeeCents, setExtraBedFeeCents] = useState<number | "">("");
+  const [baseOccupancy, setBaseOccupancy] = useState<number | "">("");
+  const [extraAdultNightlyCents, setExtraAdultNightlyCents] = useState<number | "">("");
+  const [extraChildNightlyCents, setExtraChildNightlyCents] = useState<number | "">("");
+  const [depositBps, setDepositBps] = useState<number | "">("");
+  const [balanceDueDaysBefore, setBalanceDueDaysBefore] = useState<number | "">("");
+  const [balanceAutoCancelDays, setBalanceAutoCancelDays] = useState<number | "">("");
+  const [gapFillEnabled, setGapFillEnabled] = useState(false);
+  const [gapDiscountBps, setGapDiscountBps] = useState<number | "">("");
+  const [nonRefundableDiscountBps, setNonRefundableDiscountBps] = useState<number | "">("");
+  const [cancellationPolicyId, setCancellationPolicyId] = useState<number | "">("");
+  const [taxCategory, setTaxCategory] = useState("");
   /**
    * Feature keys are selected via icon toggles (not free text).
    * This guarantees keys match the backend enum and prevents invalid submissions.
@@ -129,6 +146,20 @@ const AdminPropertiesSection: React.FC = () => {
     setLongitude("");
     setMinNights("");
     setCleaningFeeCents("");
+    setLinenFeeCents("");
+    setPetFeeCents("");
+    setExtraBedFeeCents("");
+    setBaseOccupancy("");
+    setExtraAdultNightlyCents("");
+    setExtraChildNightlyCents("");
+    setDepositBps("");
+    setBalanceDueDaysBefore("");
+    setBalanceAutoCancelDays("");
+    setGapFillEnabled(false);
+    setGapDiscountBps("");
+    setNonRefundableDiscountBps("");
+    setCancellationPolicyId("");
+    setTaxCategory("");
     setFeatureKeys([]);
     setAmenitiesInput("");
     setPoliciesInput("");
@@ -171,6 +202,32 @@ const AdminPropertiesSection: React.FC = () => {
     setLongitude(typeof p.longitude === "number" ? p.longitude : "");
     setMinNights(typeof p.minNights === "number" ? p.minNights : "");
     setCleaningFeeCents(typeof p.cleaningFeeCents === "number" ? p.cleaningFeeCents : "");
+    setLinenFeeCents(typeof p.linenFeeCents === "number" ? p.linenFeeCents : "");
+    setPetFeeCents(typeof p.petFeeCents === "number" ? p.petFeeCents : "");
+    setExtraBedFeeCents(typeof p.extraBedFeeCents === "number" ? p.extraBedFeeCents : "");
+    setBaseOccupancy(typeof p.baseOccupancy === "number" ? p.baseOccupancy : "");
+    setExtraAdultNightlyCents(
+      typeof p.extraAdultNightlyCents === "number" ? p.extraAdultNightlyCents : ""
+    );
+    setExtraChildNightlyCents(
+      typeof p.extraChildNightlyCents === "number" ? p.extraChildNightlyCents : ""
+    );
+    setDepositBps(typeof p.depositBps === "number" ? p.depositBps : "");
+    setBalanceDueDaysBefore(
+      typeof p.balanceDueDaysBefore === "number" ? p.balanceDueDaysBefore : ""
+    );
+    setBalanceAutoCancelDays(
+      typeof p.balanceAutoCancelDays === "number" ? p.balanceAutoCancelDays : ""
+    );
+    setGapFillEnabled(Boolean(p.gapFillEnabled));
+    setGapDiscountBps(typeof p.gapDiscountBps === "number" ? p.gapDiscountBps : "");
+    setNonRefundableDiscountBps(
+      typeof p.nonRefundableDiscountBps === "number" ? p.nonRefundableDiscountBps : ""
+    );
+    setCancellationPolicyId(
+      typeof p.cancellationPolicyId === "number" ? p.cancellationPolicyId : ""
+    );
+    setTaxCategory(p.taxCategory ?? "");
     /**
      * Features come from relation payload as [{ key: "WIFI" }, ...].
      * We normalize to ensure stable ordering and no duplicates.
@@ -245,6 +302,20 @@ const AdminPropertiesSection: React.FC = () => {
       longitude: numOrUndefined(longitude),
       minNights: numOrUndefined(minNights),
       cleaningFeeCents: numOrUndefined(cleaningFeeCents),
+      linenFeeCents: numOrUndefined(linenFeeCents),
+      petFeeCents: numOrUndefined(petFeeCents),
+      extraBedFeeCents: numOrUndefined(extraBedFeeCents),
+      baseOccupancy: numOrUndefined(baseOccupancy),
+      extraAdultNightlyCents: numOrUndefined(extraAdultNightlyCents),
+      extraChildNightlyCents: numOrUndefined(extraChildNightlyCents),
+      depositBps: numOrUndefined(depositBps),
+      balanceDueDaysBefore: numOrUndefined(balanceDueDaysBefore),
+      balanceAutoCancelDays: numOrUndefined(balanceAutoCancelDays),
+      gapFillEnabled,
+      gapDiscountBps: numOrUndefined(gapDiscountBps),
+      nonRefundableDiscountBps: nonRefundableDiscountBps === "" ? null : nonRefundableDiscountBps,
+      cancellationPolicyId: cancellationPolicyId === "" ? null : cancellationPolicyId,
+      taxCategory: taxCategory.trim() ? taxCategory.trim() : undefined,
 
       // Optional lists (only send if there is at least one value)
       featureKeys: featureKeys.length ? featureKeys : undefined,
@@ -578,6 +649,251 @@ const AdminPropertiesSection: React.FC = () => {
           )}
         </div>
 
+        <div>
+          <label className="block text-sm font-medium mb-1">Linen fee (cents, optional)</label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={linenFeeCents}
+            onChange={(e) =>
+              setLinenFeeCents(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          {fieldErrors.linenFeeCents && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.linenFeeCents}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Pet fee per pet (cents, optional)</label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={petFeeCents}
+            onChange={(e) =>
+              setPetFeeCents(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          {fieldErrors.petFeeCents && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.petFeeCents}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Extra bed fee per bed (cents, optional)</label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={extraBedFeeCents}
+            onChange={(e) =>
+              setExtraBedFeeCents(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          {fieldErrors.extraBedFeeCents && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.extraBedFeeCents}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Base occupancy (optional)</label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={baseOccupancy}
+            onChange={(e) =>
+              setBaseOccupancy(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Guests included in the nightly price. Babies are not counted.
+          </p>
+          {fieldErrors.baseOccupancy && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.baseOccupancy}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            Extra adult per night (cents, optional)
+          </label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={extraAdultNightlyCents}
+            onChange={(e) =>
+              setExtraAdultNightlyCents(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          {fieldErrors.extraAdultNightlyCents && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.extraAdultNightlyCents}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            Extra child per night (cents, optional)
+          </label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={extraChildNightlyCents}
+            onChange={(e) =>
+              setExtraChildNightlyCents(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          {fieldErrors.extraChildNightlyCents && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.extraChildNightlyCents}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Deposit (bps, optional)</label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            placeholder="3000 = 30%"
+            value={depositBps}
+            onChange={(e) => setDepositBps(e.target.value === "" ? "" : Number(e.target.value))}
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Charged at booking; the balance is charged to the saved card later. Empty = pay in full.
+          </p>
+          {fieldErrors.depositBps && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.depositBps}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            Balance due, days before check-in (optional)
+          </label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            placeholder="30"
+            value={balanceDueDaysBefore}
+            onChange={(e) =>
+              setBalanceDueDaysBefore(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Bookings made closer to check-in than this pay in full.
+          </p>
+          {fieldErrors.balanceDueDaysBefore && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.balanceDueDaysBefore}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            Auto-cancel unpaid balance after (days, optional)
+          </label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={balanceAutoCancelDays}
+            onChange={(e) =>
+              setBalanceAutoCancelDays(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Days after the due date; the deposit is kept. Empty = never auto-cancel.
+          </p>
+          {fieldErrors.balanceAutoCancelDays && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.balanceAutoCancelDays}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Orphan gap nights</label>
+          <label className="inline-flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={gapFillEnabled}
+              onChange={(e) => setGapFillEnabled(e.target.checked)}
+            />
+            Sell gaps shorter than the minimum stay
+          </label>
+          <p className="text-xs text-slate-500 mt-1">
+            A stay exactly filling the free nights between two bookings ignores min nights.
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Gap discount (bps, optional)</label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            placeholder="1500 = 15%"
+            value={gapDiscountBps}
+            disabled={!gapFillEnabled}
+            onChange={(e) => setGapDiscountBps(e.target.value === "" ? "" : Number(e.target.value))}
+          />
+          <p className="text-xs text-slate-500 mt-1">Off the accommodation total of gap stays.</p>
+          {fieldErrors.gapDiscountBps && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.gapDiscountBps}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">
+            Non-refundable rate discount (bps, optional)
+          </label>
+          <input
+            type="number"
+            className="w-full border rounded px-3 py-2 text-sm"
+            placeholder="1000 = 10%"
+            value={nonRefundableDiscountBps}
+            onChange={(e) =>
+              setNonRefundableDiscountBps(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          />
+          <p className="text-xs text-slate-500 mt-1">
+            Offers guests a cheaper, non-refundable rate at checkout. Empty = standard rate only.
+          </p>
+          {fieldErrors.nonRefundableDiscountBps && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.nonRefundableDiscountBps}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Cancellation policy</label>
+          <select
+            className="w-full border rounded px-3 py-2 text-sm bg-white"
+            value={cancellationPolicyId}
+            onChange={(e) =>
+              setCancellationPolicyId(e.target.value === "" ? "" : Number(e.target.value))
+            }
+          >
+            <option value="">Default policy</option>
+            {cancellationPolicies.map((cp) => (
+              <option key={cp.id} value={cp.id}>
+                {cp.name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-500 mt-1">
+            Periods may set their own; existing bookings keep their terms.
+          </p>
+          {fieldErrors.cancellationPolicyId && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.cancellationPolicyId}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Tax category (optional)</label>
+          <input
+            className="w-full border rounded px-3 py-2 text-sm"
+            placeholder="e.g. short_term_rental"
+            value={taxCategory}
+            onChange={(e) => setTaxCategory(e.target.value)}
+          />
+          <p className="text-xs text-slate-500 mt-1">Matches the category on tax rules.</p>
+          {fieldErrors.taxCategory && (
+            <p className="text-xs text-red-600 mt-1">{fieldErrors.taxCategory}</p>
+          )}
+        </div>
+
         <div>
           <label className="block text-sm font-medium mb-1">Latitude (optional)</label>
           <input
@@ -662,7 +978,10 @@ const AdminPropertiesSection: React.FC = () => {
             value={bookingComIcalUrl}
             onChange={(e) => setBookingComIcalUrl(e.target.value)}
           />
-          <p className="text-xs text-slate-500 mt-1">Leave empty if you will set this up later.</p>
+          <p className="text-xs text-slate-500 mt-1">
+            Leave empty if you will set this up later. Airbnb, VRBO and additional feeds are managed
+            under Channel calendars.
+          </p>
 
           <label className="mt-2 inline-flex items-center gap-2 text-sm">
             <input
@@ -0,0 +1,437 @@
+import { useMemo, useState } from "react";
+import {
+  useAdminTaxReportQuery,
+  useAdminTaxRulesQuery,
+  useCreateTaxRuleMutation,
+  useDeleteTaxRuleMutation,
+  useUpdateTaxRuleMutation,
+  type TaxRule,
+} from "../../api/adminTax";
+import { useAdminPropertiesQuery } from "../../api/admin";
+import { getApiErrorMessage } from "../../api/apiError";
+
+type RuleForm = {
+  name: string;
+  kind: TaxRule["kind"];
+  amountCents: number | "";
+  ratePercent: number | "";
+  propertyId: number | "";
+  propertyCategory: string;
+  seasonStartMonth: number | "";
+  seasonEndMonth: number | "";
+  validFrom: string;
+  validTo: string;
+};
+
+const EMPTY_FORM: RuleForm = {
+  name: "Climate resilience fee",
+  kind: "per_night",
+  amountCents: "",
+  ratePercent: "",
+  propertyId: "",
+  propertyCategory: "",
+  seasonStartMonth: "",
+  seasonEndMonth: "",
+  validFrom: "",
+  validTo: "",
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+function euros(cents: number) {
+  return `€${(cents / 100).toFixed(2)}`;
+}
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7);
+}
+
+function describeRule(r: TaxRule) {
+  const amount =
+    r.kind === "percentage"
+      ? `${((r.rateBps ?? 0) / 100).toFixed(2)}% of accommodation`
+      : `${euros(r.amountCents ?? 0)} ${r.kind === "per_night" ? "per night" : "per stay"}`;
+
+  const season =
+    r.seasonStartMonth && r.seasonEndMonth
+      ? `${MONTHS[r.seasonStartMonth - 1]}–${MONTHS[r.seasonEndMonth - 1]}`
+      : "all year";
+
+  const scope = [
+    r.property ? r.property.title : "all properties",
+    r.propertyCategory ? `category ${r.propertyCategory}` : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+  const validity =
+    r.validFrom || r.validTo
+      ? ` · valid ${r.validFrom?.slice(0, 10) ?? "…"} → ${r.validTo?.slice(0, 10) ?? "…"}`
+      : "";
+
+  return `${amount} · ${season} · ${scope}${validity}`;
+}
+
+/**
+ * AdminTaxSection
+ *
+ * Accommodation tax rules (e.g. Greek climate resilience fee) + monthly filing report.
+ * - Rules are applied by the backend pricing engine to new quotes/bookings
+ * - The report sums the tax lines stored on confirmed bookings (by check-in month)
+ */
+export default function AdminTaxSection() {
+  const { data: rulesData, isLoading, error } = useAdminTaxRulesQuery();
+  const { data: propertiesData } = useAdminPropertiesQuery();
+
+  const createRule = useCreateTaxRuleMutation();
+  const updateRule = useUpdateTaxRuleMutation();
+  const deleteRule = useDeleteTaxRuleMutation();
+
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const [month, setMonth] = useState(currentMonth());
+  const { data: report, isLoading: reportLoading, error: reportError } =
+    useAdminTaxReportQuery(month);
+
+  const rules = rulesData?.rules ?? [];
+  const properties = useMemo(() => propertiesData?.properties ?? [], [propertiesData]);
+
+  const numOrNull = (v: number | "") => (v === "" ? null : Number(v));
+
+  function onCreate() {
+    setFormError(null);
+
+    createRule.mutate(
+      {
+        name: form.name.trim(),
+        kind: form.kind,
+        amountCents: form.kind === "percentage" ? null : numOrNull(form.amountCents),
+        rateBps:
+          form.kind === "percentage" && form.ratePercent !== ""
+            ? Math.round(Number(form.ratePercent) * 100)
+            : null,
+        propertyId: numOrNull(form.propertyId),
+        propertyCategory: form.propertyCategory.trim() || null,
+        seasonStartMonth: numOrNull(form.seasonStartMonth),
+        seasonEndMonth: numOrNull(form.seasonEndMonth),
+        validFrom: form.validFrom || null,
+        validTo: form.validTo || null,
+        isActive: true,
+      },
+      {
+        onSuccess: () => setForm(EMPTY_FORM),
+        onError: (err) => setFormError(getApiErrorMessage(err, "Could not create tax rule.")),
+      }
+    );
+  }
+
+  function onDelete(r: TaxRule) {
+    if (!window.confirm(`Delete "${r.name}"? Existing bookings keep their tax lines.`)) return;
+    deleteRule.mutate(r.id);
+  }
+
+  return (
+    <section className="bg-white rounded-lg shadow p-6 space-y-6">
+      <div>
+        <h2 className="text-lg font-semibold text-slate-900">Accommodation taxes</h2>
+        <p className="text-sm text-slate-500">
+          Climate resilience fee and other stay taxes. Applied to new quotes and bookings and
+          shown to guests before payment.
+        </p>
+      </div>
+
+      {/* Rules */}
+      <div className="space-y-2">
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading tax rules…</p>
+        ) : error ? (
+          <p className="text-sm text-red-600">{getApiErrorMessage(error, "Could not load tax rules.")}</p>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-slate-500">No tax rules yet.</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {rules.map((r) => (
+              <div key={r.id} className="p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold text-slate-900">{r.name}</span>
+                    <span
+                      className={`text-xs font-semibold px-2 py-0.5 rounded-full ${
+                        r.isActive ? "bg-green-100 text-green-700" : "bg-slate-200 text-slate-700"
+                      }`}
+                    >
+                      {r.isActive ? "ACTIVE" : "INACTIVE"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-600 mt-1">{describeRule(r)}</div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <button
+                    type="button"
+                    onClick={() => updateRule.mutate({ id: r.id, data: { isActive: !r.isActive } })}
+                    className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                  >
+                    {r.isActive ? "Disable" : "Enable"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onDelete(r)}
+                    className="text-xs px-3 py-2 rounded border border-red-300 text-red-700 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Create rule */}
+      <div className="border rounded-lg p-4 bg-slate-50 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">Add tax rule</h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div>
+            <label className="block text-sm font-medium mb-1">Name</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.name}
+              onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Kind</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.kind}
+              onChange={(e) => setForm((f) => ({ ...f, kind: e.target.value as TaxRule["kind"] }))}
+            >
+              <option value="per_night">Per night</option>
+              <option value="per_stay">Per stay</option>
+              <option value="percentage">Percentage</option>
+            </select>
+          </div>
+
+          {form.kind === "percentage" ? (
+            <div>
+              <label className="block text-sm font-medium mb-1">Rate (%)</label>
+              <input
+                type="number"
+                step="0.01"
+                className="w-full border rounded px-3 py-2 text-sm"
+                value={form.ratePercent}
+                onChange={(e) =>
+                  setForm((f) => ({
+                    ...f,
+                    ratePercent: e.target.value === "" ? "" : Number(e.target.value),
+                  }))
+                }
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium mb-1">Amount (cents)</label>
+              <input
+                type="number"
+                className="w-full border rounded px-3 py-2 text-sm"
+                placeholder="800 = €8.00"
+                value={form.amountCents}
+                onChange={(e) =>
+                  setForm((f) => ({
+                    ...f,
+                    amountCents: e.target.value === "" ? "" : Number(e.target.value),
+                  }))
+                }
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Property</label>
+            <select
+              className="w-full border rounded px-3 py-2 text-sm bg-white"
+              value={form.propertyId}
+              onChange={(e) =>
+                setForm((f) => ({
+                  ...f,
+                  propertyId: e.target.value === "" ? "" : Number(e.target.value),
+                }))
+              }
+            >
+              <option value="">All properties</option>
+              {properties.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.title}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Property category (optional)</label>
+            <input
+              className="w-full border rounded px-3 py-2 text-sm"
+              placeholder="e.g. short_term_rental"
+              value={form.propertyCategory}
+              onChange={(e) => setForm((f) => ({ ...f, propertyCategory: e.target.value }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium mb-1">Season from</label>
+              <select
+                className="w-full border rounded px-3 py-2 text-sm bg-white"
+                value={form.seasonStartMonth}
+                onChange={(e) =>
+                  setForm((f) => ({
+                    ...f,
+                    seasonStartMonth: e.target.value === "" ? "" : Number(e.target.value),
+                  }))
+                }
+              >
+                <option value="">All year</option>
+                {MONTHS.map((m, i) => (
+                  <option key={m} value={i + 1}>
+                    {m}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-1">Season to</label>
+              <select
+                className="w-full border rounded px-3 py-2 text-sm bg-white"
+                value={form.seasonEndMonth}
+                onChange={(e) =>
+                  setForm((f) => ({
+                    ...f,
+                    seasonEndMonth: e.target.value === "" ? "" : Number(e.target.value),
+                  }))
+                }
+              >
+                <option value="">All year</option>
+                {MONTHS.map((m, i) => (
+                  <option key={m} value={i + 1}>
+                    {m}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Valid from (optional)</label>
+            <input
+              type="date"
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.validFrom}
+              onChange={(e) => setForm((f) => ({ ...f, validFrom: e.target.value }))}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Valid to (optional)</label>
+            <input
+              type="date"
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={form.validTo}
+              onChange={(e) => setForm((f) => ({ ...f, validTo: e.target.value }))}
+            />
+            <p className="text-xs text-slate-500 mt-1">Exclusive</p>
+          </div>
+        </div>
+
+        {formError ? <p className="text-sm text-red-600">{formError}</p> : null}
+
+        <button
+          type="button"
+          onClick={onCreate}
+          disabled={createRule.isPending}
+          className="px-4 py-2 text-sm rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+        >
+          {createRule.isPending ? "Saving..." : "Add rule"}
+        </button>
+      </div>
+
+      {/* Monthly report */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h3 className="text-sm font-semibold text-slate-900">Monthly tax report</h3>
+            <p className="text-xs text-slate-500">
+              Confirmed bookings by check-in month, using the tax charged at booking time.
+            </p>
+          </div>
+          <input
+            type="month"
+            className="border rounded px-3 py-2 text-sm"
+            value={month}
+            onChange={(e) => setMonth(e.target.value)}
+          />
+        </div>
+
+        {reportLoading ? (
+          <p className="text-sm text-slate-500">Loading report…</p>
+        ) : reportError ? (
+          <p className="text-sm text-red-600">
+            {getApiErrorMessage(reportError, "Could not load tax report.")}
+          </p>
+        ) : report ? (
+          <>
+            <div className="flex flex-wrap gap-2">
+              <span className="inline-flex items-center rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700">
+                Total: {euros(report.totalTaxCents)}
+              </span>
+              {report.byRule.map((r) => (
+                <span
+                  key={`${r.taxRuleId ?? r.label}`}
+                  className="inline-flex items-center rounded-full bg-slate-100 px-3 py-1 text-xs font-semibold text-slate-700"
+                >
+                  {r.label}: {euros(r.amountCents)} ({r.bookings} booking{r.bookings === 1 ? "" : "s"})
+                </span>
+              ))}
+            </div>
+
+            {report.bookings.length === 0 ? (
+              <p className="text-sm text-slate-500">No confirmed bookings this month.</p>
+            ) : (
+              <div className="overflow-x-auto border rounded">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-slate-100 text-left text-xs text-slate-600">
+                    <tr>
+                      <th className="px-3 py-2">Booking</th>
+                      <th className="px-3 py-2">Property</th>
+                      <th className="px-3 py-2">Guest</th>
+                      <th className="px-3 py-2">Dates</th>
+                      <th className="px-3 py-2">Nights</th>
+                      <th className="px-3 py-2 text-right">Tax</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {report.bookings.map((b) => (
+                      <tr key={b.bookingId}>
+                        <td className="px-3 py-2">#{b.bookingId}</td>
+                        <td className="px-3 py-2">{b.property.title}</td>
+                        <td className="px-3 py-2">{b.guestName}</td>
+                        <td className="px-3 py-2">
+                          {b.startDate.slice(0, 10)} → {b.endDate.slice(0, 10)}
+                        </td>
+                        <td className="px-3 py-2">{b.nights}</td>
+                        <td className="px-3 py-2 text-right font-semibold">{euros(b.taxCents)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        ) : null}
+      </div>
+    </section>
+  );
+}
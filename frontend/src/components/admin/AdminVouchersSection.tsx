@@ -1,12 +1,19 @@
-import { useMemo, useState } from "react";
-import { useAdminVouchersQuery, type AdminVoucher } from "../../api/vouchers";
+import React, { useMemo, useState } from "react";
+import {
+  useAdminVouchersQuery,
+  useIssueVoucherMutation,
+  type AdminVoucher,
+} from "../../api/vouchers";
+import { getApiErrorMessage } from "../../api/apiError";
+import VoucherManagePanel from "./VoucherManagePanel";
 
 /**
  * AdminVouchersSection
  *
  * Admin auditing UI for voucher allocation:
- * - shows vouchers issued by cancellations
- * - shows remaining balance and status
+ * - shows vouchers issued by cancellations, goodwill and admins
+ * - shows remaining balance, expiry and status
+ * - manual issue, and per voucher: extend, adjust, revoke + ledger (VoucherManagePanel)
  * - helps support staff resolve disputes
  */
 export default function AdminVouchersSection() {
@@ -15,6 +22,12 @@ export default function AdminVouchersSection() {
     "all"
   );
 
+  const issueVoucher = useIssueVoucherMutation();
+
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [issueForm, setIssueForm] = useState({ userEmail: "", amount: "", expiresAt: "", reason: "" });
+  const [issueError, setIssueError] = useState<string | null>(null);
+
   const vouchers = data?.vouchers ?? [];
 
   const filtered = useMemo(() => {
@@ -32,13 +45,37 @@ export default function AdminVouchersSection() {
     return `€${(cents / 100).toFixed(2)}`;
   }
 
+  function onIssue() {
+    setIssueError(null);
+
+    const amountCents = Math.round(Number(issueForm.amount) * 100);
+    if (!Number.isFinite(amountCents) || amountCents <= 0) {
+      setIssueError("Enter an amount greater than 0.");
+      return;
+    }
+
+    issueVoucher.mutate(
+      {
+        userEmail: issueForm.userEmail.trim(),
+        amountCents,
+        expiresAt: issueForm.expiresAt || undefined,
+        reason: issueForm.reason.trim(),
+      },
+      {
+        onSuccess: () => setIssueForm({ userEmail: "", amount: "", expiresAt: "", reason: "" }),
+        onError: (err) => setIssueError(getApiErrorMessage(err, "Could not issue voucher.")),
+      }
+    );
+  }
+
   return (
     <section className="bg-white rounded-lg shadow p-6 space-y-4">
       <div className="flex items-start justify-between gap-3">
         <div>
           <h2 className="text-lg font-semibold text-slate-900">Voucher allocation</h2>
           <p className="text-sm text-slate-500">
-            Track voucher credit issued during cancellations (typically &lt;15 days before check-in).
+            Track voucher credit issued during cancellations (typically &lt;15 days before check-in)
+            or by admins. Vouchers expire automatically; holders are emailed 30 days before.
           </p>
         </div>
 
@@ -78,6 +115,52 @@ export default function AdminVouchersSection() {
         </span>
       </div>
 
+      <div className="border rounded-lg p-4 bg-slate-50 space-y-3">
+        <h3 className="text-sm font-semibold text-slate-900">Issue voucher</h3>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_8rem_10rem_2fr_auto] gap-2">
+          <input
+            type="email"
+            className="border rounded px-3 py-2 text-sm"
+            placeholder="Customer email"
+            value={issueForm.userEmail}
+            onChange={(e) => setIssueForm((f) => ({ ...f, userEmail: e.target.value }))}
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            className="border rounded px-3 py-2 text-sm"
+            placeholder="Amount €"
+            value={issueForm.amount}
+            onChange={(e) => setIssueForm((f) => ({ ...f, amount: e.target.value }))}
+          />
+          <input
+            type="date"
+            className="border rounded px-3 py-2 text-sm"
+            title="Expiry (empty = default validity)"
+            value={issueForm.expiresAt}
+            onChange={(e) => setIssueForm((f) => ({ ...f, expiresAt: e.target.value }))}
+          />
+          <input
+            className="border rounded px-3 py-2 text-sm"
+            placeholder="Reason (required)"
+            maxLength={500}
+            value={issueForm.reason}
+            onChange={(e) => setIssueForm((f) => ({ ...f, reason: e.target.value }))}
+          />
+          <button
+            type="button"
+            onClick={onIssue}
+            disabled={issueVoucher.isPending}
+            className="px-4 py-2 text-sm rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+          >
+            {issueVoucher.isPending ? "Issuing..." : "Issue"}
+          </button>
+        </div>
+        <p className="text-xs text-slate-500">Leave the date empty for the default validity period.</p>
+        {issueError ? <p className="text-sm text-red-600">{issueError}</p> : null}
+      </div>
+
       {error ? (
         <div className="rounded-lg border border-rose-200 bg-rose-50 p-3 text-sm text-rose-700">
           {(error as any)?.message ?? "Failed to load vouchers"}
@@ -100,35 +183,60 @@ export default function AdminVouchersSection() {
                 <th className="px-3 py-2">Remaining</th>
                 <th className="px-3 py-2">Status</th>
                 <th className="px-3 py-2">Created</th>
+                <th className="px-3 py-2">Expires</th>
+                <th className="px-3 py-2" />
               </tr>
             </thead>
             <tbody>
               {filtered.map((v: AdminVoucher) => (
-                <tr key={v.id} className="border-t border-slate-200">
-                  <td className="px-3 py-2 font-semibold text-slate-900">#{v.id}</td>
-
-                  <td className="px-3 py-2">
-                    <div className="text-slate-900 font-medium">{v.user?.name ?? "—"}</div>
-                    <div className="text-slate-500 text-xs">{v.user?.email ?? "—"}</div>
-                  </td>
-
-                  <td className="px-3 py-2 text-slate-700">
-                    {v.originalBookingId ? `#${v.originalBookingId}` : "—"}
-                  </td>
-
-                  <td className="px-3 py-2 font-semibold text-slate-900">{euros(v.issuedCents)}</td>
-                  <td className="px-3 py-2 font-semibold text-slate-900">{euros(v.remainingCents)}</td>
-
-                  <td className="px-3 py-2">
-                    <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-700">
-                      {v.status}
-                    </span>
-                  </td>
-
-                  <td className="px-3 py-2 text-slate-600">
-                    {new Date(v.createdAt).toLocaleString()}
-                  </td>
-                </tr>
+                <React.Fragment key={v.id}>
+                  <tr className="border-t border-slate-200">
+                    <td className="px-3 py-2 font-semibold text-slate-900">#{v.id}</td>
+
+                    <td className="px-3 py-2">
+                      <div className="text-slate-900 font-medium">{v.user?.name ?? "—"}</div>
+                      <div className="text-slate-500 text-xs">{v.user?.email ?? "—"}</div>
+                    </td>
+
+                    <td className="px-3 py-2 text-slate-700">
+                      {v.originalBookingId ? `#${v.originalBookingId}` : "—"}
+                    </td>
+
+                    <td className="px-3 py-2 font-semibold text-slate-900">{euros(v.issuedCents)}</td>
+                    <td className="px-3 py-2 font-semibold text-slate-900">{euros(v.remainingCents)}</td>
+
+                    <td className="px-3 py-2">
+                      <span className="inline-flex items-center rounded-full bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-700">
+                        {v.status}
+                      </span>
+                    </td>
+
+                    <td className="px-3 py-2 text-slate-600">
+                      {new Date(v.createdAt).toLocaleString()}
+                    </td>
+
+                    <td className="px-3 py-2 text-slate-600">
+                      {v.expiresAt ? new Date(v.expiresAt).toLocaleDateString() : "—"}
+                    </td>
+
+                    <td className="px-3 py-2 text-right">
+                      <button
+                        type="button"
+                        onClick={() => setOpenId((prev) => (prev === v.id ? null : v.id))}
+                        className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                      >
+                        {openId === v.id ? "Close" : "Manage"}
+                      </button>
+                    </td>
+                  </tr>
+                  {openId === v.id ? (
+                    <tr className="border-t border-slate-200">
+                      <td colSpan={9} className="p-0">
+                        <VoucherManagePanel voucher={v} />
+                      </td>
+                    </tr>
+                  ) : null}
+                </React.Fragment>
               ))}
             </tbody>
           </table>
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import {
+  useAdminBookingGoodwillQuery,
+  useAdminGoodwillRefund,
+  useAdminGoodwillVoucher,
+} from "../../api/payments";
+import { getApiErrorMessage } from "../../api/apiError";
+
+function euros(cents: number) {
+  return `€${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * BookingGoodwillPanel
+ *
+ * Goodwill compensation for one booking (expanded DIRECT booking in AdminBookingsSection):
+ * - cash refund up to the refundable balance (Stripe, confirmed by the refund webhook)
+ * - credit voucher on the customer's account
+ * Both require a reason and are listed in the history below.
+ */
+export default function BookingGoodwillPanel({ bookingId }: { bookingId: number }) {
+  const { data, isLoading, error } = useAdminBookingGoodwillQuery(bookingId);
+  const goodwillRefund = useAdminGoodwillRefund(bookingId);
+  const goodwillVoucher = useAdminGoodwillVoucher(bookingId);
+
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const busy = goodwillRefund.isPending || goodwillVoucher.isPending;
+
+  function readInput() {
+    setFormError(null);
+    setNotice(null);
+
+    const amountCents = Math.round(Number(amount) * 100);
+    if (!Number.isFinite(amountCents) || amountCents <= 0) {
+      setFormError("Enter an amount greater than 0.");
+      return null;
+    }
+    if (reason.trim().length < 3) {
+      setFormError("A reason is required.");
+      return null;
+    }
+    return { amountCents, reason: reason.trim() };
+  }
+
+  function onDone(message: string) {
+    setAmount("");
+    setReason("");
+    setNotice(message);
+  }
+
+  function onRefund() {
+    const input = readInput();
+    if (!input || !data) return;
+
+    if (input.amountCents > data.refundableRemainingCents) {
+      setFormError(`At most ${euros(data.refundableRemainingCents)} can be refunded.`);
+      return;
+    }
+    if (!window.confirm(`Refund ${euros(input.amountCents)} to the guest's card?`)) return;
+
+    goodwillRefund.mutate(input, {
+      onSuccess: () => onDone("Refund submitted to Stripe."),
+      onError: (err) => setFormError(getApiErrorMessage(err, "Could not submit refund.")),
+    });
+  }
+
+  function onVoucher() {
+    const input = readInput();
+    if (!input) return;
+
+    goodwillVoucher.mutate(input, {
+      onSuccess: () => onDone("Voucher issued and emailed to the customer."),
+      onError: (err) => setFormError(getApiErrorMessage(err, "Could not issue voucher.")),
+    });
+  }
+
+  return (
+    <div className="rounded border bg-white p-3 text-sm">
+      <div className="text-xs font-semibold text-slate-500 mb-1">Goodwill compensation</div>
+
+      {isLoading ? (
+        <p className="text-slate-500">Loading…</p>
+      ) : error || !data ? (
+        <p className="text-red-600">{getApiErrorMessage(error, "Could not load compensation.")}</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="text-slate-700">
+            Refundable balance:{" "}
+            <span className="font-semibold text-slate-900">
+              {data.canRefund ? euros(data.refundableRemainingCents) : "— (no Stripe payment)"}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[8rem_1fr] gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              className="border rounded px-3 py-2 text-sm"
+              placeholder="Amount €"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <input
+              className="border rounded px-3 py-2 text-sm"
+              placeholder="Reason (required, kept in the history)"
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          {formError ? <p className="text-red-600">{formError}</p> : null}
+          {notice ? <p className="text-green-700">{notice}</p> : null}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={onRefund}
+              disabled={busy || !data.canRefund || data.refundableRemainingCents === 0}
+              className="text-xs px-3 py-2 rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-50"
+            >
+              {goodwillRefund.isPending ? "Refunding..." : "Refund to card"}
+            </button>
+            <button
+              type="button"
+              onClick={onVoucher}
+              disabled={busy || !data.canIssueVoucher}
+              className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100 disabled:opacity-50"
+            >
+              {goodwillVoucher.isPending ? "Issuing..." : "Issue voucher"}
+            </button>
+          </div>
+
+          {data.compensations.length > 0 ? (
+            <div className="divide-y border rounded">
+              {data.compensations.map((c) => (
+                <div key={c.id} className="p-2 text-xs text-slate-700">
+                  <div className="flex justify-between gap-3">
+                    <span className="font-semibold text-slate-900">
+                      {c.kind === "refund" ? "Refund" : "Voucher"} {euros(c.amountCents)}
+                    </span>
+                    <span className="text-slate-500">
+                      {new Date(c.createdAt).toLocaleString()}
+                      {c.createdBy ? ` · ${c.createdBy.name ?? c.createdBy.email}` : ""}
+                    </span>
+                  </div>
+                  <div>{c.reason}</div>
+                  {c.kind === "refund" ? (
+                    <div className="text-slate-500">
+                      Stripe: {c.refunds.map((r) => r.status).join(", ") || "—"}
+                    </div>
+                  ) : c.creditVoucher ? (
+                    <div className="text-slate-500">
+                      Voucher #{c.creditVoucher.id} · {c.creditVoucher.status} ·{" "}
+                      {euros(c.creditVoucher.remainingCents)} left
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
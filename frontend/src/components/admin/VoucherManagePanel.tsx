@@ -0,0 +1,205 @@
+import { useState } from "react";
+import {
+  useAdjustVoucherMutation,
+  useAdminVoucherTransactionsQuery,
+  useExtendVoucherMutation,
+  useRevokeVoucherMutation,
+  type AdminVoucher,
+  type VoucherTransaction,
+} from "../../api/vouchers";
+import { getApiErrorMessage } from "../../api/apiError";
+
+function euros(cents: number) {
+  return `€${(cents / 100).toFixed(2)}`;
+}
+
+function signedEuros(cents: number) {
+  if (cents === 0) return "—";
+  return `${cents > 0 ? "+" : "−"}${euros(Math.abs(cents))}`;
+}
+
+const KIND_LABELS: Record<VoucherTransaction["kind"], string> = {
+  issue: "Issued",
+  consume: "Used",
+  adjust: "Adjusted",
+  extend: "Extended",
+  revoke: "Revoked",
+  expire: "Expired",
+  reactivate: "Reactivated",
+};
+
+/**
+ * VoucherManagePanel
+ *
+ * Expanded voucher row in AdminVouchersSection: extend / adjust / revoke with a reason,
+ * and the voucher's ledger (where the credit was consumed).
+ */
+export default function VoucherManagePanel({ voucher }: { voucher: AdminVoucher }) {
+  const { data, isLoading, error } = useAdminVoucherTransactionsQuery(voucher.id);
+
+  const extendVoucher = useExtendVoucherMutation();
+  const adjustVoucher = useAdjustVoucherMutation();
+  const revokeVoucher = useRevokeVoucherMutation();
+
+  const [expiresAt, setExpiresAt] = useState(voucher.expiresAt?.slice(0, 10) ?? "");
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const busy = extendVoucher.isPending || adjustVoucher.isPending || revokeVoucher.isPending;
+  const revoked = voucher.status === "revoked";
+  const adjustable = voucher.status === "active" || voucher.status === "exhausted";
+
+  const options = {
+    onSuccess: () => {
+      setAmount("");
+      setReason("");
+      setFormError(null);
+    },
+    onError: (err: unknown) => setFormError(getApiErrorMessage(err, "Could not update voucher.")),
+  };
+
+  function onExtend() {
+    if (!expiresAt) {
+      setFormError("Pick the new expiry date.");
+      return;
+    }
+    extendVoucher.mutate(
+      { id: voucher.id, data: { expiresAt, reason: reason.trim() || undefined } },
+      options
+    );
+  }
+
+  function onAdjust(sign: 1 | -1) {
+    const deltaCents = Math.round(Number(amount) * 100) * sign;
+    if (!Number.isFinite(deltaCents) || deltaCents === 0) {
+      setFormError("Enter an amount greater than 0.");
+      return;
+    }
+    if (reason.trim().length < 3) {
+      setFormError("A reason is required.");
+      return;
+    }
+    adjustVoucher.mutate({ id: voucher.id, data: { deltaCents, reason: reason.trim() } }, options);
+  }
+
+  function onRevoke() {
+    if (reason.trim().length < 3) {
+      setFormError("A reason is required.");
+      return;
+    }
+    if (!window.confirm(`Revoke voucher #${voucher.id}? The remaining balance is forfeited.`)) {
+      return;
+    }
+    revokeVoucher.mutate({ id: voucher.id, data: { reason: reason.trim() } }, options);
+  }
+
+  return (
+    <div className="space-y-3 bg-slate-50 p-3">
+      {!revoked ? (
+        <div className="space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-[10rem_8rem_1fr] gap-2">
+            <input
+              type="date"
+              className="border rounded px-3 py-2 text-sm bg-white"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+            />
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              className="border rounded px-3 py-2 text-sm bg-white"
+              placeholder="Amount €"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+            <input
+              className="border rounded px-3 py-2 text-sm bg-white"
+              placeholder="Reason (required to adjust or revoke)"
+              maxLength={500}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          {formError ? <p className="text-sm text-red-600">{formError}</p> : null}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={onExtend}
+              disabled={busy}
+              className="text-xs px-3 py-2 rounded border border-slate-300 bg-white hover:bg-slate-100 disabled:opacity-50"
+            >
+              {voucher.status === "expired" ? "Reactivate until date" : "Set expiry date"}
+            </button>
+            <button
+              type="button"
+              onClick={() => onAdjust(1)}
+              disabled={busy || !adjustable}
+              className="text-xs px-3 py-2 rounded border border-slate-300 bg-white hover:bg-slate-100 disabled:opacity-50"
+            >
+              Add credit
+            </button>
+            <button
+              type="button"
+              onClick={() => onAdjust(-1)}
+              disabled={busy || !adjustable}
+              className="text-xs px-3 py-2 rounded border border-slate-300 bg-white hover:bg-slate-100 disabled:opacity-50"
+            >
+              Remove credit
+            </button>
+            <button
+              type="button"
+              onClick={onRevoke}
+              disabled={busy}
+              className="text-xs px-3 py-2 rounded border border-red-300 bg-white text-red-700 hover:bg-red-50 disabled:opacity-50"
+            >
+              Revoke
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      <div>
+        <div className="text-xs font-semibold text-slate-500 mb-1">Ledger</div>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading…</p>
+        ) : error || !data ? (
+          <p className="text-sm text-red-600">{getApiErrorMessage(error, "Could not load ledger.")}</p>
+        ) : data.transactions.length === 0 ? (
+          <p className="text-sm text-slate-500">No entries.</p>
+        ) : (
+          <table className="min-w-full text-xs bg-white border border-slate-200 rounded">
+            <tbody>
+              {data.transactions.map((t) => (
+                <tr key={t.id} className="border-t border-slate-200">
+                  <td className="px-2 py-1 text-slate-600">{new Date(t.createdAt).toLocaleString()}</td>
+                  <td className="px-2 py-1 font-semibold text-slate-900">{KIND_LABELS[t.kind]}</td>
+                  <td className="px-2 py-1 text-slate-900">{signedEuros(t.amountCents)}</td>
+                  <td className="px-2 py-1 text-slate-600">Balance {euros(t.balanceAfterCents)}</td>
+                  <td className="px-2 py-1 text-slate-700">
+                    {t.booking
+                      ? `Booking #${t.booking.id}${
+                          t.booking.property ? ` · ${t.booking.property.title}` : ""
+                        }`
+                      : null}
+                    {t.note ? <div className="text-slate-500">{t.note}</div> : null}
+                  </td>
+                  <td className="px-2 py-1 text-slate-500">
+                    {t.createdBy
+                      ? (t.createdBy.name ?? t.createdBy.email)
+                      : t.kind === "consume"
+                        ? "Customer"
+                        : "System"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
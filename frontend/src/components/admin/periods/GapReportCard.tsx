@@ -0,0 +1,71 @@
+import type { GapReportPayload } from "../../../api/adminPeriods";
+
+type Props = {
+  report: GapReportPayload | null;
+};
+
+function dateOnly(ymd: string) {
+  const [year, month, day] = ymd.split("-");
+  return `${day}/${month}/${year.slice(-2)}`;
+}
+
+/**
+ * Orphan gaps of the selected property: free nights between two stays that are shorter
+ * than the minimum stay. "Bookable" gaps are sold as-is (gap filling enabled on the property).
+ */
+export default function GapReportCard({ report }: Props) {
+  const gaps = report?.gaps ?? [];
+  const settings = report?.property;
+
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="bg-slate-100 px-4 py-2 text-sm font-semibold flex justify-between gap-2">
+        <span>Orphan gaps</span>
+        {settings ? (
+          <span className="text-xs font-medium text-slate-500">
+            {!settings.gapFillEnabled
+              ? "Gap filling off (enable it on the property)"
+              : settings.gapDiscountBps
+                ? `Gap filling on · ${(settings.gapDiscountBps / 100).toFixed(0)}% off`
+                : "Gap filling on"}
+          </span>
+        ) : null}
+      </div>
+
+      {gaps.length === 0 ? (
+        <div className="p-4 text-sm text-slate-600">No orphan gaps in this range.</div>
+      ) : (
+        <div className="divide-y">
+          {gaps.map((g) => (
+            <div
+              key={g.startDate}
+              className="p-4 bg-white flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+            >
+              <div className="text-sm text-slate-700">
+                <span className="font-semibold">
+                  {dateOnly(g.startDate)} → {dateOnly(g.endDate)}
+                </span>
+                <span className="text-slate-500 ml-2">
+                  {g.nights} night{g.nights === 1 ? "" : "s"} · min {g.minNights} · €{g.nightlyTotal}
+                </span>
+                {!g.weekdaysAllowed ? (
+                  <div className="text-xs text-amber-700 mt-1">
+                    Check-in / check-out weekday rules block this gap.
+                  </div>
+                ) : null}
+              </div>
+
+              <span
+                className={`self-start md:self-auto text-xs font-semibold px-2 py-1 rounded-full ${
+                  g.bookable ? "bg-green-100 text-green-700" : "bg-slate-200 text-slate-700"
+                }`}
+              >
+                {g.bookable ? "BOOKABLE" : "UNSOLD"}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
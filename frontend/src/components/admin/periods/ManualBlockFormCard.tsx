@@ -0,0 +1,183 @@
+import { MANUAL_BLOCK_CATEGORY_LABELS } from "../../../api/adminManualBlocks";
+import type { ManualBlockCategory } from "@shared/schemas/manualblock.schema";
+
+export type ManualBlockFormState = {
+  startDate: string;
+  endDate: string;
+  category: ManualBlockCategory;
+  reason: string;
+  // JS/UTC weekdays (0 = Sunday); empty = block every night of the range
+  weekdays: number[];
+};
+
+// Displayed Monday first; index is the JS/UTC weekday (0 = Sunday) used by the backend
+const WEEKDAYS: Array<{ index: number; label: string }> = [
+  { index: 1, label: "Mon" },
+  { index: 2, label: "Tue" },
+  { index: 3, label: "Wed" },
+  { index: 4, label: "Thu" },
+  { index: 5, label: "Fri" },
+  { index: 6, label: "Sat" },
+  { index: 0, label: "Sun" },
+];
+
+const CATEGORIES = Object.keys(MANUAL_BLOCK_CATEGORY_LABELS) as ManualBlockCategory[];
+
+type Props = {
+  value: ManualBlockFormState;
+  busy: boolean;
+  // Editing an existing block: recurrence is only available when creating
+  editing: { id: number; seriesId: string | null } | null;
+  onChange: (patch: Partial<ManualBlockFormState>) => void;
+  onSubmit: () => void;
+  onCancel: () => void;
+  onDelete: (wholeSeries: boolean) => void;
+};
+
+/**
+ * ManualBlockFormCard
+ *
+ * Create / edit a manual block (owner stay, maintenance, closure).
+ * Dragging across days in the availability calendar pre-fills the dates.
+ */
+export default function ManualBlockFormCard({
+  value,
+  busy,
+  editing,
+  onChange,
+  onSubmit,
+  onCancel,
+  onDelete,
+}: Props) {
+  return (
+    <div className="border rounded-lg p-4 bg-slate-50">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-base font-semibold text-slate-900">
+          {editing ? `Edit block #${editing.id}` : "Block dates"}
+        </h3>
+        <span className="text-xs text-slate-500">Drag across days in the calendar</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium mb-1">Start date</label>
+          <input
+            type="date"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={value.startDate}
+            onChange={(e) => onChange({ startDate: e.target.value })}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">End date</label>
+          <input
+            type="date"
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={value.endDate}
+            onChange={(e) => onChange({ endDate: e.target.value })}
+          />
+          <p className="text-xs text-slate-500 mt-1">Checkout date (exclusive)</p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Category</label>
+          <select
+            className="w-full border rounded px-3 py-2 text-sm bg-white"
+            value={value.category}
+            onChange={(e) => onChange({ category: e.target.value as ManualBlockCategory })}
+          >
+            {CATEGORIES.map((c) => (
+              <option key={c} value={c}>
+                {MANUAL_BLOCK_CATEGORY_LABELS[c]}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium mb-1">Reason</label>
+          <input
+            className="w-full border rounded px-3 py-2 text-sm"
+            placeholder="e.g. Pool repair"
+            value={value.reason}
+            onChange={(e) => onChange({ reason: e.target.value })}
+          />
+        </div>
+
+        {!editing ? (
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium mb-1">Repeat on (optional)</label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((d) => (
+                <label key={d.index} className="inline-flex items-center gap-1 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={value.weekdays.includes(d.index)}
+                    onChange={(e) =>
+                      onChange({
+                        weekdays: e.target.checked
+                          ? [...value.weekdays, d.index].sort((a, b) => a - b)
+                          : value.weekdays.filter((x) => x !== d.index),
+                      })
+                    }
+                  />
+                  {d.label}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-1">
+              None ticked = every night. Ticked = only those nights within the range (e.g. every
+              Monday in November).
+            </p>
+          </div>
+        ) : editing.seriesId ? (
+          <p className="md:col-span-2 text-xs text-slate-500">
+            Part of a recurring series. Changes apply to this block only.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <button
+          type="button"
+          onClick={onSubmit}
+          disabled={busy}
+          className="px-4 py-2 text-sm rounded bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+        >
+          {busy ? "Saving..." : editing ? "Save block" : "Block dates"}
+        </button>
+
+        {editing ? (
+          <>
+            <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm rounded border border-slate-300 hover:bg-slate-100"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onDelete(false)}
+              disabled={busy}
+              className="px-4 py-2 text-sm rounded border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-60"
+            >
+              Delete
+            </button>
+            {editing.seriesId ? (
+              <button
+                type="button"
+                onClick={() => onDelete(true)}
+                disabled={busy}
+                className="px-4 py-2 text-sm rounded border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-60"
+              >
+                Delete series
+              </button>
+            ) : null}
+          </>
+        ) : null}
+      </div>
+    </div>
+  );
+}
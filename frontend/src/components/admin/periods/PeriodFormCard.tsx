@@ -1,24 +1,85 @@
+import type { StayDiscountTier } from "../../../api/types";
+import type { CancellationPolicy } from "../../../api/adminCancellationPolicies";
+
 export type PeriodFormState = {
   startDate: string;
   endDate: string;
   isOpen: boolean;
   standardNightlyPrice: number;
+  // [sun, mon, tue, wed, thu, fri, sat] EUR; null = nightly price
+  weekdayNightlyPrices: Array<number | null>;
   weeklyDiscountPercentBps: number | null;
   weeklyThresholdNights: number;
+  // Length-of-stay tiers; when any are set they replace the weekly discount
+  stayDiscountTiers: StayDiscountTier[];
   minNights: number;
   maxGuests: number;
+  // JS weekdays (0 = Sunday); empty = any day
+  allowedArrivalWeekdays: number[];
+  allowedDepartureWeekdays: number[];
+
+  // Per-stay fee overrides (cents). null = use the property fee.
+  cleaningFeeCents: number | null;
+  linenFeeCents: number | null;
+  petFeeCents: number | null;
+  extraBedFeeCents: number | null;
+
+  // Occupancy pricing overrides. null = use the property value.
+  baseOccupancy: number | null;
+  extraAdultNightlyCents: number | null;
+  extraChildNightlyCents: number | null;
+
+  // Cancellation policy for stays arriving in this period. null = property policy.
+  cancellationPolicyId: number | null;
+
   name: string;
   notes: string;
 };
 
+// Displayed Monday first; index is the JS/UTC weekday (0 = Sunday) used by the backend
+const WEEKDAYS: Array<{ index: number; label: string }> = [
+  { index: 1, label: "Mon" },
+  { index: 2, label: "Tue" },
+  { index: 3, label: "Wed" },
+  { index: 4, label: "Thu" },
+  { index: 5, label: "Fri" },
+  { index: 6, label: "Sat" },
+  { index: 0, label: "Sun" },
+];
+
+type WeekdayRuleField = "allowedArrivalWeekdays" | "allowedDepartureWeekdays";
+
+const WEEKDAY_RULE_FIELDS: Array<{ key: WeekdayRuleField; label: string }> = [
+  { key: "allowedArrivalWeekdays", label: "Check-in days" },
+  { key: "allowedDepartureWeekdays", label: "Check-out days" },
+];
+
+type FeeField = "cleaningFeeCents" | "linenFeeCents" | "petFeeCents" | "extraBedFeeCents";
+
+const FEE_FIELDS: Array<{ key: FeeField; label: string }> = [
+  { key: "cleaningFeeCents", label: "Cleaning fee (cents)" },
+  { key: "linenFeeCents", label: "Linen fee (cents)" },
+  { key: "petFeeCents", label: "Pet fee, per pet (cents)" },
+  { key: "extraBedFeeCents", label: "Extra bed fee, per bed (cents)" },
+];
+
+type OccupancyField = "baseOccupancy" | "extraAdultNightlyCents" | "extraChildNightlyCents";
+
+const OCCUPANCY_FIELDS: Array<{ key: OccupancyField; label: string }> = [
+  { key: "baseOccupancy", label: "Base occupancy (guests)" },
+  { key: "extraAdultNightlyCents", label: "Extra adult, per night (cents)" },
+  { key: "extraChildNightlyCents", label: "Extra child, per night (cents)" },
+];
+
 type Props = {
   value: PeriodFormState;
   busy: boolean;
+  policies: CancellationPolicy[];
   onChange: (patch: Partial<PeriodFormState>) => void;
   onSubmit: () => void;
 };
 
-export default function PeriodFormCard({ value, busy, onChange, onSubmit }: Props) {
+export default function PeriodFormCard({ value, busy, policies, onChange, onSubmit }: Props) {
   return (
     <div className="border rounded-lg p-4 bg-slate-50">
       <div className="flex items-center justify-between mb-3">
@@ -58,6 +119,31 @@ export default function PeriodFormCard({ value, busy, onChange, onSubmit }: Prop
           />
         </div>
 
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium mb-1">Weekday prices (€, optional)</label>
+          <div className="grid grid-cols-7 gap-2">
+            {WEEKDAYS.map((d) => (
+              <div key={d.index}>
+                <span className="block text-xs text-slate-500 mb-1">{d.label}</span>
+                <input
+                  type="number"
+                  className="w-full border rounded px-2 py-2 text-sm"
+                  value={value.weekdayNightlyPrices[d.index] ?? ""}
+                  placeholder={String(value.standardNightlyPrice)}
+                  onChange={(e) => {
+                    const next = [...value.weekdayNightlyPrices];
+                    next[d.index] = e.target.value === "" ? null : Number(e.target.value);
+                    onChange({ weekdayNightlyPrices: next });
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-1">
+            Empty = nightly price. Applies to the night starting on that day (e.g. Fri = Fri→Sat).
+          </p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium mb-1">Max guests</label>
           <input
@@ -78,6 +164,31 @@ export default function PeriodFormCard({ value, busy, onChange, onSubmit }: Prop
           />
         </div>
 
+        {WEEKDAY_RULE_FIELDS.map((f) => (
+          <div key={f.key}>
+            <label className="block text-sm font-medium mb-1">{f.label}</label>
+            <div className="flex flex-wrap gap-2">
+              {WEEKDAYS.map((d) => (
+                <label key={d.index} className="inline-flex items-center gap-1 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={value[f.key].includes(d.index)}
+                    onChange={(e) =>
+                      onChange({
+                        [f.key]: e.target.checked
+                          ? [...value[f.key], d.index].sort((a, b) => a - b)
+                          : value[f.key].filter((x) => x !== d.index),
+                      })
+                    }
+                  />
+                  {d.label}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 mt-1">None ticked = any day</p>
+          </div>
+        ))}
+
         <div>
           <label className="block text-sm font-medium mb-1">Weekly discount (bps)</label>
           <input
@@ -104,6 +215,170 @@ export default function PeriodFormCard({ value, busy, onChange, onSubmit }: Prop
           />
         </div>
 
+        <div className="md:col-span-2">
+          <div className="flex items-center justify-between mb-1">
+            <label className="block text-sm font-medium">Length-of-stay tiers (optional)</label>
+            <button
+              type="button"
+              className="text-xs underline text-slate-700"
+              onClick={() =>
+                onChange({
+                  stayDiscountTiers: [
+                    ...value.stayDiscountTiers,
+                    { minNights: 7, discountBps: 1000, nightlyPrice: null, label: null },
+                  ],
+                })
+              }
+            >
+              + Add tier
+            </button>
+          </div>
+
+          {value.stayDiscountTiers.map((tier, i) => {
+            const setTier = (patch: Partial<StayDiscountTier>) =>
+              onChange({
+                stayDiscountTiers: value.stayDiscountTiers.map((t, j) =>
+                  j === i ? { ...t, ...patch } : t
+                ),
+              });
+
+            return (
+              <div key={i} className="grid grid-cols-5 gap-2 mb-2 items-end">
+                <div>
+                  <span className="block text-xs text-slate-500 mb-1">Min nights</span>
+                  <input
+                    type="number"
+                    className="w-full border rounded px-2 py-2 text-sm"
+                    value={tier.minNights}
+                    onChange={(e) => setTier({ minNights: Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <span className="block text-xs text-slate-500 mb-1">Discount (bps)</span>
+                  <input
+                    type="number"
+                    className="w-full border rounded px-2 py-2 text-sm"
+                    value={tier.discountBps ?? ""}
+                    placeholder="1000 = 10%"
+                    onChange={(e) =>
+                      setTier({
+                        discountBps: e.target.value === "" ? null : Number(e.target.value),
+                        nightlyPrice: e.target.value === "" ? tier.nightlyPrice : null,
+                      })
+                    }
+                  />
+                </div>
+                <div>
+                  <span className="block text-xs text-slate-500 mb-1">or nightly (€)</span>
+                  <input
+                    type="number"
+                    className="w-full border rounded px-2 py-2 text-sm"
+                    value={tier.nightlyPrice ?? ""}
+                    placeholder="Monthly rate"
+                    onChange={(e) =>
+                      setTier({
+                        nightlyPrice: e.target.value === "" ? null : Number(e.target.value),
+                        discountBps: e.target.value === "" ? tier.discountBps : null,
+                      })
+                    }
+                  />
+                </div>
+                <div>
+                  <span className="block text-xs text-slate-500 mb-1">Label</span>
+                  <input
+                    className="w-full border rounded px-2 py-2 text-sm"
+                    value={tier.label ?? ""}
+                    placeholder="Long stay"
+                    onChange={(e) => setTier({ label: e.target.value || null })}
+                  />
+                </div>
+                <button
+                  type="button"
+                  className="px-2 py-2 text-xs rounded border hover:bg-white"
+                  onClick={() =>
+                    onChange({
+                      stayDiscountTiers: value.stayDiscountTiers.filter((_, j) => j !== i),
+                    })
+                  }
+                >
+                  Remove
+                </button>
+              </div>
+            );
+          })}
+
+          <p className="text-xs text-slate-500 mt-1">
+            The highest tier the stay reaches applies (tiers never stack). When set, tiers replace
+            the weekly discount.
+          </p>
+        </div>
+
+        <div className="md:col-span-2">
+          <p className="text-sm font-medium">Stay fees (optional)</p>
+          <p className="text-xs text-slate-500">
+            Applied when the stay arrives in this period. Leave empty to use the property fee.
+          </p>
+        </div>
+
+        {FEE_FIELDS.map((f) => (
+          <div key={f.key}>
+            <label className="block text-sm font-medium mb-1">{f.label}</label>
+            <input
+              type="number"
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={value[f.key] ?? ""}
+              placeholder="Property default"
+              onChange={(e) =>
+                onChange({ [f.key]: e.target.value === "" ? null : Number(e.target.value) })
+              }
+            />
+          </div>
+        ))}
+
+        <div className="md:col-span-2">
+          <p className="text-sm font-medium">Occupancy pricing (optional)</p>
+          <p className="text-xs text-slate-500">
+            Nightly surcharge per adult / child above the base occupancy, for nights in this
+            period. Babies are free. Leave empty to use the property values.
+          </p>
+        </div>
+
+        {OCCUPANCY_FIELDS.map((f) => (
+          <div key={f.key}>
+            <label className="block text-sm font-medium mb-1">{f.label}</label>
+            <input
+              type="number"
+              className="w-full border rounded px-3 py-2 text-sm"
+              value={value[f.key] ?? ""}
+              placeholder="Property default"
+              onChange={(e) =>
+                onChange({ [f.key]: e.target.value === "" ? null : Number(e.target.value) })
+              }
+            />
+          </div>
+        ))}
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium mb-1">Cancellation policy</label>
+          <select
+            className="w-full border rounded px-3 py-2 text-sm"
+            value={value.cancellationPolicyId ?? ""}
+            onChange={(e) =>
+              onChange({
+                cancellationPolicyId: e.target.value === "" ? null : Number(e.target.value),
+              })
+            }
+          >
+            <option value="">Property policy</option>
+            {policies.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-500 mt-1">Applies to stays arriving in this period.</p>
+        </div>
+
         <div className="md:col-span-2">
           <label className="block text-sm font-medium mb-1">Name (optional)</label>
           <input
@@ -1,3 +1,5 @@
+import type { StayDiscountTier } from "../../../api/types";
+
 type Props = {
   periods: any[];
   onToggleOpen: (p: any) => void;
@@ -9,6 +11,95 @@ function bpsToPercentText(bps?: number | null) {
   return `${(bps / 100).toFixed(2)}%`;
 }
 
+/**
+ * Short "cleaning €40 · pet €15" summary of the fee overrides set on a period.
+ */
+function feeOverridesText(p: {
+  cleaningFeeCents?: number | null;
+  linenFeeCents?: number | null;
+  petFeeCents?: number | null;
+  extraBedFeeCents?: number | null;
+}) {
+  const parts = [
+    ["cleaning", p.cleaningFeeCents],
+    ["linen", p.linenFeeCents],
+    ["pet", p.petFeeCents],
+    ["extra bed", p.extraBedFeeCents],
+  ]
+    .filter(([, cents]) => typeof cents === "number")
+    .map(([label, cents]) => `${label} €${((cents as number) / 100).toFixed(2)}`);
+
+  return parts.length ? parts.join(" · ") : null;
+}
+
+/**
+ * "base 4 · adult €25 · child €10" summary of the occupancy overrides, or null when none are set.
+ */
+function occupancyOverridesText(p: {
+  baseOccupancy?: number | null;
+  extraAdultNightlyCents?: number | null;
+  extraChildNightlyCents?: number | null;
+}) {
+  const parts = [
+    typeof p.baseOccupancy === "number" ? `base ${p.baseOccupancy}` : null,
+    typeof p.extraAdultNightlyCents === "number"
+      ? `adult €${(p.extraAdultNightlyCents / 100).toFixed(2)}`
+      : null,
+    typeof p.extraChildNightlyCents === "number"
+      ? `child €${(p.extraChildNightlyCents / 100).toFixed(2)}`
+      : null,
+  ].filter(Boolean);
+
+  return parts.length ? parts.join(" · ") : null;
+}
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * "Fri €260 · Sat €280" summary of weekday price overrides, or null when none are set.
+ */
+function weekdayPricesText(prices?: Array<number | null> | null) {
+  if (!Array.isArray(prices)) return null;
+
+  const parts = prices
+    .map((price, i) => (typeof price === "number" ? `${WEEKDAY_LABELS[i]} €${price}` : null))
+    .filter(Boolean);
+
+  return parts.length ? parts.join(" · ") : null;
+}
+
+/**
+ * "Check-in Sat · check-out Sat" summary of the weekday rules, or null when any day is allowed.
+ */
+function weekdayRulesText(p: {
+  allowedArrivalWeekdays?: number[] | null;
+  allowedDepartureWeekdays?: number[] | null;
+}) {
+  const days = (list?: number[] | null) => (list ?? []).map((d) => WEEKDAY_LABELS[d]).join("/");
+
+  const parts = [
+    p.allowedArrivalWeekdays?.length ? `check-in ${days(p.allowedArrivalWeekdays)}` : null,
+    p.allowedDepartureWeekdays?.length ? `check-out ${days(p.allowedDepartureWeekdays)}` : null,
+  ].filter(Boolean);
+
+  return parts.length ? parts.join(" · ") : null;
+}
+
+/**
+ * "7+ 10% · 28+ €120/night" summary of the length-of-stay tiers, or null when none are set.
+ */
+function stayDiscountTiersText(tiers?: StayDiscountTier[] | null) {
+  if (!Array.isArray(tiers) || tiers.length === 0) return null;
+
+  return tiers
+    .map((t) =>
+      typeof t.nightlyPrice === "number"
+        ? `${t.minNights}+ €${t.nightlyPrice}/night`
+        : `${t.minNights}+ ${bpsToPercentText(t.discountBps)}`
+    )
+    .join(" · ");
+}
+
 function dateOnly(iso: string) {
   if (!iso) return iso;
 
@@ -60,6 +151,38 @@ export default function PeriodsListCard({ periods, onToggleOpen, onDelete }: Pro
                   </span>
                 </div>
 
+                {weekdayPricesText(p.weekdayNightlyPrices) ? (
+                  <div className="text-xs text-slate-500 mt-1">
+                    Weekdays: {weekdayPricesText(p.weekdayNightlyPrices)}
+                  </div>
+                ) : null}
+
+                {stayDiscountTiersText(p.stayDiscountTiers) ? (
+                  <div className="text-xs text-slate-500 mt-1">
+                    Length of stay: {stayDiscountTiersText(p.stayDiscountTiers)}
+                  </div>
+                ) : null}
+
+                {weekdayRulesText(p) ? (
+                  <div className="text-xs text-slate-500 mt-1">Days: {weekdayRulesText(p)}</div>
+                ) : null}
+
+                {feeOverridesText(p) ? (
+                  <div className="text-xs text-slate-500 mt-1">Fees: {feeOverridesText(p)}</div>
+                ) : null}
+
+                {occupancyOverridesText(p) ? (
+                  <div className="text-xs text-slate-500 mt-1">
+                    Extra guests: {occupancyOverridesText(p)}
+                  </div>
+                ) : null}
+
+                {p.cancellationPolicy ? (
+                  <div className="text-xs text-slate-500 mt-1">
+                    Cancellation: {p.cancellationPolicy.name}
+                  </div>
+                ) : null}
+
                 {p.notes ? <div className="text-xs text-slate-500 mt-1">{p.notes}</div> : null}
               </div>
 
@@ -7,7 +7,12 @@ import { CancelBookingModal } from "./CancelBookingModal";
 import { RequestAdditionalBedModal } from "./RequestAdditionalBedModal";
 import { ReviewModal } from "./ReviewModal";
 import { useMyReviewsQuery, type Review } from "../../api/reviews";
-import { useBookingRefundStatusQuery } from "../../api/payments"; // ✅ Refund status for cancelled bookings
+import {
+  useBookingInstallmentsQuery,
+  useBookingRefundStatusQuery, // ✅ Refund status for cancelled bookings
+  usePayInstallment,
+} from "../../api/payments";
+import { getApiErrorMessage } from "../../api/apiError";
 
 /**
  * Local className join helper.
@@ -193,6 +198,28 @@ export function BookingCard({
   const refundAmountCents = refundQuery.data?.refund?.amountCents ?? null;
   const voucherIssuedCents = refundQuery.data?.cancellation?.voucherIssuedCents ?? 0;
 
+  /**
+   * Deposit bookings: the open balance (scheduled or failed charge) for upcoming stays.
+   */
+  const installmentsQuery = useBookingInstallmentsQuery(
+    Number(booking.id),
+    statusLower === "confirmed" && !isPast
+  );
+  const openBalance =
+    installmentsQuery.data?.payment?.installments.find(
+      (i) => i.kind === "balance" && (i.status === "scheduled" || i.status === "failed")
+    ) ?? null;
+
+  const payInstallment = usePayInstallment();
+
+  function payBalance() {
+    payInstallment.mutate(Number(booking.id), {
+      onSuccess: (data) => {
+        if (data.checkoutUrl) window.location.href = data.checkoutUrl;
+      },
+    });
+  }
+
   return (
     <div className="rounded-3xl border border-stone-200 bg-white shadow-sm overflow-hidden">
       <div className="grid sm:grid-cols-[140px_1fr] gap-0">
@@ -259,6 +286,35 @@ export function BookingCard({
             <Info label="Guests" value={`${booking.guestsCount}`} />
           </div>
 
+          {openBalance && (
+            <div
+              className={cn(
+                "mt-4 rounded-2xl border p-3 text-sm",
+                openBalance.status === "failed"
+                  ? "border-rose-200 bg-rose-50 text-rose-800"
+                  : "border-amber-200 bg-amber-50 text-amber-900"
+              )}
+            >
+              {openBalance.status === "failed" ? (
+                <p>
+                  We could not charge the balance of €{(openBalance.amountCents / 100).toFixed(2)}.
+                  Please pay it to keep your booking.
+                </p>
+              ) : (
+                <p>
+                  Deposit paid. Balance €{(openBalance.amountCents / 100).toFixed(2)} is due{" "}
+                  {formatDate(openBalance.dueAt)} and will be charged to your saved card.
+                </p>
+              )}
+
+              {payInstallment.isError && (
+                <p className="mt-1 text-xs text-rose-700">
+                  {getApiErrorMessage(payInstallment.error)}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="mt-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
             <div className="text-slate-700 text-sm">
               Total:{" "}
@@ -297,6 +353,16 @@ export function BookingCard({
                 </button>
               )}
 
+              {openBalance && (
+                <button
+                  onClick={payBalance}
+                  disabled={payInstallment.isPending}
+                  className="inline-flex items-center justify-center rounded-full px-4 py-2 text-sm font-semibold bg-amber-600 text-white hover:bg-amber-700 disabled:opacity-60 transition"
+                >
+                  {payInstallment.isPending ? "Redirecting…" : "Pay balance now"}
+                </button>
+              )}
+
               {canCancel && (
                 <button
                   onClick={() => setCancelOpen(true)}
@@ -316,6 +382,7 @@ export function BookingCard({
         open={cancelOpen}
         onClose={() => setCancelOpen(false)}
         bookingId={booking.id}
+        ratePlan={booking.ratePlan}
         onCancelled={onChanged}
       />
 
@@ -6,6 +6,7 @@ import {
   useRefundRequestPreview,
   useRequestRefund,
 } from "../../api/payments";
+import type { RatePlan } from "../../api/types";
 import { createPortal } from "react-dom";
 
 
@@ -16,16 +17,19 @@ import { createPortal } from "react-dom";
  * - "Cancel booking" and "Admin refund request" are TWO different actions
  * - Always show a confirmation step with computed amounts before committing
  * - Backend remains the source of truth for amounts and policy tier selection
+ * - Non-refundable rate bookings are told upfront that cancelling gives nothing back
  */
 export function CancelBookingModal({
   open,
   onClose,
   bookingId,
+  ratePlan,
   onCancelled,
 }: {
   open: boolean;
   onClose: () => void;
   bookingId: number;
+  ratePlan?: RatePlan;
   onCancelled: () => void;
 }) {
   type Step = "edit" | "confirm";
@@ -37,6 +41,8 @@ export function CancelBookingModal({
   const [cancelPreview, setCancelPreview] = useState<null | {
     currency: string;
     policy: {
+      name: string;
+      ratePlan: RatePlan;
       daysBefore: number;
       label: string;
       description: string;
@@ -190,6 +196,16 @@ export function CancelBookingModal({
         <div className="p-5 space-y-4">
           {step === "edit" && (
             <>
+              {ratePlan === "non_refundable" && !requestFullRefund ? (
+                <div className="rounded-2xl border border-amber-200 bg-amber-50 p-4">
+                  <p className="text-sm font-semibold text-amber-950">Non-refundable rate</p>
+                  <p className="text-xs text-amber-950/80 mt-1">
+                    You booked the discounted non-refundable rate, so cancelling gives no refund
+                    and no voucher credit. You can still ask the admin for a refund below.
+                  </p>
+                </div>
+              ) : null}
+
               <div>
                 <label className="block text-sm font-semibold text-slate-800">
                   Reason (optional)
@@ -229,11 +245,19 @@ export function CancelBookingModal({
                   Refund preview (calculated from cancellation policy)
                 </p>
                 <p className="text-slate-700 text-sm mt-2">
+                  Policy: <span className="font-semibold">{cancelPreview.policy.name}</span>
+                </p>
+                <p className="text-slate-700 text-sm mt-1">
                   Policy tier: <span className="font-semibold">{cancelPreview.policy.label}</span>
                 </p>
                 <p className="text-slate-600 text-xs mt-1">
                   {cancelPreview.policy.description}
                 </p>
+                {cancelPreview.policy.ratePlan === "non_refundable" ? (
+                  <p className="text-amber-800 text-xs mt-1">
+                    Booked on the non-refundable rate: the villa's usual refund tiers do not apply.
+                  </p>
+                ) : null}
 
                 <div className="mt-3 text-sm text-slate-800">
                   <p>
@@ -0,0 +1,65 @@
+// src/components/dashboard/RedeemGiftCardForm.tsx
+import { useState } from "react";
+import { useRedeemGiftCard } from "../../api/giftCards";
+import { getApiErrorMessage } from "../../api/apiError";
+
+/**
+ * Gift card code -> credit voucher on the customer's account (VouchersCard).
+ */
+export function RedeemGiftCardForm() {
+  const redeem = useRedeemGiftCard();
+
+  const [code, setCode] = useState("");
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMsg(null);
+    setSuccessMsg(null);
+
+    if (code.trim().length < 4) {
+      setErrorMsg("Enter your gift card code.");
+      return;
+    }
+
+    redeem.mutate(
+      { code: code.trim() },
+      {
+        onSuccess: (res) => {
+          setCode("");
+          setSuccessMsg(
+            `€${(res.voucher.issuedCents / 100).toFixed(2)} credit added to your account.`
+          );
+        },
+        onError: (err) => setErrorMsg(getApiErrorMessage(err, "Could not redeem gift card.")),
+      }
+    );
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="rounded-2xl border border-stone-200 bg-white p-4 space-y-2"
+    >
+      <p className="text-slate-900 font-semibold text-sm">Redeem a gift card</p>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="EV-XXXX-XXXX-XXXX"
+          className="flex-1 rounded-full border border-stone-200 px-4 py-2 text-sm uppercase tracking-wider"
+        />
+        <button
+          type="submit"
+          disabled={redeem.isPending}
+          className="rounded-full px-4 py-2 text-sm font-semibold bg-slate-900 text-white hover:bg-slate-800 disabled:opacity-60"
+        >
+          {redeem.isPending ? "Redeeming..." : "Redeem"}
+        </button>
+      </div>
+      {errorMsg ? <p className="text-sm text-rose-700">{errorMsg}</p> : null}
+      {successMsg ? <p className="text-sm text-emerald-700">{successMsg}</p> : null}
+    </form>
+  );
+}
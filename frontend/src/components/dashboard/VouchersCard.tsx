@@ -3,6 +3,7 @@ import { useMemo } from "react";
 import { useCustomerVouchersQuery } from "../../api/vouchers.ts";
 import { AMBER_BTN } from "./DashboardHeader";
 import { Link } from "react-router-dom";
+import { RedeemGiftCardForm } from "./RedeemGiftCardForm";
 
 /**
  * Customer voucher UI:
@@ -57,6 +58,8 @@ export function VouchersCard({ enabled }: { enabled: boolean }) {
           </p>
         </div>
 
+        <RedeemGiftCardForm />
+
         {isLoading ? (
           <div className="rounded-2xl border border-stone-200 bg-stone-50 p-4">
             <p className="text-sm text-slate-600">Loading vouchers...</p>
@@ -72,7 +75,8 @@ export function VouchersCard({ enabled }: { enabled: boolean }) {
           <div className="rounded-2xl border border-stone-200 bg-stone-50 p-4">
             <p className="text-slate-900 font-semibold">No vouchers yet.</p>
             <p className="text-slate-600 text-sm mt-1">
-              If you cancel a booking close to arrival, you may receive credit.
+              If you cancel a booking close to arrival, you may receive credit. Gift cards
+              you redeem appear here too.
             </p>
             <Link to="/villas" className={`${AMBER_BTN} mt-3`}>
               View villas
@@ -111,6 +115,11 @@ export function VouchersCard({ enabled }: { enabled: boolean }) {
 
                 <p className="text-[11px] text-slate-400 mt-2">
                   Issued: {new Date(v.createdAt).toLocaleDateString()}
+                  {v.expiresAt
+                    ? ` · ${v.status === "expired" ? "Expired" : "Expires"}: ${new Date(
+                        v.expiresAt
+                      ).toLocaleDateString()}`
+                    : null}
                 </p>
               </div>
             ))}
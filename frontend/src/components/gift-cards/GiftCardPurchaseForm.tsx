@@ -0,0 +1,214 @@
+import { useState } from "react";
+import {
+  purchaseGiftCardSchema,
+  type PurchaseGiftCardInput,
+} from "@shared/schemas/giftCard.schema";
+import { useGiftCardCheckout } from "../../api/giftCards";
+import { getApiErrorMessage } from "../../api/apiError";
+
+type FieldErrors = Partial<Record<keyof PurchaseGiftCardInput, string>>;
+
+const PRESET_AMOUNTS = [100, 250, 500, 1000];
+
+const INPUT_CLASS =
+  "w-full rounded-2xl border border-stone-200 bg-white px-3 py-2.5 text-base text-stone-900 placeholder:text-stone-400 focus:outline-none focus:ring-2 focus:ring-amber-400/80 focus:border-amber-300";
+
+function todayYmd() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Gift card purchase: amount, purchaser, recipient, message and delivery date,
+ * then redirect to Stripe Checkout.
+ */
+export default function GiftCardPurchaseForm() {
+  const checkout = useGiftCardCheckout();
+
+  const [amount, setAmount] = useState("250");
+  const [purchaserName, setPurchaserName] = useState("");
+  const [purchaserEmail, setPurchaserEmail] = useState("");
+  const [recipientName, setRecipientName] = useState("");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [deliverOn, setDeliverOn] = useState(todayYmd());
+
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrorMsg(null);
+    setFieldErrors({});
+
+    const parsed = purchaseGiftCardSchema.safeParse({
+      amountCents: Math.round(Number(amount) * 100),
+      purchaserName,
+      purchaserEmail,
+      recipientName,
+      recipientEmail,
+      message: message.trim() || null,
+      deliverOn: deliverOn || undefined,
+    });
+
+    if (!parsed.success) {
+      const flattened = parsed.error.flatten().fieldErrors;
+      const fe: FieldErrors = {};
+      for (const key of Object.keys(flattened) as Array<keyof PurchaseGiftCardInput>) {
+        const first = flattened[key]?.[0];
+        if (first) fe[key] = first;
+      }
+      setFieldErrors(fe);
+      return;
+    }
+
+    checkout.mutate(parsed.data, {
+      onSuccess: (res) => {
+        if (res.checkoutUrl) window.location.href = res.checkoutUrl;
+      },
+      onError: (err) => setErrorMsg(getApiErrorMessage(err, "Could not start checkout.")),
+    });
+  };
+
+  return (
+    <section className="bg-stone-200 rounded-3xl shadow-[0_18px_40px_rgba(24,20,15,0.08)] border border-amber-50 px-5 sm:px-7 py-7 sm:py-8">
+      <h2 className="text-2xl sm:text-3xl font-semibold text-stone-900 mb-2">Buy a gift card</h2>
+      <p className="text-base text-stone-700 mb-5">
+        The recipient gets a code by email on the date you choose, redeemable as credit on any
+        direct booking.
+      </p>
+
+      {errorMsg && (
+        <div className="mb-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded-2xl px-3 py-2">
+          {errorMsg}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        {/* Amount */}
+        <div className="space-y-1.5">
+          <label className="text-base font-medium text-stone-800">Amount (€)</label>
+          <div className="flex flex-wrap gap-2">
+            {PRESET_AMOUNTS.map((a) => (
+              <button
+                key={a}
+                type="button"
+                onClick={() => setAmount(String(a))}
+                className={[
+                  "rounded-full px-4 py-2 text-sm font-semibold ring-1 ring-inset",
+                  Number(amount) === a
+                    ? "bg-amber-100 text-amber-900 ring-amber-300"
+                    : "bg-white text-stone-700 ring-stone-200 hover:bg-stone-50",
+                ].join(" ")}
+              >
+                €{a}
+              </button>
+            ))}
+            <input
+              type="number"
+              min="25"
+              max="2000"
+              step="1"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={`${INPUT_CLASS} max-w-[10rem]`}
+            />
+          </div>
+          {fieldErrors.amountCents && (
+            <p className="text-xs sm:text-sm text-red-600">{fieldErrors.amountCents}</p>
+          )}
+        </div>
+
+        {/* Purchaser */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <label className="text-base font-medium text-stone-800">Your name</label>
+            <input
+              value={purchaserName}
+              onChange={(e) => setPurchaserName(e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {fieldErrors.purchaserName && (
+              <p className="text-xs sm:text-sm text-red-600">{fieldErrors.purchaserName}</p>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-base font-medium text-stone-800">Your email</label>
+            <input
+              type="email"
+              value={purchaserEmail}
+              onChange={(e) => setPurchaserEmail(e.target.value)}
+              placeholder="you@example.com"
+              className={INPUT_CLASS}
+            />
+            {fieldErrors.purchaserEmail && (
+              <p className="text-xs sm:text-sm text-red-600">{fieldErrors.purchaserEmail}</p>
+            )}
+          </div>
+        </div>
+
+        {/* Recipient */}
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <label className="text-base font-medium text-stone-800">Recipient name</label>
+            <input
+              value={recipientName}
+              onChange={(e) => setRecipientName(e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {fieldErrors.recipientName && (
+              <p className="text-xs sm:text-sm text-red-600">{fieldErrors.recipientName}</p>
+            )}
+          </div>
+          <div className="space-y-1.5">
+            <label className="text-base font-medium text-stone-800">Recipient email</label>
+            <input
+              type="email"
+              value={recipientEmail}
+              onChange={(e) => setRecipientEmail(e.target.value)}
+              className={INPUT_CLASS}
+            />
+            {fieldErrors.recipientEmail && (
+              <p className="text-xs sm:text-sm text-red-600">{fieldErrors.recipientEmail}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <label className="text-base font-medium text-stone-800">Message (optional)</label>
+          <textarea
+            rows={3}
+            maxLength={500}
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            className={INPUT_CLASS}
+          />
+          {fieldErrors.message && (
+            <p className="text-xs sm:text-sm text-red-600">{fieldErrors.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-1.5">
+          <label className="text-base font-medium text-stone-800">Send it on</label>
+          <input
+            type="date"
+            min={todayYmd()}
+            value={deliverOn}
+            onChange={(e) => setDeliverOn(e.target.value)}
+            className={`${INPUT_CLASS} max-w-[12rem]`}
+          />
+          {fieldErrors.deliverOn && (
+            <p className="text-xs sm:text-sm text-red-600">{fieldErrors.deliverOn}</p>
+          )}
+        </div>
+
+        <button
+          type="submit"
+          disabled={checkout.isPending}
+          className="inline-flex items-center justify-center rounded-full bg-amber-500 px-6 py-3 text-base font-semibold text-stone-900 hover:bg-amber-400 disabled:opacity-60"
+        >
+          {checkout.isPending ? "Redirecting to payment..." : "Continue to payment"}
+        </button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,34 @@
+import { useGiftCardPurchaseQuery } from "../../api/giftCards";
+import { getApiErrorMessage } from "../../api/apiError";
+
+/**
+ * Shown after returning from Stripe: waits for the webhook to mark the card paid.
+ */
+export default function GiftCardPurchaseStatus({ giftCardId }: { giftCardId: number }) {
+  const { data, isLoading, error } = useGiftCardPurchaseQuery(giftCardId);
+
+  const card = data?.giftCard;
+
+  return (
+    <section className="rounded-3xl border border-amber-200 bg-amber-50 px-5 sm:px-7 py-6">
+      {isLoading ? (
+        <p className="text-stone-700">Checking your payment…</p>
+      ) : error || !card ? (
+        <p className="text-red-700">{getApiErrorMessage(error, "Could not load your gift card.")}</p>
+      ) : card.status === "pending_payment" ? (
+        <p className="text-stone-700">Payment received, confirming your gift card…</p>
+      ) : (
+        <>
+          <h2 className="text-xl font-semibold text-stone-900">Thank you!</h2>
+          <p className="mt-1 text-stone-700">
+            Your €{(card.amountCents / 100).toFixed(2)} gift card for {card.recipientName}{" "}
+            {card.status === "paid"
+              ? `will be emailed on ${new Date(card.deliverAt).toLocaleDateString()}.`
+              : "has been emailed."}{" "}
+            A receipt is on its way to your inbox.
+          </p>
+        </>
+      )}
+    </section>
+  );
+}
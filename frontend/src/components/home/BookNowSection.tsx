@@ -1,29 +1,50 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { useProperties } from "../../api/properties";
+import { propertySearchToQuery } from "../../api/properties";
+import {
+  PROPERTY_FEATURE_DEFS,
+  type PropertyFeatureKey,
+} from "../PropertyFeatureRegistry";
+
+const GUEST_FIELDS = [
+  { key: "adults", label: "Adults", min: 1 },
+  { key: "children", label: "Children", min: 0 },
+  { key: "babies", label: "Babies (under 2)", min: 0 },
+] as const;
+
+// Features guests most often filter on
+const SEARCH_FEATURES: PropertyFeatureKey[] = [
+  "POOL",
+  "SEA_VIEW",
+  "PETS_ALLOWED",
+  "WHEELCHAIR",
+  "CRIB",
+  "PARKING",
+];
+
+const inputClass =
+  "w-full min-w-0 appearance-none rounded-full border border-stone-300 bg-stone-50 px-3 py-2 text-xs md:text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-amber-400";
 
 export default function BookNowSection() {
   const navigate = useNavigate();
-  const { data: properties, isLoading } = useProperties();
 
-  const [selectedId, setSelectedId] = useState<number | "">("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [guests, setGuests] = useState({ adults: 2, children: 0, babies: 0 });
+  const [features, setFeatures] = useState<PropertyFeatureKey[]>([]);
+
+  const canSubmit = !!startDate && !!endDate && endDate > startDate;
 
+  // Searches every villa; PropertiesPage lists the bookable ones with their total
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedId) return;
+    if (!canSubmit) return;
 
-    const property = properties?.find((p) => p.id === selectedId);
-    if (!property) return;
-
-    const qs = new URLSearchParams();
-    if (startDate) qs.set("start", startDate);
-    if (endDate) qs.set("end", endDate);
-
-    const query = qs.toString();
-    navigate(`/properties/${property.slug}${query ? `?${query}` : ""}`);
+    navigate(`/properties?${propertySearchToQuery({ startDate, endDate, ...guests, features })}`);
   };
+
+  const toggleFeature = (key: PropertyFeatureKey) =>
+    setFeatures((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
   
   return (
     <section className="mt-4 lg:px-4">
@@ -39,8 +60,8 @@ export default function BookNowSection() {
               Ready to book your stay?
             </h2>
             <p className="text-sm sm:text-base md:text-lg text-stone-700">
-              Choose a villa and start your booking. You can review all details and
-              confirm on the next step.
+              Tell us your dates and party: we&apos;ll show the villas that are free,
+              with the total price of your stay.
             </p>
           </div>
 
@@ -48,28 +69,6 @@ export default function BookNowSection() {
             onSubmit={handleSubmit}
             className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4"
           >
-            {/* Villa select */}
-            <div className="sm:col-span-2 lg:col-span-1 min-w-0">
-              <label className="block text-xs font-medium text-stone-700 mb-1.5">
-                Choose a villa
-              </label>
-              <select
-                className="w-full min-w-0 rounded-full border border-stone-300 bg-stone-50 px-3 py-2 text-xs md:text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-amber-400"
-                value={selectedId}
-                onChange={(e) =>
-                  setSelectedId(e.target.value === "" ? "" : Number(e.target.value))
-                }
-                disabled={isLoading}
-              >
-                <option value="">Select a villa…</option>
-                {properties?.map((p) => (
-                  <option key={p.id} value={p.id}>
-                    {p.title} · {p.city}
-                  </option>
-                ))}
-              </select>
-            </div>
-
             {/* Dates */}
             <div className="min-w-0">
               <label className="block text-xs font-medium text-stone-700 mb-1.5">
@@ -77,7 +76,7 @@ export default function BookNowSection() {
               </label>
               <input
                 type="date"
-                className="w-full min-w-0 appearance-none rounded-full border border-stone-300 bg-stone-50 px-3 py-2 text-xs md:text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-amber-400"
+                className={inputClass}
                 value={startDate}
                 onChange={(e) => setStartDate(e.target.value)}
               />
@@ -89,27 +88,77 @@ export default function BookNowSection() {
               </label>
               <input
                 type="date"
-                className="w-full min-w-0 appearance-none rounded-full border border-stone-300 bg-stone-50 px-3 py-2 text-xs md:text-sm text-stone-800 focus:outline-none focus:ring-2 focus:ring-amber-400 focus:border-amber-400"
+                className={inputClass}
                 value={endDate}
                 onChange={(e) => setEndDate(e.target.value)}
               />
             </div>
 
+            {/* Guests (babies are not counted in villa capacity) */}
+            {GUEST_FIELDS.map((f) => (
+              <div key={f.key} className="min-w-0">
+                <label className="block text-xs font-medium text-stone-700 mb-1.5">
+                  {f.label}
+                </label>
+                <select
+                  className={inputClass}
+                  value={guests[f.key]}
+                  onChange={(e) => setGuests((g) => ({ ...g, [f.key]: Number(e.target.value) }))}
+                >
+                  {Array.from({ length: 11 - f.min }, (_, i) => i + f.min).map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+
+            {/* Optional features */}
+            <div className="sm:col-span-2 lg:col-span-2 min-w-0">
+              <span className="block text-xs font-medium text-stone-700 mb-1.5">
+                Must have (optional)
+              </span>
+              <div className="flex flex-wrap gap-2">
+                {PROPERTY_FEATURE_DEFS.filter((d) => SEARCH_FEATURES.includes(d.key)).map(
+                  ({ key, label, Icon }) => {
+                    const active = features.includes(key);
+                    return (
+                      <button
+                        key={key}
+                        type="button"
+                        onClick={() => toggleFeature(key)}
+                        aria-pressed={active}
+                        className={`inline-flex items-center gap-1.5 rounded-full border px-3 py-1.5 text-xs md:text-sm transition-colors ${
+                          active
+                            ? "border-amber-500 bg-amber-100 text-amber-900"
+                            : "border-stone-300 bg-stone-50 text-stone-700 hover:bg-stone-100"
+                        }`}
+                      >
+                        <Icon className="h-4 w-4" />
+                        {label}
+                      </button>
+                    );
+                  }
+                )}
+              </div>
+            </div>
+
             {/* Submit */}
             <div className="sm:col-span-2 lg:col-span-1 flex items-end min-w-0">
               <button
                 type="submit"
-                disabled={!selectedId}
+                disabled={!canSubmit}
                 className="w-full rounded-full bg-amber-500 text-amber-950 text-sm sm:text-base font-semibold py-2.5 md:py-3 shadow-md shadow-amber-900/40 hover:bg-amber-400 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
               >
-                Book now
+                Search villas
               </button>
             </div>
           </form>
 
           <p className="text-xs sm:text-sm text-stone-600">
-            No payment is taken on this step. You&apos;ll be able to review your
-            booking details and confirm on the next page.
+            No payment is taken on this step. Pick a villa from the results to review
+            your booking details and confirm.
           </p>
         </div>
       </div>
@@ -1,34 +1,30 @@
-import { useMemo, useState } from "react";
+import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { useProperties } from "../../api/properties";
+import { propertySearchToQuery } from "../../api/properties";
 
 const GOLD = "#C9A24A";
 
+const GUEST_FIELDS = [
+  { key: "adults", label: "Adults", min: 1 },
+  { key: "children", label: "Children", min: 0 },
+  { key: "babies", label: "Babies", min: 0 },
+] as const;
+
 export default function HeroBookingMiniForm() {
   const navigate = useNavigate();
-  const { data: properties, isLoading } = useProperties();
 
-  const [selectedId, setSelectedId] = useState<number | "">("");
   const [startDate, setStartDate] = useState("");
   const [endDate, setEndDate] = useState("");
+  const [guests, setGuests] = useState({ adults: 2, children: 0, babies: 0 });
 
-  const selectedProperty = useMemo(() => {
-    if (!selectedId) return null;
-    return properties?.find((p) => p.id === selectedId) ?? null;
-  }, [properties, selectedId]);
-
-  const canSubmit = !!selectedProperty;
+  const canSubmit = !!startDate && !!endDate && endDate > startDate;
 
+  // Searches every villa for these dates/guests (PropertiesPage shows the bookable ones)
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!selectedProperty) return;
+    if (!canSubmit) return;
 
-    const qs = new URLSearchParams();
-    if (startDate) qs.set("start", startDate);
-    if (endDate) qs.set("end", endDate);
-
-    const query = qs.toString();
-    navigate(`/properties/${selectedProperty.slug}${query ? `?${query}` : ""}`);
+    navigate(`/properties?${propertySearchToQuery({ startDate, endDate, ...guests, features: [] })}`);
   };
 
 
@@ -49,7 +45,7 @@ export default function HeroBookingMiniForm() {
       <div className="flex items-start justify-between gap-3">
         <div className="min-w-0">
           <div className="text-base font-semibold text-white/95">Book your stay</div>
-          <div className="mt-1 text-sm text-white/80">Pick a villa & dates</div>
+          <div className="mt-1 text-sm text-white/80">Pick dates & guests</div>
         </div>
 
         <div
@@ -64,35 +60,6 @@ export default function HeroBookingMiniForm() {
       </div>
 
       <form onSubmit={handleSubmit} className="mt-5 space-y-3">
-        {/* Villa select */}
-        <div className="min-w-0">
-          <label className="block text-[11px] font-semibold text-white/85 mb-1.5">
-            Choose a villa
-          </label>
-          <select
-            className="
-              w-full min-w-0 rounded-full
-              border border-white/25 bg-black/10
-              px-3 py-2 text-xs text-white/90
-              focus:outline-none focus:ring-2 focus:ring-amber-300/80 focus:border-amber-300/80
-            "
-            value={selectedId}
-            onChange={(e) =>
-              setSelectedId(e.target.value === "" ? "" : Number(e.target.value))
-            }
-            disabled={isLoading}
-          >
-            <option value="" className="text-stone-900">
-              Select a villa…
-            </option>
-            {properties?.map((p) => (
-              <option key={p.id} value={p.id} className="text-stone-900">
-                {p.title} · {p.city}
-              </option>
-            ))}
-          </select>
-        </div>
-
         {/* Dates */}
         <div className="grid grid-cols-2 gap-2">
           <div className="min-w-0">
@@ -130,6 +97,33 @@ export default function HeroBookingMiniForm() {
           </div>
         </div>
 
+        {/* Guests (babies are not counted in villa capacity) */}
+        <div className="grid grid-cols-3 gap-2">
+          {GUEST_FIELDS.map((f) => (
+            <div key={f.key} className="min-w-0">
+              <label className="block text-[11px] font-semibold text-white/85 mb-1.5">
+                {f.label}
+              </label>
+              <select
+                className="
+                  w-full min-w-0 rounded-full
+                  border border-white/25 bg-black/10
+                  px-3 py-2 text-xs text-white/90
+                  focus:outline-none focus:ring-2 focus:ring-amber-300/80 focus:border-amber-300/80
+                "
+                value={guests[f.key]}
+                onChange={(e) => setGuests((g) => ({ ...g, [f.key]: Number(e.target.value) }))}
+              >
+                {Array.from({ length: 11 - f.min }, (_, i) => i + f.min).map((n) => (
+                  <option key={n} value={n} className="text-stone-900">
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
         {/* Submit */}
         <button
           type="submit"
@@ -144,7 +138,7 @@ export default function HeroBookingMiniForm() {
             disabled:opacity-60 disabled:cursor-not-allowed
           "
         >
-          Book now
+          Search villas
         </button>
 
         {/* Tiny helper text */}
@@ -169,8 +163,8 @@ export default function HeroBookingMiniForm() {
       {/* Accent hint (subtle gold) */}
       <div className="mt-3 h-px w-full" style={{ background: "rgba(255,255,255,0.12)" }} />
       <div className="mt-3 text-[11px] text-white/70">
-        <span style={{ color: GOLD, fontWeight: 600 }}>Tip:</span> dates are optional here (kept for
-        convenience).
+        <span style={{ color: GOLD, fontWeight: 600 }}>Tip:</span> only villas free for your dates
+        are shown, with the total price.
       </div>
     </div>
   );
@@ -9,16 +9,31 @@ type Props = {
    * to enforce frontend/backend contract consistency.
    */
   property: any;
+  // e.g. "start=2026-07-01&end=2026-07-08" from the availability search
+  linkQuery?: string;
 };
 
-export default function PropertyCard({ property: p }: Props) {
+function formatMoneyEUR(value: number) {
+  try {
+    return new Intl.NumberFormat("en-GB", {
+      style: "currency",
+      currency: "EUR",
+      minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+      maximumFractionDigits: Number.isInteger(value) ? 0 : 2,
+    }).format(value);
+  } catch {
+    return `${value}€`;
+  }
+}
+
+export default function PropertyCard({ property: p, linkQuery }: Props) {
   const navigate = useNavigate();
 
   /**
    * Canonical route built from backend-provided slug.
    * Only the CTA button performs navigation.
    */
-  const to = `/properties/${p.slug}`;
+  const to = `/properties/${p.slug}${linkQuery ? `?${linkQuery}` : ""}`;
 
   /**
    * Normalize backend image relation to a clean string[].
@@ -84,6 +99,16 @@ export default function PropertyCard({ property: p }: Props) {
             <p className="mt-2 text-base sm:text-lg font-semibold text-stone-900">
               Max {p.maxGuests} guests
             </p>
+
+            {/* Quoted total (availability search results only) */}
+            {p.quote ? (
+              <p className="mt-2 text-base sm:text-lg font-semibold text-stone-900">
+                {formatMoneyEUR(p.quote.totalCents / 100)}{" "}
+                <span className="text-sm font-medium text-stone-900/80">
+                  total · {p.quote.nights} night{p.quote.nights === 1 ? "" : "s"}
+                </span>
+              </p>
+            ) : null}
           </div>
 
           {/* CTA Column */}
@@ -2,13 +2,15 @@ import PropertyCard from "./PropertyCard.tsx";
 
 type Props = {
   properties: any[]; // swap to Property[] if you have it typed
+  // Search query kept on the villa links (dates carried to the villa page)
+  linkQuery?: string;
 };
 
-export default function PropertyGrid({ properties }: Props) {
+export default function PropertyGrid({ properties, linkQuery }: Props) {
   return (
     <div className="grid gap-6 md:gap-8 lg:grid-cols-2">
       {properties.map((p) => (
-        <PropertyCard key={p.id} property={p} />
+        <PropertyCard key={p.id} property={p} linkQuery={linkQuery} />
       ))}
     </div>
   );
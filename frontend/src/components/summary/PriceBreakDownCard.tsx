@@ -1,27 +1,64 @@
+import type { BookingQuoteResponse } from "../../api/bookingQuote";
+import type { PriceBreakdown, PriceLineItem } from "../../api/types";
+
 function formatMoneyEUR(value: number) {
   try {
     return new Intl.NumberFormat("en-GB", {
       style: "currency",
       currency: "EUR",
-      maximumFractionDigits: 0,
+      // Nightly prices are whole EUR; fees are set in cents and may have a fraction
+      minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+      maximumFractionDigits: Number.isInteger(value) ? 0 : 2,
     }).format(value);
   } catch {
     return `${value}€`;
   }
 }
 
+/**
+ * Itemised lines from the pricing engine.
+ * Falls back to segments + weekly discount for breakdowns stored before lineItems existed.
+ */
+function lineItemsOf(ps: PriceBreakdown): PriceLineItem[] {
+  if (ps.lineItems?.length) return ps.lineItems;
+
+  const lines: PriceLineItem[] = ps.segments.map((s) => ({
+    code: "nights",
+    label: `${s.nights} night${s.nights === 1 ? "" : "s"}`,
+    quantity: s.nights,
+    unitAmountCents: s.nightlyPrice * 100,
+    amountCents: s.segmentTotal * 100,
+    periodId: s.periodId,
+    from: s.from,
+    to: s.to,
+  }));
+
+  if (ps.weeklyDiscountAppliedBps) {
+    lines.push({
+      code: "weekly_discount",
+      label: `Weekly discount (${(ps.weeklyDiscountAppliedBps / 100).toFixed(0)}%)`,
+      quantity: 1,
+      unitAmountCents: (ps.totalEur - ps.baseTotalEur) * 100,
+      amountCents: (ps.totalEur - ps.baseTotalEur) * 100,
+    });
+  }
+
+  return lines;
+}
+
 export function PriceBreakdownCard({
   quote,
   onConfirm,
   disabled,
   isSubmitting,
 }: {
-  quote: any;
+  quote: BookingQuoteResponse;
   onConfirm: () => void;
   disabled: boolean;
   isSubmitting: boolean;
 }) {
   const ps = quote.priceSummary;
+  const balance = ps.paymentSchedule?.find((line) => line.kind === "balance") ?? null;
 
   return (
     <div className="sticky top-6 rounded-2xl border border-stone-200 bg-white p-5">
@@ -29,32 +66,34 @@ export function PriceBreakdownCard({
 
       <div className="mt-4 space-y-3 text-sm">
         <div className="space-y-2">
-          {ps.segments.map((s: any, idx: number) => (
-            <div key={idx} className="flex items-start justify-between gap-4">
-              <div>
-                <p className="font-medium text-stone-900">
-                  {formatMoneyEUR(s.nightlyPrice)} × {s.nights} night{s.nights === 1 ? "" : "s"}
+          {lineItemsOf(ps).map((li, idx) =>
+            li.code === "nights" ? (
+              <div key={idx} className="flex items-start justify-between gap-4">
+                <div>
+                  <p className="font-medium text-stone-900">
+                    {formatMoneyEUR(li.unitAmountCents / 100)} × {li.quantity} night
+                    {li.quantity === 1 ? "" : "s"}
+                  </p>
+                  <p className="text-[11px] text-stone-600">
+                    {li.from} → {li.to}
+                  </p>
+                </div>
+                <p className="font-semibold text-stone-900">
+                  {formatMoneyEUR(li.amountCents / 100)}
                 </p>
-                <p className="text-[11px] text-stone-600">
-                  {s.from} → {s.to}
+              </div>
+            ) : (
+              <div key={idx} className="flex items-center justify-between">
+                <p className="text-stone-700">{li.label}</p>
+                <p className="font-semibold text-stone-900">
+                  {li.amountCents < 0 ? "−" : ""}
+                  {formatMoneyEUR(Math.abs(li.amountCents) / 100)}
                 </p>
               </div>
-              <p className="font-semibold text-stone-900">
-                {formatMoneyEUR(s.segmentTotal)}
-              </p>
-            </div>
-          ))}
+            )
+          )}
         </div>
 
-        {ps.weeklyDiscountAppliedBps ? (
-          <div className="flex items-center justify-between">
-            <p className="text-stone-700">Weekly discount</p>
-            <p className="font-semibold text-stone-900">
-              −{(ps.weeklyDiscountAppliedBps / 100).toFixed(0)}%
-            </p>
-          </div>
-        ) : null}
-
         {ps.creditsAppliedCents > 0 ? (
           <div className="flex items-center justify-between">
             <p className="text-stone-700">Credits</p>
@@ -74,12 +113,21 @@ export function PriceBreakdownCard({
         </div>
 
         <div className="flex items-center justify-between">
-          <p className="text-stone-700">Due now</p>
+          <p className="text-stone-700">{balance ? "Deposit due now" : "Due now"}</p>
           <p className="text-base font-semibold text-amber-900">
-            {formatMoneyEUR(Math.round(ps.cashDueNowCents / 100))}
+            {formatMoneyEUR(balance ? ps.cashDueNowCents / 100 : Math.round(ps.cashDueNowCents / 100))}
           </p>
         </div>
 
+        {balance ? (
+          <div className="flex items-center justify-between">
+            <p className="text-stone-700">Balance due {balance.dueDate}</p>
+            <p className="font-semibold text-stone-900">
+              {formatMoneyEUR(balance.amountCents / 100)}
+            </p>
+          </div>
+        ) : null}
+
         <button
           type="button"
           onClick={onConfirm}
@@ -90,7 +138,9 @@ export function PriceBreakdownCard({
         </button>
 
         <p className="mt-3 text-[11px] text-stone-600">
-          You’ll be redirected to Stripe to complete payment.
+          {balance
+            ? "You’ll be redirected to Stripe to pay the deposit. Your card is saved and charged for the balance on its due date."
+            : "You’ll be redirected to Stripe to complete payment."}
         </p>
       </div>
     </div>
@@ -0,0 +1,70 @@
+import type { RatePlan } from "../../api/types";
+
+function pctFromBps(bps: number) {
+  return String(Number((bps / 100).toFixed(2))); // 1_000 -> 10, 1_250 -> 12.5
+}
+
+/**
+ * Standard vs non-refundable rate choice.
+ * Only rendered when the villa offers a non-refundable discount; the quote is re-priced
+ * by the backend on every change.
+ */
+export function RatePlanCard({
+  value,
+  onChange,
+  nonRefundableDiscountBps,
+  disabled,
+}: {
+  value: RatePlan;
+  onChange: (plan: RatePlan) => void;
+  nonRefundableDiscountBps: number;
+  disabled?: boolean;
+}) {
+  const options: Array<{ plan: RatePlan; title: string; description: string }> = [
+    {
+      plan: "standard",
+      title: "Standard rate",
+      description: "Cancel under the villa's refund policy below.",
+    },
+    {
+      plan: "non_refundable",
+      title: `Non-refundable rate • save ${pctFromBps(nonRefundableDiscountBps)}%`,
+      description:
+        "Lower price on the accommodation. No refund or voucher if you cancel, whenever you cancel.",
+    },
+  ];
+
+  return (
+    <div className="rounded-2xl border border-stone-200 bg-white p-5">
+      <h2 className="text-sm font-semibold text-stone-900">Rate</h2>
+
+      <div className="mt-3 space-y-2">
+        {options.map((o) => {
+          const active = o.plan === value;
+          return (
+            <label
+              key={o.plan}
+              className={[
+                "flex items-start gap-3 rounded-xl border px-4 py-3 cursor-pointer",
+                active ? "border-amber-300 bg-amber-50" : "border-stone-200 bg-stone-50",
+              ].join(" ")}
+            >
+              <input
+                type="radio"
+                name="ratePlan"
+                className="mt-1"
+                checked={active}
+                disabled={disabled}
+                onChange={() => onChange(o.plan)}
+              />
+              <div>
+                <p className="text-sm font-semibold text-stone-900">{o.title}</p>
+                <p className="mt-1 text-xs text-stone-600">{o.description}</p>
+              </div>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
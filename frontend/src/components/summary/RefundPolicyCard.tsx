@@ -1,12 +1,16 @@
 function pctFromBps(bps: number) {
-  return (bps / 100).toFixed(0); // 10_000 -> 100%
+  return String(Number((bps / 100).toFixed(2))); // 10_000 -> 100, 1_250 -> 12.5
 }
 
 export function RefundPolicyCard({
+  policyName,
+  policyDescription,
   daysBeforeCheckIn,
   applicableTierKey,
   tiers,
 }: {
+  policyName: string;
+  policyDescription: string | null;
   daysBeforeCheckIn: number;
   applicableTierKey: string;
   tiers: Array<{
@@ -19,7 +23,10 @@ export function RefundPolicyCard({
 }) {
   return (
     <div className="rounded-2xl border border-stone-200 bg-white p-5">
-      <h2 className="text-sm font-semibold text-stone-900">Refund policy</h2>
+      <h2 className="text-sm font-semibold text-stone-900">Refund policy: {policyName}</h2>
+      {policyDescription ? (
+        <p className="mt-1 text-xs text-stone-600">{policyDescription}</p>
+      ) : null}
 
       <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3">
         <p className="text-xs font-semibold text-amber-950">
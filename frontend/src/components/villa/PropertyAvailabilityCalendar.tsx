@@ -1,18 +1,17 @@
 // src/components/villa/PropertyAvailabilityCalendar.tsx
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import FullCalendar from "@fullcalendar/react";
 import dayGridPlugin from "@fullcalendar/daygrid";
 import interactionPlugin from "@fullcalendar/interaction";
 import { useNavigate } from "react-router-dom";
 import type { DateRange } from "react-day-picker";
-import type { CalendarItemPublic } from "../../api/types";
+import type { AvailabilityDay } from "../../api/types";
 import React from "react";
 
 interface Props {
-  items: CalendarItemPublic[] | undefined;
-
-  // Daily prices by YYYY-MM-DD (period price). If missing -> fallback.
-  dailyPrices?: Record<string, number>;
+  // Per-date availability by YYYY-MM-DD (GET /api/bookings/availability/property/:id).
+  // Missing date = not bookable.
+  days: Record<string, AvailabilityDay>;
 
   // Standard/base price (Property.pricePerNight)
   defaultNightlyPrice: number;
@@ -26,9 +25,6 @@ interface Props {
 
    // When provided (YYYY-MM-DD), calendar jumps to that month
   initialDate?: string;
-
-   // availability by YYYY-MM-DD. true only if OPEN period covers that day.
-  dailyOpen?: Record<string, boolean>;
 }
 
 function isoDateOnly(d: Date) {
@@ -64,15 +60,13 @@ function formatDay(d: Date) {
 }
 
 export function PropertyAvailabilityCalendar({
-  items,
-  dailyPrices,
+  days,
   defaultNightlyPrice,
   maxGuests,
   selectedRange,
   onChange,
   propertySlug,
   initialDate,
-  dailyOpen,
 }: Props) {
   const navigate = useNavigate();
 
@@ -102,30 +96,41 @@ export function PropertyAvailabilityCalendar({
     return () => mq.removeEventListener("change", apply);
   }, []);
 
-  const blocksSafe = items ?? [];
-
-  const blockedRanges = useMemo(() => {
-    // Convert to Date objects once
-    return blocksSafe.map((b) => ({
-      start: new Date(b.startDate), // inclusive
-      end: new Date(b.endDate), // exclusive (checkout)
-    }));
-  }, [blocksSafe]);
+  const dayInfo = (day: Date): AvailabilityDay | undefined => days[isoDateOnly(day)];
 
   function isBlockedDay(day: Date) {
-    // blocked if day >= start && day < end (checkout exclusive)
-    return blockedRanges.some((r) => day >= r.start && day < r.end);
+    return dayInfo(day)?.status === "booked";
   }
 
+  // Free night covered by an OPEN period
   function isOpenDay(day: Date) {
-    const key = isoDateOnly(day);
-    return dailyOpen?.[key] === true;
+    return dayInfo(day)?.status === "available";
+  }
+
+  // Weekday rule + enough free nights for the minimum stay (computed by the backend)
+  function canArriveOn(day: Date) {
+    return dayInfo(day)?.arrivalAllowed === true;
+  }
+
+  function canDepartOn(day: Date) {
+    return dayInfo(day)?.departureAllowed === true;
+  }
+
+  // Picking the check-out day only while a check-in is selected without a check-out
+  const pickingCheckOut = !!selectedRange?.from && !selectedRange?.to;
+
+  // Minimum stay when arriving on the selected check-in day
+  const minNights = selectedRange?.from ? (dayInfo(selectedRange.from)?.minNights ?? 1) : null;
+
+  function isLongEnough(from: Date, to: Date) {
+    const nights = Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / 86400000);
+    return nights >= (dayInfo(from)?.minNights ?? 1);
   }
 
   function priceForDate(day: Date) {
-    const key = isoDateOnly(day);
-    if (!isOpenDay(day)) return null;
-    return dailyPrices?.[key] ?? defaultNightlyPrice;
+    const info = dayInfo(day);
+    if (info?.status !== "available") return null;
+    return info.nightlyPrice ?? defaultNightlyPrice;
   }
 
   function isRangeAvailable(from: Date, to: Date) {
@@ -134,7 +139,6 @@ export function PropertyAvailabilityCalendar({
     const end = startOfDay(to);
 
     while (cur < end) {
-      if (isBlockedDay(cur)) return false;
       if (!isOpenDay(cur)) return false;
       cur = addDays(cur, 1);
     }
@@ -151,7 +155,7 @@ export function PropertyAvailabilityCalendar({
     checkIn && checkOut
       ? `Selected: ${formatDay(checkIn)} → ${formatDay(checkOut)}`
       : checkIn
-      ? `Check-in: ${formatDay(checkIn)}`
+      ? `Check-in: ${formatDay(checkIn)} · min. ${minNights} night${minNights === 1 ? "" : "s"}`
       : `Choose your check-in date`;
 
   const handleBookClick = () => {
@@ -176,12 +180,20 @@ export function PropertyAvailabilityCalendar({
   const onDateClick = (arg: any) => {
     const clicked = startOfDay(arg.date);
 
+    // Check-out day: only the nights before it must be free/open (checked below),
+    // so a blocked/closed day is still a valid check-out if departures are allowed.
+    const isCheckOutCandidate =
+      pickingCheckOut && clicked > startOfDay(selectedRange!.from!) && canDepartOn(clicked);
+
     // disallow selecting blocked days
-    if (isBlockedDay(clicked)) return;
-    if (!isOpenDay(clicked)) return;
+    if (!isCheckOutCandidate) {
+      if (isBlockedDay(clicked)) return;
+      if (!isOpenDay(clicked)) return;
+    }
 
     // no selection yet -> set from
     if (!selectedRange?.from) {
+      if (!canArriveOn(clicked)) return;
       onChange({ from: clicked, to: undefined });
       return;
     }
@@ -196,20 +208,26 @@ export function PropertyAvailabilityCalendar({
 
       // if user clicks an earlier day, treat it as new start
       if (clicked < startOfDay(selectedRange.from)) {
-        onChange({ from: clicked, to: undefined });
+        if (canArriveOn(clicked)) onChange({ from: clicked, to: undefined });
         return;
       }
 
+      // check-out weekday not allowed for this period
+      if (!canDepartOn(clicked)) return;
+
       // set to (checkout day is clicked day, exclusive)
       const from = startOfDay(selectedRange.from);
       const to = clicked;
 
+      // shorter than the minimum stay of the check-in day
+      if (!isLongEnough(from, to)) return;
+
       if (!isRangeAvailable(from, to)) {
         alert(
           "Some dates in that range are unavailable. Please choose different dates."
         );
         // Keep it simple: make clicked day the new start
-        onChange({ from: clicked, to: undefined });
+        onChange(canArriveOn(clicked) ? { from: clicked, to: undefined } : undefined);
         return;
       }
 
@@ -218,6 +236,7 @@ export function PropertyAvailabilityCalendar({
     }
 
     // range already selected -> start a new selection from clicked
+    if (!canArriveOn(clicked)) return;
     onChange({ from: clicked, to: undefined });
   };
 
@@ -243,7 +262,16 @@ export function PropertyAvailabilityCalendar({
 
     const blocked = isBlockedDay(day);
     const open = isOpenDay(day);
+
+    // Weekday rules: grey out days that cannot be the next pick
+    // (check-in days while choosing a start, check-out days while choosing an end)
+    const from0 = selectedRange?.from ? startOfDay(selectedRange.from) : null;
+    const restricted = pickingCheckOut
+      ? !!from0 && day > from0 && (!canDepartOn(day) || !isLongEnough(from0, day))
+      : open && !canArriveOn(day);
+
     if (blocked || !open) classes.push("cust-closed");
+    if (restricted) classes.push("cust-restricted");
 
     // selection highlighting
     const from = selectedRange?.from ? startOfDay(selectedRange.from) : null;
@@ -301,7 +329,8 @@ export function PropertyAvailabilityCalendar({
       </div>
 
       <p className="mt-2 text-xs text-stone-500">
-        Dates in gray are already booked.
+        Dates in gray are already booked or closed. Faded dates are not available for
+        check-in (or check-out) because of the weekday or the minimum stay.
       </p>
 
       <button
@@ -381,6 +410,10 @@ export function PropertyAvailabilityCalendar({
           text-decoration: line-through;
         }
 
+        .cust-calendar .cust-restricted .cust-dc-num,
+        .cust-calendar .cust-restricted .cust-dc-price { opacity: 0.35; }
+        .cust-calendar .cust-restricted { cursor: not-allowed; }
+
         .cust-calendar .cust-range-start,
         .cust-calendar .cust-range-end { background: rgba(245, 158, 11, 0.36); }
         .cust-calendar .cust-range-mid { background: rgba(245, 158, 11, 0.20); }
@@ -3,9 +3,12 @@ import { useMemo, useState } from "react";
 import { useProperty } from "../api/properties";
 import { useBookingQuote } from "../api/bookingQuote";
 import { useCreateBooking } from "../api/booking";
+import { getApiErrorMessage } from "../api/apiError";
+import type { RatePlan } from "../api/types";
 
 import { PropertyRulesCard } from "../components/summary/PropertyRulesCard";
 import { RefundPolicyCard } from "../components/summary/RefundPolicyCard";
+import { RatePlanCard } from "../components/summary/RatePlanCard";
 import { PriceBreakdownCard } from "../components/summary/PriceBreakDownCard";
 import { ConsentBox } from "../components/summary/ConsentBox";
 
@@ -17,10 +20,14 @@ type BookingDraft = {
   adults: number;
   children: number;
   babies: number;
+  pets?: number;
+  extraBeds?: number;
   guestName: string;
   guestEmail: string;
   guestPhone: string;
   useCredit: boolean;
+  promoCode?: string;
+  arrivalTime?: string;
   note?: string;
 };
 
@@ -50,6 +57,9 @@ export default function BookingSummaryPage() {
     [location.state]
   );
 
+  // Standard unless the guest picks the villa's non-refundable rate (re-quoted on change)
+  const [ratePlan, setRatePlan] = useState<RatePlan>("standard");
+
   if (!draftMaybe) {
     return (
       <div className="mx-auto max-w-3xl px-4 pb-10 pt-24">
@@ -85,7 +95,11 @@ export default function BookingSummaryPage() {
       adults: draft.adults,
       children: draft.children,
       babies: draft.babies,
+      pets: draft.pets ?? 0,
+      extraBeds: draft.extraBeds ?? 0,
       useCredit: draft.useCredit,
+      promoCode: draft.promoCode ?? null,
+      ratePlan,
     }),
     [
       draft.propertyId,
@@ -94,7 +108,11 @@ export default function BookingSummaryPage() {
       draft.adults,
       draft.children,
       draft.babies,
+      draft.pets,
+      draft.extraBeds,
       draft.useCredit,
+      draft.promoCode,
+      ratePlan,
     ]
   );
 
@@ -130,10 +148,15 @@ export default function BookingSummaryPage() {
         adults: draft.adults,
         children: draft.children,
         babies: draft.babies,
+        pets: draft.pets ?? 0,
+        extraBeds: draft.extraBeds ?? 0,
         guestName: draft.guestName,
         guestEmail: draft.guestEmail,
         guestPhone: draft.guestPhone,
         useCredit: draft.useCredit,
+        promoCode: draft.promoCode ?? null,
+        ratePlan,
+        arrivalTime: draft.arrivalTime ?? null,
         note: draft.note,
       } as any,
       {
@@ -246,6 +269,15 @@ export default function BookingSummaryPage() {
                   <p className="mt-1 text-[11px] text-stone-600">
                     Babies (&lt;2) don’t count toward max guests.
                   </p>
+                  {draft.pets || draft.extraBeds ? (
+                    <p className="mt-1 text-xs text-stone-700">
+                      {draft.pets ? `${draft.pets} pet${draft.pets === 1 ? "" : "s"}` : ""}
+                      {draft.pets && draft.extraBeds ? ", " : ""}
+                      {draft.extraBeds
+                        ? `${draft.extraBeds} extra bed${draft.extraBeds === 1 ? "" : "s"}`
+                        : ""}
+                    </p>
+                  ) : null}
                 </div>
               </div>
 
@@ -273,9 +305,25 @@ export default function BookingSummaryPage() {
               policies={property?.policies ?? []}
             />
 
+            {/* Rate plan choice (only when the villa offers a non-refundable discount) */}
+            {property?.nonRefundableDiscountBps ? (
+              <RatePlanCard
+                value={ratePlan}
+                onChange={(plan) => {
+                  setRatePlan(plan);
+                  // The refund terms change with the plan: ask for consent again
+                  setAgreeRefunds(false);
+                }}
+                nonRefundableDiscountBps={property.nonRefundableDiscountBps}
+                disabled={isPending}
+              />
+            ) : null}
+
             {/* Exact refund policy snapshot from backend */}
             {quote?.refundPolicy ? (
               <RefundPolicyCard
+                policyName={quote.refundPolicy.policy.name}
+                policyDescription={quote.refundPolicy.policy.description}
                 daysBeforeCheckIn={quote.refundPolicy.daysBeforeCheckIn}
                 applicableTierKey={quote.refundPolicy.applicableTier.key}
                 tiers={quote.refundPolicy.tiers}
@@ -298,7 +346,11 @@ export default function BookingSummaryPage() {
                 <ConsentBox
                   checked={agreeRefunds}
                   onChange={setAgreeRefunds}
-                  label="I understand the refund policy and that credits are non-refundable."
+                  label={
+                    ratePlan === "non_refundable"
+                      ? "I understand this non-refundable rate gives no refund if I cancel, and that credits are non-refundable."
+                      : "I understand the refund policy and that credits are non-refundable."
+                  }
                 />
               </div>
 
@@ -318,8 +370,18 @@ export default function BookingSummaryPage() {
             ) : quoteError ? (
               <div className="rounded-3xl border border-stone-200 bg-white/90 p-6 shadow-sm backdrop-blur">
                 <p className="text-sm text-red-600">
-                  Could not calculate pricing. Please go back and try again.
+                  {draft.promoCode
+                    ? getApiErrorMessage(quoteError, "Could not apply your promo code.")
+                    : "Could not calculate pricing. Please go back and try again."}
                 </p>
+                {draft.promoCode ? (
+                  <Link
+                    to={backToBookingUrl}
+                    className="mt-2 inline-block text-xs font-semibold text-stone-900 underline"
+                  >
+                    Change promo code
+                  </Link>
+                ) : null}
               </div>
             ) : quote ? (
               <div className="rounded-3xl border border-stone-200 bg-white/90 shadow-sm backdrop-blur">
@@ -0,0 +1,34 @@
+// src/pages/GiftCardsPage.tsx
+import { useSearchParams } from "react-router-dom";
+import GiftCardPurchaseForm from "../components/gift-cards/GiftCardPurchaseForm";
+import GiftCardPurchaseStatus from "../components/gift-cards/GiftCardPurchaseStatus";
+
+/**
+ * Public gift card page. Stripe returns here with ?purchased=<giftCardId>.
+ */
+export default function GiftCardsPage() {
+  const [params] = useSearchParams();
+  const purchasedRaw = params.get("purchased");
+  const purchasedId = purchasedRaw ? Number(purchasedRaw) : NaN;
+
+  return (
+    <div className="bg-stone-100 min-h-screen pt-24 pb-12">
+      <div className="max-w-3xl mx-auto px-4 space-y-6">
+        <div>
+          <p className="text-[10px] uppercase tracking-[0.2em] text-amber-700">Gift cards</p>
+          <h1 className="mt-1 text-2xl sm:text-3xl md:text-4xl font-semibold text-stone-900">
+            Give a stay at Eagle Villas
+          </h1>
+          <p className="mt-3 text-sm sm:text-base text-stone-700 max-w-2xl">
+            Choose an amount and a date, and we&apos;ll email the recipient their gift card code.
+            They redeem it from their account and it is applied as credit on their booking.
+          </p>
+        </div>
+
+        {Number.isFinite(purchasedId) ? <GiftCardPurchaseStatus giftCardId={purchasedId} /> : null}
+
+        <GiftCardPurchaseForm />
+      </div>
+    </div>
+  );
+}
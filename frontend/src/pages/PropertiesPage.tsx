@@ -1,15 +1,40 @@
-import { useProperties } from "../api/properties";
+import { useMemo } from "react";
+import { useSearchParams } from "react-router-dom";
+import {
+  parsePropertySearch,
+  propertySearchToQuery,
+  useProperties,
+  usePropertySearch,
+} from "../api/properties";
+import { PROPERTY_FEATURE_DEFS } from "../components/PropertyFeatureRegistry";
 import PropertiesHero from "../components/properties/PropertiesHero.tsx";
 import PropertyGrid from "../components/properties/PropertyGrid.tsx";
 
+function formatDay(ymd: string) {
+  return new Date(`${ymd}T00:00:00`).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
 export default function PropertiesPage() {
-  const { data, isLoading, error } = useProperties();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // ?start=&end=&adults=... (set by the home page search forms); none = every villa
+  const search = useMemo(() => parsePropertySearch(searchParams), [searchParams]);
+
+  const all = useProperties();
+  const found = usePropertySearch(search);
+  const { data, isLoading, error } = search ? found : all;
   const properties = data ?? [];
 
   if (isLoading) {
     return (
       <div className="min-h-[calc(100vh-4rem)] flex items-center justify-center bg-stone-100 px-4">
-        <p className="text-sm text-stone-700">Loading villas…</p>
+        <p className="text-sm text-stone-700">
+          {search ? "Searching available villas…" : "Loading villas…"}
+        </p>
       </div>
     );
   }
@@ -22,18 +47,54 @@ export default function PropertiesPage() {
     );
   }
 
+  const guests = search
+    ? [
+        `${search.adults} adult${search.adults === 1 ? "" : "s"}`,
+        ...(search.children ? [`${search.children} child${search.children === 1 ? "" : "ren"}`] : []),
+        ...(search.babies ? [`${search.babies} bab${search.babies === 1 ? "y" : "ies"}`] : []),
+      ].join(", ")
+    : "";
+
+  const featureLabels = search
+    ? PROPERTY_FEATURE_DEFS.filter((d) => search.features.includes(d.key)).map((d) => d.label)
+    : [];
+
   return (
     <div className="min-h-[calc(100vh-4rem)] bg-gradient-to-b from-stone-100 via-stone-100 to-stone-200">
       <PropertiesHero />
 
       {/* ✅ Added extra top spacing on mobile to prevent hero/map overlap */}
       <div className="w-full px-4 lg:px-8 pt-14 pb-10 md:py-14">
+        {search ? (
+          <div className="mb-6 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 rounded-2xl border border-stone-300 bg-white/70 px-4 py-3">
+            <p className="text-sm sm:text-base text-stone-800">
+              <span className="font-semibold">
+                {properties.length} villa{properties.length === 1 ? "" : "s"} available
+              </span>{" "}
+              · {formatDay(search.startDate)} – {formatDay(search.endDate)} · {guests}
+              {featureLabels.length ? ` · ${featureLabels.join(", ")}` : ""}
+            </p>
+            <button
+              type="button"
+              onClick={() => setSearchParams({})}
+              className="self-start sm:self-auto rounded-full border border-stone-300 px-4 py-1.5 text-sm font-semibold text-stone-800 hover:bg-stone-100"
+            >
+              Show all villas
+            </button>
+          </div>
+        ) : null}
+
         {properties.length === 0 ? (
           <div className="rounded-2xl border border-dashed border-stone-300 bg-white/70 px-4 py-10 text-center text-base text-stone-600">
-            No villas are available yet. Please check back soon.
+            {search
+              ? "No villa is available for these dates and guests. Try other dates."
+              : "No villas are available yet. Please check back soon."}
           </div>
         ) : (
-          <PropertyGrid properties={properties} />
+          <PropertyGrid
+            properties={properties}
+            linkQuery={search ? propertySearchToQuery({ ...search, features: [] }) : undefined}
+          />
         )}
       </div>
     </div>
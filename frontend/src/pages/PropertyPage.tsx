@@ -4,7 +4,8 @@ import { useLocation, useParams } from "react-router-dom";
 import type { DateRange } from "react-day-picker";
 
 import { useProperty } from "../api/properties";
-import { usePropertyCalendar } from "../api/booking";
+import { usePropertyAvailability } from "../api/booking";
+import type { AvailabilityDay } from "../api/types";
 import { PropertyAvailabilityCalendar } from "../components/villa/PropertyAvailabilityCalendar";
 
 import VillaHero from "@/components/villa/VillaHero";
@@ -36,31 +37,29 @@ export default function PropertyPage() {
   return `${y}-${m}-${day}`;
 };
 
-  const todayYMD = () => ymdLocal(new Date());
-
-  const addMonthsYMD = (months: number) => {
+  // "YYYY-MM" of the current month + offset
+  const monthYM = (offset: number) => {
     const d = new Date();
-    d.setMonth(d.getMonth() + months);
-    return ymdLocal(d);
+    d.setDate(1);
+    d.setMonth(d.getMonth() + offset);
+    return ymdLocal(d).slice(0, 7);
   };
 
-
-  const calendarFrom = todayYMD();
-  const calendarTo = addMonthsYMD(12);
+  const calendarFromMonth = monthYM(0);
+  const calendarToMonth = monthYM(12);
 
   const {
     data: calendar,
     isLoading: calendarLoading,
     error: calendarError,
-  } = usePropertyCalendar(propertyId, calendarFrom, calendarTo, propertyId > 0);
+  } = usePropertyAvailability(propertyId, calendarFromMonth, calendarToMonth, propertyId > 0);
 
-  useEffect(() => {
-  if (!calendar) return;
-  const openCount = Object.values(calendar.dailyOpen ?? {}).filter(Boolean).length;
-  console.log("hasAnyPeriods:", calendar.hasAnyPeriods, "openDays:", openCount);
-  console.log("sample open keys:", Object.entries(calendar.dailyOpen ?? {}).filter(([,v]) => v).slice(0, 5));
-  console.log("PROPERTY:", { slug, id: p.id, title: p.title });
-}, [calendar]);
+  // Per-date availability by YYYY-MM-DD
+  const calendarDays = useMemo(() => {
+    const map: Record<string, AvailabilityDay> = {};
+    for (const d of calendar?.days ?? []) map[d.date] = d;
+    return map;
+  }, [calendar]);
 
   const [selectedRange, setSelectedRange] = useState<DateRange | undefined>();
   const [initialCalendarDate, setInitialCalendarDate] = useState<string | undefined>(undefined);
@@ -91,13 +90,16 @@ export default function PropertyPage() {
 
   const heroImage = "/images/homehero/image00022.webp";
 
-  useEffect(() => {
+  // ?start=&end= (search results, home page forms) pre-selects the dates;
+  // applied while rendering whenever the query changes (no extra effect render)
+  const [appliedSearch, setAppliedSearch] = useState<string | null>(null);
+  if (appliedSearch !== location.search) {
+    setAppliedSearch(location.search);
+
     const params = new URLSearchParams(location.search);
     const start = params.get("start");
     const end = params.get("end");
 
-    if (!start && !end) return;
-
     const from = start ? parseYmdToLocalDate(start) : null;
     const to = end ? parseYmdToLocalDate(end) : null;
 
@@ -106,12 +108,17 @@ export default function PropertyPage() {
     if (from) {
       if (to && to > from) setSelectedRange({ from, to });
       else setSelectedRange({ from, to: undefined });
-
-      requestAnimationFrame(() => {
-        calendarWrapRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
-        calendarWrapRefDesktop.current?.scrollIntoView({ behavior: "smooth", block: "start" });
-      });
     }
+  }
+
+  useEffect(() => {
+    const start = new URLSearchParams(location.search).get("start");
+    if (!start || !parseYmdToLocalDate(start)) return;
+
+    requestAnimationFrame(() => {
+      calendarWrapRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+      calendarWrapRefDesktop.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+    });
   }, [location.search]);
 
   if (!slug) {
@@ -165,9 +172,7 @@ export default function PropertyPage() {
               <div ref={calendarWrapRef} className="mt-4 overflow-hidden">
                 {!calendarLoading && !calendarError && (
                   <PropertyAvailabilityCalendar
-                    items={calendar?.blocks}
-                    dailyOpen={calendar?.dailyOpen} 
-                    dailyPrices={calendar?.dailyPrices}
+                    days={calendarDays}
                     defaultNightlyPrice={p.pricePerNight}
                     maxGuests={p.maxGuests}
                     selectedRange={selectedRange}
@@ -194,9 +199,7 @@ export default function PropertyPage() {
             <div ref={calendarWrapRefDesktop} className="mt-4 overflow-hidden">
               {!calendarLoading && !calendarError && (
                 <PropertyAvailabilityCalendar
-                  items={calendar?.blocks}
-                  dailyOpen={calendar?.dailyOpen}
-                  dailyPrices={calendar?.dailyPrices}
+                  days={calendarDays}
                   defaultNightlyPrice={p.pricePerNight}
                   maxGuests={p.maxGuests}
                   selectedRange={selectedRange}
@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  EXTERNAL_PROVIDER_LABELS,
+  useAdminCalendarHealthQuery,
+  useAdminCalendarSyncRunsQuery,
+  useSyncExternalCalendarMutation,
+  type ExternalCalendarHealth,
+} from "../../api/adminExternalCalendars";
+import { getApiErrorMessage } from "../../api/apiError";
+
+function formatDateTime(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString("en-GB") : "never";
+}
+
+function healthBadge(f: ExternalCalendarHealth) {
+  if (!f.isEnabled) return { label: "DISABLED", className: "bg-slate-200 text-slate-700" };
+  if (f.isStale) return { label: "STALE", className: "bg-red-100 text-red-700" };
+  if (f.consecutiveFailures > 0) return { label: "FAILING", className: "bg-yellow-100 text-yellow-700" };
+  return { label: "OK", className: "bg-green-100 text-green-700" };
+}
+
+/**
+ * Latest sync runs of one feed (newest first).
+ */
+function SyncRunsTable({ calendarId }: { calendarId: number }) {
+  const { data, isLoading, error } = useAdminCalendarSyncRunsQuery(calendarId);
+  const runs = data?.runs ?? [];
+
+  if (isLoading) return <p className="text-sm text-slate-500">Loading sync runs…</p>;
+  if (error) {
+    return (
+      <p className="text-sm text-red-600">{getApiErrorMessage(error, "Could not load sync runs.")}</p>
+    );
+  }
+  if (runs.length === 0) return <p className="text-sm text-slate-500">No sync runs recorded yet.</p>;
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-1 pr-3">Started</th>
+            <th className="py-1 pr-3">Status</th>
+            <th className="py-1 pr-3">HTTP</th>
+            <th className="py-1 pr-3">Events</th>
+            <th className="py-1 pr-3">Added</th>
+            <th className="py-1 pr-3">Removed</th>
+            <th className="py-1 pr-3">Duration</th>
+            <th className="py-1">Error</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {runs.map((r) => (
+            <tr key={r.id} className={r.status === "failed" ? "text-red-700" : "text-slate-700"}>
+              <td className="py-1 pr-3 whitespace-nowrap">{formatDateTime(r.startedAt)}</td>
+              <td className="py-1 pr-3">{r.status}</td>
+              <td className="py-1 pr-3">{r.httpStatus ?? "—"}</td>
+              <td className="py-1 pr-3">{r.eventsParsed}</td>
+              <td className="py-1 pr-3">{r.blocksAdded}</td>
+              <td className="py-1 pr-3">{r.blocksRemoved}</td>
+              <td className="py-1 pr-3">{r.durationMs} ms</td>
+              <td className="py-1 break-all">{r.error ?? ""}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * AdminCalendarHealthPage
+ *
+ * Sync health of every imported channel calendar: last success, consecutive failures,
+ * latest run and the run history of a feed. Admins are also emailed when a feed has not
+ * synced successfully for its alert threshold.
+ */
+export default function AdminCalendarHealthPage() {
+  const { data, isLoading, error } = useAdminCalendarHealthQuery();
+  const syncFeed = useSyncExternalCalendarMutation();
+
+  const [openId, setOpenId] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const feeds = data?.feeds ?? [];
+  const staleCount = feeds.filter((f) => f.isStale).length;
+  const failingCount = feeds.filter((f) => f.isEnabled && f.consecutiveFailures > 0).length;
+
+  function onSync(f: ExternalCalendarHealth) {
+    setNotice(null);
+    syncFeed.mutate(f.id, {
+      onSuccess: (res) =>
+        setNotice(
+          res.sync?.synced
+            ? `${f.name}: synced (${res.sync.count} reservations).`
+            : `${f.name}: ${res.sync?.reason ?? "not synced"}.`
+        ),
+      onError: (err) => setNotice(getApiErrorMessage(err, "Sync failed.")),
+    });
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-56px)] bg-slate-50 pt-20 pb-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">Calendar sync health</h1>
+            <p className="text-sm text-slate-500">
+              Imported Booking.com / Airbnb / VRBO feeds. Stale feeds mean availability on the site
+              may be out of date.
+            </p>
+          </div>
+
+          <Link
+            to="/admin"
+            className="inline-flex items-center justify-center rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white hover:bg-slate-800"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+
+        <div className="flex flex-wrap gap-2 text-xs">
+          <span className="px-2 py-1 rounded-full bg-slate-100 text-slate-700 font-semibold">
+            Feeds: {feeds.length}
+          </span>
+          <span className="px-2 py-1 rounded-full bg-yellow-100 text-yellow-700 font-semibold">
+            Failing: {failingCount}
+          </span>
+          <span className="px-2 py-1 rounded-full bg-red-100 text-red-700 font-semibold">
+            Stale: {staleCount}
+          </span>
+        </div>
+
+        {notice ? <p className="text-sm text-slate-700">{notice}</p> : null}
+
+        <section className="bg-white rounded-lg shadow p-6">
+          {isLoading ? (
+            <p className="text-sm text-slate-500">Loading feeds…</p>
+          ) : error ? (
+            <p className="text-sm text-red-600">
+              {getApiErrorMessage(error, "Could not load calendar health.")}
+            </p>
+          ) : feeds.length === 0 ? (
+            <p className="text-sm text-slate-500">No channel feeds configured.</p>
+          ) : (
+            <div className="divide-y border rounded">
+              {feeds.map((f) => {
+                const badge = healthBadge(f);
+                const open = openId === f.id;
+
+                return (
+                  <div key={f.id} className="p-3 space-y-2">
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span
+                            className={`text-xs font-semibold px-2 py-0.5 rounded-full ${badge.className}`}
+                          >
+                            {badge.label}
+                          </span>
+                          <span className="font-semibold text-slate-900">{f.name}</span>
+                          <span className="text-xs text-slate-500">
+                            {EXTERNAL_PROVIDER_LABELS[f.provider]} · {f.property.title}
+                          </span>
+                        </div>
+
+                        <div className="text-xs text-slate-600 mt-1">
+                          Last success: {formatDateTime(f.lastSyncAt)} · Consecutive failures:{" "}
+                          <span className="font-semibold">{f.consecutiveFailures}</span> · Alert after{" "}
+                          {f.staleAlertHours}h
+                          {f.staleAlertSentAt ? ` (alert sent ${formatDateTime(f.staleAlertSentAt)})` : ""}
+                        </div>
+
+                        {f.lastRun ? (
+                          <div className="text-xs text-slate-500 mt-1">
+                            Last run {formatDateTime(f.lastRun.startedAt)}: {f.lastRun.status}
+                            {f.lastRun.httpStatus ? ` (HTTP ${f.lastRun.httpStatus})` : ""} ·{" "}
+                            {f.lastRun.eventsParsed} events, +{f.lastRun.blocksAdded} / −
+                            {f.lastRun.blocksRemoved} blocks · {f.lastRun.durationMs} ms
+                          </div>
+                        ) : null}
+
+                        {f.lastError ? (
+                          <div className="text-xs text-red-600 mt-1 break-all">
+                            Last error: {f.lastError}
+                          </div>
+                        ) : null}
+                      </div>
+
+                      <div className="flex items-center gap-2 shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => onSync(f)}
+                          disabled={!f.isEnabled || syncFeed.isPending}
+                          className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100 disabled:opacity-60"
+                        >
+                          Sync now
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setOpenId(open ? null : f.id)}
+                          className="text-xs px-3 py-2 rounded border border-slate-300 hover:bg-slate-100"
+                          aria-expanded={open}
+                        >
+                          {open ? "Hide runs" : "Show runs"}
+                        </button>
+                      </div>
+                    </div>
+
+                    {open ? (
+                      <div className="rounded border bg-slate-50 p-3">
+                        <SyncRunsTable calendarId={f.id} />
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,13 @@ import EmailTemplatesSection from "../../components/admin/AdminEmailTemplate.tsx
 
 import AdminRefundRequestsSection from "../../components/admin/AdminRefundRequestsSection";
 import AdminVouchersSection from "../../components/admin/AdminVouchersSection";
+import AdminGiftCardsSection from "../../components/admin/AdminGiftCardsSection";
+import AdminTaxSection from "../../components/admin/AdminTaxSection";
+import AdminBookingWindowSection from "../../components/admin/AdminBookingWindowSection";
+import AdminPromoCodesSection from "../../components/admin/AdminPromoCodesSection";
+import AdminCancellationPoliciesSection from "../../components/admin/AdminCancellationPoliciesSection";
+import AdminChannelCalendarsSection from "../../components/admin/AdminChannelCalendarsSection";
+import AdminIcalExportsSection from "../../components/admin/AdminIcalExportsSection";
 import AdminPropertyReviewsSection from "@/components/admin/AdminPropertyReviewsSection.tsx";
 import AdminAdditionalBedRequests from "@/components/admin/AdminAdditionalBedRequests.tsx";
 
@@ -35,15 +42,43 @@ const AdminDashboardPage: React.FC = () => {
           >
             Manage Stay Guide
           </Link>
+
+          <Link
+            to="/admin/calendar-health"
+            className="inline-flex items-center justify-center rounded-lg bg-slate-900 px-4 py-2 text-sm font-semibold text-white hover:bg-slate-800"
+          >
+            Calendar Sync Health
+          </Link>
         </div>
 
         <AdminPropertiesSection />
         <AdminBookingsSection />
 
+        {/* Booking.com / Airbnb / VRBO iCal feeds per villa */}
+        <AdminChannelCalendarsSection />
+
+        {/* Private iCal export links (one per channel / person) */}
+        <AdminIcalExportsSection />
+
         {/* Payments admin tools */}
         <AdminRefundRequestsSection />
         <AdminVouchersSection />
 
+        {/* Gift card sales + outstanding liability */}
+        <AdminGiftCardsSection />
+
+        {/* Accommodation taxes + monthly report */}
+        <AdminTaxSection />
+
+        {/* Early-bird / last-minute pricing */}
+        <AdminBookingWindowSection />
+
+        {/* Promo codes + redemption ledger */}
+        <AdminPromoCodesSection />
+
+        {/* Cancellation policies (refund tiers per villa / period) */}
+        <AdminCancellationPoliciesSection />
+
         <section>
           <EmailTemplatesSection />
         </section>
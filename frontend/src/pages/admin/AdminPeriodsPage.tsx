@@ -3,22 +3,44 @@ import {
   adminCreatePeriod,
   adminDeletePeriod,
   adminFetchAdminCalendar,
+  adminFetchGapReport,
   adminFetchPeriods,
   adminPatchPeriod,
+  type GapReportPayload,
 } from "../../api/adminPeriods";
+import {
+  adminCreateManualBlock,
+  adminDeleteManualBlock,
+  adminPatchManualBlock,
+} from "../../api/adminManualBlocks";
 
 import { useProperties } from "../../api/properties";
+import { useAdminCancellationPoliciesQuery } from "../../api/adminCancellationPolicies";
 
-import AdminAvailabilityCalendar from "../../components/admin/AdminAvailabilityCalendar";
+import AdminAvailabilityCalendar, {
+  type CalendarBlock,
+} from "../../components/admin/AdminAvailabilityCalendar";
 import AdminPeriodsToolbar from "../../components/admin/periods/AdminPeriodsToolBar.tsx";
 import PeriodFormCard, { type PeriodFormState } from "../../components/admin/periods/PeriodFormCard.tsx";
 import PeriodsListCard from "../../components/admin/periods/PeriodsListCard.tsx";
+import GapReportCard from "../../components/admin/periods/GapReportCard.tsx";
 import ErrorBanner from "../../components/admin/periods/ErrorBanner";
 import StatPills from "../../components/admin/periods/StatPills.tsx";
+import ManualBlockFormCard, {
+  type ManualBlockFormState,
+} from "../../components/admin/periods/ManualBlockFormCard.tsx";
 
 type Period = any;
 type AdminCalendarPayload = { blocks: any[]; periods: Period[] };
 
+const EMPTY_MANUAL_BLOCK_FORM: ManualBlockFormState = {
+  startDate: "",
+  endDate: "",
+  category: "OWNER_STAY",
+  reason: "",
+  weekdays: [],
+};
+
 export default function AdminPeriodsPage() {
   const [propertyId, setPropertyId] = useState(1);
   const [from, setFrom] = useState("2026-01-01");
@@ -26,6 +48,7 @@ export default function AdminPeriodsPage() {
 
   const [periods, setPeriods] = useState<Period[]>([]);
   const [calendar, setCalendar] = useState<AdminCalendarPayload | null>(null);
+  const [gapReport, setGapReport] = useState<GapReportPayload | null>(null);
 
   const [err, setErr] = useState<string | null>(null);
   const [busy, setBusy] = useState(false);
@@ -35,15 +58,33 @@ export default function AdminPeriodsPage() {
     endDate: "2026-01-20",
     isOpen: true,
     standardNightlyPrice: 200,
+    weekdayNightlyPrices: [null, null, null, null, null, null, null],
     weeklyDiscountPercentBps: 1000,
     weeklyThresholdNights: 7,
+    stayDiscountTiers: [],
     minNights: 2,
     maxGuests: 6,
+    allowedArrivalWeekdays: [],
+    allowedDepartureWeekdays: [],
+    cleaningFeeCents: null,
+    linenFeeCents: null,
+    petFeeCents: null,
+    extraBedFeeCents: null,
+    baseOccupancy: null,
+    extraAdultNightlyCents: null,
+    extraChildNightlyCents: null,
+    cancellationPolicyId: null,
     name: "",
     notes: "",
   });
 
+  const [blockForm, setBlockForm] = useState<ManualBlockFormState>(EMPTY_MANUAL_BLOCK_FORM);
+  const [editingBlock, setEditingBlock] = useState<{ id: number; seriesId: string | null } | null>(
+    null
+  );
+
   const { data: propertiesData, isLoading: propertiesLoading } = useProperties();
+  const policiesQuery = useAdminCancellationPoliciesQuery();
   const properties = propertiesData ?? [];
 
   // ✅ selected property (includes pricePerNight)
@@ -73,12 +114,14 @@ export default function AdminPeriodsPage() {
   async function refresh() {
     setErr(null);
     try {
-      const [p, c] = await Promise.all([
+      const [p, c, g] = await Promise.all([
         adminFetchPeriods(propertyId),
         adminFetchAdminCalendar(propertyId, from, to),
+        adminFetchGapReport(propertyId, from, to),
       ]);
       setPeriods(p);
       setCalendar(c);
+      setGapReport(g);
     } catch (e: any) {
       setErr(e?.message ?? String(e));
     }
@@ -132,6 +175,78 @@ export default function AdminPeriodsPage() {
     }
   }
 
+  function resetBlockForm() {
+    setBlockForm(EMPTY_MANUAL_BLOCK_FORM);
+    setEditingBlock(null);
+  }
+
+  // Drag in the calendar: pre-fill a new block with the selected range
+  function onSelectRange(startDate: string, endDate: string) {
+    setEditingBlock(null);
+    setBlockForm((prev) => ({ ...prev, startDate, endDate }));
+  }
+
+  function onEditManualBlock(b: CalendarBlock) {
+    setEditingBlock({ id: b.id, seriesId: b.seriesId ?? null });
+    setBlockForm({
+      startDate: b.startDate.slice(0, 10),
+      endDate: b.endDate.slice(0, 10),
+      category: b.category ?? "OTHER",
+      reason: b.reason ?? "",
+      weekdays: [],
+    });
+  }
+
+  async function onSubmitBlock() {
+    setBusy(true);
+    setErr(null);
+    try {
+      const reason = blockForm.reason.trim() || null;
+
+      if (editingBlock) {
+        await adminPatchManualBlock(editingBlock.id, {
+          startDate: blockForm.startDate,
+          endDate: blockForm.endDate,
+          category: blockForm.category,
+          reason,
+        });
+      } else {
+        await adminCreateManualBlock({
+          propertyId,
+          startDate: blockForm.startDate,
+          endDate: blockForm.endDate,
+          category: blockForm.category,
+          reason,
+          recurrence: blockForm.weekdays.length ? { weekdays: blockForm.weekdays } : null,
+        });
+      }
+      resetBlockForm();
+      await refresh();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onDeleteBlock(wholeSeries: boolean) {
+    if (!editingBlock) return;
+    const sure = window.confirm(wholeSeries ? "Delete every block of this series?" : "Delete this block?");
+    if (!sure) return;
+
+    setBusy(true);
+    setErr(null);
+    try {
+      await adminDeleteManualBlock(editingBlock.id, wholeSeries);
+      resetBlockForm();
+      await refresh();
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
   return (
     /**
      * Top padding (pt-20) prevents overlap with a fixed navbar.
@@ -182,17 +297,34 @@ export default function AdminPeriodsPage() {
             blocks={calendar?.blocks}
             periods={periods}
             fallbackNightlyPrice={fallbackNightlyPrice}
+            onSelectRange={onSelectRange}
+            onEditManualBlock={onEditManualBlock}
           />
         </div>
 
-        <PeriodFormCard
-          value={form}
-          busy={busy}
-          onChange={(patch) => setForm((prev) => ({ ...prev, ...patch }))}
-          onSubmit={onCreate}
-        />
+        <div className="space-y-6">
+          <ManualBlockFormCard
+            value={blockForm}
+            busy={busy}
+            editing={editingBlock}
+            onChange={(patch) => setBlockForm((prev) => ({ ...prev, ...patch }))}
+            onSubmit={onSubmitBlock}
+            onCancel={resetBlockForm}
+            onDelete={onDeleteBlock}
+          />
+
+          <PeriodFormCard
+            value={form}
+            busy={busy}
+            policies={policiesQuery.data?.policies ?? []}
+            onChange={(patch) => setForm((prev) => ({ ...prev, ...patch }))}
+            onSubmit={onCreate}
+          />
+        </div>
       </div>
 
+      <GapReportCard report={gapReport} />
+
       <PeriodsListCard periods={periods} onToggleOpen={onToggleOpen} onDelete={onDelete} />
     </section>
   );
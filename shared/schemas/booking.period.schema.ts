@@ -1,5 +1,19 @@
 import { z } from "zod";
 
+/*
+  LENGTH-OF-STAY TIER
+  Exactly one of discountBps (% off the stay) or nightlyPrice (flat EUR rate per night),
+  checked in validateStayDiscountTiers below.
+*/
+export const stayDiscountTierSchema = z
+  .object({
+    minNights: z.number().int().min(1),
+    discountBps: z.number().int().min(1).max(10000).optional().nullable(),
+    nightlyPrice: z.number().int().min(0).optional().nullable(),
+    label: z.string().max(40).optional().nullable(),
+  })
+  .strict();
+
 /*
   PURE OBJECT SCHEMA
   No superRefine, no transform, no refine.
@@ -16,6 +30,13 @@ export const bookingPeriodObjectSchema = z
 
     standardNightlyPrice: z.number().int().min(0),
 
+    // [sun, mon, tue, wed, thu, fri, sat] EUR; null entry = standardNightlyPrice
+    weekdayNightlyPrices: z
+      .array(z.number().int().min(0).nullable())
+      .length(7, "Weekday prices need 7 entries (Sunday first)")
+      .optional()
+      .nullable(),
+
     weeklyDiscountPercentBps: z
       .number()
       .int()
@@ -31,14 +52,68 @@ export const bookingPeriodObjectSchema = z
       .optional()
       .default(7),
 
+    // Length-of-stay tiers (replace the weekly discount when set). null/[] = none
+    stayDiscountTiers: z.array(stayDiscountTierSchema).max(10).optional().nullable(),
+
     minNights: z.number().int().min(1).optional().default(1),
+
+    // UTC weekdays (0 = Sunday). Empty = any day.
+    allowedArrivalWeekdays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+    allowedDepartureWeekdays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
     maxGuests: z.number().int().min(1),
 
+    // Per-stay fee overrides (cents). null = use the property fee.
+    cleaningFeeCents: z.number().int().min(0).optional().nullable(),
+    linenFeeCents: z.number().int().min(0).optional().nullable(),
+    petFeeCents: z.number().int().min(0).optional().nullable(),
+    extraBedFeeCents: z.number().int().min(0).optional().nullable(),
+
+    // Occupancy pricing overrides. null = use the property value.
+    baseOccupancy: z.number().int().min(1).optional().nullable(),
+    extraAdultNightlyCents: z.number().int().min(0).optional().nullable(),
+    extraChildNightlyCents: z.number().int().min(0).optional().nullable(),
+
+    // Cancellation policy of stays arriving in the period. null = the property's.
+    cancellationPolicyId: z.number().int().positive().optional().nullable(),
+
     name: z.string().max(80).optional().nullable(),
     notes: z.string().max(500).optional().nullable(),
   })
   .strict();
 
+/**
+ * Tier rules shared by create + update:
+ * - one of discountBps / nightlyPrice per tier
+ * - no two tiers with the same minNights
+ */
+function validateStayDiscountTiers(
+  tiers: z.infer<typeof stayDiscountTierSchema>[] | null | undefined,
+  ctx: z.RefinementCtx
+) {
+  if (!tiers) return;
+
+  const seen = new Set<number>();
+
+  tiers.forEach((tier, i) => {
+    if ((tier.discountBps == null) === (tier.nightlyPrice == null)) {
+      ctx.addIssue({
+        code: "custom",
+        message: "Each tier needs either a discount or a nightly price",
+        path: ["stayDiscountTiers", i],
+      });
+    }
+
+    if (seen.has(tier.minNights)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `Duplicate tier for ${tier.minNights}+ nights`,
+        path: ["stayDiscountTiers", i, "minNights"],
+      });
+    }
+    seen.add(tier.minNights);
+  });
+}
+
 /*
   CREATE SCHEMA
   Refinements are applied AFTER the base object.
@@ -75,6 +150,8 @@ export const createBookingPeriodSchema =
         path: ["endDate"],
       });
     }
+
+    validateStayDiscountTiers(data.stayDiscountTiers, ctx);
   });
 
 /*
@@ -118,6 +195,8 @@ export const updateBookingPeriodSchema = bookingPeriodObjectSchema
         });
       }
     }
+
+    validateStayDiscountTiers(data.stayDiscountTiers, ctx);
   });
 
 export type CreateBookingPeriodInput =
@@ -125,3 +204,5 @@ export type CreateBookingPeriodInput =
 
 export type UpdateBookingPeriodInput =
   z.infer<typeof updateBookingPeriodSchema>;
+
+export type StayDiscountTierInput = z.infer<typeof stayDiscountTierSchema>;
@@ -7,6 +7,13 @@ import { z } from "zod";
 
 export const bookingStatusEnum = z.enum(["pending", "confirmed", "cancelled"]);
 
+/* ===========================
+   RATE PLANS
+   =========================== */
+
+// non_refundable = discounted accommodation, no refund or voucher on cancellation
+export const ratePlanEnum = z.enum(["standard", "non_refundable"]);
+
 /* ===========================
    HELPERS
    =========================== */
@@ -58,8 +65,32 @@ export const bookingBaseObjectSchema = z
     adults: z.coerce.number().int().min(1, "At least 1 adult is required"),
     children: z.coerce.number().int().min(0, "Children cannot be negative"),
     babies: z.coerce.number().int().min(0, "Babies cannot be negative"),
+
+    // Stay extras (charged as per-stay fees)
+    pets: z.coerce.number().int().min(0, "Pets cannot be negative").max(5).optional().default(0),
+    extraBeds: z.coerce
+      .number()
+      .int()
+      .min(0, "Extra beds cannot be negative")
+      .max(10)
+      .optional()
+      .default(0),
+
     useCredit: z.coerce.boolean().optional().default(false),
 
+    // Optional promo code (case-insensitive); validated by the backend pricing engine
+    promoCode: z.string().trim().max(40).optional().nullable(),
+
+    // Rate plan chosen at checkout; missing = standard
+    ratePlan: ratePlanEnum.optional(),
+
+    // Estimated arrival "HH:MM" (shown to housekeeping)
+    arrivalTime: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Arrival time must be HH:MM")
+      .optional()
+      .nullable(),
+
     // only used on backend; omitted for create
     totalPrice: z.coerce
       .number()
@@ -155,6 +186,7 @@ export type CreateBookingInput = z.infer<typeof createBookingSchema>;
 
 export const updateBookingSchema = bookingBaseObjectSchema.partial();
 export type UpdateBookingInput = z.infer<typeof updateBookingSchema>;
+export type RatePlan = z.infer<typeof ratePlanEnum>;
 
 /* ===========================
    PHONE NORMALIZATION (optional helper)
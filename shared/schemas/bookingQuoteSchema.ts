@@ -4,6 +4,7 @@ import { bookingBaseObjectSchema } from "./booking.schema.js";
 /**
  * Quote schema:
  * Same base fields as booking, but no guest contact fields required.
+ * ratePlan (standard / non_refundable) is kept so the guest can price both options.
  */
 export const bookingQuoteSchema = bookingBaseObjectSchema
   .omit({
@@ -0,0 +1,68 @@
+import { z } from "zod";
+
+/* ===========================
+   EARLY-BIRD / LAST-MINUTE RULES
+   =========================== */
+
+export const bookingWindowKindEnum = z.enum(["early_bird", "last_minute"]);
+
+// How the rule combines with the length-of-stay / weekly discount
+export const bookingWindowStackingPolicyEnum = z.enum(["stack", "exclusive", "best_of"]);
+
+const ymdRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+/*
+  PURE OBJECT SCHEMA
+  No superRefine, no transform, no refine.
+  Safe for .omit() and .partial().
+*/
+export const bookingWindowDiscountObjectSchema = z
+  .object({
+    propertyId: z.number().int().positive(),
+    name: z.string().min(2, "Name is required").max(60),
+    kind: bookingWindowKindEnum,
+
+    // early_bird: at least N days before check-in, last_minute: at most N days
+    daysBefore: z.number().int().min(0).max(730),
+    discountBps: z.number().int().min(1).max(10000),
+    stackingPolicy: bookingWindowStackingPolicyEnum.optional().default("best_of"),
+
+    // Check-in validity window (YYYY-MM-DD, end exclusive)
+    validFrom: z.string().regex(ymdRegex, "Must be YYYY-MM-DD").optional().nullable(),
+    validTo: z.string().regex(ymdRegex, "Must be YYYY-MM-DD").optional().nullable(),
+
+    isActive: z.boolean().optional().default(true),
+  })
+  .strict();
+
+type BookingWindowShape = Partial<z.infer<typeof bookingWindowDiscountObjectSchema>>;
+
+function validateBookingWindowDiscount(data: BookingWindowShape, ctx: z.RefinementCtx) {
+  if (data.validFrom && data.validTo && data.validTo <= data.validFrom) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Valid to must be after valid from",
+      path: ["validTo"],
+    });
+  }
+}
+
+/*
+  CREATE SCHEMA
+*/
+export const createBookingWindowDiscountSchema = bookingWindowDiscountObjectSchema.superRefine(
+  validateBookingWindowDiscount
+);
+
+/*
+  UPDATE SCHEMA
+*/
+export const updateBookingWindowDiscountSchema = bookingWindowDiscountObjectSchema
+  .omit({ propertyId: true })
+  .partial()
+  .superRefine(validateBookingWindowDiscount);
+
+export type BookingWindowKind = z.infer<typeof bookingWindowKindEnum>;
+export type BookingWindowStackingPolicy = z.infer<typeof bookingWindowStackingPolicyEnum>;
+export type CreateBookingWindowDiscountInput = z.infer<typeof createBookingWindowDiscountSchema>;
+export type UpdateBookingWindowDiscountInput = z.infer<typeof updateBookingWindowDiscountSchema>;
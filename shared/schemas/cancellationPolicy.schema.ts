@@ -0,0 +1,84 @@
+import { z } from "zod";
+
+/* ===========================
+   CANCELLATION POLICIES
+   =========================== */
+
+const bps = z.number().int().min(0).max(10000);
+
+/**
+ * One refund tier: applies from minDaysBefore days before check-in up to the next tier.
+ * Bounds, keys and labels are derived by the backend (payments/refundPolicy.ts).
+ */
+export const refundTierSchema = z
+  .object({
+    minDaysBefore: z.number().int().min(0).max(730),
+    refundBps: bps,
+    voucherBps: bps,
+    description: z.string().trim().max(200).optional().nullable(),
+  })
+  .strict();
+
+/*
+  PURE OBJECT SCHEMA
+  No superRefine, no transform, no refine.
+  Safe for .omit() and .partial().
+*/
+export const cancellationPolicyObjectSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .min(2)
+      .max(40)
+      .regex(/^[a-z0-9_]+$/, "Lowercase letters, digits and _ only"),
+    name: z.string().trim().min(2, "Name is required").max(80),
+    description: z.string().trim().max(500).optional().nullable(),
+    tiers: z.array(refundTierSchema).min(1, "At least one tier is required").max(10),
+    // No default here: .partial() would re-apply it on every PATCH
+    isDefault: z.boolean().optional(),
+  })
+  .strict();
+
+type CancellationPolicyShape = Partial<z.infer<typeof cancellationPolicyObjectSchema>>;
+
+/**
+ * Tier rules shared by create + update (only checked when tiers are in the patch).
+ */
+function validateTiers(data: CancellationPolicyShape, ctx: z.RefinementCtx) {
+  if (!data.tiers) return;
+
+  if (!data.tiers.some((t) => t.minDaysBefore === 0)) {
+    ctx.addIssue({
+      code: "custom",
+      message: "A tier starting at 0 days before check-in is required",
+      path: ["tiers"],
+    });
+  }
+
+  const days = data.tiers.map((t) => t.minDaysBefore);
+  if (new Set(days).size !== days.length) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Two tiers cannot start on the same day",
+      path: ["tiers"],
+    });
+  }
+}
+
+/*
+  CREATE SCHEMA
+*/
+export const createCancellationPolicySchema =
+  cancellationPolicyObjectSchema.superRefine(validateTiers);
+
+/*
+  UPDATE SCHEMA
+*/
+export const updateCancellationPolicySchema = cancellationPolicyObjectSchema
+  .partial()
+  .superRefine(validateTiers);
+
+export type RefundTierInput = z.infer<typeof refundTierSchema>;
+export type CreateCancellationPolicyInput = z.infer<typeof createCancellationPolicySchema>;
+export type UpdateCancellationPolicyInput = z.infer<typeof updateCancellationPolicySchema>;
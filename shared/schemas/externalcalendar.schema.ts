@@ -1,6 +1,41 @@
 import { z } from "zod";
 
-export const upsertBookingComIcalSchema = z.object({
-  icalUrl: z.string().url("Must be a valid URL"),
-  isEnabled: z.boolean().optional(),
-});
+/* ===========================
+   CHANNEL ICAL FEEDS
+   =========================== */
+
+// Mirrors the Prisma ExternalProvider enum
+export const externalProviderEnum = z.enum(["BOOKING_COM", "AIRBNB", "VRBO", "OTHER"]);
+
+/*
+  PURE OBJECT SCHEMA
+  Safe for .omit() and .partial().
+*/
+export const externalCalendarObjectSchema = z
+  .object({
+    propertyId: z.number().int().positive(),
+    provider: externalProviderEnum,
+    name: z.string().trim().min(2, "Name is required").max(80),
+    icalUrl: z.string().url("Must be a valid URL"),
+    isEnabled: z.boolean().optional().default(true),
+
+    // Admin email when the feed has not synced successfully for this many hours
+    staleAlertHours: z.number().int().min(1).max(720).optional(),
+  })
+  .strict();
+
+/*
+  CREATE SCHEMA
+*/
+export const createExternalCalendarSchema = externalCalendarObjectSchema;
+
+/*
+  UPDATE SCHEMA (a feed never moves to another property)
+*/
+export const updateExternalCalendarSchema = externalCalendarObjectSchema
+  .omit({ propertyId: true })
+  .partial();
+
+export type ExternalProvider = z.infer<typeof externalProviderEnum>;
+export type CreateExternalCalendarInput = z.infer<typeof createExternalCalendarSchema>;
+export type UpdateExternalCalendarInput = z.infer<typeof updateExternalCalendarSchema>;
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+/* ===========================
+   GIFT CARDS
+   =========================== */
+
+const ymdRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const ymd = z.string().regex(ymdRegex, "Must be YYYY-MM-DD");
+
+export const GIFT_CARD_MIN_CENTS = 2_500;
+export const GIFT_CARD_MAX_CENTS = 200_000;
+
+/**
+ * Public purchase (Stripe Checkout).
+ * deliverOn: date the code is emailed to the recipient; omitted -> as soon as it is paid.
+ */
+export const purchaseGiftCardSchema = z
+  .object({
+    amountCents: z
+      .number()
+      .int()
+      .min(GIFT_CARD_MIN_CENTS, "Minimum gift card amount is €25")
+      .max(GIFT_CARD_MAX_CENTS, "Maximum gift card amount is €2,000"),
+    purchaserName: z.string().trim().min(2, "Your name is required").max(100),
+    purchaserEmail: z.string().trim().email("Invalid email"),
+    recipientName: z.string().trim().min(2, "Recipient name is required").max(100),
+    recipientEmail: z.string().trim().email("Invalid recipient email"),
+    message: z.string().trim().max(500, "Message is too long").optional().nullable(),
+    deliverOn: ymd.optional(),
+  })
+  .strict();
+
+export const redeemGiftCardSchema = z
+  .object({
+    code: z.string().trim().min(4, "Enter your gift card code").max(40),
+  })
+  .strict();
+
+export type PurchaseGiftCardInput = z.infer<typeof purchaseGiftCardSchema>;
+export type RedeemGiftCardInput = z.infer<typeof redeemGiftCardSchema>;
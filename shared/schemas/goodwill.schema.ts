@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+/* ===========================
+   ADMIN GOODWILL COMPENSATION
+   =========================== */
+
+const reason = z
+  .string()
+  .trim()
+  .min(3, "A reason is required")
+  .max(500, "Reason is too long");
+
+/**
+ * Cash refund to the guest's card. The backend caps it at the refundable cash balance.
+ */
+export const goodwillRefundSchema = z
+  .object({
+    amountCents: z.number().int().positive("Amount must be positive"),
+    reason,
+  })
+  .strict();
+
+/**
+ * Credit voucher for the booking's customer account.
+ */
+export const goodwillVoucherSchema = z
+  .object({
+    amountCents: z.number().int().positive("Amount must be positive").max(1_000_000),
+    reason,
+  })
+  .strict();
+
+export type GoodwillRefundInput = z.infer<typeof goodwillRefundSchema>;
+export type GoodwillVoucherInput = z.infer<typeof goodwillVoucherSchema>;
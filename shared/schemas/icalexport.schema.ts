@@ -0,0 +1,55 @@
+import { z } from "zod";
+import { externalProviderEnum } from "./externalcalendar.schema.js";
+
+/* ===========================
+   PRIVATE ICAL EXPORT FEEDS
+   =========================== */
+
+// Mirrors the Prisma IcalExportKind enum
+// AVAILABILITY: dates only (channels). HOUSEKEEPING: guest details for staff phones.
+export const icalExportKindEnum = z.enum(["AVAILABILITY", "HOUSEKEEPING"]);
+
+/*
+  PURE OBJECT SCHEMA
+  Safe for .omit() and .partial().
+*/
+export const icalExportTokenObjectSchema = z
+  .object({
+    kind: icalExportKindEnum.optional().default("AVAILABILITY"),
+
+    // null = all properties (housekeeping feeds only)
+    propertyId: z.number().int().positive().nullable(),
+    name: z.string().trim().min(2, "Name is required").max(80),
+
+    includeDirect: z.boolean().optional().default(true),
+    includeManual: z.boolean().optional().default(true),
+    includeExternal: z.boolean().optional().default(false),
+
+    // Channel importing this feed; its own blocks are left out of it
+    consumerProvider: externalProviderEnum.optional().nullable(),
+  })
+  .strict();
+
+/*
+  CREATE SCHEMA
+*/
+export const createIcalExportTokenSchema = icalExportTokenObjectSchema.superRefine((data, ctx) => {
+  if (data.kind === "AVAILABILITY" && data.propertyId === null) {
+    ctx.addIssue({
+      code: "custom",
+      message: "An availability feed belongs to one property",
+      path: ["propertyId"],
+    });
+  }
+});
+
+/*
+  UPDATE SCHEMA (a feed never changes kind or property; the token itself is rotated separately)
+*/
+export const updateIcalExportTokenSchema = icalExportTokenObjectSchema
+  .omit({ kind: true, propertyId: true })
+  .partial();
+
+export type IcalExportKind = z.infer<typeof icalExportKindEnum>;
+export type CreateIcalExportTokenInput = z.infer<typeof createIcalExportTokenSchema>;
+export type UpdateIcalExportTokenInput = z.infer<typeof updateIcalExportTokenSchema>;
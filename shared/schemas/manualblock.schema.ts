@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+/* ===========================
+   MANUAL BLOCKS
+   =========================== */
+
+// Mirrors the Prisma ManualBlockCategory enum
+export const manualBlockCategoryEnum = z.enum(["OWNER_STAY", "MAINTENANCE", "CLOSURE", "OTHER"]);
+
+/*
+  RECURRENCE
+  Blocks only the nights falling on these UTC weekdays (0 = Sunday) between
+  startDate and endDate, e.g. every Monday in November.
+*/
+export const manualBlockRecurrenceSchema = z
+  .object({
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1, "Pick at least one weekday").max(7),
+  })
+  .strict();
+
+/*
+  PURE OBJECT SCHEMA
+  No superRefine, no transform, no refine.
+  Safe for .omit() and .partial().
+*/
+export const manualBlockObjectSchema = z
+  .object({
+    propertyId: z.number().int().positive(),
+
+    // YYYY-MM-DD, endDate exclusive (checkout-style, like bookings)
+    startDate: z.string().min(1, "Start date is required"),
+    endDate: z.string().min(1, "End date is required"),
+
+    category: manualBlockCategoryEnum.optional().default("OTHER"),
+    reason: z.string().trim().max(200).optional().nullable(),
+
+    recurrence: manualBlockRecurrenceSchema.optional().nullable(),
+  })
+  .strict();
+
+// Longest window a recurring rule may cover
+export const MANUAL_BLOCK_MAX_RECURRENCE_DAYS = 366;
+
+function validateDateRange(
+  data: { startDate?: string; endDate?: string },
+  ctx: z.RefinementCtx,
+  maxDays?: number
+) {
+  if (typeof data.startDate !== "string" || typeof data.endDate !== "string") return;
+
+  const start = new Date(data.startDate);
+  const end = new Date(data.endDate);
+
+  if (Number.isNaN(start.getTime())) {
+    ctx.addIssue({ code: "custom", message: "Invalid start date", path: ["startDate"] });
+    return;
+  }
+  if (Number.isNaN(end.getTime())) {
+    ctx.addIssue({ code: "custom", message: "Invalid end date", path: ["endDate"] });
+    return;
+  }
+  if (end <= start) {
+    ctx.addIssue({
+      code: "custom",
+      message: "End date must be after start date",
+      path: ["endDate"],
+    });
+    return;
+  }
+  if (maxDays && (end.getTime() - start.getTime()) / 86_400_000 > maxDays) {
+    ctx.addIssue({
+      code: "custom",
+      message: `A recurring block can span at most ${maxDays} days`,
+      path: ["endDate"],
+    });
+  }
+}
+
+/*
+  CREATE SCHEMA
+*/
+export const createManualBlockSchema = manualBlockObjectSchema.superRefine((data, ctx) => {
+  validateDateRange(data, ctx, data.recurrence ? MANUAL_BLOCK_MAX_RECURRENCE_DAYS : undefined);
+});
+
+/*
+  UPDATE SCHEMA
+  Edits one block; a block never moves to another property and
+  recurrence only applies when creating a series.
+*/
+export const updateManualBlockSchema = manualBlockObjectSchema
+  .omit({ propertyId: true, recurrence: true })
+  .partial()
+  .superRefine((data, ctx) => {
+    validateDateRange(data, ctx);
+  });
+
+export type ManualBlockCategory = z.infer<typeof manualBlockCategoryEnum>;
+export type ManualBlockRecurrenceInput = z.infer<typeof manualBlockRecurrenceSchema>;
+export type CreateManualBlockInput = z.infer<typeof createManualBlockSchema>;
+export type UpdateManualBlockInput = z.infer<typeof updateManualBlockSchema>;
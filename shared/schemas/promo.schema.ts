@@ -0,0 +1,107 @@
+import { z } from "zod";
+
+/* ===========================
+   PROMO CODE KINDS
+   =========================== */
+
+export const promoCodeKindEnum = z.enum(["percent", "fixed"]);
+
+const ymdRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const ymd = z.string().regex(ymdRegex, "Must be YYYY-MM-DD");
+
+/*
+  PURE OBJECT SCHEMA
+  No superRefine, no transform, no refine.
+  Safe for .omit() and .partial().
+*/
+export const promoCodeObjectSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .min(3, "Code must be at least 3 characters")
+      .max(40)
+      .regex(/^[A-Za-z0-9_-]+$/, "Letters, digits, - and _ only"),
+    description: z.string().max(200).optional().nullable(),
+
+    kind: promoCodeKindEnum,
+    percentBps: z.number().int().min(1).max(10000).optional().nullable(),
+    amountCents: z.number().int().min(1).optional().nullable(),
+
+    // Scope (null = any property)
+    propertyId: z.number().int().positive().optional().nullable(),
+
+    // Stay window (YYYY-MM-DD, end exclusive): every night must be inside
+    stayFrom: ymd.optional().nullable(),
+    stayTo: ymd.optional().nullable(),
+
+    // Booking-date window (YYYY-MM-DD, end exclusive)
+    bookableFrom: ymd.optional().nullable(),
+    bookableTo: ymd.optional().nullable(),
+
+    maxRedemptions: z.number().int().min(1).optional().nullable(),
+    perUserLimit: z.number().int().min(1).optional().nullable(),
+    minNights: z.number().int().min(1).optional().nullable(),
+
+    isActive: z.boolean().optional().default(true),
+  })
+  .strict();
+
+type PromoCodeShape = Partial<z.infer<typeof promoCodeObjectSchema>>;
+
+/**
+ * Cross-field rules shared by create + update.
+ * For updates only the fields present in the patch are checked.
+ */
+function validatePromoCode(data: PromoCodeShape, ctx: z.RefinementCtx) {
+  if (data.kind === "percent" && data.percentBps == null) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Percentage is required for percent codes",
+      path: ["percentBps"],
+    });
+  }
+
+  if (data.kind === "fixed" && data.amountCents == null) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Amount is required for fixed codes",
+      path: ["amountCents"],
+    });
+  }
+
+  if (data.stayFrom && data.stayTo && data.stayTo <= data.stayFrom) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Stay to must be after stay from",
+      path: ["stayTo"],
+    });
+  }
+
+  if (data.bookableFrom && data.bookableTo && data.bookableTo <= data.bookableFrom) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Bookable to must be after bookable from",
+      path: ["bookableTo"],
+    });
+  }
+}
+
+/*
+  CREATE SCHEMA
+*/
+export const createPromoCodeSchema = promoCodeObjectSchema.superRefine(validatePromoCode);
+
+/*
+  UPDATE SCHEMA
+  The code itself is immutable (it is printed in newsletters and stored on bookings).
+*/
+export const updatePromoCodeSchema = promoCodeObjectSchema
+  .omit({ code: true })
+  .partial()
+  .superRefine(validatePromoCode);
+
+export type PromoCodeKind = z.infer<typeof promoCodeKindEnum>;
+export type CreatePromoCodeInput = z.infer<typeof createPromoCodeSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof updatePromoCodeSchema>;
@@ -56,6 +56,34 @@ export const createPropertySchema = z.object({
   cleaningFeeCents: z.number().int().min(0).optional(),
   minNights: z.number().int().min(1).optional(),
 
+  // ✅ optional per-stay fees (cents)
+  linenFeeCents: z.number().int().min(0).optional(),
+  petFeeCents: z.number().int().min(0).optional(),
+  extraBedFeeCents: z.number().int().min(0).optional(),
+
+  // ✅ optional occupancy pricing: nightly surcharge (cents) per guest above baseOccupancy
+  baseOccupancy: z.number().int().min(1).optional(),
+  extraAdultNightlyCents: z.number().int().min(0).optional(),
+  extraChildNightlyCents: z.number().int().min(0).optional(),
+
+  // ✅ optional deposit schedule: depositBps now, balance balanceDueDaysBefore days before check-in
+  depositBps: z.number().int().min(0).max(10000).optional(),
+  balanceDueDaysBefore: z.number().int().min(1).max(365).optional(),
+  balanceAutoCancelDays: z.number().int().min(0).max(60).optional(),
+
+  // ✅ orphan gap nights: sell gaps shorter than min nights, optionally discounted
+  gapFillEnabled: z.boolean().optional(),
+  gapDiscountBps: z.number().int().min(0).max(10000).optional(),
+
+  // ✅ non-refundable rate plan discount (null = standard rate only)
+  nonRefundableDiscountBps: z.number().int().min(1).max(10000).nullable().optional(),
+
+  // ✅ cancellation policy (null = the default policy)
+  cancellationPolicyId: z.number().int().positive().nullable().optional(),
+
+  // ✅ accommodation tax category (matches TaxRule.propertyCategory)
+  taxCategory: z.string().min(1).max(40).optional(),
+
   // ✅ optional specs
   bedrooms: z.number().int().min(0).optional(),
   bathrooms: z.number().int().min(0).optional(),
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { bookingBaseObjectSchema } from "./booking.schema.js";
+import { propertyFeatureKeyEnum } from "./property.schema.js";
+
+/**
+ * Availability search across all villas:
+ * same dates / guest fields as a booking, plus optional required features.
+ */
+export const propertySearchSchema = bookingBaseObjectSchema
+  .pick({
+    startDate: true,
+    endDate: true,
+    adults: true,
+    children: true,
+    babies: true,
+  })
+  .extend({
+    // Every listed feature must be present on the villa
+    features: z.array(propertyFeatureKeyEnum).max(20).optional().default([]),
+  })
+  .strict()
+  .superRefine((data, ctx) => {
+    const start = new Date(`${data.startDate}T00:00:00.000Z`);
+    const end = new Date(`${data.endDate}T00:00:00.000Z`);
+
+    if (isNaN(start.getTime())) {
+      ctx.addIssue({ code: "custom", message: "Invalid start date", path: ["startDate"] });
+    }
+
+    if (isNaN(end.getTime())) {
+      ctx.addIssue({ code: "custom", message: "Invalid end date", path: ["endDate"] });
+    }
+
+    if (!isNaN(start.getTime()) && !isNaN(end.getTime()) && end <= start) {
+      ctx.addIssue({ code: "custom", message: "End date must be after start date", path: ["endDate"] });
+    }
+  });
+
+export type PropertySearchInput = z.infer<typeof propertySearchSchema>;
@@ -0,0 +1,104 @@
+import { z } from "zod";
+
+/* ===========================
+   TAX RULE KINDS
+   =========================== */
+
+export const taxRuleKindEnum = z.enum(["per_night", "per_stay", "percentage"]);
+
+const ymdRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const month = z.number().int().min(1).max(12);
+
+/*
+  PURE OBJECT SCHEMA
+  No superRefine, no transform, no refine.
+  Safe for .omit() and .partial().
+*/
+export const taxRuleObjectSchema = z
+  .object({
+    name: z.string().min(2, "Name is required").max(80),
+    kind: taxRuleKindEnum,
+
+    // per_night / per_stay
+    amountCents: z.number().int().min(0).optional().nullable(),
+    // percentage (bps of accommodation)
+    rateBps: z.number().int().min(0).max(10000).optional().nullable(),
+
+    // Scope (null = any)
+    propertyId: z.number().int().positive().optional().nullable(),
+    propertyCategory: z.string().min(1).max(40).optional().nullable(),
+
+    // Seasonal window (inclusive months, may wrap the year end: 11..3)
+    seasonStartMonth: month.optional().nullable(),
+    seasonEndMonth: month.optional().nullable(),
+
+    // Legal validity window (YYYY-MM-DD, end exclusive)
+    validFrom: z.string().regex(ymdRegex, "Must be YYYY-MM-DD").optional().nullable(),
+    validTo: z.string().regex(ymdRegex, "Must be YYYY-MM-DD").optional().nullable(),
+
+    isActive: z.boolean().optional().default(true),
+    notes: z.string().max(500).optional().nullable(),
+  })
+  .strict();
+
+type TaxRuleShape = Partial<z.infer<typeof taxRuleObjectSchema>>;
+
+/**
+ * Cross-field rules shared by create + update.
+ * For updates only the fields present in the patch are checked.
+ */
+function validateTaxRule(data: TaxRuleShape, ctx: z.RefinementCtx) {
+  if ((data.kind === "per_night" || data.kind === "per_stay") && data.amountCents == null) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Amount is required for per-night and per-stay rules",
+      path: ["amountCents"],
+    });
+  }
+
+  if (data.kind === "percentage" && data.rateBps == null) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Rate is required for percentage rules",
+      path: ["rateBps"],
+    });
+  }
+
+  if ((data.seasonStartMonth == null) !== (data.seasonEndMonth == null)) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Season needs both a start and an end month",
+      path: ["seasonEndMonth"],
+    });
+  }
+
+  if (data.validFrom && data.validTo && data.validTo <= data.validFrom) {
+    ctx.addIssue({
+      code: "custom",
+      message: "Valid to must be after valid from",
+      path: ["validTo"],
+    });
+  }
+}
+
+/*
+  CREATE SCHEMA
+*/
+export const createTaxRuleSchema = taxRuleObjectSchema.superRefine(validateTaxRule);
+
+/*
+  UPDATE SCHEMA
+*/
+export const updateTaxRuleSchema = taxRuleObjectSchema.partial().superRefine(validateTaxRule);
+
+/*
+  MONTHLY REPORT QUERY
+*/
+export const taxReportQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/, "Month must be YYYY-MM"),
+});
+
+export type TaxRuleKind = z.infer<typeof taxRuleKindEnum>;
+export type CreateTaxRuleInput = z.infer<typeof createTaxRuleSchema>;
+export type UpdateTaxRuleInput = z.infer<typeof updateTaxRuleSchema>;
@@ -0,0 +1,64 @@
+import { z } from "zod";
+
+/* ===========================
+   ADMIN CREDIT VOUCHERS
+   =========================== */
+
+const ymdRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+const ymd = z.string().regex(ymdRegex, "Must be YYYY-MM-DD");
+
+const reason = z
+  .string()
+  .trim()
+  .min(3, "A reason is required")
+  .max(500, "Reason is too long");
+
+/**
+ * Manual issue to a customer account (looked up by email).
+ * No expiresAt -> the default validity period (backend VOUCHER_VALIDITY_DAYS).
+ */
+export const issueVoucherSchema = z
+  .object({
+    userEmail: z.string().trim().email("Invalid email"),
+    amountCents: z.number().int().positive("Amount must be positive").max(1_000_000),
+    expiresAt: ymd.optional(),
+    reason,
+  })
+  .strict();
+
+/**
+ * New expiry date (also reactivates an expired voucher with its forfeited balance).
+ */
+export const extendVoucherSchema = z
+  .object({
+    expiresAt: ymd,
+    reason: reason.optional(),
+  })
+  .strict();
+
+export const revokeVoucherSchema = z
+  .object({
+    reason,
+  })
+  .strict();
+
+/**
+ * Signed balance change: > 0 adds credit, < 0 removes it.
+ */
+export const adjustVoucherSchema = z
+  .object({
+    deltaCents: z
+      .number()
+      .int()
+      .min(-1_000_000)
+      .max(1_000_000)
+      .refine((v) => v !== 0, "Amount cannot be 0"),
+    reason,
+  })
+  .strict();
+
+export type IssueVoucherInput = z.infer<typeof issueVoucherSchema>;
+export type ExtendVoucherInput = z.infer<typeof extendVoucherSchema>;
+export type RevokeVoucherInput = z.infer<typeof revokeVoucherSchema>;
+export type AdjustVoucherInput = z.infer<typeof adjustVoucherSchema>;